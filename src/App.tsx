@@ -16,16 +16,22 @@ import Station from "./pages/Station";
 import Cashier from "./pages/Cashier";
 import Manager from "./pages/Manager";
 import Bar from "./pages/Bar";
+import Expo from "./pages/Expo";
 import { AdminLayout } from "./pages/admin/AdminLayout";
 import { AdminEvents } from "./pages/admin/Events";
 import { AdminMenu } from "./pages/admin/Menu";
 import AdminInventory from "./pages/admin/Inventory";
 import { AdminStaff } from "./pages/admin/Staff";
 import { AdminReports } from "./pages/admin/Reports";
+import { AdminShifts } from "./pages/admin/Shifts";
+import { AdminRoster } from "./pages/admin/Roster";
+import { AdminPurchasing } from "./pages/admin/Purchasing";
 import AdminSettings from "./pages/admin/Settings";
 import AdminTables from "./pages/admin/Tables";
 import AdminAnalytics from "./pages/admin/Analytics";
+import { AdminKitchenDisplays } from "./pages/admin/KitchenDisplays";
 import KitchenDisplay from "./pages/KitchenDisplay";
+import KdsScreen from "./pages/KdsScreen";
 import Documentation from "./pages/Documentation";
 import ChangelogReport from "./pages/ChangelogReport";
 import NotFound from "./pages/NotFound";
@@ -52,7 +58,9 @@ const App = () => (
           <Route path="/cashier" element={<Cashier />} />
           <Route path="/manager" element={<Manager />} />
           <Route path="/bar" element={<Bar />} />
+          <Route path="/expo" element={<Expo />} />
           <Route path="/kds" element={<KitchenDisplay />} />
+          <Route path="/kds/screen" element={<KdsScreen />} />
           <Route path="/docs" element={<Documentation />} />
           <Route path="/changelog" element={<ChangelogReport />} />
           <Route path="/admin" element={<AdminLayout />}>
@@ -61,9 +69,13 @@ const App = () => (
             <Route path="menu" element={<AdminMenu />} />
             <Route path="inventory" element={<AdminInventory />} />
             <Route path="tables" element={<AdminTables />} />
+            <Route path="kds" element={<AdminKitchenDisplays />} />
             <Route path="staff" element={<AdminStaff />} />
+            <Route path="roster" element={<AdminRoster />} />
+            <Route path="purchasing" element={<AdminPurchasing />} />
             <Route path="analytics" element={<AdminAnalytics />} />
             <Route path="reports" element={<AdminReports />} />
+            <Route path="shifts" element={<AdminShifts />} />
             <Route path="settings" element={<AdminSettings />} />
           </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
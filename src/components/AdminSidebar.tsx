@@ -1,4 +1,4 @@
-import { Calendar, Users, UtensilsCrossed, BarChart3, Settings, Package, Table2, TrendingUp, Tags } from "lucide-react";
+import { Calendar, Users, UtensilsCrossed, BarChart3, Settings, Package, Table2, TrendingUp, Tags, Wallet, CalendarClock, Truck, Monitor } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useLocation } from "react-router-dom";
 import {
@@ -17,10 +17,14 @@ const adminItems = [
   { title: "Events", url: "/admin/events", icon: Calendar },
   { title: "Menu Items", url: "/admin/menu", icon: UtensilsCrossed },
   { title: "Inventory", url: "/admin/inventory", icon: Package },
+  { title: "Purchasing", url: "/admin/purchasing", icon: Truck },
   { title: "Tables", url: "/admin/tables", icon: Table2 },
+  { title: "Kitchen Displays", url: "/admin/kds", icon: Monitor },
   { title: "Staff & Roles", url: "/admin/staff", icon: Users },
+  { title: "Roster", url: "/admin/roster", icon: CalendarClock },
   { title: "Analytics", url: "/admin/analytics", icon: TrendingUp },
   { title: "Reports", url: "/admin/reports", icon: BarChart3 },
+  { title: "Cash Shifts", url: "/admin/shifts", icon: Wallet },
   { title: "Settings", url: "/admin/settings", icon: Settings },
 ];
 
@@ -0,0 +1,439 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, Printer, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import {
+  CashierShift,
+  CashMovement,
+  CashMovementType,
+  CASH_MOVEMENT_LABELS,
+  formatOverShort,
+  printZReport,
+} from "@/lib/cashierShifts";
+
+interface CashierShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: CashierShift | null;
+  cashierId: string;
+  cashierName: string | null;
+  tenantId: string;
+  onShiftChange: () => void;
+}
+
+export function CashierShiftDialog({
+  open,
+  onOpenChange,
+  shift,
+  cashierId,
+  cashierName,
+  tenantId,
+  onShiftChange,
+}: CashierShiftDialogProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movementType, setMovementType] = useState<CashMovementType>("drop");
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closeNotes, setCloseNotes] = useState("");
+  const [closedShift, setClosedShift] = useState<CashierShift | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setOpeningFloat("");
+      setMovementAmount("");
+      setMovementReason("");
+      setCountedCash("");
+      setCloseNotes("");
+      setClosedShift(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (open && shift) {
+      fetchMovements(shift.id);
+    }
+  }, [open, shift?.id]);
+
+  const fetchMovements = async (shiftId: string) => {
+    const { data, error } = await supabase
+      .from("cash_movements")
+      .select("id, movement_type, amount, reason, created_at")
+      .eq("shift_id", shiftId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching cash movements:", error);
+      return;
+    }
+
+    setMovements(data || []);
+  };
+
+  const handleOpenShift = async () => {
+    setProcessing(true);
+    try {
+      const { data: events } = await supabase
+        .from("events")
+        .select("id")
+        .eq("is_active", true)
+        .order("event_date", { ascending: false })
+        .limit(1);
+
+      const { error } = await supabase.from("cashier_shifts").insert({
+        tenant_id: tenantId,
+        cashier_id: cashierId,
+        event_id: events?.[0]?.id || null,
+        opening_float: parseFloat(openingFloat) || 0,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Shift opened",
+        description: `Opening float ${formatPrice(parseFloat(openingFloat) || 0)}`,
+      });
+
+      onShiftChange();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error opening shift",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!shift) return;
+    const amount = parseFloat(movementAmount) || 0;
+    if (amount <= 0) return;
+
+    setProcessing(true);
+    try {
+      const { error } = await supabase.from("cash_movements").insert({
+        tenant_id: tenantId,
+        shift_id: shift.id,
+        movement_type: movementType,
+        amount,
+        reason: movementReason.trim() || null,
+        created_by: cashierId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: `${CASH_MOVEMENT_LABELS[movementType]} recorded`,
+        description: `${formatPrice(amount)} taken out of the drawer`,
+      });
+
+      setMovementAmount("");
+      setMovementReason("");
+      await fetchMovements(shift.id);
+    } catch (error) {
+      toast({
+        title: "Error recording cash movement",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!shift || countedCash === "") return;
+
+    setProcessing(true);
+    try {
+      const { error } = await supabase.rpc("close_cashier_shift", {
+        _shift_id: shift.id,
+        _counted_cash: parseFloat(countedCash) || 0,
+        _notes: closeNotes || undefined,
+      });
+
+      if (error) throw error;
+
+      const { data, error: shiftError } = await supabase
+        .from("cashier_shifts")
+        .select("id, event_id, cashier_id, status, opening_float, counted_cash, expected_cash, over_short, notes, opened_at, closed_at")
+        .eq("id", shift.id)
+        .single();
+
+      if (shiftError) throw shiftError;
+
+      setClosedShift(data);
+      onShiftChange();
+    } catch (error) {
+      toast({
+        title: "Error closing shift",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePrintZReport = async (reportShift: CashierShift) => {
+    try {
+      const { data: totals, error } = await supabase.rpc("get_cashier_shift_totals", {
+        _shift_id: reportShift.id,
+      });
+
+      if (error) throw error;
+
+      let eventName: string | null = null;
+      if (reportShift.event_id) {
+        const { data: event } = await supabase
+          .from("events")
+          .select("name")
+          .eq("id", reportShift.event_id)
+          .single();
+        eventName = event?.name || null;
+      }
+
+      printZReport({
+        shift: reportShift,
+        cashierName: cashierName || "Cashier",
+        eventName,
+        totals: totals || [],
+        movements,
+        formatPrice,
+      });
+    } catch (error) {
+      toast({
+        title: "Error printing Z-report",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Closed: show the result of the blind count
+  if (closedShift) {
+    const overShort = Number(closedShift.over_short || 0);
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Shift Closed</DialogTitle>
+            <DialogDescription>
+              {new Date(closedShift.opened_at).toLocaleTimeString()} - {closedShift.closed_at ? new Date(closedShift.closed_at).toLocaleTimeString() : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Expected in drawer</span>
+              <span className="font-medium">{formatPrice(Number(closedShift.expected_cash || 0))}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Counted</span>
+              <span className="font-medium">{formatPrice(Number(closedShift.counted_cash || 0))}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between text-lg font-bold">
+              <span>Over/Short</span>
+              <span className={Math.abs(overShort) < 0.005 ? "text-success" : "text-destructive"}>
+                {formatOverShort(overShort, formatPrice)}
+              </span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+            <Button onClick={() => handlePrintZReport(closedShift)}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Z-Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  // No open shift: start one with a float
+  if (!shift) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Open Shift</DialogTitle>
+            <DialogDescription>
+              Count the cash in the drawer before taking payments.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Opening Float</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+              Cancel
+            </Button>
+            <Button onClick={handleOpenShift} disabled={processing}>
+              {processing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Wallet className="mr-2 h-4 w-4" />
+              )}
+              Open Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Current Shift</DialogTitle>
+          <DialogDescription>
+            Opened {new Date(shift.opened_at).toLocaleTimeString()} with a float of {formatPrice(Number(shift.opening_float))}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3">
+            <h4 className="font-medium">Drops & Paid-outs</h4>
+            {movements.length > 0 && (
+              <div className="space-y-1">
+                {movements.map(movement => (
+                  <div key={movement.id} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {CASH_MOVEMENT_LABELS[movement.movement_type as CashMovementType]}
+                      {movement.reason && ` • ${movement.reason}`}
+                    </span>
+                    <span className="font-medium">-{formatPrice(Number(movement.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Select value={movementType} onValueChange={(value) => setMovementType(value as CashMovementType)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CASH_MOVEMENT_LABELS) as CashMovementType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {CASH_MOVEMENT_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                placeholder="0.00"
+                className="w-28"
+              />
+              <Input
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder={movementType === "paid_out" ? "e.g., Ice supplier" : "Reason"}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddMovement}
+              disabled={processing || !(parseFloat(movementAmount) > 0)}
+            >
+              Record {CASH_MOVEMENT_LABELS[movementType]}
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div>
+              <h4 className="font-medium">Close Shift</h4>
+              <p className="text-sm text-muted-foreground">
+                Count all cash in the drawer. The expected amount is shown after closing.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Counted Cash *</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes (Optional)</Label>
+              <Textarea
+                value={closeNotes}
+                onChange={(e) => setCloseNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button onClick={handleCloseShift} disabled={processing || countedCash === ""}>
+            {processing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Lock className="mr-2 h-4 w-4" />
+            )}
+            Close Shift
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
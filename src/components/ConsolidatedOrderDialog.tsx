@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Loader2, DollarSign, X, Printer, Split } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { OrderCharge, formatChargeLabel } from "@/lib/orderCharges";
+import { OrderDiscount, formatDiscountLabel, getDiscountTotal } from "@/lib/orderDiscounts";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { SplitPaymentDialog } from "@/components/SplitPaymentDialog";
@@ -45,6 +47,8 @@ interface Order {
       name: string;
     };
   }>;
+  order_charges?: OrderCharge[];
+  order_discounts?: OrderDiscount[];
 }
 
 interface ConsolidatedOrderDialogProps {
@@ -86,6 +90,23 @@ export const ConsolidatedOrderDialog = ({
   );
   const tableNumber = orders[0]?.table_number || 'N/A';
 
+  // Tax and service charge lines combined across orders
+  const consolidatedCharges = Object.values(
+    orders
+      .flatMap(order => order.order_charges || [])
+      .reduce((acc: Record<string, { label: string; amount: number }>, charge) => {
+        const label = formatChargeLabel(charge);
+        if (!acc[label]) acc[label] = { label, amount: 0 };
+        acc[label].amount += Number(charge.amount);
+        return acc;
+      }, {})
+  );
+
+  const consolidatedDiscounts = orders.reduce((sum, order) => sum + getDiscountTotal(order.order_discounts), 0);
+
+  const getDiscountLabel = (order: Order, discount: OrderDiscount) =>
+    formatDiscountLabel(discount, order.order_items?.find(item => item.id === discount.order_item_id)?.menu_item?.name);
+
   const getSplitTotal = () => {
     const cash = parseFloat(splitAmounts.cash || "0");
     const pos = parseFloat(splitAmounts.pos || "0");
@@ -327,6 +348,18 @@ export const ConsolidatedOrderDialog = ({
                   <span class="item-price">${formatPrice(item.price * item.quantity)}</span>
                 </div>
               `).join('') || ''}
+              ${order.order_discounts?.map(discount => `
+                <div class="item">
+                  <span class="item-name">${getDiscountLabel(order, discount)}</span>
+                  <span class="item-price">-${formatPrice(Number(discount.amount))}</span>
+                </div>
+              `).join('') || ''}
+              ${order.order_charges?.map(charge => `
+                <div class="item">
+                  <span class="item-name">${formatChargeLabel(charge)}</span>
+                  <span class="item-price">${formatPrice(Number(charge.amount))}</span>
+                </div>
+              `).join('') || ''}
               <div class="subtotal">
                 <span>Subtotal:</span>
                 <span>${formatPrice(order.total_amount)}</span>
@@ -424,6 +457,18 @@ export const ConsolidatedOrderDialog = ({
                           <span>{formatPrice(item.price * item.quantity)}</span>
                         </div>
                       ))}
+                      {order.order_discounts?.map((discount) => (
+                        <div key={discount.id} className="flex items-center justify-between text-xs text-success italic">
+                          <span>{getDiscountLabel(order, discount)}</span>
+                          <span>-{formatPrice(Number(discount.amount))}</span>
+                        </div>
+                      ))}
+                      {order.order_charges?.map((charge) => (
+                        <div key={`${charge.charge_type}-${charge.name}-${charge.rate}`} className="flex items-center justify-between text-xs text-muted-foreground italic">
+                          <span>{formatChargeLabel(charge)}</span>
+                          <span>{formatPrice(Number(charge.amount))}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -435,6 +480,16 @@ export const ConsolidatedOrderDialog = ({
           <div className="text-center py-4 border-y border-border bg-muted/30">
             <div className="text-3xl font-bold">{formatPrice(consolidatedTotal)}</div>
             <div className="text-sm text-muted-foreground">Grand Total ({orders.length} orders)</div>
+            {consolidatedCharges.length > 0 && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {consolidatedCharges.map(c => `${c.label}: ${formatPrice(c.amount)}`).join(' • ')}
+              </div>
+            )}
+            {consolidatedDiscounts > 0 && (
+              <div className="text-xs text-success mt-1">
+                Discounts & comps: -{formatPrice(consolidatedDiscounts)}
+              </div>
+            )}
           </div>
 
           {/* Payment Section */}
@@ -4,12 +4,14 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { AlertTriangle, Bell, ChevronDown, ChevronUp, Clock, Package, RefreshCw, X } from "lucide-react";
+import { AlertTriangle, Bell, ChevronDown, ChevronUp, Clock, Hourglass, Package, PackagePlus, RefreshCw, X } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { isRestockOverdue } from "@/lib/restock";
+import { fetchStockForecast, fetchStockoutHorizon } from "@/lib/stockForecast";
 
 interface CriticalAlert {
   id: string;
-  type: 'urgent_order' | 'out_of_stock' | 'delayed_order' | 'return';
+  type: 'urgent_order' | 'out_of_stock' | 'delayed_order' | 'return' | 'restock_request' | 'stockout_forecast';
   title: string;
   message: string;
   severity: 'high' | 'medium' | 'low';
@@ -25,31 +27,10 @@ interface CriticalAlertsProps {
 
 export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsProps) => {
   const [alerts, setAlerts] = useState<CriticalAlert[]>([]);
-  const [tableNumbers, setTableNumbers] = useState<string[]>([]);
   const [isOpen, setIsOpen] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
 
-  // Fetch tables in assigned zones
-  useEffect(() => {
-    const fetchZoneTables = async () => {
-      if (!zoneIds || zoneIds.length === 0) {
-        setTableNumbers([]);
-        return;
-      }
-
-      const { data } = await supabase
-        .from('tables')
-        .select('table_number')
-        .eq('event_id', eventId)
-        .in('zone_id', zoneIds);
-
-      setTableNumbers(data?.map(t => t.table_number) || []);
-    };
-
-    fetchZoneTables();
-  }, [eventId, zoneIds]);
-
   useEffect(() => {
     checkForAlerts();
 
@@ -81,50 +62,79 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
         },
         () => checkForAlerts()
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'inventory_zone_allocations',
+        },
+        () => checkForAlerts()
+      )
+      .subscribe();
+
+    const restockChannel = supabase
+      .channel('critical-restock')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'restock_requests',
+        },
+        () => checkForAlerts()
+      )
       .subscribe();
 
     return () => {
       clearInterval(interval);
       supabase.removeChannel(ordersChannel);
       supabase.removeChannel(menuChannel);
+      supabase.removeChannel(restockChannel);
     };
-  }, [eventId, tenantId, tableNumbers]);
+  }, [eventId, tenantId, zoneIds]);
 
   const checkForAlerts = async () => {
     const newAlerts: CriticalAlert[] = [];
+    const isZoneScoped = !!zoneIds && zoneIds.length > 0;
+    // Only require a table when scoping by zone, so unassigned orders still alert event-wide
+    const tableJoin = isZoneScoped ? 'tables!orders_table_id_fkey!inner' : 'tables!orders_table_id_fkey';
 
-    // Check for delayed orders (>15 minutes in pending/dispatched)
+    // Check for delayed orders (past each item's own prep target)
     let delayedOrdersQuery = supabase
       .from('order_items')
       .select(`
         id,
         created_at,
+        fired_at,
+        prep_target_minutes,
         status,
-        orders!inner(order_number, table_number, event_id)
+        orders!inner(order_number, table_number, event_id, table:${tableJoin}(zone_id))
       `)
       .eq('tenant_id', tenantId)
       .eq('orders.event_id', eventId)
       .in('status', ['pending', 'dispatched'])
-      .lt('created_at', new Date(Date.now() - 15 * 60 * 1000).toISOString());
+      .eq('is_held', false);
 
-    if (zoneIds && zoneIds.length > 0 && tableNumbers.length > 0) {
-      delayedOrdersQuery = delayedOrdersQuery.in('orders.table_number', tableNumbers);
-    } else if (zoneIds && zoneIds.length > 0 && tableNumbers.length === 0) {
-      setAlerts([]);
-      return;
+    if (isZoneScoped) {
+      delayedOrdersQuery = delayedOrdersQuery.in('orders.table.zone_id', zoneIds);
     }
 
     const { data: delayedOrders } = await delayedOrdersQuery;
 
     if (delayedOrders && delayedOrders.length > 0) {
       delayedOrders.forEach((order: any) => {
+        const startedAt = order.fired_at || order.created_at;
+        const waitingMinutes = Math.floor((Date.now() - new Date(startedAt).getTime()) / 60000);
+        if (waitingMinutes <= order.prep_target_minutes) return;
+
         newAlerts.push({
           id: `delay-${order.id}`,
           type: 'delayed_order',
           title: 'Delayed Order',
-          message: `Order ${order.orders.order_number} (Table ${order.orders.table_number}) has been pending for over 15 minutes`,
+          message: `Order ${order.orders.order_number} (Table ${order.orders.table_number}) has been pending for ${waitingMinutes} minutes, over its ${order.prep_target_minutes} minute target`,
           severity: 'high',
-          timestamp: order.created_at,
+          timestamp: startedAt,
           metadata: order,
         });
       });
@@ -167,6 +177,52 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
       });
     }
 
+    // Check for items out of stock in a single zone
+    let zoneOutOfStockQuery = supabase
+      .from('inventory_zone_allocations')
+      .select('menu_item_id, zone_id, unavailable_at, menu_items(name, category), zones(name)')
+      .eq('event_id', eventId)
+      .eq('is_available', false);
+
+    if (isZoneScoped) {
+      zoneOutOfStockQuery = zoneOutOfStockQuery.in('zone_id', zoneIds);
+    }
+
+    const { data: zoneOutOfStock } = await zoneOutOfStockQuery;
+
+    (zoneOutOfStock || []).forEach((allocation) => {
+      newAlerts.push({
+        id: `stock-${allocation.menu_item_id}-${allocation.zone_id}`,
+        type: 'out_of_stock',
+        title: 'Out of Stock in Zone',
+        message: `${allocation.menu_items?.name || 'Item'} is unavailable in ${allocation.zones?.name || 'a zone'}`,
+        severity: 'medium',
+        timestamp: allocation.unavailable_at || new Date().toISOString(),
+        metadata: allocation,
+      });
+    });
+
+    // Check for zone stock forecast to run out within the tenant's horizon
+    const [forecast, horizon] = await Promise.all([
+      fetchStockForecast(eventId, zoneIds),
+      fetchStockoutHorizon(tenantId),
+    ]);
+
+    forecast
+      .filter(f => f.remaining > 0 && f.minutes_until_stockout !== null && f.minutes_until_stockout <= horizon)
+      .forEach((f) => {
+        const minutes = f.minutes_until_stockout ?? 0;
+        newAlerts.push({
+          id: `forecast-${f.menu_item_id}-${f.zone_id}`,
+          type: 'stockout_forecast',
+          title: 'Running Low',
+          message: `${f.item_name} in ${f.zone_name} runs out in about ${minutes} minutes (${f.remaining} left)`,
+          severity: minutes <= horizon / 2 ? 'high' : 'medium',
+          timestamp: new Date().toISOString(),
+          metadata: f,
+        });
+      });
+
     // Check for recent returns
     let returnsQuery = supabase
       .from('order_returns')
@@ -176,7 +232,7 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
         created_at,
         order_items!inner(
           menu_items(name),
-          orders!inner(table_number, event_id)
+          orders!inner(table_number, event_id, table:${tableJoin}(zone_id))
         )
       `)
       .eq('tenant_id', tenantId)
@@ -184,11 +240,8 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
       .is('confirmed_at', null)
       .gte('created_at', new Date(Date.now() - 30 * 60 * 1000).toISOString());
 
-    if (zoneIds && zoneIds.length > 0 && tableNumbers.length > 0) {
-      returnsQuery = returnsQuery.in('order_items.orders.table_number', tableNumbers);
-    } else if (zoneIds && zoneIds.length > 0 && tableNumbers.length === 0) {
-      setAlerts(newAlerts);
-      return;
+    if (isZoneScoped) {
+      returnsQuery = returnsQuery.in('order_items.orders.table.zone_id', zoneIds);
     }
 
     const { data: returns } = await returnsQuery;
@@ -207,6 +260,34 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
       });
     }
 
+    // Check for open restock requests from stations
+    let restockQuery = supabase
+      .from('restock_requests')
+      .select('id, status, quantity_requested, requested_at, menu_items(name), zones!restock_requests_zone_id_fkey(name)')
+      .eq('tenant_id', tenantId)
+      .eq('event_id', eventId)
+      .in('status', ['pending', 'acknowledged']);
+
+    if (isZoneScoped) {
+      restockQuery = restockQuery.in('zone_id', zoneIds);
+    }
+
+    const { data: restockRequests } = await restockQuery;
+
+    if (restockRequests && restockRequests.length > 0) {
+      restockRequests.forEach((request) => {
+        newAlerts.push({
+          id: `restock-${request.id}`,
+          type: 'restock_request',
+          title: request.status === 'acknowledged' ? 'Restock On The Way' : 'Restock Requested',
+          message: `${request.zones?.name || 'A zone'} needs ${request.quantity_requested} × ${request.menu_items?.name || 'item'}`,
+          severity: isRestockOverdue(request) ? 'high' : 'medium',
+          timestamp: request.requested_at,
+          metadata: request,
+        });
+      });
+    }
+
     // Filter out dismissed alerts, but only keep dismissals for alerts that still exist
     const newAlertIds = new Set(newAlerts.map(a => a.id));
     setDismissedIds(prev => {
@@ -244,6 +325,10 @@ export const CriticalAlerts = ({ eventId, tenantId, zoneIds }: CriticalAlertsPro
         return <Package className="w-4 h-4 shrink-0" />;
       case 'return':
         return <AlertTriangle className="w-4 h-4 shrink-0" />;
+      case 'restock_request':
+        return <PackagePlus className="w-4 h-4 shrink-0" />;
+      case 'stockout_forecast':
+        return <Hourglass className="w-4 h-4 shrink-0" />;
       default:
         return <AlertTriangle className="w-4 h-4 shrink-0" />;
     }
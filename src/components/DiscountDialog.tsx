@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Percent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ManagerApprovalInput } from "@/components/ManagerApprovalInput";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { DiscountType, DISCOUNT_TYPE_LABELS } from "@/lib/orderDiscounts";
+
+interface DiscountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: {
+    id: string;
+    order_number: string;
+    total_amount: number;
+    items: Array<{
+      id: string;
+      name: string;
+      quantity: number;
+      price: number;
+    }>;
+  } | null;
+  onApplied: (newTotal: number) => void;
+}
+
+const WHOLE_ORDER = "__order__";
+
+export function DiscountDialog({
+  open,
+  onOpenChange,
+  order,
+  onApplied,
+}: DiscountDialogProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [discountType, setDiscountType] = useState<DiscountType>("percentage");
+  const [value, setValue] = useState("");
+  const [itemId, setItemId] = useState(WHOLE_ORDER);
+  const [reason, setReason] = useState("");
+  const [managerId, setManagerId] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDiscountType("percentage");
+      setValue("");
+      setItemId(WHOLE_ORDER);
+      setReason("");
+      setManagerId("");
+      setManagerPin("");
+    }
+  }, [open, order?.id]);
+
+  if (!order) return null;
+
+  const isComp = discountType === "comp";
+  const numericValue = parseFloat(value) || 0;
+  const canSubmit =
+    reason.trim().length > 0 &&
+    (isComp ? !!itemId && itemId !== WHOLE_ORDER : numericValue > 0 && (discountType !== "percentage" || numericValue <= 100));
+
+  const handleTypeChange = (type: DiscountType) => {
+    setDiscountType(type);
+    setValue("");
+    // A comp always targets one item; other discounts default back to the whole order
+    if (type === "comp" && itemId === WHOLE_ORDER) {
+      setItemId(order.items.length === 1 ? order.items[0].id : "");
+    } else if (type !== "comp" && !itemId) {
+      setItemId(WHOLE_ORDER);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!canSubmit) return;
+
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.rpc("apply_order_discount", {
+        _order_id: order.id,
+        _discount_type: discountType,
+        _reason: reason.trim(),
+        _value: isComp ? undefined : numericValue,
+        _order_item_id: itemId === WHOLE_ORDER ? undefined : itemId,
+        _manager_pin: managerPin || undefined,
+        _manager_id: managerId || undefined,
+      });
+
+      if (error) throw error;
+      if (data === null) throw new Error("Invalid manager PIN");
+
+      toast({
+        title: isComp ? "Item comped" : "Discount applied",
+        description: `${order.order_number} total is now ${formatPrice(Number(data))}`,
+      });
+
+      onApplied(Number(data));
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error applying discount",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Discount or Comp - {order.order_number}</DialogTitle>
+          <DialogDescription>
+            Current total {formatPrice(order.total_amount)}. Requires manager approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={discountType}
+            onValueChange={(type) => handleTypeChange(type as DiscountType)}
+            className="grid grid-cols-3 gap-2"
+          >
+            {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map(type => (
+              <Label
+                key={type}
+                htmlFor={`discount-${type}`}
+                className="flex items-center gap-2 p-2 border rounded-md cursor-pointer text-sm"
+              >
+                <RadioGroupItem value={type} id={`discount-${type}`} />
+                {DISCOUNT_TYPE_LABELS[type]}
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label>{isComp ? "Item to comp *" : "Apply to"}</Label>
+            <Select value={itemId} onValueChange={setItemId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select item" />
+              </SelectTrigger>
+              <SelectContent>
+                {!isComp && <SelectItem value={WHOLE_ORDER}>Whole order</SelectItem>}
+                {order.items.map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.quantity}x {item.name} • {formatPrice(item.price * item.quantity)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!isComp && (
+            <div className="space-y-2">
+              <Label>{discountType === "percentage" ? "Percentage *" : "Amount *"}</Label>
+              <Input
+                type="number"
+                min="0"
+                max={discountType === "percentage" ? "100" : undefined}
+                step={discountType === "percentage" ? "1" : "0.01"}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={discountType === "percentage" ? "e.g., 10" : "0.00"}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Long wait, VIP guest, staff meal..."
+              rows={2}
+            />
+          </div>
+
+          <ManagerApprovalInput
+            id="discount-manager"
+            managerId={managerId}
+            onManagerIdChange={setManagerId}
+            pin={managerPin}
+            onPinChange={setManagerPin}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={processing || !canSubmit}>
+            {processing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              <>
+                <Percent className="mr-2 h-4 w-4" />
+                {isComp ? "Comp Item" : "Apply Discount"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -78,6 +78,7 @@ export const FloorMap = ({ eventId, tenantId }: FloorMapProps) => {
       meal_dispenser: 'bg-red-500',
       mixologist: 'bg-pink-500',
       event_manager: 'bg-cyan-500',
+      expo: 'bg-teal-500',
     };
     return colors[role] || 'bg-gray-500';
   };
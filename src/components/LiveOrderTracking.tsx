@@ -32,27 +32,6 @@ interface LiveOrderTrackingProps {
 
 export const LiveOrderTracking = ({ eventId, tenantId, zoneIds }: LiveOrderTrackingProps) => {
   const [activeOrders, setActiveOrders] = useState<OrderItem[]>([]);
-  const [tableNumbers, setTableNumbers] = useState<string[]>([]);
-
-  // Fetch tables in assigned zones
-  useEffect(() => {
-    const fetchZoneTables = async () => {
-      if (!zoneIds || zoneIds.length === 0) {
-        setTableNumbers([]);
-        return;
-      }
-
-      const { data } = await supabase
-        .from('tables')
-        .select('table_number')
-        .eq('event_id', eventId)
-        .in('zone_id', zoneIds);
-
-      setTableNumbers(data?.map(t => t.table_number) || []);
-    };
-
-    fetchZoneTables();
-  }, [eventId, zoneIds]);
 
   useEffect(() => {
     fetchActiveOrders();
@@ -75,9 +54,12 @@ export const LiveOrderTracking = ({ eventId, tenantId, zoneIds }: LiveOrderTrack
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [eventId, tenantId, tableNumbers]);
+  }, [eventId, tenantId, zoneIds]);
 
   const fetchActiveOrders = async () => {
+    const isZoneScoped = !!zoneIds && zoneIds.length > 0;
+    const tableJoin = isZoneScoped ? 'tables!orders_table_id_fkey!inner' : 'tables!orders_table_id_fkey';
+
     let query = supabase
       .from('order_items')
       .select(`
@@ -88,7 +70,7 @@ export const LiveOrderTracking = ({ eventId, tenantId, zoneIds }: LiveOrderTrack
         dispatched_at,
         ready_at,
         menu_items!inner(name, station_type),
-        orders!inner(order_number, table_number, guest_name, event_id)
+        orders!inner(order_number, table_number, guest_name, event_id, table:${tableJoin}(zone_id))
       `)
       .eq('tenant_id', tenantId)
       .eq('orders.event_id', eventId)
@@ -96,13 +78,9 @@ export const LiveOrderTracking = ({ eventId, tenantId, zoneIds }: LiveOrderTrack
       .order('created_at', { ascending: false })
       .limit(20);
 
-    // If zone filtering is enabled and we have table numbers
-    if (zoneIds && zoneIds.length > 0 && tableNumbers.length > 0) {
-      query = query.in('orders.table_number', tableNumbers);
-    } else if (zoneIds && zoneIds.length > 0 && tableNumbers.length === 0) {
-      // No tables in assigned zones, show empty
-      setActiveOrders([]);
-      return;
+    // If zone filtering is enabled, only orders at tables in those zones
+    if (isZoneScoped) {
+      query = query.in('orders.table.zone_id', zoneIds);
     }
 
     const { data } = await query;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ApprovalManager {
+  user_id: string;
+  full_name: string | null;
+}
+
+interface ManagerApprovalInputProps {
+  id: string;
+  managerId: string;
+  onManagerIdChange: (managerId: string) => void;
+  pin: string;
+  onPinChange: (pin: string) => void;
+}
+
+// The approving manager and their PIN, for staff who need approval
+export function ManagerApprovalInput({ id, managerId, onManagerIdChange, pin, onPinChange }: ManagerApprovalInputProps) {
+  const [managers, setManagers] = useState<ApprovalManager[]>([]);
+
+  useEffect(() => {
+    const fetchManagers = async () => {
+      const { data, error } = await supabase.rpc("get_approval_managers");
+
+      if (error) {
+        console.error("Error fetching approval managers:", error.message);
+        return;
+      }
+
+      setManagers(data || []);
+    };
+
+    fetchManagers();
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${id}-pin`}>Manager approval</Label>
+      <Select value={managerId} onValueChange={onManagerIdChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Not needed if you are a manager" />
+        </SelectTrigger>
+        <SelectContent>
+          {managers.map((manager) => (
+            <SelectItem key={manager.user_id} value={manager.user_id}>
+              {manager.full_name || "Unknown"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {managerId && (
+        <Input
+          id={`${id}-pin`}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={6}
+          value={pin}
+          onChange={(e) => onPinChange(e.target.value.replace(/\D/g, ""))}
+          placeholder="Manager PIN"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { MENU_ENGINEERING_CLASSES, MenuEngineeringClass, MenuItemSales, classifyMenuItems } from "@/lib/menuEngineering";
+
+interface MenuEngineeringMatrixProps {
+  items: MenuItemSales[];
+}
+
+const CLASS_STYLES: Record<MenuEngineeringClass, string> = {
+  star: "border-green-500/50 bg-green-500/5",
+  plowhorse: "border-yellow-500/50 bg-yellow-500/5",
+  puzzle: "border-blue-500/50 bg-blue-500/5",
+  dog: "border-destructive/50 bg-destructive/5",
+};
+
+const ALL_CATEGORIES = "all";
+
+export function MenuEngineeringMatrix({ items }: MenuEngineeringMatrixProps) {
+  const { formatPrice } = useTenantCurrency();
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+
+  const categories = [...new Set(items.map(item => item.category))].sort();
+  // Items are classified against the rest of their category when one is picked
+  const inScope = category === ALL_CATEGORIES ? items : items.filter(item => item.category === category);
+  const classified = classifyMenuItems(inScope);
+  const uncosted = inScope.filter(item => item.cost_price === null).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="text-xs text-muted-foreground">
+          {uncosted > 0
+            ? `${uncosted} ${uncosted === 1 ? 'item has' : 'items have'} no cost price and ${uncosted === 1 ? 'is' : 'are'} not classified`
+            : 'Popularity by share of units sold, profitability by gross profit per unit'}
+        </div>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+            {categories.map((c) => (
+              <SelectItem key={c} value={c}>
+                {c}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {classified.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No costed items sold yet
+        </div>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-2">
+          {MENU_ENGINEERING_CLASSES.map((cls) => {
+            const classItems = classified
+              .filter(item => item.classification === cls.value)
+              .sort((a, b) => b.gross_profit - a.gross_profit);
+            return (
+              <div key={cls.value} className={`border rounded-lg p-3 space-y-2 ${CLASS_STYLES[cls.value]}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{cls.label}</span>
+                  <Badge variant="outline">{classItems.length}</Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">{cls.description}</div>
+                {classItems.map((item) => (
+                  <div key={item.item_id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <div className="font-medium">{item.item_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {item.quantity} sold • {item.mix_percentage.toFixed(1)}% of mix
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-medium">{formatPrice(item.contribution)}/unit</div>
+                      <div className="text-xs text-muted-foreground">{item.margin_percentage.toFixed(1)}% margin</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import {
+  ModifierGroup,
+  SelectedModifier,
+  getModifiersTotal,
+  validateModifierSelection,
+} from "@/lib/modifiers";
+
+interface ModifierSelectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  menuItem: {
+    id: string;
+    name: string;
+    price: number;
+    modifier_groups: ModifierGroup[];
+  } | null;
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+}
+
+export function ModifierSelectionDialog({
+  open,
+  onOpenChange,
+  menuItem,
+  onConfirm,
+}: ModifierSelectionDialogProps) {
+  const { formatPrice } = useTenantCurrency();
+  const [selectedOptionIds, setSelectedOptionIds] = useState<string[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedOptionIds([]);
+      setValidationError(null);
+    }
+  }, [open, menuItem?.id]);
+
+  if (!menuItem) return null;
+
+  const groups = menuItem.modifier_groups;
+
+  const getSelectedModifiers = (): SelectedModifier[] => {
+    const selected: SelectedModifier[] = [];
+    groups.forEach(group => {
+      group.options
+        .filter(option => selectedOptionIds.includes(option.id))
+        .forEach(option => {
+          selected.push({
+            modifier_option_id: option.id,
+            group_name: group.name,
+            option_name: option.name,
+            price_delta: Number(option.price_delta),
+          });
+        });
+    });
+    return selected;
+  };
+
+  const handleSingleSelect = (group: ModifierGroup, optionId: string) => {
+    const groupOptionIds = group.options.map(o => o.id);
+    setSelectedOptionIds(prev => [...prev.filter(id => !groupOptionIds.includes(id)), optionId]);
+    setValidationError(null);
+  };
+
+  const handleToggle = (group: ModifierGroup, optionId: string, checked: boolean) => {
+    setSelectedOptionIds(prev => {
+      if (!checked) return prev.filter(id => id !== optionId);
+      const groupCount = group.options.filter(o => prev.includes(o.id)).length;
+      if (groupCount >= group.max_selections) return prev;
+      return [...prev, optionId];
+    });
+    setValidationError(null);
+  };
+
+  const handleConfirm = () => {
+    const error = validateModifierSelection(groups, selectedOptionIds);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+    onConfirm(getSelectedModifiers());
+    onOpenChange(false);
+  };
+
+  const unitPrice = Number(menuItem.price) + getModifiersTotal(getSelectedModifiers());
+
+  const formatDelta = (delta: number) => {
+    if (!delta) return null;
+    return delta > 0 ? `+${formatPrice(delta)}` : `-${formatPrice(Math.abs(delta))}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{menuItem.name}</DialogTitle>
+          <DialogDescription>Choose options for this item</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {groups.map(group => {
+            const isSingle = group.max_selections === 1;
+            const groupSelection = group.options.filter(o => selectedOptionIds.includes(o.id));
+
+            return (
+              <div key={group.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{group.name}</h4>
+                  <Badge variant={group.is_required ? "default" : "secondary"} className="text-xs">
+                    {group.is_required ? "Required" : "Optional"}
+                    {!isSingle && ` • up to ${group.max_selections}`}
+                  </Badge>
+                </div>
+
+                {isSingle ? (
+                  <RadioGroup
+                    value={groupSelection[0]?.id || ""}
+                    onValueChange={(value) => handleSingleSelect(group, value)}
+                  >
+                    {group.options.map(option => (
+                      <div key={option.id} className="flex items-center justify-between p-2 border rounded-md">
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value={option.id}
+                            id={`modifier-${option.id}`}
+                            disabled={!option.is_available}
+                          />
+                          <Label htmlFor={`modifier-${option.id}`} className={!option.is_available ? "text-muted-foreground line-through" : ""}>
+                            {option.name}
+                          </Label>
+                        </div>
+                        <span className="text-sm text-muted-foreground">{formatDelta(Number(option.price_delta))}</span>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="space-y-2">
+                    {group.options.map(option => (
+                      <div key={option.id} className="flex items-center justify-between p-2 border rounded-md">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`modifier-${option.id}`}
+                            checked={selectedOptionIds.includes(option.id)}
+                            disabled={!option.is_available}
+                            onCheckedChange={(checked) => handleToggle(group, option.id, !!checked)}
+                          />
+                          <Label htmlFor={`modifier-${option.id}`} className={!option.is_available ? "text-muted-foreground line-through" : ""}>
+                            {option.name}
+                          </Label>
+                        </div>
+                        <span className="text-sm text-muted-foreground">{formatDelta(Number(option.price_delta))}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>
+            Add • {formatPrice(unitPrice)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
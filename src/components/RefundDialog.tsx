@@ -0,0 +1,285 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { RefundablePayment, getRefundableAmounts } from "@/lib/refunds";
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: {
+    id: string;
+    order_number: string;
+  } | null;
+  // Set when refunding a returned item so the refund is tied to the return
+  orderReturn?: {
+    id: string;
+    item_name: string;
+    amount: number;
+  } | null;
+  onRefunded: () => void;
+}
+
+interface PaymentSummary {
+  total_amount: number;
+  total_paid: number;
+  total_refunded: number;
+  remaining_balance: number;
+}
+
+export function RefundDialog({
+  open,
+  onOpenChange,
+  order,
+  orderReturn,
+  onRefunded,
+}: RefundDialogProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [payments, setPayments] = useState<RefundablePayment[]>([]);
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
+  const [paymentId, setPaymentId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (open && order) {
+      setReason(orderReturn ? `Returned: ${orderReturn.item_name}` : "");
+      fetchPayments();
+    }
+  }, [open, order?.id, orderReturn?.id]);
+
+  const fetchPayments = async () => {
+    if (!order) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("id, amount, payment_method, created_at, guest_identifier, refund_of")
+        .eq("order_id", order.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const { data: summaryData } = await supabase
+        .rpc("get_order_payment_summary", { _order_id: order.id })
+        .single();
+
+      const rows = data || [];
+      const refundable = getRefundableAmounts(rows);
+      const firstRefundable = rows.find(p => (refundable[p.id] || 0) > 0);
+
+      setPayments(rows);
+      setSummary(summaryData);
+      setPaymentId(firstRefundable?.id || "");
+      setAmount(
+        firstRefundable
+          ? Math.min(orderReturn?.amount ?? refundable[firstRefundable.id], refundable[firstRefundable.id]).toFixed(2)
+          : ""
+      );
+    } catch (error) {
+      toast({
+        title: "Error loading payments",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!order) return null;
+
+  const refundable = getRefundableAmounts(payments);
+  const originalPayments = payments.filter(p => !p.refund_of);
+  const numericAmount = parseFloat(amount) || 0;
+  const maxAmount = refundable[paymentId] || 0;
+  const canSubmit = !!paymentId && numericAmount > 0 && numericAmount <= maxAmount && reason.trim().length > 0;
+
+  const handleRefund = async () => {
+    if (!canSubmit) return;
+
+    setProcessing(true);
+    try {
+      const { error } = await supabase.rpc("issue_refund", {
+        _payment_id: paymentId,
+        _amount: numericAmount,
+        _reason: reason.trim(),
+        _order_return_id: orderReturn?.id,
+      });
+
+      if (error) throw error;
+
+      const method = payments.find(p => p.id === paymentId)?.payment_method;
+      toast({
+        title: "Refund issued",
+        description: `${formatPrice(numericAmount)} refunded by ${method} on ${order.order_number}`,
+      });
+
+      onRefunded();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error issuing refund",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refund - {order.order_number}</DialogTitle>
+          <DialogDescription>
+            The refund is paid back by the same method as the payment it is taken from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {summary && (
+              <div className="grid grid-cols-3 gap-2 text-center py-3 border-y border-border">
+                <div>
+                  <div className="text-xs text-muted-foreground">Order Total</div>
+                  <div className="font-semibold">{formatPrice(summary.total_amount)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Net Paid</div>
+                  <div className="font-semibold">{formatPrice(summary.total_paid)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Refunded</div>
+                  <div className="font-semibold text-destructive">{formatPrice(summary.total_refunded)}</div>
+                </div>
+              </div>
+            )}
+
+            {originalPayments.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No payments recorded for this order
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label>Refund from payment</Label>
+                <RadioGroup
+                  value={paymentId}
+                  onValueChange={(id) => {
+                    setPaymentId(id);
+                    setAmount(Math.min(orderReturn?.amount ?? refundable[id], refundable[id]).toFixed(2));
+                  }}
+                  className="space-y-2"
+                >
+                  {originalPayments.map(payment => (
+                    <Label
+                      key={payment.id}
+                      htmlFor={`refund-${payment.id}`}
+                      className={`flex items-center justify-between gap-2 p-3 border rounded-md text-sm ${refundable[payment.id] > 0 ? "cursor-pointer" : "opacity-50"}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem
+                          value={payment.id}
+                          id={`refund-${payment.id}`}
+                          disabled={refundable[payment.id] <= 0}
+                        />
+                        <div>
+                          <div className="capitalize">
+                            {payment.payment_method}
+                            {payment.guest_identifier && ` • ${payment.guest_identifier}`}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(payment.created_at).toLocaleTimeString()}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-semibold">{formatPrice(payment.amount)}</div>
+                        {refundable[payment.id] < payment.amount && (
+                          <div className="text-xs text-muted-foreground">
+                            {formatPrice(refundable[payment.id])} left
+                          </div>
+                        )}
+                      </div>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Refund Amount *</Label>
+              <Input
+                type="number"
+                min="0"
+                max={maxAmount}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                disabled={!paymentId}
+              />
+              {numericAmount > maxAmount && (
+                <p className="text-xs text-destructive">
+                  At most {formatPrice(maxAmount)} can be refunded from this payment
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Item returned, overcharged..."
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleRefund} disabled={processing || loading || !canSubmit}>
+            {processing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Refunding...
+              </>
+            ) : (
+              <>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Issue Refund
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
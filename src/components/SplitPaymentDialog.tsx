@@ -32,6 +32,9 @@ import {
   Trash2,
 } from "lucide-react";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { OrderCharge, formatChargeLabel, getAddedChargesTotal } from "@/lib/orderCharges";
+import { OrderDiscount, formatDiscountLabel, getDiscountTotal } from "@/lib/orderDiscounts";
+import { TipInput } from "@/components/TipInput";
 
 interface OrderItem {
   id: string;
@@ -49,6 +52,8 @@ interface Order {
   table_number: string | null;
   guest_name: string | null;
   order_items?: OrderItem[];
+  order_charges?: OrderCharge[];
+  order_discounts?: OrderDiscount[];
 }
 
 interface PaymentSummary {
@@ -69,6 +74,7 @@ interface GuestSplit {
   id: string;
   name: string;
   amount: number;
+  tip: number;
   paymentMethod: string;
   paid: boolean;
 }
@@ -93,6 +99,7 @@ export function SplitPaymentDialog({
   
   // Full payment state
   const [paymentMethod, setPaymentMethod] = useState<string>("cash");
+  const [tipAmount, setTipAmount] = useState("");
   
   // By guest state
   const [guestCount, setGuestCount] = useState(2);
@@ -101,14 +108,36 @@ export function SplitPaymentDialog({
   // By item state
   const [itemSelections, setItemSelections] = useState<Record<string, ItemSelection>>({});
   const [currentItemPaymentMethod, setCurrentItemPaymentMethod] = useState<string>("cash");
+  const [itemTipAmount, setItemTipAmount] = useState("");
   
   // Custom split state
   const [customSplits, setCustomSplits] = useState<GuestSplit[]>([
-    { id: crypto.randomUUID(), name: "", amount: 0, paymentMethod: "cash", paid: false }
+    { id: crypto.randomUUID(), name: "", amount: 0, tip: 0, paymentMethod: "cash", paid: false }
   ]);
 
+  const itemsSubtotal = (order?.order_items || []).reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const charges = order?.order_charges || [];
+  const addedCharges = getAddedChargesTotal(charges);
+  const discounts = order?.order_discounts || [];
+  const discountTotal = getDiscountTotal(discounts);
+
+  // Items paid for individually carry their share of the discounts, tax and service charge
+  const getItemAmount = (price: number, quantity: number) => {
+    const chargeRatio = itemsSubtotal > 0 ? (addedCharges - discountTotal) / itemsSubtotal : 0;
+    return Math.round(price * quantity * (1 + chargeRatio) * 100) / 100;
+  };
+
+  const selectedItemsAmount = Object.values(itemSelections)
+    .filter((s) => s.selected && s.quantity > 0)
+    .reduce((sum, sel) => {
+      const item = order?.order_items.find((i) => i.id === sel.itemId);
+      return sum + (item ? getItemAmount(item.price, sel.quantity) : 0);
+    }, 0);
+
   useEffect(() => {
     if (order && open) {
+      setTipAmount("");
+      setItemTipAmount("");
       fetchPaymentSummary();
       initializeGuestSplits();
       initializeItemSelections();
@@ -142,6 +171,7 @@ export function SplitPaymentDialog({
       id: crypto.randomUUID(),
       name: `Guest ${i + 1}`,
       amount: perGuestAmount,
+      tip: 0,
       paymentMethod: "cash",
       paid: false,
     }));
@@ -187,6 +217,7 @@ export function SplitPaymentDialog({
       const { error } = await supabase.from("payments").insert({
         order_id: order.id,
         amount: paymentSummary.remaining_balance,
+        tip_amount: Math.max(parseFloat(tipAmount) || 0, 0),
         payment_method: paymentMethod as any,
         confirmed_by: user.id,
         tenant_id: profile.tenant_id,
@@ -241,6 +272,7 @@ export function SplitPaymentDialog({
       const { error } = await supabase.from("payments").insert({
         order_id: order.id,
         amount: guest.amount,
+        tip_amount: guest.tip,
         payment_method: guest.paymentMethod as any,
         confirmed_by: user.id,
         tenant_id: profile.tenant_id,
@@ -309,18 +341,14 @@ export function SplitPaymentDialog({
 
       if (!profile) throw new Error("Profile not found");
 
-      const totalAmount = selectedItems.reduce((sum, sel) => {
-        const item = order.order_items.find((i) => i.id === sel.itemId);
-        return sum + (item ? item.price * sel.quantity : 0);
-      }, 0);
-
       const splitSessionId = crypto.randomUUID();
 
       const { data: payment, error: paymentError } = await supabase
         .from("payments")
         .insert({
           order_id: order.id,
-          amount: totalAmount,
+          amount: selectedItemsAmount,
+          tip_amount: Math.max(parseFloat(itemTipAmount) || 0, 0),
           payment_method: currentItemPaymentMethod as any,
           confirmed_by: user.id,
           tenant_id: profile.tenant_id,
@@ -340,7 +368,7 @@ export function SplitPaymentDialog({
           payment_id: payment.id,
           order_item_id: sel.itemId,
           quantity: sel.quantity,
-          amount: item ? item.price * sel.quantity : 0,
+          amount: item ? getItemAmount(item.price, sel.quantity) : 0,
           tenant_id: profile.tenant_id,
         };
       });
@@ -358,6 +386,7 @@ export function SplitPaymentDialog({
 
       // Reset selections
       initializeItemSelections();
+      setItemTipAmount("");
       await fetchPaymentSummary();
     } catch (error: any) {
       toast({
@@ -391,6 +420,7 @@ export function SplitPaymentDialog({
       const { error } = await supabase.from("payments").insert({
         order_id: order.id,
         amount: split.amount,
+        tip_amount: split.tip,
         payment_method: split.paymentMethod as any,
         confirmed_by: user.id,
         tenant_id: profile.tenant_id,
@@ -426,7 +456,7 @@ export function SplitPaymentDialog({
   const addCustomSplit = () => {
     setCustomSplits([
       ...customSplits,
-      { id: crypto.randomUUID(), name: "", amount: 0, paymentMethod: "cash", paid: false },
+      { id: crypto.randomUUID(), name: "", amount: 0, tip: 0, paymentMethod: "cash", paid: false },
     ]);
   };
 
@@ -456,6 +486,31 @@ export function SplitPaymentDialog({
 
         <Card className="bg-muted">
           <CardContent className="pt-6 space-y-2">
+            {(charges.length > 0 || discounts.length > 0) && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Subtotal:</span>
+                  <span>{formatPrice(itemsSubtotal)}</span>
+                </div>
+                {discounts.map((discount) => (
+                  <div key={discount.id} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {formatDiscountLabel(
+                        discount,
+                        order.order_items?.find(item => item.id === discount.order_item_id)?.menu_item.name
+                      )}:
+                    </span>
+                    <span>-{formatPrice(Number(discount.amount))}</span>
+                  </div>
+                ))}
+                {charges.map((charge) => (
+                  <div key={`${charge.charge_type}-${charge.name}-${charge.rate}`} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">{formatChargeLabel(charge)}:</span>
+                    <span>{formatPrice(Number(charge.amount))}</span>
+                  </div>
+                ))}
+              </>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Total Amount:</span>
               <span className="font-semibold">{formatPrice(paymentSummary.total_amount)}</span>
@@ -510,6 +565,12 @@ export function SplitPaymentDialog({
                 </SelectContent>
               </Select>
             </div>
+            <TipInput
+              baseAmount={paymentSummary.remaining_balance}
+              value={tipAmount}
+              onChange={setTipAmount}
+              disabled={loading}
+            />
             <Button
               onClick={handleFullPayment}
               disabled={loading || paymentSummary.remaining_balance <= 0}
@@ -560,6 +621,20 @@ export function SplitPaymentDialog({
                           className="w-24"
                           disabled={guest.paid}
                         />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Tip"
+                          value={guest.tip || ""}
+                          onChange={(e) => {
+                            const updated = [...guestSplits];
+                            updated[index].tip = Math.max(parseFloat(e.target.value) || 0, 0);
+                            setGuestSplits(updated);
+                          }}
+                          className="w-20"
+                          disabled={guest.paid}
+                        />
                       </div>
                       {guest.paid ? (
                         <Badge className="bg-green-600">
@@ -673,6 +748,13 @@ export function SplitPaymentDialog({
               ))}
             </div>
 
+            <TipInput
+              baseAmount={selectedItemsAmount}
+              value={itemTipAmount}
+              onChange={setItemTipAmount}
+              disabled={loading}
+            />
+
             <Button
               onClick={handleItemPayment}
               disabled={
@@ -683,6 +765,8 @@ export function SplitPaymentDialog({
               size="lg"
             >
               Process Item Payment
+              {addedCharges > 0 && " (incl. tax & service)"}
+              {addedCharges === 0 && discountTotal > 0 && " (incl. discounts)"}
             </Button>
           </TabsContent>
 
@@ -709,6 +793,18 @@ export function SplitPaymentDialog({
                         className="w-28"
                         disabled={split.paid}
                       />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Tip"
+                        value={split.tip || ""}
+                        onChange={(e) =>
+                          updateCustomSplit(index, "tip", Math.max(parseFloat(e.target.value) || 0, 0))
+                        }
+                        className="w-20"
+                        disabled={split.paid}
+                      />
                       {!split.paid && (
                         <>
                           <Select
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Users } from "lucide-react";
+import {
+  QueueItem,
+  QueueStaff,
+  ROLE_STATIONS,
+  buildStaffQueues,
+} from "@/lib/stationQueues";
+
+interface StationQueuesProps {
+  eventId: string;
+  tenantId: string;
+  zoneIds: string[];
+}
+
+const UNASSIGNED = "unassigned";
+
+const STATION_NAMES: Record<string, string> = {
+  drink_dispenser: 'Drinks',
+  meal_dispenser: 'Meals',
+  mixologist: 'Cocktails',
+  bar: 'Bar',
+};
+
+// Queue depth per station staff member, with manager reassignment
+export const StationQueues = ({ eventId, tenantId, zoneIds }: StationQueuesProps) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [staff, setStaff] = useState<QueueStaff[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const zoneKey = zoneIds.join(",");
+
+  useEffect(() => {
+    fetchQueues();
+
+    const channel = supabase
+      .channel('station-queues')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_items',
+        },
+        () => {
+          fetchQueues();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'time_entries',
+        },
+        () => {
+          fetchQueues();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, tenantId, zoneKey]);
+
+  const fetchQueues = async () => {
+    if (zoneIds.length === 0) return;
+
+    const [{ data: itemData, error: itemError }, { data: entryData, error: entryError }] = await Promise.all([
+      supabase
+        .from('order_items')
+        .select(`
+          id,
+          status,
+          station_type,
+          quantity,
+          created_at,
+          assigned_to,
+          assignee:profiles!order_items_assigned_to_fkey (full_name),
+          menu_items (name),
+          orders!inner (order_number, table_number, event_id, table:tables!orders_table_id_fkey!inner (zone_id))
+        `)
+        .eq('tenant_id', tenantId)
+        .eq('orders.event_id', eventId)
+        .in('orders.table.zone_id', zoneIds)
+        .in('status', ['pending', 'dispatched'])
+        .eq('is_held', false)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('time_entries')
+        .select('user_id, role, profiles!time_entries_user_id_fkey (full_name)')
+        .eq('tenant_id', tenantId)
+        .is('clock_out', null)
+        .overlaps('zone_ids', zoneIds),
+    ]);
+
+    if (itemError || entryError) {
+      console.error("Error fetching station queues:", (itemError || entryError)?.message);
+      return;
+    }
+
+    // Staff who clocked in without picking a role work their assigned one
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('user_id, role')
+      .eq('tenant_id', tenantId)
+      .in('user_id', (entryData || []).map(entry => entry.user_id));
+
+    const roleByUser = new Map((roles || []).map(r => [r.user_id, r.role]));
+
+    setItems((itemData || []) as QueueItem[]);
+    setStaff(
+      (entryData || []).flatMap((entry) => {
+        const station = ROLE_STATIONS[entry.role || roleByUser.get(entry.user_id) || ''];
+        return station
+          ? [{ user_id: entry.user_id, full_name: entry.profiles?.full_name || null, station_type: station }]
+          : [];
+      })
+    );
+  };
+
+  const handleReassign = async (item: QueueItem, value: string) => {
+    setBusyId(item.id);
+    try {
+      const { error } = await supabase.rpc('reassign_order_item', {
+        _order_item_id: item.id,
+        _user_id: value === UNASSIGNED ? undefined : value,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Item reassigned",
+        description: `${item.menu_items?.name || 'Item'} for order ${item.orders.order_number}`,
+      });
+
+      fetchQueues();
+    } catch (error) {
+      toast({
+        title: "Error reassigning item",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const queues = buildStaffQueues(items, staff);
+
+  return (
+    <Card className="p-4">
+      <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Users className="h-5 w-5" />
+        Station Queues
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Tickets waiting for or claimed by each clocked-in staff member
+      </p>
+
+      {queues.length === 0 ? (
+        <div className="text-center py-4 text-muted-foreground">
+          No station staff clocked in
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {queues.map((queue) => (
+            <div key={queue.user_id || `unassigned:${queue.station_type}`} className="border border-border rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{queue.full_name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {STATION_NAMES[queue.station_type] || queue.station_type}
+                  </Badge>
+                </div>
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Waiting:</span>
+                  <span className="ml-1 font-semibold text-pending">{queue.waiting}</span>
+                  <span className="ml-3 text-muted-foreground">Claimed:</span>
+                  <span className="ml-1 font-semibold text-accent">{queue.claimed}</span>
+                </div>
+              </div>
+
+              {queue.items.length > 0 && (
+                <div className="space-y-2">
+                  {queue.items.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div>
+                        <span className="font-medium">{item.quantity} × {item.menu_items?.name || 'Unknown item'}</span>
+                        <span className="text-muted-foreground">
+                          {' '}• {item.orders.order_number} • Table {item.orders.table_number || 'N/A'}
+                        </span>
+                        {item.status === 'dispatched' && (
+                          <Badge variant="secondary" className="ml-2 text-xs">Claimed</Badge>
+                        )}
+                      </div>
+                      <Select
+                        value={item.assigned_to || UNASSIGNED}
+                        onValueChange={(value) => handleReassign(item, value)}
+                        disabled={busyId === item.id}
+                      >
+                        <SelectTrigger className="w-40 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {item.status === 'pending' && (
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          )}
+                          {item.assigned_to && !staff.some(member => member.user_id === item.assigned_to) && (
+                            <SelectItem value={item.assigned_to}>{item.assignee?.full_name || 'Unknown'}</SelectItem>
+                          )}
+                          {staff
+                            .filter(member => member.station_type === item.station_type)
+                            .map((member) => (
+                              <SelectItem key={member.user_id} value={member.user_id}>
+                                {member.full_name || 'Unknown'}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Hourglass, RefreshCw } from "lucide-react";
+import { StockForecast, VELOCITY_WINDOW_MINUTES, fetchStockForecast, fetchStockoutHorizon } from "@/lib/stockForecast";
+
+interface StockOutForecastProps {
+  eventId: string;
+  tenantId: string;
+  zoneIds?: string[];
+}
+
+// Rows beyond this are hidden; the list is sorted soonest stock-out first
+const MAX_ROWS = 8;
+
+export const StockOutForecast = ({ eventId, tenantId, zoneIds }: StockOutForecastProps) => {
+  const [forecast, setForecast] = useState<StockForecast[]>([]);
+  const [horizon, setHorizon] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const zoneKey = zoneIds?.join(",") || "";
+
+  useEffect(() => {
+    loadForecast();
+
+    // Velocity drifts with time even without new orders, so poll as well
+    const interval = setInterval(loadForecast, 60000);
+
+    const channel = supabase
+      .channel('stock-forecast-allocations')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'inventory_zone_allocations',
+        },
+        () => loadForecast()
+      )
+      .subscribe();
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, tenantId, zoneKey]);
+
+  const loadForecast = async () => {
+    const [data, horizonMinutes] = await Promise.all([
+      fetchStockForecast(eventId, zoneIds),
+      fetchStockoutHorizon(tenantId),
+    ]);
+    setForecast(data);
+    setHorizon(horizonMinutes);
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadForecast();
+    setIsRefreshing(false);
+  };
+
+  const selling = forecast.filter(f => f.minutes_until_stockout !== null);
+  const atRisk = horizon === null
+    ? 0
+    : selling.filter(f => (f.minutes_until_stockout ?? Infinity) <= horizon).length;
+
+  const getForecastColor = (minutes: number) => {
+    if (horizon !== null && minutes <= horizon / 2) return 'text-destructive';
+    if (horizon !== null && minutes <= horizon) return 'text-amber-600';
+    return 'text-muted-foreground';
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Stock-Out Forecast
+          </h2>
+          <p className="text-xs text-muted-foreground">
+            Based on orders in the last {VELOCITY_WINDOW_MINUTES} minutes
+            {horizon !== null && ` • warning at ${horizon} minutes`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {atRisk > 0 && (
+            <Badge variant="destructive">{atRisk} at risk</Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+          >
+            <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {selling.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No zone stock has sold recently
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {selling.slice(0, MAX_ROWS).map((item) => {
+            const minutes = item.minutes_until_stockout ?? 0;
+            return (
+              <div
+                key={`${item.menu_item_id}:${item.zone_id}`}
+                className="flex items-center justify-between border border-border rounded-lg p-3"
+              >
+                <div>
+                  <div className="font-medium">{item.item_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.zone_name} • {item.remaining} left • {item.units_per_minute.toFixed(1)}/min
+                  </div>
+                </div>
+                <div className={`text-right font-semibold ${getForecastColor(minutes)}`}>
+                  {item.remaining === 0 ? 'Out now' : `~${minutes}m`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
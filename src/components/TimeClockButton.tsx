@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Clock, Coffee, Loader2, LogIn, LogOut } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { TimeEntry, formatDuration, getBreakMinutes, getWorkedHours } from "@/lib/timeClock";
+
+type AppRole = Database["public"]["Enums"]["app_role"];
+
+interface TimeClockButtonProps {
+  userId: string | undefined;
+  role: AppRole;
+}
+
+export function TimeClockButton({ userId, role }: TimeClockButtonProps) {
+  const { toast } = useToast();
+  const [entry, setEntry] = useState<TimeEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    if (userId) fetchOpenEntry();
+  }, [userId]);
+
+  // Keep the worked time on the button current
+  useEffect(() => {
+    if (!entry) return;
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [entry?.id]);
+
+  const fetchOpenEntry = async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('id, user_id, event_id, role, zone_ids, clock_in, clock_out, time_entry_breaks (id, started_at, ended_at)')
+      .eq('user_id', userId)
+      .is('clock_out', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching time entry:", error.message);
+    }
+
+    setEntry(data);
+    setNow(new Date());
+    setLoading(false);
+  };
+
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, title: string) => {
+    setProcessing(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({ title });
+      await fetchOpenEntry();
+    } catch (error) {
+      toast({
+        title: "Time clock error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading) return null;
+
+  if (!entry) {
+    return (
+      <Button
+        size="sm"
+        className="gap-2"
+        disabled={processing}
+        onClick={() => runAction(() => supabase.rpc('clock_in', { _role: role }), "Clocked in")}
+      >
+        {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+        Clock In
+      </Button>
+    );
+  }
+
+  const onBreak = entry.time_entry_breaks.some(b => !b.ended_at);
+  const workedHours = getWorkedHours(entry, now);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={onBreak ? "secondary" : "outline"} size="sm" className="gap-2">
+          {onBreak ? <Coffee className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+          {onBreak ? "On Break" : formatDuration(workedHours)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <div className="space-y-3">
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Clocked in</span>
+              <span>{new Date(entry.clock_in).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Worked</span>
+              <span>{formatDuration(workedHours)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Breaks</span>
+              <span>{formatDuration(getBreakMinutes(entry, now) / 60)}</span>
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            {onBreak ? (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={processing}
+                onClick={() => runAction(() => supabase.rpc('end_break'), "Break ended")}
+              >
+                <Coffee className="h-4 w-4 mr-2" />
+                End Break
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={processing}
+                onClick={() => runAction(() => supabase.rpc('start_break'), "Break started")}
+              >
+                <Coffee className="h-4 w-4 mr-2" />
+                Start Break
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={processing}
+              onClick={() => runAction(() => supabase.rpc('clock_out'), "Clocked out")}
+            >
+              {processing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+              Clock Out
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+
+interface TipInputProps {
+  baseAmount: number;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const TIP_PERCENTAGES = [5, 10, 15];
+
+export function TipInput({ baseAmount, value, onChange, disabled }: TipInputProps) {
+  const { formatPrice } = useTenantCurrency();
+
+  return (
+    <div className="space-y-2">
+      <Label>Tip (Optional)</Label>
+      <div className="flex gap-2">
+        {TIP_PERCENTAGES.map(percentage => {
+          const tip = (Math.round(baseAmount * percentage) / 100).toFixed(2);
+          return (
+            <Button
+              key={percentage}
+              type="button"
+              variant={value === tip ? "default" : "outline"}
+              size="sm"
+              onClick={() => onChange(value === tip ? "" : tip)}
+              disabled={disabled || baseAmount <= 0}
+            >
+              {percentage}%
+            </Button>
+          );
+        })}
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="0.00"
+          disabled={disabled}
+        />
+      </div>
+      {parseFloat(value) > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Customer pays {formatPrice(baseAmount + parseFloat(value))} including tip
+        </p>
+      )}
+    </div>
+  );
+}
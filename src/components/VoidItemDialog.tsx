@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Ban, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ManagerApprovalInput } from "@/components/ManagerApprovalInput";
+
+interface VoidItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: {
+    id: string;
+    name: string;
+    quantity: number;
+  } | null;
+  onVoided: () => void;
+}
+
+export function VoidItemDialog({
+  open,
+  onOpenChange,
+  item,
+  onVoided,
+}: VoidItemDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [managerId, setManagerId] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setManagerId("");
+      setManagerPin("");
+    }
+  }, [open, item?.id]);
+
+  if (!item) return null;
+
+  const handleVoid = async () => {
+    if (!reason.trim()) return;
+
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.rpc("void_order_item", {
+        _order_item_id: item.id,
+        _reason: reason.trim(),
+        _manager_pin: managerPin || undefined,
+        _manager_id: managerId || undefined,
+      });
+
+      if (error) throw error;
+      if (data === null) throw new Error("Invalid manager PIN");
+
+      toast({
+        title: "Item voided",
+        description: `${item.quantity}x ${item.name} removed from the order`,
+      });
+
+      onVoided();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error voiding item",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Void Item</DialogTitle>
+          <DialogDescription>
+            {item.quantity}x {item.name}. Only items the station has not started can be voided.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Entered by mistake, guest changed their mind..."
+              rows={3}
+            />
+          </div>
+
+          <ManagerApprovalInput
+            id="void-manager"
+            managerId={managerId}
+            onManagerIdChange={setManagerId}
+            pin={managerPin}
+            onPinChange={setManagerPin}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleVoid} disabled={processing || !reason.trim()}>
+            {processing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Voiding...
+              </>
+            ) : (
+              <>
+                <Ban className="mr-2 h-4 w-4" />
+                Void Item
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
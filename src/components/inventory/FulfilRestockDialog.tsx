@@ -0,0 +1,208 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, PackagePlus } from "lucide-react";
+import { RestockRequest } from "@/lib/restock";
+
+interface Zone {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface FulfilRestockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: RestockRequest | null;
+  onFulfilled: () => void;
+}
+
+// Stock not yet allocated to any zone
+const UNALLOCATED_SOURCE = "unallocated";
+
+export function FulfilRestockDialog({
+  open,
+  onOpenChange,
+  request,
+  onFulfilled
+}: FulfilRestockDialogProps) {
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [unallocated, setUnallocated] = useState(0);
+  const [sourceId, setSourceId] = useState(UNALLOCATED_SOURCE);
+  const [quantity, setQuantity] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFulfilling, setIsFulfilling] = useState(false);
+
+  useEffect(() => {
+    if (open && request) {
+      fetchStock();
+      setSourceId(UNALLOCATED_SOURCE);
+      setQuantity(request.quantity_requested);
+    }
+  }, [open, request?.id]);
+
+  const fetchStock = async () => {
+    if (!request) return;
+    setIsLoading(true);
+
+    const [{ data: zonesData, error: zonesError }, { data: allocData }, { data: menuItem }] = await Promise.all([
+      supabase
+        .from("zones")
+        .select("id, name, color")
+        .eq("event_id", request.event_id)
+        .order("name"),
+      supabase
+        .from("inventory_zone_allocations")
+        .select("zone_id, allocated_quantity")
+        .eq("menu_item_id", request.menu_item_id),
+      supabase
+        .from("menu_items")
+        .select("current_inventory")
+        .eq("id", request.menu_item_id)
+        .single(),
+    ]);
+
+    if (zonesError) {
+      toast.error("Failed to load zones");
+      setIsLoading(false);
+      return;
+    }
+
+    const allocMap: Record<string, number> = {};
+    (allocData || []).forEach(a => {
+      allocMap[a.zone_id] = a.allocated_quantity;
+    });
+    const allocatedTotal = Object.values(allocMap).reduce((sum, qty) => sum + qty, 0);
+
+    setZones(zonesData || []);
+    setAllocations(allocMap);
+    setUnallocated(Math.max(0, (menuItem?.current_inventory || 0) - allocatedTotal));
+    setIsLoading(false);
+  };
+
+  const getAvailable = () => {
+    return sourceId === UNALLOCATED_SOURCE ? unallocated : allocations[sourceId] || 0;
+  };
+
+  const handleFulfil = async () => {
+    if (!request) return;
+
+    if (quantity <= 0) {
+      toast.error("Quantity must be greater than 0");
+      return;
+    }
+
+    if (quantity > getAvailable()) {
+      toast.error("Quantity exceeds available stock at the source");
+      return;
+    }
+
+    setIsFulfilling(true);
+    try {
+      const { error } = await supabase.rpc("fulfil_restock_request", {
+        _request_id: request.id,
+        _quantity: quantity,
+        _source_zone_id: sourceId === UNALLOCATED_SOURCE ? undefined : sourceId,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Sent ${quantity} × ${request.menu_items?.name || "item"} to ${request.zones?.name || "zone"}`);
+      onFulfilled();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsFulfilling(false);
+    }
+  };
+
+  if (!request) return null;
+
+  const sourceZones = zones.filter(z => z.id !== request.zone_id && (allocations[z.id] || 0) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus className="h-5 w-5" />
+            Fulfil Restock Request
+          </DialogTitle>
+          <DialogDescription>
+            <strong>{request.zones?.name || "Zone"}</strong> asked for {request.quantity_requested} × <strong>{request.menu_items?.name}</strong>
+            {request.notes && ` - ${request.notes}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Send From</Label>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNALLOCATED_SOURCE}>
+                    Unallocated stock ({unallocated} available)
+                  </SelectItem>
+                  {sourceZones.map((zone) => (
+                    <SelectItem key={zone.id} value={zone.id}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: zone.color || "#6B7280" }}
+                        />
+                        {zone.name} ({allocations[zone.id] || 0} available)
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {sourceId === UNALLOCATED_SOURCE
+                  ? "Tops up the zone's allocation from stock not yet assigned to a zone"
+                  : "Logged as a zone transfer"}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Quantity to Send</Label>
+              <Input
+                type="number"
+                min="0"
+                max={getAvailable()}
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Max: {getAvailable()} units available
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleFulfil} disabled={isLoading || isFulfilling || getAvailable() === 0}>
+            {isFulfilling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Fulfil
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
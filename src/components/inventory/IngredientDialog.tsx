@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { INGREDIENT_UNITS, Ingredient, IngredientUnit, formatQuantity } from "@/lib/ingredients";
+
+interface IngredientDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ingredient: Ingredient | null;
+  eventId: string;
+  onSaved: () => void;
+}
+
+export function IngredientDialog({
+  open,
+  onOpenChange,
+  ingredient,
+  eventId,
+  onSaved
+}: IngredientDialogProps) {
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState<IngredientUnit>("ml");
+  const [packLabel, setPackLabel] = useState("");
+  const [packSize, setPackSize] = useState("");
+  const [startingPacks, setStartingPacks] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(ingredient?.name || "");
+      setUnit((ingredient?.unit as IngredientUnit) || "ml");
+      setPackLabel(ingredient?.pack_label || "");
+      setPackSize(ingredient?.pack_size ? String(ingredient.pack_size) : "");
+      setStartingPacks("");
+    }
+  }, [open, ingredient?.id]);
+
+  const numericPackSize = parseFloat(packSize) || 0;
+  // Opening stock is entered in packs when a pack size is set, otherwise in base units
+  const startingStock = (parseFloat(startingPacks) || 0) * (numericPackSize > 0 ? numericPackSize : 1);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const ingredientData = {
+        name: name.trim(),
+        unit,
+        pack_label: numericPackSize > 0 ? packLabel.trim() || null : null,
+        pack_size: numericPackSize > 0 ? numericPackSize : null,
+      };
+
+      if (ingredient) {
+        const { error } = await supabase
+          .from("ingredients")
+          .update(ingredientData)
+          .eq("id", ingredient.id);
+
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("tenant_id")
+          .eq("id", user.id)
+          .single();
+
+        if (!profile?.tenant_id) return;
+
+        const { error } = await supabase
+          .from("ingredients")
+          .insert({
+            ...ingredientData,
+            tenant_id: profile.tenant_id,
+            event_id: eventId,
+            starting_stock: startingStock,
+            current_stock: startingStock,
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success(ingredient ? "Ingredient updated" : "Ingredient added");
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{ingredient ? "Edit Ingredient" : "Add Ingredient"}</DialogTitle>
+          <DialogDescription>
+            Stock is tracked in {unit === "each" ? "units" : unit === "ml" ? "millilitres" : "grams"} and used by recipes on serve
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ingredientName">Name *</Label>
+            <Input
+              id="ingredientName"
+              placeholder="e.g., Gin"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Measured by</Label>
+            <Select value={unit} onValueChange={(value) => setUnit(value as IngredientUnit)} disabled={!!ingredient}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INGREDIENT_UNITS.map((u) => (
+                  <SelectItem key={u.value} value={u.value}>
+                    {u.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="packLabel">Pack</Label>
+              <Input
+                id="packLabel"
+                placeholder="e.g., bottle"
+                value={packLabel}
+                onChange={(e) => setPackLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="packSize">Pack size ({unit})</Label>
+              <Input
+                id="packSize"
+                type="number"
+                min="0"
+                step="any"
+                placeholder={unit === "ml" ? "700" : unit === "g" ? "1000" : "24"}
+                value={packSize}
+                onChange={(e) => setPackSize(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {!ingredient && (
+            <div className="space-y-2">
+              <Label htmlFor="startingPacks">
+                Opening stock ({numericPackSize > 0 ? `${packLabel || "pack"}s` : unit})
+              </Label>
+              <Input
+                id="startingPacks"
+                type="number"
+                min="0"
+                step="any"
+                value={startingPacks}
+                onChange={(e) => setStartingPacks(e.target.value)}
+              />
+              {startingStock > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatQuantity(startingStock, unit)} in stock
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {ingredient ? "Save Changes" : "Add Ingredient"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
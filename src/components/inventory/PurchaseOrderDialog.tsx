@@ -0,0 +1,273 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { Ingredient } from "@/lib/ingredients";
+import { Supplier } from "@/lib/purchasing";
+
+export interface PurchaseOrderSuggestion {
+  menuItemId?: string;
+  ingredientId?: string;
+  quantity: number;
+}
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  suppliers: Supplier[];
+  menuItems: { id: string; name: string }[];
+  ingredients: Ingredient[];
+  suggestions?: PurchaseOrderSuggestion[];
+  onSaved?: () => void;
+}
+
+interface PurchaseOrderLine {
+  // "menu_item:<id>" or "ingredient:<id>"
+  itemKey: string;
+  quantity: string;
+  unitsPerPurchase: string;
+  unitCost: string;
+}
+
+const emptyLine: PurchaseOrderLine = { itemKey: "", quantity: "", unitsPerPurchase: "1", unitCost: "" };
+
+export function PurchaseOrderDialog({
+  open,
+  onOpenChange,
+  eventId,
+  suppliers,
+  menuItems,
+  ingredients,
+  suggestions = [],
+  onSaved
+}: PurchaseOrderDialogProps) {
+  const { formatPrice } = useTenantCurrency();
+  const [supplierId, setSupplierId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const getIngredient = (itemKey: string) =>
+    itemKey.startsWith("ingredient:") ? ingredients.find(i => `ingredient:${i.id}` === itemKey) : undefined;
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId(suppliers.length === 1 ? suppliers[0].id : "");
+      setNotes("");
+      const suggested = suggestions.map((s) => {
+        const ingredient = s.ingredientId ? ingredients.find(i => i.id === s.ingredientId) : undefined;
+        const packSize = ingredient?.pack_size || 1;
+        return {
+          itemKey: s.menuItemId ? `menu_item:${s.menuItemId}` : `ingredient:${s.ingredientId}`,
+          quantity: String(Math.max(1, Math.ceil(s.quantity / packSize))),
+          unitsPerPurchase: String(packSize),
+          unitCost: "",
+        };
+      });
+      setLines(suggested.length > 0 ? suggested : [emptyLine]);
+    }
+  }, [open]);
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectItem = (index: number, itemKey: string) => {
+    const ingredient = getIngredient(itemKey);
+    updateLine(index, { itemKey, unitsPerPurchase: String(ingredient?.pack_size || 1) });
+  };
+
+  const validLines = lines.filter(l => l.itemKey && parseFloat(l.quantity) > 0 && parseFloat(l.unitsPerPurchase) > 0);
+  const total = validLines.reduce((sum, l) => sum + parseFloat(l.quantity) * (parseFloat(l.unitCost) || 0), 0);
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast.error("Please select a supplier");
+      return;
+    }
+
+    if (validLines.length === 0) {
+      toast.error("Add at least one item to order");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc("create_purchase_order", {
+        _event_id: eventId,
+        _supplier_id: supplierId,
+        _notes: notes,
+        _items: validLines.map((line) => {
+          const [type, id] = line.itemKey.split(":");
+          return {
+            [type === "menu_item" ? "menu_item_id" : "ingredient_id"]: id,
+            quantity: parseFloat(line.quantity),
+            units_per_purchase: parseFloat(line.unitsPerPurchase),
+            unit_cost: parseFloat(line.unitCost) || 0,
+          };
+        }),
+      });
+
+      if (error) throw error;
+
+      toast.success("Purchase order raised");
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+          <DialogDescription>
+            Order in the supplier's units (cases, bottles) at the agreed cost per unit
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Supplier *</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder={suppliers.length === 0 ? "Add a supplier first" : "Select supplier"} />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            {lines.map((line, index) => {
+              const ingredient = getIngredient(line.itemKey);
+              return (
+                <div key={index} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    {index === 0 && <Label>Item</Label>}
+                    <Select value={line.itemKey} onValueChange={(itemKey) => selectItem(index, itemKey)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          <SelectLabel>Menu Items</SelectLabel>
+                          {menuItems.map((m) => (
+                            <SelectItem key={m.id} value={`menu_item:${m.id}`}>
+                              {m.name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                        {ingredients.length > 0 && (
+                          <SelectGroup>
+                            <SelectLabel>Ingredients</SelectLabel>
+                            {ingredients.map((i) => (
+                              <SelectItem key={i.id} value={`ingredient:${i.id}`}>
+                                {i.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-20 space-y-1">
+                    {index === 0 && <Label>Qty</Label>}
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div className="w-28 space-y-1">
+                    {index === 0 && <Label>Per unit</Label>}
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={line.unitsPerPurchase}
+                        onChange={(e) => updateLine(index, { unitsPerPurchase: e.target.value })}
+                      />
+                      <span className="text-xs text-muted-foreground w-8">{ingredient?.unit || "ea"}</span>
+                    </div>
+                  </div>
+                  <div className="w-28 space-y-1">
+                    {index === 0 && <Label>Unit cost</Label>}
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, emptyLine])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="poNotes">Notes</Label>
+            <Textarea
+              id="poNotes"
+              placeholder="Delivery instructions, reference numbers..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-between text-sm font-medium">
+            <span>Order Total</span>
+            <span>{formatPrice(total)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || suppliers.length === 0}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Raise Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
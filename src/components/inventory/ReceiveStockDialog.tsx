@@ -0,0 +1,143 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { PurchaseOrder, getPurchaseOrderItemName } from "@/lib/purchasing";
+
+interface ReceiveStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrder: PurchaseOrder | null;
+  onReceived: () => void;
+}
+
+interface ReceiveLine {
+  quantity: string;
+  unitCost: string;
+}
+
+export function ReceiveStockDialog({
+  open,
+  onOpenChange,
+  purchaseOrder,
+  onReceived
+}: ReceiveStockDialogProps) {
+  const [lines, setLines] = useState<Record<string, ReceiveLine>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && purchaseOrder) {
+      const initial: Record<string, ReceiveLine> = {};
+      purchaseOrder.purchase_order_items.forEach((item) => {
+        const outstanding = Math.max(0, Number(item.quantity_ordered) - Number(item.quantity_received));
+        initial[item.id] = { quantity: String(outstanding), unitCost: String(item.unit_cost) };
+      });
+      setLines(initial);
+    }
+  }, [open, purchaseOrder?.id]);
+
+  const updateLine = (id: string, changes: Partial<ReceiveLine>) => {
+    setLines(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleReceive = async () => {
+    if (!purchaseOrder) return;
+
+    const received = Object.entries(lines)
+      .filter(([, line]) => parseFloat(line.quantity) > 0)
+      .map(([id, line]) => ({
+        purchase_order_item_id: id,
+        quantity: parseFloat(line.quantity),
+        unit_cost: parseFloat(line.unitCost) || 0,
+      }));
+
+    if (received.length === 0) {
+      toast.error("Enter the quantity delivered for at least one line");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: status, error } = await supabase.rpc("receive_purchase_order", {
+        _purchase_order_id: purchaseOrder.id,
+        _lines: received,
+      });
+
+      if (error) throw error;
+
+      toast.success(status === "received" ? "Order fully received" : "Delivery recorded");
+      onReceived();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive Stock - {purchaseOrder?.po_number}</DialogTitle>
+          <DialogDescription>
+            Record what arrived in this delivery and what it cost. Anything short stays open on the order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Ordered</TableHead>
+              <TableHead>Received</TableHead>
+              <TableHead className="w-24">Delivered</TableHead>
+              <TableHead className="w-28">Unit cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrder?.purchase_order_items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">{getPurchaseOrderItemName(item)}</TableCell>
+                <TableCell>{Number(item.quantity_ordered)}</TableCell>
+                <TableCell>{Number(item.quantity_received)}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={lines[item.id]?.quantity ?? ""}
+                    onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={lines[item.id]?.unitCost ?? ""}
+                    onChange={(e) => updateLine(item.id, { unitCost: e.target.value })}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleReceive} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Receive Stock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
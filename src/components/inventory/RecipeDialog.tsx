@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Ingredient, RecipeItem } from "@/lib/ingredients";
+
+interface RecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  menuItem: {
+    id: string;
+    name: string;
+  } | null;
+  ingredients: Ingredient[];
+  recipeItems: RecipeItem[];
+  onSaved: () => void;
+}
+
+interface RecipeLine {
+  ingredientId: string;
+  quantity: string;
+}
+
+export function RecipeDialog({
+  open,
+  onOpenChange,
+  menuItem,
+  ingredients,
+  recipeItems,
+  onSaved
+}: RecipeDialogProps) {
+  const [lines, setLines] = useState<RecipeLine[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && menuItem) {
+      const existing = recipeItems
+        .filter(r => r.menu_item_id === menuItem.id)
+        .map(r => ({ ingredientId: r.ingredient_id, quantity: String(r.quantity) }));
+      setLines(existing.length > 0 ? existing : [{ ingredientId: "", quantity: "" }]);
+    }
+  }, [open, menuItem?.id]);
+
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async () => {
+    if (!menuItem) return;
+
+    const validLines = lines.filter(l => l.ingredientId && parseFloat(l.quantity) > 0);
+    const ingredientIds = validLines.map(l => l.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      toast.error("Each ingredient can only appear once in a recipe");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("tenant_id")
+        .eq("id", user.id)
+        .single();
+
+      if (!profile?.tenant_id) return;
+
+      // Replace the whole recipe so removed lines go too
+      const { error: deleteError } = await supabase
+        .from("recipe_items")
+        .delete()
+        .eq("menu_item_id", menuItem.id);
+
+      if (deleteError) throw deleteError;
+
+      if (validLines.length > 0) {
+        const { error: insertError } = await supabase
+          .from("recipe_items")
+          .insert(validLines.map(line => ({
+            tenant_id: profile.tenant_id as string,
+            menu_item_id: menuItem.id,
+            ingredient_id: line.ingredientId,
+            quantity: parseFloat(line.quantity),
+          })));
+
+        if (insertError) throw insertError;
+      }
+
+      toast.success("Recipe saved");
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Recipe - {menuItem?.name}</DialogTitle>
+          <DialogDescription>
+            Ingredients used by one serving. Stock is taken off when the item is served.
+          </DialogDescription>
+        </DialogHeader>
+
+        {ingredients.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Add ingredients for this event first
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {lines.map((line, index) => {
+              const ingredient = ingredients.find(i => i.id === line.ingredientId);
+              return (
+                <div key={index} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    {index === 0 && <Label>Ingredient</Label>}
+                    <Select value={line.ingredientId} onValueChange={(ingredientId) => updateLine(index, { ingredientId })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select ingredient" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ingredients.map((i) => (
+                          <SelectItem key={i.id} value={i.id}>
+                            {i.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-32 space-y-1">
+                    {index === 0 && <Label>Quantity</Label>}
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      />
+                      <span className="text-xs text-muted-foreground w-8">{ingredient?.unit || ""}</span>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, { ingredientId: "", quantity: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Ingredient
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || ingredients.length === 0}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Recipe
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Check, Loader2, PackagePlus, X } from "lucide-react";
+import { FulfilRestockDialog } from "./FulfilRestockDialog";
+import {
+  RESTOCK_STATUS_LABELS,
+  RestockRequest,
+  RestockRequestStatus,
+  formatMinutes,
+  getMinutesBetween,
+  isRestockOverdue,
+} from "@/lib/restock";
+
+interface RestockQueueProps {
+  eventId: string;
+  // Limit the queue to these zones; every zone in the event when omitted
+  zoneIds?: string[];
+  onFulfilled?: () => void;
+}
+
+const RECENT_LIMIT = 20;
+
+export function RestockQueue({ eventId, zoneIds, onFulfilled }: RestockQueueProps) {
+  const [openRequests, setOpenRequests] = useState<RestockRequest[]>([]);
+  const [recentRequests, setRecentRequests] = useState<RestockRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [fulfilRequest, setFulfilRequest] = useState<RestockRequest | null>(null);
+  const [declineRequest, setDeclineRequest] = useState<RestockRequest | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+  // Re-render every minute so waiting times stay current
+  const [, setTick] = useState(0);
+
+  const zoneKey = zoneIds?.join(",") || "";
+
+  useEffect(() => {
+    if (!eventId) return;
+    fetchRequests();
+
+    const interval = setInterval(() => setTick(t => t + 1), 60000);
+
+    const channel = supabase
+      .channel(`restock-queue-${eventId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "restock_requests",
+        },
+        () => fetchRequests()
+      )
+      .subscribe();
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, zoneKey]);
+
+  const fetchRequests = async () => {
+    const select = "*, menu_items(name), zones!restock_requests_zone_id_fkey(name)";
+
+    let openQuery = supabase
+      .from("restock_requests")
+      .select(select)
+      .eq("event_id", eventId)
+      .in("status", ["pending", "acknowledged"])
+      .order("requested_at", { ascending: true });
+
+    let recentQuery = supabase
+      .from("restock_requests")
+      .select(select)
+      .eq("event_id", eventId)
+      .in("status", ["fulfilled", "declined"])
+      .order("resolved_at", { ascending: false })
+      .limit(RECENT_LIMIT);
+
+    if (zoneIds && zoneIds.length > 0) {
+      openQuery = openQuery.in("zone_id", zoneIds);
+      recentQuery = recentQuery.in("zone_id", zoneIds);
+    }
+
+    const [{ data: open, error: openError }, { data: recent, error: recentError }] = await Promise.all([
+      openQuery,
+      recentQuery,
+    ]);
+
+    if (openError || recentError) {
+      toast.error("Failed to load restock requests");
+    } else {
+      setOpenRequests(open || []);
+      setRecentRequests(recent || []);
+    }
+    setLoading(false);
+  };
+
+  const handleAcknowledge = async (request: RestockRequest) => {
+    setBusyId(request.id);
+    try {
+      const { error } = await supabase.rpc("acknowledge_restock_request", { _request_id: request.id });
+      if (error) throw error;
+      toast.success(`${request.zones?.name || "Zone"} notified that stock is on the way`);
+      fetchRequests();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!declineRequest) return;
+
+    setBusyId(declineRequest.id);
+    try {
+      const { error } = await supabase.rpc("decline_restock_request", {
+        _request_id: declineRequest.id,
+        _reason: declineReason,
+      });
+      if (error) throw error;
+      toast.success("Restock request declined");
+      setDeclineRequest(null);
+      fetchRequests();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const fulfilledRequests = recentRequests.filter(r => r.status === "fulfilled" && r.resolved_at);
+  const averageFulfilMinutes = fulfilledRequests.length > 0
+    ? Math.round(
+        fulfilledRequests.reduce((sum, r) => sum + getMinutesBetween(r.requested_at, r.resolved_at), 0)
+          / fulfilledRequests.length
+      )
+    : null;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PackagePlus className="h-5 w-5" />
+              Restock Queue
+            </CardTitle>
+            <CardDescription>
+              Requests raised by stations, oldest first
+            </CardDescription>
+          </div>
+          <div className="text-right text-sm text-muted-foreground">
+            <div>{openRequests.length} open</div>
+            {averageFulfilMinutes !== null && (
+              <div>Avg. fulfil time {formatMinutes(averageFulfilMinutes)}</div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {openRequests.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No open restock requests
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {openRequests.map((request) => {
+                const overdue = isRestockOverdue(request);
+                return (
+                  <div
+                    key={request.id}
+                    className={`border rounded-lg p-3 flex items-center justify-between gap-3 flex-wrap ${overdue ? "border-destructive/50 bg-destructive/5" : ""}`}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {request.quantity_requested} × {request.menu_items?.name || "Unknown item"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {request.zones?.name || "Unknown zone"} • waiting {formatMinutes(getMinutesBetween(request.requested_at))}
+                        {request.acknowledged_at && ` • acknowledged after ${formatMinutes(getMinutesBetween(request.requested_at, request.acknowledged_at))}`}
+                      </div>
+                      {request.notes && (
+                        <div className="text-xs text-muted-foreground mt-1">{request.notes}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={overdue ? "destructive" : "secondary"}>
+                        {RESTOCK_STATUS_LABELS[request.status as RestockRequestStatus] || request.status}
+                      </Badge>
+                      {request.status === "pending" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === request.id}
+                          onClick={() => handleAcknowledge(request)}
+                        >
+                          <Check className="mr-1 h-4 w-4" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button size="sm" disabled={busyId === request.id} onClick={() => setFulfilRequest(request)}>
+                        <PackagePlus className="mr-1 h-4 w-4" />
+                        Fulfil
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyId === request.id}
+                        onClick={() => {
+                          setDeclineReason("");
+                          setDeclineRequest(request);
+                        }}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {recentRequests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recently Resolved</CardTitle>
+            <CardDescription>Time from request to acknowledgement and to resolution</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Zone</TableHead>
+                  <TableHead className="text-right">Requested</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Acknowledged</TableHead>
+                  <TableHead className="text-right">Resolved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentRequests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.menu_items?.name || "Unknown item"}</TableCell>
+                    <TableCell>{request.zones?.name || "Unknown zone"}</TableCell>
+                    <TableCell className="text-right">{request.quantity_requested}</TableCell>
+                    <TableCell className="text-right">{request.quantity_fulfilled ?? "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={request.status === "declined" ? "destructive" : "default"}>
+                        {RESTOCK_STATUS_LABELS[request.status as RestockRequestStatus] || request.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {request.acknowledged_at
+                        ? formatMinutes(getMinutesBetween(request.requested_at, request.acknowledged_at))
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {request.resolved_at
+                        ? formatMinutes(getMinutesBetween(request.requested_at, request.resolved_at))
+                        : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <FulfilRestockDialog
+        open={!!fulfilRequest}
+        onOpenChange={(open) => !open && setFulfilRequest(null)}
+        request={fulfilRequest}
+        onFulfilled={() => {
+          fetchRequests();
+          onFulfilled?.();
+        }}
+      />
+
+      <Dialog open={!!declineRequest} onOpenChange={(open) => !open && setDeclineRequest(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Decline Restock Request</DialogTitle>
+            <DialogDescription>
+              Let {declineRequest?.zones?.name || "the zone"} know why no {declineRequest?.menu_items?.name} is coming.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decline-reason">Reason</Label>
+            <Textarea
+              id="decline-reason"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              placeholder="e.g. No stock left in any zone"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeclineRequest(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDecline} disabled={busyId === declineRequest?.id}>
+              Decline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { AlertTriangle, ClipboardCheck, Loader2 } from "lucide-react";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import {
+  SHRINKAGE_TOLERANCE_PERCENT,
+  ServedQuantity,
+  StockCount,
+  StockCountLine,
+  UNALLOCATED_ZONE_NAME,
+  buildVarianceReport,
+  summariseVarianceByZone,
+} from "@/lib/stockCount";
+
+interface StockCountPanelProps {
+  eventId: string;
+  onCompleted: () => void;
+}
+
+const UNALLOCATED = "__unallocated__";
+
+export function StockCountPanel({ eventId, onCompleted }: StockCountPanelProps) {
+  const { formatPrice } = useTenantCurrency();
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [selectedCountId, setSelectedCountId] = useState<string>("");
+  const [lines, setLines] = useState<StockCountLine[]>([]);
+  const [served, setServed] = useState<ServedQuantity[]>([]);
+  const [countInputs, setCountInputs] = useState<Record<string, string>>({});
+  const [selectedZone, setSelectedZone] = useState<string>("");
+  const [shrinkageOnly, setShrinkageOnly] = useState(false);
+  const [confirmComplete, setConfirmComplete] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedCount = counts.find(c => c.id === selectedCountId) || null;
+  const isCounting = selectedCount?.status === "in_progress";
+
+  useEffect(() => {
+    if (eventId) {
+      fetchCounts();
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (selectedCountId) {
+      fetchLines();
+    } else {
+      setLines([]);
+    }
+  }, [selectedCountId]);
+
+  const fetchCounts = async (selectId?: string) => {
+    const { data, error } = await supabase
+      .from("stock_counts")
+      .select("id, event_id, status, notes, started_at, completed_at")
+      .eq("event_id", eventId)
+      .order("started_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load stock counts");
+      return;
+    }
+
+    setCounts(data || []);
+    setSelectedCountId(selectId || data?.[0]?.id || "");
+  };
+
+  const fetchLines = async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("stock_count_lines")
+      .select("id, menu_item_id, zone_id, expected_quantity, counted_quantity, unit_cost, menu_items (name, category), zones (name)")
+      .eq("stock_count_id", selectedCountId);
+
+    if (error) {
+      toast.error("Failed to load stock count");
+      setIsLoading(false);
+      return;
+    }
+
+    const sorted = (data || []).sort((a, b) =>
+      (a.menu_items?.category || "").localeCompare(b.menu_items?.category || "") ||
+      (a.menu_items?.name || "").localeCompare(b.menu_items?.name || "")
+    );
+    setLines(sorted);
+
+    const inputs: Record<string, string> = {};
+    sorted.forEach((line) => {
+      inputs[line.id] = line.counted_quantity === null ? "" : String(line.counted_quantity);
+    });
+    setCountInputs(inputs);
+
+    const zoneIds = [...new Set(sorted.map(l => l.zone_id || UNALLOCATED))];
+    if (!zoneIds.includes(selectedZone)) {
+      setSelectedZone(zoneIds[0] || "");
+    }
+
+    const { data: servedItems } = await supabase
+      .from("order_items")
+      .select("menu_item_id, quantity, orders!inner (event_id, table:tables!orders_table_id_fkey (zone_id))")
+      .eq("orders.event_id", eventId)
+      .in("status", ["served", "paid"]);
+
+    setServed((servedItems || []).map(item => ({
+      menu_item_id: item.menu_item_id,
+      zone_id: item.orders?.table?.zone_id || null,
+      quantity: item.quantity,
+    })));
+    setIsLoading(false);
+  };
+
+  const handleStartCount = async () => {
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("start_stock_count", { _event_id: eventId });
+      if (error) throw error;
+
+      toast.success("Stock count started");
+      fetchCounts(data);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveLine = async (line: StockCountLine) => {
+    const value = countInputs[line.id];
+    const counted = value === "" ? null : parseInt(value);
+    if (counted === line.counted_quantity || (counted !== null && (isNaN(counted) || counted < 0))) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from("stock_count_lines")
+      .update({
+        counted_quantity: counted,
+        counted_by: counted === null ? null : user?.id,
+        counted_at: counted === null ? null : new Date().toISOString(),
+      })
+      .eq("id", line.id);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setLines(prev => prev.map(l => (l.id === line.id ? { ...l, counted_quantity: counted } : l)));
+  };
+
+  const handleCompleteCount = async () => {
+    if (!selectedCount) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc("complete_stock_count", { _stock_count_id: selectedCount.id });
+      if (error) throw error;
+
+      toast.success("Stock count completed and inventory updated");
+      setConfirmComplete(false);
+      fetchCounts(selectedCount.id);
+      onCompleted();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const zoneOptions = [...new Map(lines.map(l => [
+    l.zone_id || UNALLOCATED,
+    l.zones?.name || UNALLOCATED_ZONE_NAME,
+  ])).entries()];
+  const zoneLines = lines.filter(l => (l.zone_id || UNALLOCATED) === selectedZone);
+  const countedLines = lines.filter(l => l.counted_quantity !== null).length;
+
+  const varianceRows = buildVarianceReport(lines, served);
+  const zoneVariances = summariseVarianceByZone(varianceRows);
+  const totalVarianceValue = varianceRows.reduce((sum, row) => sum + (row.variance_value || 0), 0);
+  const shrinkageRows = varianceRows.filter(row => row.is_shrinkage);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Stock Count</CardTitle>
+            <CardDescription>
+              Count what is physically left in each zone after the event, then compare it with what was sold
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {counts.length > 0 && (
+              <Select value={selectedCountId} onValueChange={setSelectedCountId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Select count" />
+                </SelectTrigger>
+                <SelectContent>
+                  {counts.map((count) => (
+                    <SelectItem key={count.id} value={count.id}>
+                      {new Date(count.started_at).toLocaleString()}
+                      {count.status === "in_progress" ? " (in progress)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {!counts.some(c => c.status === "in_progress") && (
+              <Button onClick={handleStartCount} disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ClipboardCheck className="h-4 w-4 mr-2" />}
+                Start Stock Count
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!selectedCount ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No stock counts for this event yet
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : isCounting ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <Label>Zone</Label>
+                  <Select value={selectedZone} onValueChange={setSelectedZone}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {zoneOptions.map(([zoneId, zoneName]) => {
+                        const inZone = lines.filter(l => (l.zone_id || UNALLOCATED) === zoneId);
+                        const done = inZone.filter(l => l.counted_quantity !== null).length;
+                        return (
+                          <SelectItem key={zoneId} value={zoneId}>
+                            {zoneName} ({done}/{inZone.length})
+                          </SelectItem>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-40">
+                    <Progress value={lines.length > 0 ? (countedLines / lines.length) * 100 : 0} />
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    {countedLines} of {lines.length} counted
+                  </span>
+                  <Button onClick={() => setConfirmComplete(true)} disabled={countedLines === 0}>
+                    Complete Count
+                  </Button>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="w-32">Counted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {zoneLines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell className="font-medium">{line.menu_items?.name}</TableCell>
+                      <TableCell className="capitalize">{line.menu_items?.category}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={countInputs[line.id] ?? ""}
+                          onChange={(e) => setCountInputs(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          onBlur={() => handleSaveLine(line)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="p-3 bg-muted/50 rounded-lg text-center">
+                  <div className="text-xs text-muted-foreground">Lines Counted</div>
+                  <div className="font-bold">{varianceRows.length}</div>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg text-center">
+                  <div className="text-xs text-muted-foreground">Variance at Cost</div>
+                  <div className={`font-bold ${totalVarianceValue < 0 ? "text-destructive" : ""}`}>
+                    {formatPrice(totalVarianceValue)}
+                  </div>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg text-center">
+                  <div className="text-xs text-muted-foreground">Shrinkage Flags</div>
+                  <div className={`font-bold ${shrinkageRows.length > 0 ? "text-destructive" : ""}`}>
+                    {shrinkageRows.length}
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {zoneVariances.map((zone) => (
+                  <div
+                    key={zone.zone_id || UNALLOCATED}
+                    className={`p-3 border rounded-lg ${zone.flagged_items > 0 ? "border-destructive/50 bg-destructive/5" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{zone.zone_name}</span>
+                      {zone.flagged_items > 0 && (
+                        <Badge variant="destructive">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {zone.flagged_items} flagged
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {formatPrice(zone.variance_value)} variance
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  Shrinkage is flagged when more than {SHRINKAGE_TOLERANCE_PERCENT}% of what was sold is missing
+                </p>
+                <div className="flex items-center gap-2">
+                  <Switch id="shrinkageOnly" checked={shrinkageOnly} onCheckedChange={setShrinkageOnly} />
+                  <Label htmlFor="shrinkageOnly">Shrinkage only</Label>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Zone</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Counted</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead>Actual Usage</TableHead>
+                    <TableHead>Variance</TableHead>
+                    <TableHead>At Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(shrinkageOnly ? shrinkageRows : varianceRows).map((row) => (
+                    <TableRow key={row.line_id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {row.item_name}
+                          {row.is_shrinkage && <Badge variant="destructive">Shrinkage</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{row.zone_name}</TableCell>
+                      <TableCell>{row.expected}</TableCell>
+                      <TableCell>{row.counted}</TableCell>
+                      <TableCell>{row.theoretical_usage}</TableCell>
+                      <TableCell>{row.actual_usage}</TableCell>
+                      <TableCell>
+                        <span className={row.variance < 0 ? "text-destructive" : row.variance > 0 ? "text-green-500" : ""}>
+                          {row.variance > 0 ? "+" : ""}{row.variance}
+                        </span>
+                      </TableCell>
+                      <TableCell>{row.variance_value !== null ? formatPrice(row.variance_value) : "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmComplete} onOpenChange={setConfirmComplete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete Stock Count</AlertDialogTitle>
+            <AlertDialogDescription>
+              {countedLines} of {lines.length} lines have been counted. Inventory and zone allocations will be set to the
+              counted quantities; uncounted lines keep their current stock. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCompleteCount} disabled={isSaving}>
+              Complete Count
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Clock } from "lucide-react";
+import {
+  KdsSummaryLine,
+  KdsTimerThresholds,
+  getElapsedMinutes,
+  getTargetPercent,
+  getTimerColor,
+} from "@/lib/kds";
+
+interface KdsSummaryViewProps {
+  lines: KdsSummaryLine[];
+  thresholds: KdsTimerThresholds;
+}
+
+export function KdsSummaryView({ lines, thresholds }: KdsSummaryViewProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {lines.map((line) => {
+        const elapsedMinutes = getElapsedMinutes(line.oldest_started_at);
+        const targetPercent = getTargetPercent(line.oldest_started_at, line.prep_target_minutes);
+
+        return (
+          <Card key={line.key}>
+            <CardContent className="p-4 space-y-2">
+              <div className="text-4xl font-bold">
+                {line.pending + line.preparing} ×
+              </div>
+              <h3 className="font-bold text-xl">{line.name}</h3>
+              {line.modifiers.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {line.modifiers.map((modifier, idx) => (
+                    <Badge key={idx} variant="outline">{modifier}</Badge>
+                  ))}
+                </div>
+              )}
+              <div className="text-sm text-muted-foreground">
+                {line.pending} new • {line.preparing} preparing
+              </div>
+              <div className={`flex items-center gap-2 text-sm font-bold ${getTimerColor(targetPercent, thresholds)}`}>
+                <Clock className="w-4 h-4" />
+                <span>Oldest {elapsedMinutes}/{line.prep_target_minutes} min</span>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
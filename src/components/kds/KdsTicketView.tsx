@@ -0,0 +1,119 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Clock, ChefHat, CheckCircle, ArrowUp } from "lucide-react";
+import { formatCourse } from "@/lib/courses";
+import {
+  KdsTicket,
+  KdsTimerThresholds,
+  getElapsedMinutes,
+  getTicketTargetPercent,
+  getTimerColor,
+  isCritical,
+} from "@/lib/kds";
+
+interface KdsTicketViewProps {
+  tickets: KdsTicket[];
+  thresholds: KdsTimerThresholds;
+  onUpdateStatus: (itemId: string, status: "dispatched" | "ready") => void;
+}
+
+export function KdsTicketView({ tickets, thresholds, onUpdateStatus }: KdsTicketViewProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {tickets.map((ticket) => {
+        const elapsedMinutes = getElapsedMinutes(ticket.created_at);
+        const targetPercent = getTicketTargetPercent(ticket);
+        const isPriority = isCritical(targetPercent, thresholds);
+
+        return (
+          <Card
+            key={ticket.order_id}
+            className={`relative border-2 ${isPriority ? "border-red-500 animate-pulse" : ""}`}
+          >
+            {isPriority && (
+              <div className="absolute -top-3 -right-3 bg-red-500 text-white rounded-full p-2">
+                <ArrowUp className="w-5 h-5" />
+              </div>
+            )}
+
+            <CardHeader className="pb-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">{ticket.order.order_number}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Table {ticket.order.table_number || "N/A"}
+                    {ticket.order.guest_name && ` • ${ticket.order.guest_name}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Waiter: {ticket.order.waiter?.full_name || "Unknown"}
+                  </p>
+                </div>
+                <div className={`flex items-center gap-1 text-lg font-bold ${getTimerColor(targetPercent, thresholds)}`}>
+                  <Clock className="w-5 h-5" />
+                  <span>{elapsedMinutes} min</span>
+                  <span className="text-xs font-medium">({targetPercent}%)</span>
+                </div>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-3">
+              {ticket.items.map((item) => (
+                <div key={item.id} className="border-t border-border pt-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-bold text-xl">
+                        {item.quantity} × {item.menu_item.name}
+                      </h3>
+                      {item.course_number > 1 && (
+                        <Badge variant="outline" className="mt-1">{formatCourse(item.course_number)}</Badge>
+                      )}
+                      <p className="text-xs text-muted-foreground">Target {item.prep_target_minutes} min</p>
+                    </div>
+                    {item.status === "dispatched" && (
+                      <Badge className="bg-yellow-500">
+                        <ChefHat className="w-4 h-4" />
+                      </Badge>
+                    )}
+                  </div>
+                  {item.modifiers?.length > 0 && (
+                    <ul className="space-y-1">
+                      {item.modifiers.map((modifier, idx) => (
+                        <li key={idx} className="text-base font-semibold">
+                          • {modifier.option_name}
+                          <span className="ml-1 text-xs font-normal text-muted-foreground">
+                            ({modifier.group_name})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {item.notes && (
+                    <div className="bg-yellow-50 dark:bg-yellow-950 p-2 rounded border-l-4 border-yellow-500">
+                      <p className="text-sm font-medium">Note: {item.notes}</p>
+                    </div>
+                  )}
+                  {item.status === "pending" && (
+                    <Button onClick={() => onUpdateStatus(item.id, "dispatched")} className="w-full">
+                      <ChefHat className="w-4 h-4 mr-2" />
+                      Start Prep
+                    </Button>
+                  )}
+                  {item.status === "dispatched" && (
+                    <Button
+                      onClick={() => onUpdateStatus(item.id, "ready")}
+                      className="w-full bg-green-600 hover:bg-green-700"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Mark Ready
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
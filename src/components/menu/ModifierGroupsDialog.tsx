@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { ModifierGroup, MODIFIER_GROUPS_SELECT, sortModifierGroups } from "@/lib/modifiers";
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  menuItem: {
+    id: string;
+    name: string;
+    tenant_id: string;
+  } | null;
+  onModifiersChanged: () => void;
+}
+
+const emptyGroupForm = {
+  name: "",
+  is_required: false,
+  min_selections: "0",
+  max_selections: "1",
+};
+
+export function ModifierGroupsDialog({
+  open,
+  onOpenChange,
+  menuItem,
+  onModifiersChanged,
+}: ModifierGroupsDialogProps) {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [groupForm, setGroupForm] = useState(emptyGroupForm);
+  const [optionForms, setOptionForms] = useState<Record<string, { name: string; price_delta: string }>>({});
+
+  useEffect(() => {
+    if (open && menuItem) {
+      setGroupForm(emptyGroupForm);
+      setOptionForms({});
+      fetchGroups();
+    }
+  }, [open, menuItem?.id]);
+
+  const fetchGroups = async () => {
+    if (!menuItem) return;
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('menu_items')
+        .select(MODIFIER_GROUPS_SELECT)
+        .eq('id', menuItem.id)
+        .single();
+
+      if (error) throw error;
+      setGroups(sortModifierGroups((data as unknown as { modifier_groups: ModifierGroup[] }).modifier_groups));
+    } catch (error) {
+      toast({
+        title: "Error loading modifiers",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddGroup = async () => {
+    if (!menuItem || !groupForm.name.trim()) return;
+
+    const minSelections = parseInt(groupForm.min_selections) || 0;
+    const maxSelections = parseInt(groupForm.max_selections) || 1;
+
+    if (minSelections > maxSelections) {
+      toast({
+        title: "Validation Error",
+        description: "Minimum selections cannot exceed maximum selections",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('menu_modifier_groups')
+        .insert({
+          menu_item_id: menuItem.id,
+          tenant_id: menuItem.tenant_id,
+          name: groupForm.name.trim(),
+          is_required: groupForm.is_required,
+          min_selections: groupForm.is_required ? Math.max(minSelections, 1) : minSelections,
+          max_selections: maxSelections,
+          display_order: groups.length,
+        });
+
+      if (error) throw error;
+      setGroupForm(emptyGroupForm);
+      await fetchGroups();
+      onModifiersChanged();
+    } catch (error) {
+      toast({
+        title: "Error adding modifier group",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteGroup = async (groupId: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_modifier_groups')
+        .delete()
+        .eq('id', groupId);
+
+      if (error) throw error;
+      await fetchGroups();
+      onModifiersChanged();
+    } catch (error) {
+      toast({
+        title: "Error deleting modifier group",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddOption = async (group: ModifierGroup) => {
+    if (!menuItem) return;
+    const form = optionForms[group.id];
+    if (!form?.name.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('menu_modifier_options')
+        .insert({
+          group_id: group.id,
+          tenant_id: menuItem.tenant_id,
+          name: form.name.trim(),
+          price_delta: parseFloat(form.price_delta) || 0,
+          display_order: group.options.length,
+        });
+
+      if (error) throw error;
+      setOptionForms(prev => ({ ...prev, [group.id]: { name: "", price_delta: "" } }));
+      await fetchGroups();
+    } catch (error) {
+      toast({
+        title: "Error adding option",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleOption = async (optionId: string, isAvailable: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('menu_modifier_options')
+        .update({ is_available: isAvailable })
+        .eq('id', optionId);
+
+      if (error) throw error;
+      await fetchGroups();
+    } catch (error) {
+      toast({
+        title: "Error updating option",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteOption = async (optionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_modifier_options')
+        .delete()
+        .eq('id', optionId);
+
+      if (error) throw error;
+      await fetchGroups();
+    } catch (error) {
+      toast({
+        title: "Error deleting option",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDelta = (delta: number) => {
+    if (!delta) return "No charge";
+    return delta > 0 ? `+${formatPrice(delta)}` : `-${formatPrice(Math.abs(delta))}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifiers - {menuItem?.name}</DialogTitle>
+          <DialogDescription>
+            Option groups waiters choose from when adding this item to an order
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No modifier groups yet
+              </p>
+            )}
+
+            {groups.map(group => (
+              <Card key={group.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-semibold">{group.name}</div>
+                    <div className="flex gap-1 mt-1">
+                      <Badge variant={group.is_required ? "default" : "secondary"}>
+                        {group.is_required ? "Required" : "Optional"}
+                      </Badge>
+                      <Badge variant="outline">
+                        Choose {group.min_selections}–{group.max_selections}
+                      </Badge>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteGroup(group.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  {group.options.map(option => (
+                    <div key={option.id} className="flex items-center justify-between p-2 border rounded-md">
+                      <div>
+                        <span className={option.is_available ? "font-medium" : "font-medium text-muted-foreground line-through"}>
+                          {option.name}
+                        </span>
+                        <span className="ml-2 text-sm text-muted-foreground">
+                          {formatDelta(Number(option.price_delta))}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={option.is_available}
+                          onCheckedChange={(checked) => handleToggleOption(option.id, checked)}
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteOption(option.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Option name"
+                    value={optionForms[group.id]?.name || ""}
+                    onChange={(e) =>
+                      setOptionForms(prev => ({
+                        ...prev,
+                        [group.id]: { name: e.target.value, price_delta: prev[group.id]?.price_delta || "" },
+                      }))
+                    }
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="+0.00"
+                    className="w-28"
+                    value={optionForms[group.id]?.price_delta || ""}
+                    onChange={(e) =>
+                      setOptionForms(prev => ({
+                        ...prev,
+                        [group.id]: { name: prev[group.id]?.name || "", price_delta: e.target.value },
+                      }))
+                    }
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleAddOption(group)}
+                    disabled={!optionForms[group.id]?.name}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+
+            <div className="space-y-3 border-t pt-4">
+              <h4 className="font-medium text-sm">Add Modifier Group</h4>
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  value={groupForm.name}
+                  onChange={(e) => setGroupForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Size, Mixer, Doneness"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <div className="flex items-center gap-2 h-10">
+                  <Switch
+                    id="group-required"
+                    checked={groupForm.is_required}
+                    onCheckedChange={(checked) => setGroupForm(prev => ({ ...prev, is_required: checked }))}
+                  />
+                  <Label htmlFor="group-required">Required</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label>Min Selections</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={groupForm.min_selections}
+                    onChange={(e) => setGroupForm(prev => ({ ...prev, min_selections: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Max Selections</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={groupForm.max_selections}
+                    onChange={(e) => setGroupForm(prev => ({ ...prev, max_selections: e.target.value }))}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleAddGroup} disabled={!groupForm.name.trim()}>
+            Add Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
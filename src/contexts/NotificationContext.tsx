@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchExpoEnabled } from "@/lib/expo";
 
 interface Notification {
   id: string;
@@ -101,17 +102,17 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
       if (profile?.user_roles && Array.isArray(profile.user_roles) && profile.user_roles.length > 0) {
         const role = (profile.user_roles as any[])[0].role;
         setUserRole(role);
-        setupRealtimeSubscriptions(role, profile.tenant_id, user.id);
+        await setupRealtimeSubscriptions(role, profile.tenant_id, user.id);
       }
     } catch (error) {
       console.error('Error getting user role:', error);
     }
   };
 
-  const setupRealtimeSubscriptions = (role: string, tenantId: string, userId: string) => {
+  const setupRealtimeSubscriptions = async (role: string, tenantId: string, userId: string) => {
     // Subscribe based on role
     if (role === 'waiter' || role === 'bar_staff') {
-      subscribeToWaiterNotifications(userId);
+      subscribeToWaiterNotifications(userId, await fetchExpoEnabled(tenantId));
     } else if (['drink_dispenser', 'meal_dispenser', 'mixologist'].includes(role)) {
       subscribeToStationNotifications(role, tenantId);
     } else if (role === 'cashier') {
@@ -121,11 +122,32 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const subscribeToWaiterNotifications = (userId: string) => {
-    // Listen for ready items
-    const channel = supabase
-      .channel('waiter-notifications')
-      .on(
+  const subscribeToWaiterNotifications = (userId: string, expoEnabled: boolean) => {
+    const channel = supabase.channel('waiter-notifications');
+
+    if (expoEnabled) {
+      // Expo bumps the whole order once every station's items are at the pass
+      channel.on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'orders',
+          filter: `status=eq.bumped`
+        },
+        (payload: { new: { waiter_id: string; order_number: string } }) => {
+          if (payload.new.waiter_id === userId) {
+            addNotification({
+              type: 'ready_item',
+              title: 'Order Ready',
+              message: `Order ${payload.new.order_number} is complete at the pass`,
+            });
+          }
+        }
+      );
+    } else {
+      // Listen for ready items
+      channel.on(
         'postgres_changes',
         {
           event: 'UPDATE',
@@ -149,6 +171,39 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
             });
           }
         }
+      );
+    }
+
+    channel
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'order_items',
+          filter: `status=eq.rejected`
+        },
+        async (payload: { new: { id: string } }) => {
+          const { data } = await supabase
+            .from('order_items')
+            .select(`
+              orders!inner(waiter_id, order_number),
+              menu_items(name),
+              substitution:order_item_substitutions!order_item_substitutions_order_item_id_fkey(menu_items(name))
+            `)
+            .eq('id', payload.new.id)
+            .single();
+
+          if (data && data.orders.waiter_id === userId) {
+            const substitute = data.substitution?.menu_items?.name;
+            addNotification({
+              type: 'out_of_stock',
+              title: 'Item Rejected',
+              message: `${data.menu_items?.name || 'An item'} on order ${data.orders.order_number} is out of stock`
+                + (substitute ? ` - ${substitute} suggested instead` : ''),
+            });
+          }
+        }
       )
       .subscribe();
 
@@ -14,6 +14,81 @@ export type Database = {
   }
   public: {
     Tables: {
+      approval_pin_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          tenant_id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          tenant_id: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          tenant_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_pin_attempts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_pin_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_pins: {
+        Row: {
+          created_at: string
+          pin_hash: string
+          tenant_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          pin_hash: string
+          tenant_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          pin_hash?: string
+          tenant_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_pins_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -62,6 +137,134 @@ export type Database = {
           },
         ]
       }
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          movement_type: string
+          reason: string | null
+          shift_id: string
+          tenant_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by: string
+          id?: string
+          movement_type: string
+          reason?: string | null
+          shift_id: string
+          tenant_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          movement_type?: string
+          reason?: string | null
+          shift_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cashier_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_movements_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cashier_shifts: {
+        Row: {
+          cashier_id: string
+          closed_at: string | null
+          counted_cash: number | null
+          created_at: string
+          event_id: string | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opening_float: number
+          over_short: number | null
+          status: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          cashier_id: string
+          closed_at?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          event_id?: string | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          over_short?: number | null
+          status?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          cashier_id?: string
+          closed_at?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          event_id?: string | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          over_short?: number | null
+          status?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cashier_shifts_cashier_id_fkey"
+            columns: ["cashier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cashier_shifts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cashier_shifts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
           created_at: string
@@ -126,14 +329,74 @@ export type Database = {
           },
         ]
       }
+      ingredients: {
+        Row: {
+          created_at: string
+          current_stock: number
+          event_id: string
+          id: string
+          name: string
+          pack_label: string | null
+          pack_size: number | null
+          starting_stock: number
+          tenant_id: string
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_stock?: number
+          event_id: string
+          id?: string
+          name: string
+          pack_label?: string | null
+          pack_size?: number | null
+          starting_stock?: number
+          tenant_id: string
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_stock?: number
+          event_id?: string
+          id?: string
+          name?: string
+          pack_label?: string | null
+          pack_size?: number | null
+          starting_stock?: number
+          tenant_id?: string
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredients_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredients_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory_zone_allocations: {
         Row: {
           allocated_quantity: number
           created_at: string
           event_id: string
           id: string
+          is_available: boolean
           menu_item_id: string
           tenant_id: string
+          unavailable_at: string | null
+          unavailable_by: string | null
           updated_at: string
           zone_id: string
         }
@@ -142,8 +405,11 @@ export type Database = {
           created_at?: string
           event_id: string
           id?: string
+          is_available?: boolean
           menu_item_id: string
           tenant_id: string
+          unavailable_at?: string | null
+          unavailable_by?: string | null
           updated_at?: string
           zone_id: string
         }
@@ -152,8 +418,11 @@ export type Database = {
           created_at?: string
           event_id?: string
           id?: string
+          is_available?: boolean
           menu_item_id?: string
           tenant_id?: string
+          unavailable_at?: string | null
+          unavailable_by?: string | null
           updated_at?: string
           zone_id?: string
         }
@@ -179,6 +448,13 @@ export type Database = {
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "inventory_zone_allocations_unavailable_by_fkey"
+            columns: ["unavailable_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "inventory_zone_allocations_zone_id_fkey"
             columns: ["zone_id"]
@@ -270,83 +546,286 @@ export type Database = {
           },
         ]
       }
-      menu_categories: {
+      kds_profiles: {
         Row: {
+          categories: string[]
           created_at: string
-          description: string | null
-          display_order: number | null
+          created_by: string | null
+          critical_percent: number
+          event_id: string
           id: string
+          is_active: boolean
+          menu_item_ids: string[]
           name: string
+          station_type: Database["public"]["Enums"]["station_type"] | null
           tenant_id: string
           updated_at: string
+          view_mode: string
+          warning_percent: number
+          zone_ids: string[]
         }
         Insert: {
+          categories?: string[]
           created_at?: string
-          description?: string | null
-          display_order?: number | null
+          created_by?: string | null
+          critical_percent?: number
+          event_id: string
           id?: string
+          is_active?: boolean
+          menu_item_ids?: string[]
           name: string
+          station_type?: Database["public"]["Enums"]["station_type"] | null
           tenant_id: string
           updated_at?: string
+          view_mode?: string
+          warning_percent?: number
+          zone_ids?: string[]
         }
         Update: {
+          categories?: string[]
           created_at?: string
-          description?: string | null
-          display_order?: number | null
+          created_by?: string | null
+          critical_percent?: number
+          event_id?: string
           id?: string
+          is_active?: boolean
+          menu_item_ids?: string[]
           name?: string
+          station_type?: Database["public"]["Enums"]["station_type"] | null
           tenant_id?: string
           updated_at?: string
+          view_mode?: string
+          warning_percent?: number
+          zone_ids?: string[]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kds_profiles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kds_profiles_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kds_profiles_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      menu_items: {
+      kds_screens: {
         Row: {
-          category: string
           created_at: string
-          created_by: string | null
-          current_inventory: number | null
-          event_id: string | null
+          device_token: string | null
+          failed_pairing_attempts: number
           id: string
-          is_available: boolean | null
-          is_retired: boolean
+          last_seen_at: string | null
           name: string
-          price: number
-          starting_inventory: number | null
-          station_type: Database["public"]["Enums"]["station_type"]
+          paired_at: string | null
+          pairing_code: string | null
+          pairing_expires_at: string | null
+          position: number
+          profile_id: string
           tenant_id: string
           updated_at: string
-          updated_by: string | null
         }
         Insert: {
-          category: string
           created_at?: string
-          created_by?: string | null
-          current_inventory?: number | null
-          event_id?: string | null
+          device_token?: string | null
+          failed_pairing_attempts?: number
           id?: string
-          is_available?: boolean | null
-          is_retired?: boolean
+          last_seen_at?: string | null
           name: string
-          price?: number
-          starting_inventory?: number | null
-          station_type: Database["public"]["Enums"]["station_type"]
+          paired_at?: string | null
+          pairing_code?: string | null
+          pairing_expires_at?: string | null
+          position?: number
+          profile_id: string
           tenant_id: string
           updated_at?: string
-          updated_by?: string | null
         }
         Update: {
-          category?: string
           created_at?: string
-          created_by?: string | null
-          current_inventory?: number | null
-          event_id?: string | null
+          device_token?: string | null
+          failed_pairing_attempts?: number
           id?: string
-          is_available?: boolean | null
-          is_retired?: boolean
+          last_seen_at?: string | null
           name?: string
-          price?: number
-          starting_inventory?: number | null
+          paired_at?: string | null
+          pairing_code?: string | null
+          pairing_expires_at?: string | null
+          position?: number
+          profile_id?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kds_screens_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "kds_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kds_screens_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_order: number | null
+          id: string
+          name: string
+          prep_target_minutes: number | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_order?: number | null
+          id?: string
+          name: string
+          prep_target_minutes?: number | null
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          display_order?: number | null
+          id?: string
+          name?: string
+          prep_target_minutes?: number | null
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      menu_item_cost_history: {
+        Row: {
+          changed_by: string | null
+          cost_price: number | null
+          created_at: string
+          id: string
+          menu_item_id: string
+          source: string
+          tenant_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          cost_price?: number | null
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          source: string
+          tenant_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          cost_price?: number | null
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          source?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_cost_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_cost_history_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_cost_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_items: {
+        Row: {
+          category: string
+          cost_price: number | null
+          cost_source: string
+          created_at: string
+          created_by: string | null
+          current_inventory: number | null
+          event_id: string | null
+          id: string
+          is_available: boolean | null
+          is_retired: boolean
+          name: string
+          prep_target_minutes: number | null
+          price: number
+          starting_inventory: number | null
+          station_type: Database["public"]["Enums"]["station_type"]
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          category: string
+          cost_price?: number | null
+          cost_source?: string
+          created_at?: string
+          created_by?: string | null
+          current_inventory?: number | null
+          event_id?: string | null
+          id?: string
+          is_available?: boolean | null
+          is_retired?: boolean
+          name: string
+          prep_target_minutes?: number | null
+          price?: number
+          starting_inventory?: number | null
+          station_type: Database["public"]["Enums"]["station_type"]
+          tenant_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          category?: string
+          cost_price?: number | null
+          cost_source?: string
+          created_at?: string
+          created_by?: string | null
+          current_inventory?: number | null
+          event_id?: string | null
+          id?: string
+          is_available?: boolean | null
+          is_retired?: boolean
+          name?: string
+          prep_target_minutes?: number | null
+          price?: number
+          starting_inventory?: number | null
           station_type?: Database["public"]["Enums"]["station_type"]
           tenant_id?: string
           updated_at?: string
@@ -383,403 +862,1753 @@ export type Database = {
           },
         ]
       }
-      order_items: {
+      menu_modifier_groups: {
         Row: {
-          assigned_to: string | null
           created_at: string
-          dispatched_at: string | null
+          display_order: number
           id: string
+          is_required: boolean
+          max_selections: number
           menu_item_id: string
-          notes: string | null
-          order_id: string
-          price: number
-          quantity: number
-          ready_at: string | null
-          station_type: Database["public"]["Enums"]["station_type"]
-          status: Database["public"]["Enums"]["order_status"]
+          min_selections: number
+          name: string
           tenant_id: string
           updated_at: string
         }
         Insert: {
-          assigned_to?: string | null
           created_at?: string
-          dispatched_at?: string | null
+          display_order?: number
           id?: string
+          is_required?: boolean
+          max_selections?: number
           menu_item_id: string
-          notes?: string | null
-          order_id: string
-          price: number
-          quantity?: number
-          ready_at?: string | null
-          station_type: Database["public"]["Enums"]["station_type"]
-          status?: Database["public"]["Enums"]["order_status"]
+          min_selections?: number
+          name: string
           tenant_id: string
           updated_at?: string
         }
         Update: {
-          assigned_to?: string | null
           created_at?: string
-          dispatched_at?: string | null
+          display_order?: number
           id?: string
+          is_required?: boolean
+          max_selections?: number
           menu_item_id?: string
-          notes?: string | null
-          order_id?: string
-          price?: number
-          quantity?: number
-          ready_at?: string | null
-          station_type?: Database["public"]["Enums"]["station_type"]
-          status?: Database["public"]["Enums"]["order_status"]
+          min_selections?: number
+          name?: string
           tenant_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "menu_modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_menu_item_id_fkey"
-            columns: ["menu_item_id"]
+            foreignKeyName: "menu_modifier_groups_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "menu_items"
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_modifier_options: {
+        Row: {
+          created_at: string
+          display_order: number
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifier_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_modifier_options_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_charges: {
+        Row: {
+          amount: number
+          charge_type: Database["public"]["Enums"]["order_charge_type"]
+          created_at: string
+          id: string
+          is_inclusive: boolean
+          name: string
+          order_id: string
+          rate: number
+          tenant_id: string
+        }
+        Insert: {
+          amount: number
+          charge_type: Database["public"]["Enums"]["order_charge_type"]
+          created_at?: string
+          id?: string
+          is_inclusive?: boolean
+          name: string
+          order_id: string
+          rate: number
+          tenant_id: string
+        }
+        Update: {
+          amount?: number
+          charge_type?: Database["public"]["Enums"]["order_charge_type"]
+          created_at?: string
+          id?: string
+          is_inclusive?: boolean
+          name?: string
+          order_id?: string
+          rate?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_charges_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_charges_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      order_discounts: {
+        Row: {
+          amount: number
+          applied_by: string | null
+          approved_by: string | null
+          created_at: string
+          discount_type: Database["public"]["Enums"]["discount_type"]
+          id: string
+          order_id: string
+          order_item_id: string | null
+          reason: string
+          tenant_id: string
+          value: number
+        }
+        Insert: {
+          amount?: number
+          applied_by?: string | null
+          approved_by?: string | null
+          created_at?: string
+          discount_type: Database["public"]["Enums"]["discount_type"]
+          id?: string
+          order_id: string
+          order_item_id?: string | null
+          reason: string
+          tenant_id: string
+          value?: number
+        }
+        Update: {
+          amount?: number
+          applied_by?: string | null
+          approved_by?: string | null
+          created_at?: string
+          discount_type?: Database["public"]["Enums"]["discount_type"]
+          id?: string
+          order_id?: string
+          order_item_id?: string | null
+          reason?: string
+          tenant_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_discounts_applied_by_fkey"
+            columns: ["applied_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_modifiers: {
+        Row: {
+          created_at: string
+          group_name: string
+          id: string
+          modifier_option_id: string | null
+          option_name: string
+          order_item_id: string
+          price_delta: number
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_name: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name: string
+          order_item_id: string
+          price_delta?: number
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          group_name?: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name?: string
+          order_item_id?: string
+          price_delta?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_modifiers_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifier_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_modifiers_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_modifiers_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_substitutions: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          id: string
+          menu_item_id: string
+          order_item_id: string
+          substitute_order_item_id: string | null
+          suggested_by: string | null
+          tenant_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          order_item_id: string
+          substitute_order_item_id?: string | null
+          suggested_by?: string | null
+          tenant_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          order_item_id?: string
+          substitute_order_item_id?: string | null
+          suggested_by?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_substitutions_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_substitutions_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_substitutions_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_substitutions_substitute_order_item_id_fkey"
+            columns: ["substitute_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_substitutions_suggested_by_fkey"
+            columns: ["suggested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_substitutions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          assigned_at: string | null
+          assigned_to: string | null
+          course_number: number
+          created_at: string
+          dispatched_at: string | null
+          fired_at: string | null
+          id: string
+          is_held: boolean
+          menu_item_id: string
+          notes: string | null
+          order_id: string
+          prep_target_minutes: number
+          price: number
+          quantity: number
+          ready_at: string | null
+          station_type: Database["public"]["Enums"]["station_type"]
+          status: Database["public"]["Enums"]["order_status"]
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          course_number?: number
+          created_at?: string
+          dispatched_at?: string | null
+          fired_at?: string | null
+          id?: string
+          is_held?: boolean
+          menu_item_id: string
+          notes?: string | null
+          order_id: string
+          prep_target_minutes?: number
+          price: number
+          quantity?: number
+          ready_at?: string | null
+          station_type: Database["public"]["Enums"]["station_type"]
+          status?: Database["public"]["Enums"]["order_status"]
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_to?: string | null
+          course_number?: number
+          created_at?: string
+          dispatched_at?: string | null
+          fired_at?: string | null
+          id?: string
+          is_held?: boolean
+          menu_item_id?: string
+          notes?: string | null
+          order_id?: string
+          prep_target_minutes?: number
+          price?: number
+          quantity?: number
+          ready_at?: string | null
+          station_type?: Database["public"]["Enums"]["station_type"]
+          status?: Database["public"]["Enums"]["order_status"]
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_returns: {
+        Row: {
+          confirmed_at: string | null
+          confirmed_by: string | null
+          created_at: string
+          id: string
+          order_item_id: string
+          reason: string
+          refund_amount: number | null
+          reported_by: string
+          tenant_id: string
+        }
+        Insert: {
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          created_at?: string
+          id?: string
+          order_item_id: string
+          reason: string
+          refund_amount?: number | null
+          reported_by: string
+          tenant_id: string
+        }
+        Update: {
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          created_at?: string
+          id?: string
+          order_item_id?: string
+          reason?: string
+          refund_amount?: number | null
+          reported_by?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_returns_confirmed_by_fkey"
+            columns: ["confirmed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_reported_by_fkey"
+            columns: ["reported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          bumped_at: string | null
+          bumped_by: string | null
+          created_at: string
+          dispatched_at: string | null
+          event_id: string
+          guest_count: number | null
+          guest_name: string | null
+          id: string
+          order_number: string
+          paid_at: string | null
+          ready_at: string | null
+          served_at: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          tenant_id: string
+          total_amount: number | null
+          updated_at: string
+          waiter_id: string
+        }
+        Insert: {
+          bumped_at?: string | null
+          bumped_by?: string | null
+          created_at?: string
+          dispatched_at?: string | null
+          event_id: string
+          guest_count?: number | null
+          guest_name?: string | null
+          id?: string
+          order_number: string
+          paid_at?: string | null
+          ready_at?: string | null
+          served_at?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          tab_id?: string | null
+          table_id?: string | null
+          table_number?: string | null
+          tenant_id: string
+          total_amount?: number | null
+          updated_at?: string
+          waiter_id: string
+        }
+        Update: {
+          bumped_at?: string | null
+          bumped_by?: string | null
+          created_at?: string
+          dispatched_at?: string | null
+          event_id?: string
+          guest_count?: number | null
+          guest_name?: string | null
+          id?: string
+          order_number?: string
+          paid_at?: string | null
+          ready_at?: string | null
+          served_at?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          tab_id?: string | null
+          table_id?: string | null
+          table_number?: string | null
+          tenant_id?: string
+          total_amount?: number | null
+          updated_at?: string
+          waiter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_bumped_by_fkey"
+            columns: ["bumped_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_tab_id_fkey"
+            columns: ["tab_id"]
+            isOneToOne: false
+            referencedRelation: "table_tabs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_waiter_id_fkey"
+            columns: ["waiter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          confirmed_by: string | null
+          created_at: string
+          guest_identifier: string | null
+          id: string
+          notes: string | null
+          notes_metadata: Json | null
+          order_id: string
+          order_return_id: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: string | null
+          refund_of: string | null
+          split_session_id: string | null
+          split_type: string | null
+          tenant_id: string
+          tip_amount: number
+        }
+        Insert: {
+          amount: number
+          confirmed_by?: string | null
+          created_at?: string
+          guest_identifier?: string | null
+          id?: string
+          notes?: string | null
+          notes_metadata?: Json | null
+          order_id: string
+          order_return_id?: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status?: string | null
+          refund_of?: string | null
+          split_session_id?: string | null
+          split_type?: string | null
+          tenant_id: string
+          tip_amount?: number
+        }
+        Update: {
+          amount?: number
+          confirmed_by?: string | null
+          created_at?: string
+          guest_identifier?: string | null
+          id?: string
+          notes?: string | null
+          notes_metadata?: Json | null
+          order_id?: string
+          order_return_id?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: string | null
+          refund_of?: string | null
+          split_session_id?: string | null
+          split_type?: string | null
+          tenant_id?: string
+          tip_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_confirmed_by_fkey"
+            columns: ["confirmed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_order_return_id_fkey"
+            columns: ["order_return_id"]
+            isOneToOne: false
+            referencedRelation: "order_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_refund_of_fkey"
+            columns: ["refund_of"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prep_time_breaches: {
+        Row: {
+          actual_minutes: number
+          assigned_to: string | null
+          breached_at: string
+          cause: string
+          id: string
+          order_item_id: string
+          station_type: Database["public"]["Enums"]["station_type"]
+          target_minutes: number
+          tenant_id: string
+        }
+        Insert: {
+          actual_minutes: number
+          assigned_to?: string | null
+          breached_at?: string
+          cause: string
+          id?: string
+          order_item_id: string
+          station_type: Database["public"]["Enums"]["station_type"]
+          target_minutes: number
+          tenant_id: string
+        }
+        Update: {
+          actual_minutes?: number
+          assigned_to?: string | null
+          breached_at?: string
+          cause?: string
+          id?: string
+          order_item_id?: string
+          station_type?: Database["public"]["Enums"]["station_type"]
+          target_minutes?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prep_time_breaches_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_time_breaches_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prep_time_breaches_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          event_id: string | null
+          full_name: string | null
+          id: string
+          is_active: boolean | null
+          phone: string | null
+          tenant_id: string | null
+          updated_at: string
+          zone_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          event_id?: string | null
+          full_name?: string | null
+          id: string
+          is_active?: boolean | null
+          phone?: string | null
+          tenant_id?: string | null
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          event_id?: string | null
+          full_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          phone?: string | null
+          tenant_id?: string | null
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string
+          id: string
+          ingredient_id: string | null
+          menu_item_id: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          tenant_id: string
+          unit_cost: number
+          units_per_purchase: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ingredient_id?: string | null
+          menu_item_id?: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          tenant_id: string
+          unit_cost?: number
+          units_per_purchase?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ingredient_id?: string | null
+          menu_item_id?: string | null
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          tenant_id?: string
+          unit_cost?: number
+          units_per_purchase?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          event_id: string
+          id: string
+          notes: string | null
+          po_number: string
+          received_at: string | null
+          status: string
+          supplier_id: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          event_id: string
+          id?: string
+          notes?: string | null
+          po_number: string
+          received_at?: string | null
+          status?: string
+          supplier_id: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          event_id?: string
+          id?: string
+          notes?: string | null
+          po_number?: string
+          received_at?: string | null
+          status?: string
+          supplier_id?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_items: {
+        Row: {
+          created_at: string
+          id: string
+          ingredient_id: string
+          menu_item_id: string
+          quantity: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ingredient_id: string
+          menu_item_id: string
+          quantity: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ingredient_id?: string
+          menu_item_id?: string
+          quantity?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_items_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restock_requests: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          decline_reason: string | null
+          event_id: string
+          id: string
+          menu_item_id: string
+          notes: string | null
+          quantity_fulfilled: number | null
+          quantity_requested: number
+          requested_at: string
+          requested_by: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          source_zone_id: string | null
+          status: string
+          tenant_id: string
+          transfer_id: string | null
+          updated_at: string
+          zone_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          event_id: string
+          id?: string
+          menu_item_id: string
+          notes?: string | null
+          quantity_fulfilled?: number | null
+          quantity_requested: number
+          requested_at?: string
+          requested_by?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source_zone_id?: string | null
+          status?: string
+          tenant_id: string
+          transfer_id?: string | null
+          updated_at?: string
+          zone_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          event_id?: string
+          id?: string
+          menu_item_id?: string
+          notes?: string | null
+          quantity_fulfilled?: number | null
+          quantity_requested?: number
+          requested_at?: string
+          requested_by?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          source_zone_id?: string | null
+          status?: string
+          tenant_id?: string
+          transfer_id?: string | null
+          updated_at?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restock_requests_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_source_zone_id_fkey"
+            columns: ["source_zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_zone_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restock_requests_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_capacities: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          max_staff: number
+          role: Database["public"]["Enums"]["app_role"]
+          tenant_id: string
+          updated_at: string
+          zone_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          max_staff: number
+          role: Database["public"]["Enums"]["app_role"]
+          tenant_id: string
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          max_staff?: number
+          role?: Database["public"]["Enums"]["app_role"]
+          tenant_id?: string
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_capacities_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_capacities_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_capacities_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_shifts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          event_id: string
+          id: string
+          notes: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          starts_at: string
+          tenant_id: string
+          updated_at: string
+          user_id: string
+          zone_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          event_id: string
+          id?: string
+          notes?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          starts_at: string
+          tenant_id: string
+          updated_at?: string
+          user_id: string
+          zone_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          event_id?: string
+          id?: string
+          notes?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          starts_at?: string
+          tenant_id?: string
+          updated_at?: string
+          user_id?: string
+          zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_shifts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_shifts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_shifts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_shifts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_shifts_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      split_payment_items: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          order_item_id: string
+          payment_id: string
+          quantity: number
+          tenant_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          order_item_id: string
+          payment_id: string
+          quantity?: number
+          tenant_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          order_item_id?: string
+          payment_id?: string
+          quantity?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "split_payment_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "split_payment_items_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "split_payment_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_locations: {
+        Row: {
+          created_at: string | null
+          event_id: string
+          floor_level: number | null
+          id: string
+          last_seen: string | null
+          status: string | null
+          tenant_id: string
+          updated_at: string | null
+          user_id: string
+          x_coordinate: number
+          y_coordinate: number
+        }
+        Insert: {
+          created_at?: string | null
+          event_id: string
+          floor_level?: number | null
+          id?: string
+          last_seen?: string | null
+          status?: string | null
+          tenant_id: string
+          updated_at?: string | null
+          user_id: string
+          x_coordinate: number
+          y_coordinate: number
+        }
+        Update: {
+          created_at?: string | null
+          event_id?: string
+          floor_level?: number | null
+          id?: string
+          last_seen?: string | null
+          status?: string | null
+          tenant_id?: string
+          updated_at?: string | null
+          user_id?: string
+          x_coordinate?: number
+          y_coordinate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_locations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_locations_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_locations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_pay_rates: {
+        Row: {
+          created_at: string
+          hourly_rate: number
+          tenant_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hourly_rate?: number
+          tenant_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hourly_rate?: number
+          tenant_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "staff_pay_rates_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_tenant_id_fkey"
-            columns: ["tenant_id"]
-            isOneToOne: false
-            referencedRelation: "tenants"
+            foreignKeyName: "staff_pay_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      order_returns: {
+      stock_count_lines: {
         Row: {
-          confirmed_at: string | null
-          confirmed_by: string | null
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
           created_at: string
+          expected_quantity: number
           id: string
-          order_item_id: string
-          reason: string
-          refund_amount: number | null
-          reported_by: string
+          menu_item_id: string
+          stock_count_id: string
           tenant_id: string
+          unit_cost: number | null
+          updated_at: string
+          zone_id: string | null
         }
         Insert: {
-          confirmed_at?: string | null
-          confirmed_by?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
           created_at?: string
+          expected_quantity: number
           id?: string
-          order_item_id: string
-          reason: string
-          refund_amount?: number | null
-          reported_by: string
+          menu_item_id: string
+          stock_count_id: string
           tenant_id: string
+          unit_cost?: number | null
+          updated_at?: string
+          zone_id?: string | null
         }
         Update: {
-          confirmed_at?: string | null
-          confirmed_by?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
           created_at?: string
+          expected_quantity?: number
           id?: string
-          order_item_id?: string
-          reason?: string
-          refund_amount?: number | null
-          reported_by?: string
+          menu_item_id?: string
+          stock_count_id?: string
           tenant_id?: string
+          unit_cost?: number | null
+          updated_at?: string
+          zone_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "order_returns_confirmed_by_fkey"
-            columns: ["confirmed_by"]
+            foreignKeyName: "stock_count_lines_counted_by_fkey"
+            columns: ["counted_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_returns_order_item_id_fkey"
-            columns: ["order_item_id"]
+            foreignKeyName: "stock_count_lines_menu_item_id_fkey"
+            columns: ["menu_item_id"]
             isOneToOne: false
-            referencedRelation: "order_items"
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_returns_reported_by_fkey"
-            columns: ["reported_by"]
+            foreignKeyName: "stock_count_lines_stock_count_id_fkey"
+            columns: ["stock_count_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "stock_counts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_returns_tenant_id_fkey"
+            foreignKeyName: "stock_count_lines_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_count_lines_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      orders: {
+      stock_counts: {
         Row: {
+          completed_at: string | null
+          completed_by: string | null
           created_at: string
-          dispatched_at: string | null
           event_id: string
-          guest_name: string | null
           id: string
-          order_number: string
-          paid_at: string | null
-          ready_at: string | null
-          served_at: string | null
-          status: Database["public"]["Enums"]["order_status"]
-          table_number: string | null
+          notes: string | null
+          started_at: string
+          started_by: string | null
+          status: string
           tenant_id: string
-          total_amount: number | null
           updated_at: string
-          waiter_id: string
         }
         Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
-          dispatched_at?: string | null
           event_id: string
-          guest_name?: string | null
           id?: string
-          order_number: string
-          paid_at?: string | null
-          ready_at?: string | null
-          served_at?: string | null
-          status?: Database["public"]["Enums"]["order_status"]
-          table_number?: string | null
+          notes?: string | null
+          started_at?: string
+          started_by?: string | null
+          status?: string
           tenant_id: string
-          total_amount?: number | null
           updated_at?: string
-          waiter_id: string
         }
         Update: {
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
-          dispatched_at?: string | null
           event_id?: string
-          guest_name?: string | null
           id?: string
-          order_number?: string
-          paid_at?: string | null
-          ready_at?: string | null
-          served_at?: string | null
-          status?: Database["public"]["Enums"]["order_status"]
-          table_number?: string | null
+          notes?: string | null
+          started_at?: string
+          started_by?: string | null
+          status?: string
           tenant_id?: string
-          total_amount?: number | null
           updated_at?: string
-          waiter_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "orders_event_id_fkey"
+            foreignKeyName: "stock_counts_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_counts_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_tenant_id_fkey"
-            columns: ["tenant_id"]
+            foreignKeyName: "stock_counts_started_by_fkey"
+            columns: ["started_by"]
             isOneToOne: false
-            referencedRelation: "tenants"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_waiter_id_fkey"
-            columns: ["waiter_id"]
+            foreignKeyName: "stock_counts_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
         ]
       }
-      payments: {
+      stock_receipts: {
         Row: {
-          amount: number
-          confirmed_by: string | null
-          created_at: string
-          guest_identifier: string | null
+          event_id: string
           id: string
-          notes: string | null
-          notes_metadata: Json | null
-          order_id: string
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          payment_status: string | null
-          split_session_id: string | null
-          split_type: string | null
+          ingredient_id: string | null
+          menu_item_id: string | null
+          purchase_order_item_id: string
+          quantity: number
+          received_at: string
+          received_by: string | null
+          stock_quantity: number
           tenant_id: string
+          unit_cost: number
         }
         Insert: {
-          amount: number
-          confirmed_by?: string | null
-          created_at?: string
-          guest_identifier?: string | null
+          event_id: string
           id?: string
-          notes?: string | null
-          notes_metadata?: Json | null
-          order_id: string
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          payment_status?: string | null
-          split_session_id?: string | null
-          split_type?: string | null
+          ingredient_id?: string | null
+          menu_item_id?: string | null
+          purchase_order_item_id: string
+          quantity: number
+          received_at?: string
+          received_by?: string | null
+          stock_quantity: number
           tenant_id: string
+          unit_cost: number
         }
         Update: {
-          amount?: number
-          confirmed_by?: string | null
-          created_at?: string
-          guest_identifier?: string | null
+          event_id?: string
           id?: string
-          notes?: string | null
-          notes_metadata?: Json | null
-          order_id?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          payment_status?: string | null
-          split_session_id?: string | null
-          split_type?: string | null
+          ingredient_id?: string | null
+          menu_item_id?: string | null
+          purchase_order_item_id?: string
+          quantity?: number
+          received_at?: string
+          received_by?: string | null
+          stock_quantity?: number
           tenant_id?: string
+          unit_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payments_confirmed_by_fkey"
-            columns: ["confirmed_by"]
+            foreignKeyName: "stock_receipts_event_id_fkey"
+            columns: ["event_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "stock_receipts_ingredient_id_fkey"
+            columns: ["ingredient_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "ingredients"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_tenant_id_fkey"
-            columns: ["tenant_id"]
+            foreignKeyName: "stock_receipts_menu_item_id_fkey"
+            columns: ["menu_item_id"]
             isOneToOne: false
-            referencedRelation: "tenants"
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      profiles: {
-        Row: {
-          avatar_url: string | null
-          created_at: string
-          event_id: string | null
-          full_name: string | null
-          id: string
-          is_active: boolean | null
-          phone: string | null
-          tenant_id: string | null
-          updated_at: string
-          zone_id: string | null
-        }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          event_id?: string | null
-          full_name?: string | null
-          id: string
-          is_active?: boolean | null
-          phone?: string | null
-          tenant_id?: string | null
-          updated_at?: string
-          zone_id?: string | null
-        }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string
-          event_id?: string | null
-          full_name?: string | null
-          id?: string
-          is_active?: boolean | null
-          phone?: string | null
-          tenant_id?: string | null
-          updated_at?: string
-          zone_id?: string | null
-        }
-        Relationships: [
           {
-            foreignKeyName: "profiles_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "stock_receipts_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
             isOneToOne: false
-            referencedRelation: "events"
+            referencedRelation: "purchase_order_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_tenant_id_fkey"
-            columns: ["tenant_id"]
+            foreignKeyName: "stock_receipts_received_by_fkey"
+            columns: ["received_by"]
             isOneToOne: false
-            referencedRelation: "tenants"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_zone_id_fkey"
-            columns: ["zone_id"]
+            foreignKeyName: "stock_receipts_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "zones"
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
         ]
       }
-      split_payment_items: {
+      suppliers: {
         Row: {
-          amount: number
+          contact_name: string | null
           created_at: string
+          email: string | null
           id: string
-          order_item_id: string
-          payment_id: string
-          quantity: number
+          is_active: boolean
+          name: string
+          notes: string | null
+          phone: string | null
           tenant_id: string
+          updated_at: string
         }
         Insert: {
-          amount: number
+          contact_name?: string | null
           created_at?: string
+          email?: string | null
           id?: string
-          order_item_id: string
-          payment_id: string
-          quantity?: number
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          phone?: string | null
           tenant_id: string
+          updated_at?: string
         }
         Update: {
-          amount?: number
+          contact_name?: string | null
           created_at?: string
+          email?: string | null
           id?: string
-          order_item_id?: string
-          payment_id?: string
-          quantity?: number
-          tenant_id?: string
-        }
-        Relationships: [
-          {
-            foreignKeyName: "split_payment_items_order_item_id_fkey"
-            columns: ["order_item_id"]
-            isOneToOne: false
-            referencedRelation: "order_items"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "split_payment_items_payment_id_fkey"
-            columns: ["payment_id"]
-            isOneToOne: false
-            referencedRelation: "payments"
-            referencedColumns: ["id"]
-          },
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "split_payment_items_tenant_id_fkey"
+            foreignKeyName: "suppliers_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -787,68 +2616,85 @@ export type Database = {
           },
         ]
       }
-      staff_locations: {
+      table_tabs: {
         Row: {
-          created_at: string | null
+          closed_at: string | null
+          created_at: string
           event_id: string
-          floor_level: number | null
           id: string
-          last_seen: string | null
-          status: string | null
+          opened_at: string
+          opened_by: string | null
+          settled_at: string | null
+          settled_by: string | null
+          status: string
+          table_id: string
           tenant_id: string
-          updated_at: string | null
-          user_id: string
-          x_coordinate: number
-          y_coordinate: number
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          closed_at?: string | null
+          created_at?: string
           event_id: string
-          floor_level?: number | null
           id?: string
-          last_seen?: string | null
-          status?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string
+          table_id: string
           tenant_id: string
-          updated_at?: string | null
-          user_id: string
-          x_coordinate: number
-          y_coordinate: number
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          closed_at?: string | null
+          created_at?: string
           event_id?: string
-          floor_level?: number | null
           id?: string
-          last_seen?: string | null
-          status?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string
+          table_id?: string
           tenant_id?: string
-          updated_at?: string | null
-          user_id?: string
-          x_coordinate?: number
-          y_coordinate?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "staff_locations_event_id_fkey"
+            foreignKeyName: "table_tabs_event_id_fkey"
             columns: ["event_id"]
             isOneToOne: false
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "staff_locations_tenant_id_fkey"
-            columns: ["tenant_id"]
+            foreignKeyName: "table_tabs_opened_by_fkey"
+            columns: ["opened_by"]
             isOneToOne: false
-            referencedRelation: "tenants"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "staff_locations_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "table_tabs_settled_by_fkey"
+            columns: ["settled_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "table_tabs_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "table_tabs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       tables: {
@@ -941,6 +2787,47 @@ export type Database = {
           },
         ]
       }
+      tax_rates: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          rate: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          rate: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          rate?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tenants: {
         Row: {
           created_at: string
@@ -951,6 +2838,9 @@ export type Database = {
           name: string
           plan_limits: Json | null
           plan_name: string | null
+          service_charge_min_guests: number
+          service_charge_rate: number
+          tax_inclusive: boolean
           theme_config: Json | null
           updated_at: string
         }
@@ -963,6 +2853,9 @@ export type Database = {
           name: string
           plan_limits?: Json | null
           plan_name?: string | null
+          service_charge_min_guests?: number
+          service_charge_rate?: number
+          tax_inclusive?: boolean
           theme_config?: Json | null
           updated_at?: string
         }
@@ -975,11 +2868,117 @@ export type Database = {
           name?: string
           plan_limits?: Json | null
           plan_name?: string | null
+          service_charge_min_guests?: number
+          service_charge_rate?: number
+          tax_inclusive?: boolean
           theme_config?: Json | null
           updated_at?: string
         }
         Relationships: []
       }
+      time_entries: {
+        Row: {
+          clock_in: string
+          clock_out: string | null
+          created_at: string
+          event_id: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          tenant_id: string
+          updated_at: string
+          user_id: string
+          zone_ids: string[]
+        }
+        Insert: {
+          clock_in?: string
+          clock_out?: string | null
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          tenant_id: string
+          updated_at?: string
+          user_id: string
+          zone_ids?: string[]
+        }
+        Update: {
+          clock_in?: string
+          clock_out?: string | null
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          tenant_id?: string
+          updated_at?: string
+          user_id?: string
+          zone_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entry_breaks: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+          tenant_id: string
+          time_entry_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+          tenant_id: string
+          time_entry_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+          tenant_id?: string
+          time_entry_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entry_breaks_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entry_breaks_time_entry_id_fkey"
+            columns: ["time_entry_id"]
+            isOneToOne: false
+            referencedRelation: "time_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -1124,17 +3123,142 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_substitute: { Args: { _order_item_id: string }; Returns: string }
+      acknowledge_restock_request: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      add_order_items: {
+        Args: {
+          _items: Json
+          _order_id: string
+          _status?: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: {
+          course_number: number
+          total_amount: number
+        }[]
+      }
+      apply_order_discount: {
+        Args: {
+          _discount_type: Database["public"]["Enums"]["discount_type"]
+          _manager_id?: string
+          _manager_pin?: string
+          _order_id: string
+          _order_item_id?: string
+          _reason: string
+          _value?: number
+        }
+        Returns: number
+      }
+      bump_order: { Args: { _order_id: string }; Returns: undefined }
+      calculate_order_charges: { Args: { _order_id: string }; Returns: number }
+      can_manage_restock: {
+        Args: { _tenant_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_zone_stock: {
+        Args: { _tenant_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_order_item: {
+        Args: { _order_item_id: string }
+        Returns: undefined
+      }
+      clock_in: {
+        Args: { _role?: Database["public"]["Enums"]["app_role"] }
+        Returns: string
+      }
+      clock_out: { Args: never; Returns: undefined }
+      close_cashier_shift: {
+        Args: { _counted_cash: number; _notes?: string; _shift_id: string }
+        Returns: number
+      }
+      complete_stock_count: {
+        Args: { _stock_count_id: string }
+        Returns: undefined
+      }
+      copy_roster: {
+        Args: { _from_event_id: string; _to_event_id: string }
+        Returns: number
+      }
+      create_order: {
+        Args: {
+          _event_id: string
+          _guest_count?: number
+          _guest_name?: string
+          _items: Json
+          _status?: Database["public"]["Enums"]["order_status"]
+          _table_id?: string
+          _table_number?: string
+        }
+        Returns: {
+          order_id: string
+          order_number: string
+          total_amount: number
+        }[]
+      }
+      create_purchase_order: {
+        Args: {
+          _event_id: string
+          _items: Json
+          _notes?: string
+          _supplier_id: string
+        }
+        Returns: string
+      }
+      decline_restock_request: {
+        Args: { _reason: string; _request_id: string }
+        Returns: undefined
+      }
+      end_break: { Args: never; Returns: undefined }
+      fire_course: {
+        Args: { _course_number: number; _order_id: string }
+        Returns: number
+      }
+      fulfil_restock_request: {
+        Args: {
+          _quantity: number
+          _request_id: string
+          _source_zone_id?: string
+        }
+        Returns: undefined
+      }
+      generate_kds_pairing_code: { Args: never; Returns: string }
       generate_order_number: { Args: { _event_id: string }; Returns: string }
+      get_approval_managers: {
+        Args: never
+        Returns: {
+          full_name: string
+          user_id: string
+        }[]
+      }
+      get_cashier_shift_totals: {
+        Args: { _shift_id: string }
+        Returns: {
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payments_count: number
+          refunds: number
+          refunds_count: number
+          sales: number
+          tips: number
+        }[]
+      }
       get_category_performance: {
         Args: { _end_date: string; _start_date: string; _tenant_id: string }
         Returns: {
           avg_item_price: number
           category: string
+          gross_profit: number
+          margin_percentage: number
           percentage_of_total: number
+          total_cost: number
           total_items: number
           total_revenue: number
         }[]
       }
+      get_kds_items: { Args: { _profile_id: string }; Returns: Json }
+      get_kds_screen: { Args: { _device_token: string }; Returns: Json }
       get_order_payment_summary: {
         Args: { _order_id: string }
         Returns: {
@@ -1143,6 +3267,7 @@ export type Database = {
           remaining_balance: number
           total_amount: number
           total_paid: number
+          total_refunded: number
         }[]
       }
       get_order_remaining_balance: {
@@ -1168,9 +3293,13 @@ export type Database = {
         Returns: {
           avg_price: number
           category: string
+          cost_price: number
+          gross_profit: number
           item_id: string
           item_name: string
+          margin_percentage: number
           order_count: number
+          total_cost: number
           total_quantity: number
           total_revenue: number
         }[]
@@ -1186,13 +3315,24 @@ export type Database = {
         }[]
       }
       get_station_efficiency: {
-        Args: { _end_date: string; _start_date: string; _tenant_id: string }
+        Args: {
+          _end_date: string
+          _event_id?: string
+          _group_by?: string
+          _start_date: string
+          _tenant_id: string
+        }
         Returns: {
           avg_prep_time_minutes: number
+          avg_target_minutes: number
+          backlog_breaches: number
           efficiency_percentage: number
+          group_key: string
+          group_label: string
           items_delayed: number
           items_on_time: number
-          station_type: string
+          out_of_stock_breaches: number
+          return_breaches: number
           total_items: number
         }[]
       }
@@ -1226,7 +3366,122 @@ export type Database = {
         }
         Returns: boolean
       }
+      insert_order_items: {
+        Args: {
+          _course_number: number
+          _items: Json
+          _order_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: undefined
+      }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
+      issue_refund: {
+        Args: {
+          _amount: number
+          _order_return_id?: string
+          _payment_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      kds_profile_items: {
+        Args: {
+          _profile_id: string
+          _screen_count?: number
+          _screen_index?: number
+        }
+        Returns: Json
+      }
+      kds_routed_items: {
+        Args: { _profile_id: string }
+        Returns: {
+          order_id: string
+          order_item_id: string
+        }[]
+      }
+      mark_zone_item_available: {
+        Args: { _menu_item_id: string; _zone_id: string }
+        Returns: undefined
+      }
+      mark_zone_item_unavailable: {
+        Args: {
+          _menu_item_id: string
+          _substitute_menu_item_id?: string
+          _zone_id: string
+        }
+        Returns: number
+      }
+      menu_item_prep_target: {
+        Args: { _menu_item_id: string }
+        Returns: number
+      }
+      next_station_assignee: {
+        Args: {
+          _station_type: Database["public"]["Enums"]["station_type"]
+          _tenant_id: string
+          _zone_id: string
+        }
+        Returns: string
+      }
+      open_table_tab: { Args: { _table_id: string }; Returns: string }
+      pair_kds_screen: {
+        Args: { _pairing_code: string; _screen_id: string }
+        Returns: string
+      }
+      reassign_order_item: {
+        Args: { _order_item_id: string; _user_id?: string }
+        Returns: undefined
+      }
+      recalculate_menu_item_cost: {
+        Args: { _menu_item_id: string }
+        Returns: number
+      }
+      receive_purchase_order: {
+        Args: { _lines: Json; _purchase_order_id: string }
+        Returns: string
+      }
+      refresh_menu_item_cost: { Args: { _menu_item_id: string }; Returns: number }
+      request_restock: {
+        Args: {
+          _menu_item_id: string
+          _notes?: string
+          _quantity: number
+          _zone_id: string
+        }
+        Returns: string
+      }
+      resolve_manager_approval: {
+        Args: { _manager_id: string; _manager_pin: string; _tenant_id: string }
+        Returns: string
+      }
+      set_approval_pin: {
+        Args: { _pin: string; _user_id: string }
+        Returns: undefined
+      }
+      set_kds_item_status: {
+        Args: {
+          _device_token: string
+          _order_item_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: undefined
+      }
+      start_break: { Args: never; Returns: undefined }
+      start_kds_screen_pairing: {
+        Args: { _screen_id: string }
+        Returns: string
+      }
+      start_stock_count: { Args: { _event_id: string }; Returns: string }
+      void_order_item: {
+        Args: {
+          _manager_id?: string
+          _manager_pin?: string
+          _order_item_id: string
+          _reason: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role:
@@ -1241,14 +3496,19 @@ export type Database = {
         | "mixologist"
         | "bar_staff"
         | "read_only_partner"
+        | "expo"
+      discount_type: "percentage" | "fixed" | "comp"
+      order_charge_type: "tax" | "service_charge"
       order_status:
         | "pending"
         | "dispatched"
         | "ready"
+        | "bumped"
         | "served"
         | "paid"
         | "rejected"
         | "returned"
+        | "voided"
       payment_method: "cash" | "pos" | "transfer" | "split"
       station_type: "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar"
     }
@@ -1390,15 +3650,20 @@ export const Constants = {
         "mixologist",
         "bar_staff",
         "read_only_partner",
+        "expo",
       ],
+      discount_type: ["percentage", "fixed", "comp"],
+      order_charge_type: ["tax", "service_charge"],
       order_status: [
         "pending",
         "dispatched",
         "ready",
+        "bumped",
         "served",
         "paid",
         "rejected",
         "returned",
+        "voided",
       ],
       payment_method: ["cash", "pos", "transfer", "split"],
       station_type: ["drink_dispenser", "meal_dispenser", "mixologist", "bar"],
@@ -0,0 +1,219 @@
+export type CashMovementType = 'drop' | 'paid_out';
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  drop: 'Cash drop',
+  paid_out: 'Paid-out',
+};
+
+export interface CashierShift {
+  id: string;
+  event_id: string | null;
+  cashier_id: string;
+  status: string;
+  opening_float: number;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  over_short: number | null;
+  notes: string | null;
+  opened_at: string;
+  closed_at: string | null;
+}
+
+export interface CashMovement {
+  id: string;
+  movement_type: string;
+  amount: number;
+  reason: string | null;
+  created_at: string;
+}
+
+// One row per payment method, from get_cashier_shift_totals
+export interface ShiftTotals {
+  payment_method: string;
+  payments_count: number;
+  sales: number;
+  refunds_count: number;
+  refunds: number;
+  tips: number;
+}
+
+export function getMovementTotal(movements: CashMovement[], type: CashMovementType): number {
+  return movements
+    .filter(m => m.movement_type === type)
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+}
+
+// e.g. "Over 5.00", "Short 2.50" or "Balanced"
+export function formatOverShort(overShort: number, formatPrice: (price: number) => string): string {
+  if (Math.abs(overShort) < 0.005) return 'Balanced';
+  return overShort > 0 ? `Over ${formatPrice(overShort)}` : `Short ${formatPrice(-overShort)}`;
+}
+
+interface ZReportData {
+  shift: CashierShift;
+  cashierName: string;
+  eventName?: string | null;
+  totals: ShiftTotals[];
+  movements: CashMovement[];
+  formatPrice: (price: number) => string;
+}
+
+// Printable end-of-shift report, in the same 80mm layout as the order receipt
+export function printZReport({ shift, cashierName, eventName, totals, movements, formatPrice }: ZReportData) {
+  const sales = totals.reduce((sum, t) => sum + Number(t.sales), 0);
+  const refunds = totals.reduce((sum, t) => sum + Number(t.refunds), 0);
+  const tips = totals.reduce((sum, t) => sum + Number(t.tips), 0);
+  const cash = totals.find(t => t.payment_method === 'cash');
+  const drops = getMovementTotal(movements, 'drop');
+  const paidOuts = getMovementTotal(movements, 'paid_out');
+
+  const row = (label: string, value: string) => `
+    <div class="row">
+      <span>${label}</span>
+      <span>${value}</span>
+    </div>
+  `;
+
+  const reportContent = `
+    <html>
+      <head>
+        <title>Z-Report - ${cashierName}</title>
+        <style>
+          @page {
+            size: 80mm auto;
+            margin: 0;
+          }
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+          body {
+            font-family: 'Courier New', monospace;
+            font-size: 12px;
+            width: 80mm;
+            padding: 4mm;
+            line-height: 1.4;
+          }
+          .header {
+            text-align: center;
+            margin-bottom: 8px;
+            padding-bottom: 8px;
+            border-bottom: 1px dashed #000;
+          }
+          .header h1 {
+            font-size: 16px;
+            font-weight: bold;
+            margin-bottom: 4px;
+          }
+          .header p {
+            font-size: 11px;
+          }
+          .section {
+            margin-bottom: 8px;
+            padding-bottom: 8px;
+            border-bottom: 1px dashed #000;
+          }
+          .section-title {
+            font-weight: bold;
+            margin-bottom: 4px;
+          }
+          .row {
+            display: flex;
+            justify-content: space-between;
+            font-size: 11px;
+          }
+          .total {
+            display: flex;
+            justify-content: space-between;
+            font-size: 14px;
+            font-weight: bold;
+            margin: 8px 0;
+            padding: 8px 0;
+            border-top: 2px solid #000;
+            border-bottom: 2px solid #000;
+          }
+          .footer {
+            text-align: center;
+            font-size: 10px;
+            margin-top: 12px;
+          }
+          @media print {
+            body {
+              print-color-adjust: exact;
+              -webkit-print-color-adjust: exact;
+            }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Z-REPORT</h1>
+          <p>${cashierName}</p>
+          ${eventName ? `<p>${eventName}</p>` : ''}
+        </div>
+
+        <div class="section">
+          ${row('Opened:', new Date(shift.opened_at).toLocaleString())}
+          ${row('Closed:', shift.closed_at ? new Date(shift.closed_at).toLocaleString() : 'Open')}
+        </div>
+
+        <div class="section">
+          <div class="section-title">Sales by Method</div>
+          ${totals.map(t => row(`${t.payment_method.toUpperCase()} (${t.payments_count})`, formatPrice(Number(t.sales)))).join('')}
+          ${row('Total Sales', formatPrice(sales))}
+        </div>
+
+        ${refunds > 0 ? `
+        <div class="section">
+          <div class="section-title">Refunds</div>
+          ${totals.filter(t => Number(t.refunds) > 0).map(t => row(`${t.payment_method.toUpperCase()} (${t.refunds_count})`, `-${formatPrice(Number(t.refunds))}`)).join('')}
+          ${row('Total Refunds', `-${formatPrice(refunds)}`)}
+        </div>
+        ` : ''}
+
+        ${tips > 0 ? `
+        <div class="section">
+          ${row('Tips', formatPrice(tips))}
+        </div>
+        ` : ''}
+
+        <div class="section">
+          <div class="section-title">Cash Drawer</div>
+          ${row('Opening Float', formatPrice(Number(shift.opening_float)))}
+          ${row('Cash Sales', formatPrice(Number(cash?.sales || 0)))}
+          ${cash && Number(cash.refunds) > 0 ? row('Cash Refunds', `-${formatPrice(Number(cash.refunds))}`) : ''}
+          ${cash && Number(cash.tips) > 0 ? row('Cash Tips', formatPrice(Number(cash.tips))) : ''}
+          ${drops > 0 ? row('Cash Drops', `-${formatPrice(drops)}`) : ''}
+          ${paidOuts > 0 ? row('Paid-outs', `-${formatPrice(paidOuts)}`) : ''}
+          ${shift.expected_cash !== null ? row('Expected', formatPrice(Number(shift.expected_cash))) : ''}
+          ${shift.counted_cash !== null ? row('Counted', formatPrice(Number(shift.counted_cash))) : ''}
+        </div>
+
+        ${shift.over_short !== null ? `
+        <div class="total">
+          <span>OVER/SHORT</span>
+          <span>${formatOverShort(Number(shift.over_short), formatPrice)}</span>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          ${shift.notes ? `<p>${shift.notes}</p>` : ''}
+          <p style="margin-top: 4px;">Printed ${new Date().toLocaleString()}</p>
+          <p style="margin-top: 4px;">================================</p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank', 'width=300,height=600');
+  if (printWindow) {
+    printWindow.document.write(reportContent);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  }
+}
@@ -0,0 +1,30 @@
+// Starters, mains and desserts, plus one spare for long seated dinners
+export const MAX_COURSES = 4;
+
+export interface HeldItem {
+  quantity: number;
+  orders: {
+    table_number: string | null;
+  };
+}
+
+export interface HeldTableCount {
+  table_number: string;
+  quantity: number;
+}
+
+export function formatCourse(courseNumber: number): string {
+  return `Course ${courseNumber}`;
+}
+
+// Held (not yet fired) quantities per table, busiest table first
+export function countHeldByTable(items: HeldItem[]): HeldTableCount[] {
+  const counts: Record<string, number> = {};
+  items.forEach((item) => {
+    const table = item.orders.table_number || 'N/A';
+    counts[table] = (counts[table] || 0) + item.quantity;
+  });
+  return Object.entries(counts)
+    .map(([table_number, quantity]) => ({ table_number, quantity }))
+    .sort((a, b) => b.quantity - a.quantity);
+}
@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Stations whose items come together at the pass
+export const EXPO_STATIONS = [
+  { value: 'drink_dispenser', label: 'Drinks' },
+  { value: 'meal_dispenser', label: 'Meals' },
+  { value: 'mixologist', label: 'Mixology' },
+  { value: 'bar', label: 'Bar' },
+] as const;
+
+// Orders still being put together at the pass
+export const EXPO_ORDER_STATUSES = ['pending', 'dispatched', 'ready'] as const;
+
+export interface ExpoItem {
+  id: string;
+  quantity: number;
+  status: string;
+  station_type: string;
+  course_number: number;
+  is_held: boolean;
+  menu_items: { name: string } | null;
+}
+
+export interface ExpoOrder {
+  id: string;
+  order_number: string;
+  table_number: string | null;
+  status: string;
+  created_at: string;
+  waiter: { full_name: string | null } | null;
+  order_items: ExpoItem[];
+}
+
+export interface ExpoStationProgress {
+  station_type: string;
+  label: string;
+  items: ExpoItem[];
+  ready: number;
+  total: number;
+}
+
+// Items that are cancelled or served at the bar never reach the pass
+const EXPO_ITEM_STATUSES = ['pending', 'dispatched', 'ready'];
+
+// With expo on, waiters hear about an order once it is bumped rather than per ready item
+export function isExpoEnabled(themeConfig: unknown): boolean {
+  const notifications = (themeConfig as { notifications?: { expo_bump?: boolean } } | null)?.notifications;
+  return notifications?.expo_bump ?? false;
+}
+
+export async function fetchExpoEnabled(tenantId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('tenants')
+    .select('theme_config')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  return isExpoEnabled(data?.theme_config);
+}
+
+export function getExpoItems(order: ExpoOrder): ExpoItem[] {
+  return order.order_items.filter(item => !item.is_held && EXPO_ITEM_STATUSES.includes(item.status));
+}
+
+export function getStationProgress(order: ExpoOrder): ExpoStationProgress[] {
+  const items = getExpoItems(order);
+  return EXPO_STATIONS
+    .map(station => {
+      const stationItems = items.filter(item => item.station_type === station.value);
+      return {
+        station_type: station.value,
+        label: station.label,
+        items: stationItems,
+        ready: stationItems.filter(item => item.status === 'ready').reduce((sum, item) => sum + item.quantity, 0),
+        total: stationItems.reduce((sum, item) => sum + item.quantity, 0),
+      };
+    })
+    .filter(station => station.total > 0);
+}
+
+// Mirrors bump_order: every fired item ready, and at least one of them
+export function isReadyToBump(order: ExpoOrder): boolean {
+  const items = getExpoItems(order);
+  return items.length > 0 && items.every(item => item.status === 'ready');
+}
+
+export function getHeldItemCount(order: ExpoOrder): number {
+  return order.order_items
+    .filter(item => item.is_held)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
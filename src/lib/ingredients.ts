@@ -0,0 +1,64 @@
+export type IngredientUnit = 'ml' | 'g' | 'each';
+
+export const INGREDIENT_UNITS: { value: IngredientUnit; label: string }[] = [
+  { value: 'ml', label: 'Volume (ml / L)' },
+  { value: 'g', label: 'Weight (g / kg)' },
+  { value: 'each', label: 'Count (each)' },
+];
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: string;
+  pack_size: number | null;
+  pack_label: string | null;
+  starting_stock: number;
+  current_stock: number;
+}
+
+export interface RecipeItem {
+  id: string;
+  menu_item_id: string;
+  ingredient_id: string;
+  quantity: number;
+}
+
+// Base units are stored; anything from a litre or kilo up is shown in the larger unit
+export function formatQuantity(quantity: number, unit: string): string {
+  const rounded = (value: number) => Number(value.toFixed(2)).toString();
+  if (unit === 'ml') return quantity >= 1000 ? `${rounded(quantity / 1000)} L` : `${rounded(quantity)} ml`;
+  if (unit === 'g') return quantity >= 1000 ? `${rounded(quantity / 1000)} kg` : `${rounded(quantity)} g`;
+  return rounded(quantity);
+}
+
+// e.g. "3.4 bottles" for an ingredient bought in packs, otherwise the plain quantity
+export function formatPacks(quantity: number, ingredient: Pick<Ingredient, 'pack_size' | 'pack_label' | 'unit'>): string {
+  if (!ingredient.pack_size) return formatQuantity(quantity, ingredient.unit);
+  const packs = quantity / ingredient.pack_size;
+  const label = ingredient.pack_label || 'pack';
+  return `${Number(packs.toFixed(1))} ${packs === 1 ? label : `${label}s`}`;
+}
+
+// How many servings of a menu item the remaining stock can make, and the
+// ingredient that runs out first. Items without a recipe return null.
+export function getRecipeAvailability(
+  menuItemId: string,
+  recipeItems: RecipeItem[],
+  ingredients: Ingredient[]
+): { servings: number; limiting: Ingredient | null } | null {
+  const lines = recipeItems.filter(r => r.menu_item_id === menuItemId);
+  if (lines.length === 0) return null;
+
+  let servings = Infinity;
+  let limiting: Ingredient | null = null;
+  lines.forEach((line) => {
+    const ingredient = ingredients.find(i => i.id === line.ingredient_id);
+    const possible = ingredient ? Math.floor(Number(ingredient.current_stock) / Number(line.quantity)) : 0;
+    if (possible < servings) {
+      servings = possible;
+      limiting = ingredient || null;
+    }
+  });
+
+  return { servings, limiting };
+}
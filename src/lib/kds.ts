@@ -0,0 +1,210 @@
+import { Database } from "@/integrations/supabase/types";
+import { HeldTableCount, countHeldByTable } from "@/lib/courses";
+
+export type KdsViewMode = 'ticket' | 'summary';
+
+export type StationType = Database["public"]["Enums"]["station_type"];
+
+export const KDS_VIEW_MODES: { value: KdsViewMode; label: string; description: string }[] = [
+  { value: 'ticket', label: 'Tickets', description: 'One ticket per order with its items' },
+  { value: 'summary', label: 'Item summary', description: 'Totals per item across all orders, e.g. 12 × Burger' },
+];
+
+// Timers are a share of each item's own prep target. Used when a display has
+// no profile of its own.
+export const DEFAULT_WARNING_PERCENT = 75;
+export const DEFAULT_CRITICAL_PERCENT = 100;
+
+// Items with no target of their own or from their category
+export const DEFAULT_PREP_TARGET_MINUTES = 10;
+
+// Paired screens poll for tickets since they have no login for realtime
+export const KDS_SCREEN_POLL_SECONDS = 10;
+export const KDS_DEVICE_TOKEN_KEY = 'kds_screen_token';
+
+export interface KdsTimerThresholds {
+  warning_percent: number;
+  critical_percent: number;
+}
+
+export const DEFAULT_TIMER_THRESHOLDS: KdsTimerThresholds = {
+  warning_percent: DEFAULT_WARNING_PERCENT,
+  critical_percent: DEFAULT_CRITICAL_PERCENT,
+};
+
+export interface KdsProfile extends KdsTimerThresholds {
+  id: string;
+  event_id: string;
+  name: string;
+  station_type: StationType | null;
+  categories: string[];
+  menu_item_ids: string[];
+  zone_ids: string[];
+  view_mode: string;
+  is_active: boolean;
+}
+
+export interface KdsScreen {
+  id: string;
+  profile_id: string;
+  name: string;
+  position: number;
+  pairing_code: string | null;
+  pairing_expires_at: string | null;
+  paired_at: string | null;
+  last_seen_at: string | null;
+}
+
+export interface KdsItem {
+  id: string;
+  order_id: string;
+  quantity: number;
+  notes: string | null;
+  status: "pending" | "dispatched" | "ready" | "served";
+  created_at: string;
+  fired_at: string | null;
+  dispatched_at: string | null;
+  ready_at: string | null;
+  course_number: number;
+  is_held: boolean;
+  station_type: StationType;
+  prep_target_minutes: number;
+  menu_item: {
+    name: string;
+    category: string;
+  };
+  modifiers: {
+    group_name: string;
+    option_name: string;
+  }[];
+  order: {
+    order_number: string;
+    table_number: string | null;
+    guest_name: string | null;
+    waiter: {
+      full_name: string | null;
+    };
+  };
+}
+
+export interface KdsTicket {
+  order_id: string;
+  order: KdsItem["order"];
+  items: KdsItem[];
+  created_at: string;
+}
+
+export interface KdsSummaryLine {
+  key: string;
+  name: string;
+  modifiers: string[];
+  pending: number;
+  preparing: number;
+  oldest_started_at: string;
+  prep_target_minutes: number;
+}
+
+// What get_kds_screen returns to a paired screen
+export interface KdsScreenData {
+  screen_name: string;
+  screen_number: number;
+  screen_count: number;
+  profile: KdsTimerThresholds & {
+    id: string;
+    name: string;
+    view_mode: string;
+  };
+  items: KdsItem[];
+}
+
+export function getElapsedMinutes(createdAt: string, now: number = Date.now()): number {
+  return Math.floor((now - new Date(createdAt).getTime()) / 60000);
+}
+
+// Held courses only start cooking once fired
+export function getStartedAt(item: KdsItem): string {
+  return item.fired_at || item.created_at;
+}
+
+export function getTargetPercent(startedAt: string, targetMinutes: number, now: number = Date.now()): number {
+  return Math.floor(((now - new Date(startedAt).getTime()) / 60000 / targetMinutes) * 100);
+}
+
+// A ticket is as late as its latest item
+export function getTicketTargetPercent(ticket: KdsTicket, now: number = Date.now()): number {
+  return Math.max(
+    ...ticket.items.map(item => getTargetPercent(getStartedAt(item), item.prep_target_minutes, now))
+  );
+}
+
+export function getTimerColor(percent: number, thresholds: KdsTimerThresholds): string {
+  if (percent < thresholds.warning_percent) return "text-green-500";
+  if (percent < thresholds.critical_percent) return "text-yellow-500";
+  return "text-red-500 animate-pulse";
+}
+
+export function isCritical(percent: number, thresholds: KdsTimerThresholds): boolean {
+  return percent >= thresholds.critical_percent;
+}
+
+// One ticket per order, oldest first
+export function buildKdsTickets(items: KdsItem[]): KdsTicket[] {
+  const tickets: Record<string, KdsTicket> = {};
+  items.forEach((item) => {
+    if (!tickets[item.order_id]) {
+      tickets[item.order_id] = { order_id: item.order_id, order: item.order, items: [], created_at: item.created_at };
+    }
+    tickets[item.order_id].items.push(item);
+    if (item.created_at < tickets[item.order_id].created_at) {
+      tickets[item.order_id].created_at = item.created_at;
+    }
+  });
+  return Object.values(tickets).sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+}
+
+// Quantities per item across all orders. Items with different modifiers are
+// cooked differently, so they get their own line.
+export function buildKdsSummary(items: KdsItem[]): KdsSummaryLine[] {
+  const lines: Record<string, KdsSummaryLine> = {};
+  items.forEach((item) => {
+    const modifiers = item.modifiers.map(m => m.option_name).sort();
+    const key = [item.menu_item.name, ...modifiers].join('|');
+    if (!lines[key]) {
+      lines[key] = {
+        key,
+        name: item.menu_item.name,
+        modifiers,
+        pending: 0,
+        preparing: 0,
+        oldest_started_at: getStartedAt(item),
+        prep_target_minutes: item.prep_target_minutes,
+      };
+    }
+    if (item.status === 'pending') lines[key].pending += item.quantity;
+    if (item.status === 'dispatched') lines[key].preparing += item.quantity;
+    if (getStartedAt(item) < lines[key].oldest_started_at) {
+      lines[key].oldest_started_at = getStartedAt(item);
+      lines[key].prep_target_minutes = item.prep_target_minutes;
+    }
+  });
+  return Object.values(lines).sort((a, b) => (b.pending + b.preparing) - (a.pending + a.preparing));
+}
+
+// Held courses are not cooked yet, only counted per table
+export function countHeldKdsItems(items: KdsItem[]): HeldTableCount[] {
+  return countHeldByTable(
+    items
+      .filter(item => item.is_held)
+      .map(item => ({ quantity: item.quantity, orders: { table_number: item.order.table_number } }))
+  );
+}
+
+export function describeKdsRouting(profile: KdsProfile, menuItemNames: Record<string, string>): string[] {
+  return [
+    ...(profile.station_type ? [profile.station_type.replace('_', ' ')] : []),
+    ...profile.categories,
+    ...profile.menu_item_ids.map(id => menuItemNames[id] || 'Unknown item'),
+  ];
+}
@@ -0,0 +1,67 @@
+export type MenuEngineeringClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_ENGINEERING_CLASSES: { value: MenuEngineeringClass; label: string; description: string }[] = [
+  { value: 'star', label: 'Stars', description: 'Popular and profitable - keep them prominent' },
+  { value: 'plowhorse', label: 'Plowhorses', description: 'Popular but low margin - review price or cost' },
+  { value: 'puzzle', label: 'Puzzles', description: 'Profitable but slow - promote or reposition' },
+  { value: 'dog', label: 'Dogs', description: 'Slow and low margin - candidates to drop' },
+];
+
+export interface MenuItemSales {
+  item_id: string;
+  item_name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+  // Cost of one unit, null when none is on record
+  cost_price: number | null;
+}
+
+export interface MenuEngineeringItem extends MenuItemSales {
+  gross_profit: number;
+  margin_percentage: number;
+  // Gross profit per unit sold
+  contribution: number;
+  mix_percentage: number;
+  classification: MenuEngineeringClass;
+}
+
+export function getGrossProfit(revenue: number, quantity: number, costPrice: number | null): number | null {
+  return costPrice === null ? null : revenue - costPrice * quantity;
+}
+
+export function getMarginPercentage(revenue: number, grossProfit: number | null): number | null {
+  return grossProfit === null || revenue <= 0 ? null : (grossProfit / revenue) * 100;
+}
+
+// Classic menu engineering: an item is popular when its share of units sold is
+// at least 70% of an even share, and profitable when its gross profit per unit
+// is at or above the average across all items. Items without a cost are skipped.
+export function classifyMenuItems(items: MenuItemSales[]): MenuEngineeringItem[] {
+  const costed = items.filter(item => item.cost_price !== null && item.quantity > 0);
+  if (costed.length === 0) return [];
+
+  const totalQuantity = costed.reduce((sum, item) => sum + item.quantity, 0);
+  const totalProfit = costed.reduce((sum, item) => sum + (item.revenue - (item.cost_price || 0) * item.quantity), 0);
+  const averageContribution = totalProfit / totalQuantity;
+  const popularityThreshold = (1 / costed.length) * 0.7 * 100;
+
+  return costed.map((item) => {
+    const grossProfit = item.revenue - (item.cost_price || 0) * item.quantity;
+    const contribution = grossProfit / item.quantity;
+    const mixPercentage = (item.quantity / totalQuantity) * 100;
+    const isPopular = mixPercentage >= popularityThreshold;
+    const isProfitable = contribution >= averageContribution;
+
+    return {
+      ...item,
+      gross_profit: grossProfit,
+      margin_percentage: item.revenue > 0 ? (grossProfit / item.revenue) * 100 : 0,
+      contribution,
+      mix_percentage: mixPercentage,
+      classification: isPopular
+        ? (isProfitable ? 'star' : 'plowhorse')
+        : (isProfitable ? 'puzzle' : 'dog'),
+    };
+  });
+}
@@ -0,0 +1,96 @@
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  display_order: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  is_required: boolean;
+  min_selections: number;
+  max_selections: number;
+  display_order: number;
+  options: ModifierOption[];
+}
+
+export interface SelectedModifier {
+  modifier_option_id: string;
+  group_name: string;
+  option_name: string;
+  price_delta: number;
+}
+
+// Select fragment for loading a menu item's modifier groups with their options
+export const MODIFIER_GROUPS_SELECT = `
+  modifier_groups:menu_modifier_groups (
+    id,
+    name,
+    is_required,
+    min_selections,
+    max_selections,
+    display_order,
+    options:menu_modifier_options (
+      id,
+      name,
+      price_delta,
+      is_available,
+      display_order
+    )
+  )
+`;
+
+// Select fragment for loading the modifiers recorded against an order item
+export const ORDER_ITEM_MODIFIERS_SELECT = `
+  order_item_modifiers (
+    group_name,
+    option_name,
+    price_delta
+  )
+`;
+
+export function sortModifierGroups(groups: ModifierGroup[] | null | undefined): ModifierGroup[] {
+  return [...(groups || [])]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map(group => ({
+      ...group,
+      options: [...(group.options || [])].sort((a, b) => a.display_order - b.display_order),
+    }));
+}
+
+export function getModifiersTotal(modifiers: Pick<SelectedModifier, 'price_delta'>[] | null | undefined): number {
+  return (modifiers || []).reduce((sum, m) => sum + Number(m.price_delta || 0), 0);
+}
+
+export function formatModifiers(modifiers: Pick<SelectedModifier, 'option_name'>[] | null | undefined): string {
+  return (modifiers || []).map(m => m.option_name).join(', ');
+}
+
+// Lines with the same menu item and the same selections are merged in the cart
+export function getCartLineKey(menuItemId: string, modifiers: SelectedModifier[]): string {
+  const optionIds = modifiers.map(m => m.modifier_option_id).sort();
+  return [menuItemId, ...optionIds].join(':');
+}
+
+// Returns an error message for the first group whose selection is out of range
+export function validateModifierSelection(
+  groups: ModifierGroup[],
+  selectedOptionIds: string[]
+): string | null {
+  for (const group of groups) {
+    const count = group.options.filter(o => selectedOptionIds.includes(o.id)).length;
+    const min = group.is_required ? Math.max(group.min_selections, 1) : group.min_selections;
+
+    if (count < min) {
+      return min === 1
+        ? `Please choose an option for ${group.name}`
+        : `Please choose at least ${min} options for ${group.name}`;
+    }
+    if (count > group.max_selections) {
+      return `Choose at most ${group.max_selections} options for ${group.name}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+export interface OrderCharge {
+  charge_type: 'tax' | 'service_charge';
+  name: string;
+  rate: number;
+  amount: number;
+  is_inclusive: boolean;
+}
+
+// Select fragment for loading the tax and service charge lines of an order
+export const ORDER_CHARGES_SELECT = `
+  order_charges (
+    charge_type,
+    name,
+    rate,
+    amount,
+    is_inclusive
+  )
+`;
+
+// Charges added on top of the item prices (exclusive tax and service charge)
+export function getAddedChargesTotal(charges: OrderCharge[] | null | undefined): number {
+  return (charges || [])
+    .filter(c => !c.is_inclusive)
+    .reduce((sum, c) => sum + Number(c.amount || 0), 0);
+}
+
+export function getTaxTotal(charges: OrderCharge[] | null | undefined): number {
+  return (charges || [])
+    .filter(c => c.charge_type === 'tax')
+    .reduce((sum, c) => sum + Number(c.amount || 0), 0);
+}
+
+export function getServiceChargeTotal(charges: OrderCharge[] | null | undefined): number {
+  return (charges || [])
+    .filter(c => c.charge_type === 'service_charge')
+    .reduce((sum, c) => sum + Number(c.amount || 0), 0);
+}
+
+// e.g. "VAT 7.5%" or "VAT 7.5% (incl.)"
+export function formatChargeLabel(charge: OrderCharge): string {
+  const label = `${charge.name} ${Number(charge.rate)}%`;
+  return charge.is_inclusive ? `${label} (incl.)` : label;
+}
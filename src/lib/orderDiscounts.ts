@@ -0,0 +1,62 @@
+export type DiscountType = 'percentage' | 'fixed' | 'comp';
+
+export interface OrderDiscount {
+  id: string;
+  discount_type: DiscountType;
+  value: number;
+  amount: number;
+  reason: string;
+  order_item_id: string | null;
+}
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: 'Percentage discount',
+  fixed: 'Fixed discount',
+  comp: 'Item comp',
+};
+
+// Select fragment for loading the discounts and comps of an order
+export const ORDER_DISCOUNTS_SELECT = `
+  order_discounts (
+    id,
+    discount_type,
+    value,
+    amount,
+    reason,
+    order_item_id
+  )
+`;
+
+export function getDiscountTotal(discounts: OrderDiscount[] | null | undefined): number {
+  return (discounts || []).reduce((sum, d) => sum + Number(d.amount || 0), 0);
+}
+
+// e.g. "Discount 10%", "Discount" or "Comp: Chapman"
+export function formatDiscountLabel(discount: OrderDiscount, itemName?: string): string {
+  if (discount.discount_type === 'comp') {
+    return itemName ? `Comp: ${itemName}` : 'Comp';
+  }
+  const label = discount.discount_type === 'percentage'
+    ? `Discount ${Number(discount.value)}%`
+    : 'Discount';
+  return itemName ? `${label} (${itemName})` : label;
+}
+
+// audit_logs actions written by apply_order_discount and void_order_item
+export type AdjustmentAction = 'order_discount' | 'order_comp' | 'order_item_void';
+
+export const ADJUSTMENT_ACTIONS: AdjustmentAction[] = ['order_discount', 'order_comp', 'order_item_void'];
+
+export const ADJUSTMENT_LABELS: Record<AdjustmentAction, string> = {
+  order_discount: 'Discounts',
+  order_comp: 'Comps',
+  order_item_void: 'Voids',
+};
+
+export interface AdjustmentDetails {
+  event_id: string;
+  order_number: string;
+  item_name: string | null;
+  amount: number;
+  reason: string;
+}
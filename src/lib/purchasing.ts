@@ -0,0 +1,104 @@
+import { RecipeItem } from "@/lib/ingredients";
+
+export type PurchaseOrderStatus = 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  menu_item_id: string | null;
+  ingredient_id: string | null;
+  units_per_purchase: number;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  menu_items: { name: string } | null;
+  ingredients: { name: string; unit: string; pack_label: string | null } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  event_id: string;
+  supplier_id: string;
+  po_number: string;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  received_at: string | null;
+  suppliers: { name: string } | null;
+  purchase_order_items: PurchaseOrderItem[];
+}
+
+export interface StockReceipt {
+  menu_item_id: string | null;
+  ingredient_id: string | null;
+  quantity: number;
+  stock_quantity: number;
+  unit_cost: number;
+}
+
+export function getPurchaseOrderItemName(item: PurchaseOrderItem): string {
+  return item.menu_items?.name || item.ingredients?.name || 'Unknown item';
+}
+
+export function getPurchaseOrderTotal(order: Pick<PurchaseOrder, 'purchase_order_items'>): number {
+  return order.purchase_order_items.reduce(
+    (sum, item) => sum + Number(item.quantity_ordered) * Number(item.unit_cost),
+    0
+  );
+}
+
+// Weighted average cost per stock unit (one menu item, or one ml/g/each of an
+// ingredient) across every delivery received, keyed by menu item or ingredient id
+export function getAverageUnitCosts(receipts: StockReceipt[]): Record<string, number> {
+  const totals: Record<string, { cost: number; units: number }> = {};
+  receipts.forEach((receipt) => {
+    const key = receipt.menu_item_id || receipt.ingredient_id;
+    if (!key) return;
+    if (!totals[key]) totals[key] = { cost: 0, units: 0 };
+    totals[key].cost += Number(receipt.unit_cost) * Number(receipt.quantity);
+    totals[key].units += Number(receipt.stock_quantity);
+  });
+
+  const costs: Record<string, number> = {};
+  Object.entries(totals).forEach(([key, total]) => {
+    if (total.units > 0) costs[key] = total.cost / total.units;
+  });
+  return costs;
+}
+
+// Cost of one serving: what was paid for the item itself when it was bought in,
+// otherwise the cost of its recipe. Null when any part has no cost on record.
+export function getMenuItemUnitCost(
+  menuItemId: string,
+  unitCosts: Record<string, number>,
+  recipeItems: Pick<RecipeItem, 'menu_item_id' | 'ingredient_id' | 'quantity'>[]
+): number | null {
+  if (unitCosts[menuItemId] !== undefined) return unitCosts[menuItemId];
+
+  const lines = recipeItems.filter(r => r.menu_item_id === menuItemId);
+  if (lines.length === 0) return null;
+
+  let cost = 0;
+  for (const line of lines) {
+    const ingredientCost = unitCosts[line.ingredient_id];
+    if (ingredientCost === undefined) return null;
+    cost += ingredientCost * Number(line.quantity);
+  }
+  return cost;
+}
@@ -0,0 +1,27 @@
+// Refunds are stored as negative payments that point at the payment they refund
+export interface RefundablePayment {
+  id: string;
+  amount: number;
+  payment_method: string;
+  created_at: string;
+  guest_identifier: string | null;
+  refund_of: string | null;
+}
+
+export function getRefundTotal(payments: { amount: number }[] | null | undefined): number {
+  return (payments || []).reduce((sum, p) => (p.amount < 0 ? sum - Number(p.amount) : sum), 0);
+}
+
+// What is left to refund on each original payment after earlier refunds
+export function getRefundableAmounts(payments: RefundablePayment[]): Record<string, number> {
+  const refundable: Record<string, number> = {};
+  payments.filter(p => !p.refund_of).forEach(p => {
+    refundable[p.id] = Number(p.amount);
+  });
+  payments.forEach(p => {
+    if (p.refund_of && p.refund_of in refundable) {
+      refundable[p.refund_of] = Math.round((refundable[p.refund_of] + Number(p.amount)) * 100) / 100;
+    }
+  });
+  return refundable;
+}
@@ -0,0 +1,46 @@
+export type RestockRequestStatus = 'pending' | 'acknowledged' | 'fulfilled' | 'declined';
+
+export const RESTOCK_STATUS_LABELS: Record<RestockRequestStatus, string> = {
+  pending: 'Pending',
+  acknowledged: 'Acknowledged',
+  fulfilled: 'Fulfilled',
+  declined: 'Declined',
+};
+
+export const OPEN_RESTOCK_STATUSES: RestockRequestStatus[] = ['pending', 'acknowledged'];
+
+// Open requests older than this are raised as high severity alerts
+export const RESTOCK_OVERDUE_MINUTES = 10;
+
+export interface RestockRequest {
+  id: string;
+  event_id: string;
+  zone_id: string;
+  menu_item_id: string;
+  quantity_requested: number;
+  quantity_fulfilled: number | null;
+  status: string;
+  notes: string | null;
+  decline_reason: string | null;
+  source_zone_id: string | null;
+  requested_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  menu_items: { name: string } | null;
+  zones: { name: string } | null;
+}
+
+export function getMinutesBetween(from: string, to?: string | null): number {
+  const end = to ? new Date(to).getTime() : Date.now();
+  return Math.max(0, Math.floor((end - new Date(from).getTime()) / 60000));
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function isRestockOverdue(request: Pick<RestockRequest, 'status' | 'requested_at'>): boolean {
+  return OPEN_RESTOCK_STATUSES.includes(request.status as RestockRequestStatus)
+    && getMinutesBetween(request.requested_at) > RESTOCK_OVERDUE_MINUTES;
+}
@@ -0,0 +1,226 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const ROSTER_ROLES = [
+  { value: 'event_manager', label: 'Event Manager' },
+  { value: 'waiter', label: 'Waiter' },
+  { value: 'cashier', label: 'Cashier' },
+  { value: 'drink_dispenser', label: 'Drink Dispenser' },
+  { value: 'meal_dispenser', label: 'Meal Dispenser' },
+  { value: 'mixologist', label: 'Mixologist' },
+  { value: 'bar_staff', label: 'Bar Staff' },
+  { value: 'expo', label: 'Expo' },
+] as const;
+
+export type RosterRole = typeof ROSTER_ROLES[number]['value'];
+
+export interface RosterShift {
+  id: string;
+  event_id: string;
+  user_id: string;
+  role: string;
+  zone_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  notes: string | null;
+}
+
+export interface RosterCapacity {
+  id: string;
+  zone_id: string | null;
+  role: string;
+  max_staff: number;
+}
+
+export type RosterConflict =
+  | { type: 'double_booked'; user_id: string; shift_ids: [string, string] }
+  | { type: 'over_capacity'; capacity: RosterCapacity; at: string; count: number; shift_ids: string[] };
+
+export function getRoleLabel(role: string): string {
+  return ROSTER_ROLES.find(r => r.value === role)?.label || role.replace(/_/g, ' ');
+}
+
+export function getShiftHours(shift: Pick<RosterShift, 'starts_at' | 'ends_at'>): number {
+  return (new Date(shift.ends_at).getTime() - new Date(shift.starts_at).getTime()) / 3600000;
+}
+
+const overlaps = (a: RosterShift, b: RosterShift) =>
+  new Date(a.starts_at) < new Date(b.ends_at) && new Date(b.starts_at) < new Date(a.ends_at);
+
+// Double bookings within the given shifts, and moments where more staff are
+// rostered for a role in a zone than its capacity allows. Event-wide capacities
+// (no zone) count every shift in the role.
+export function findRosterConflicts(shifts: RosterShift[], capacities: RosterCapacity[]): RosterConflict[] {
+  const conflicts: RosterConflict[] = [];
+
+  shifts.forEach((a, i) => {
+    shifts.slice(i + 1).forEach((b) => {
+      if (a.user_id === b.user_id && overlaps(a, b)) {
+        conflicts.push({ type: 'double_booked', user_id: a.user_id, shift_ids: [a.id, b.id] });
+      }
+    });
+  });
+
+  capacities.forEach((capacity) => {
+    const covered = shifts.filter(s =>
+      s.role === capacity.role && (capacity.zone_id === null || s.zone_id === capacity.zone_id)
+    );
+
+    // Headcount peaks at some shift's start, so only those moments need checking
+    for (const shift of covered) {
+      const at = new Date(shift.starts_at);
+      const onShift = covered.filter(s => new Date(s.starts_at) <= at && at < new Date(s.ends_at));
+      if (onShift.length > capacity.max_staff) {
+        conflicts.push({
+          type: 'over_capacity',
+          capacity,
+          at: shift.starts_at,
+          count: onShift.length,
+          shift_ids: onShift.map(s => s.id),
+        });
+        break;
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+export interface CurrentRosterShift {
+  id: string;
+  event_id: string;
+  role: string;
+  zone_id: string | null;
+  zones: { name: string } | null;
+}
+
+// The roster shift the user is working right now, if any. Role pages use it to
+// scope their view to the rostered zone instead of the standing assignments.
+export async function fetchCurrentRosterShift(userId: string, role?: string): Promise<CurrentRosterShift | null> {
+  const now = new Date().toISOString();
+  let query = supabase
+    .from('roster_shifts')
+    .select('id, event_id, role, zone_id, zones (name)')
+    .eq('user_id', userId)
+    .lte('starts_at', now)
+    .gt('ends_at', now);
+
+  if (role) {
+    query = query.eq('role', role as RosterRole);
+  }
+
+  const { data, error } = await query.limit(1).maybeSingle();
+
+  if (error) {
+    console.error("Error fetching roster shift:", error.message);
+    return null;
+  }
+
+  return data;
+}
+
+interface RosterPrintData {
+  eventName: string;
+  shifts: (RosterShift & { staffName: string; zoneName: string | null })[];
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Printable roster grouped by day, one line per shift
+export function printRoster({ eventName, shifts }: RosterPrintData) {
+  const days: Record<string, typeof shifts> = {};
+  [...shifts]
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+    .forEach((shift) => {
+      const day = new Date(shift.starts_at).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' });
+      if (!days[day]) days[day] = [];
+      days[day].push(shift);
+    });
+
+  const rosterContent = `
+    <html>
+      <head>
+        <title>Roster - ${eventName}</title>
+        <style>
+          * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+          }
+          body {
+            font-family: Arial, sans-serif;
+            font-size: 12px;
+            padding: 12mm;
+          }
+          h1 {
+            font-size: 18px;
+            margin-bottom: 12px;
+          }
+          h2 {
+            font-size: 14px;
+            margin: 16px 0 6px;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          th, td {
+            text-align: left;
+            padding: 4px 6px;
+            border-bottom: 1px solid #ccc;
+          }
+          th {
+            background: #f0f0f0;
+          }
+          .footer {
+            margin-top: 16px;
+            font-size: 10px;
+            color: #666;
+          }
+        </style>
+      </head>
+      <body>
+        <h1>Roster - ${eventName}</h1>
+        ${Object.entries(days).map(([day, dayShifts]) => `
+          <h2>${day}</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Staff</th>
+                <th>Role</th>
+                <th>Zone</th>
+                <th>Hours</th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${dayShifts.map(shift => `
+                <tr>
+                  <td>${formatTime(shift.starts_at)} - ${formatTime(shift.ends_at)}</td>
+                  <td>${shift.staffName}</td>
+                  <td>${getRoleLabel(shift.role)}</td>
+                  <td>${shift.zoneName || ''}</td>
+                  <td>${getShiftHours(shift).toFixed(1)}</td>
+                  <td>${shift.notes || ''}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        `).join('')}
+        <div class="footer">Printed ${new Date().toLocaleString()}</div>
+      </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank', 'width=800,height=600');
+  if (printWindow) {
+    printWindow.document.write(rosterContent);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  }
+}
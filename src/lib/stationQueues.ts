@@ -0,0 +1,81 @@
+import { Database } from "@/integrations/supabase/types";
+
+type StationType = Database["public"]["Enums"]["station_type"];
+
+// Roles that work a station queue, as matched by next_station_assignee
+export const ROLE_STATIONS: Record<string, StationType> = {
+  drink_dispenser: 'drink_dispenser',
+  meal_dispenser: 'meal_dispenser',
+  mixologist: 'mixologist',
+  bar_staff: 'bar',
+};
+
+export interface QueueItem {
+  id: string;
+  status: string;
+  station_type: StationType;
+  quantity: number;
+  created_at: string;
+  assigned_to: string | null;
+  assignee: { full_name: string | null } | null;
+  menu_items: { name: string } | null;
+  orders: {
+    order_number: string;
+    table_number: string | null;
+  };
+}
+
+export interface QueueStaff {
+  user_id: string;
+  full_name: string | null;
+  station_type: StationType;
+}
+
+export interface StaffQueue {
+  user_id: string | null;
+  full_name: string;
+  station_type: StationType;
+  waiting: number;
+  claimed: number;
+  items: QueueItem[];
+}
+
+// One queue per clocked-in staff member, plus one per person who still holds
+// tickets after clocking out and one per station for unassigned tickets.
+// Busiest first.
+export function buildStaffQueues(items: QueueItem[], staff: QueueStaff[]): StaffQueue[] {
+  const queues: Record<string, StaffQueue> = {};
+
+  staff.forEach((member) => {
+    queues[member.user_id] = {
+      user_id: member.user_id,
+      full_name: member.full_name || 'Unknown',
+      station_type: member.station_type,
+      waiting: 0,
+      claimed: 0,
+      items: [],
+    };
+  });
+
+  items.forEach((item) => {
+    const key = item.assigned_to || `unassigned:${item.station_type}`;
+    if (!queues[key]) {
+      queues[key] = {
+        user_id: item.assigned_to,
+        full_name: item.assigned_to ? item.assignee?.full_name || 'Unknown' : 'Unassigned',
+        station_type: item.station_type,
+        waiting: 0,
+        claimed: 0,
+        items: [],
+      };
+    }
+    if (item.status === 'dispatched') {
+      queues[key].claimed += item.quantity;
+    } else {
+      queues[key].waiting += item.quantity;
+    }
+    queues[key].items.push(item);
+  });
+
+  return Object.values(queues).sort((a, b) => (b.waiting + b.claimed) - (a.waiting + a.claimed));
+}
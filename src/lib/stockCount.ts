@@ -0,0 +1,107 @@
+// Missing stock within this share of what was sold is treated as normal
+// wastage (spillage, breakage) rather than shrinkage
+export const SHRINKAGE_TOLERANCE_PERCENT = 5;
+
+export interface StockCount {
+  id: string;
+  event_id: string;
+  status: string;
+  notes: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface StockCountLine {
+  id: string;
+  menu_item_id: string;
+  zone_id: string | null;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number | null;
+  menu_items: { name: string; category: string } | null;
+  zones: { name: string } | null;
+}
+
+export interface ServedQuantity {
+  menu_item_id: string;
+  zone_id: string | null;
+  quantity: number;
+}
+
+export interface VarianceRow {
+  line_id: string;
+  item_name: string;
+  category: string;
+  zone_id: string | null;
+  zone_name: string;
+  expected: number;
+  counted: number;
+  // Served order items: what should have left the shelf
+  theoretical_usage: number;
+  // What actually left the shelf, going by the count
+  actual_usage: number;
+  // Counted minus expected; negative is stock missing
+  variance: number;
+  variance_value: number | null;
+  is_shrinkage: boolean;
+}
+
+export interface ZoneVariance {
+  zone_id: string | null;
+  zone_name: string;
+  variance_value: number;
+  flagged_items: number;
+}
+
+export const UNALLOCATED_ZONE_NAME = 'Unallocated';
+
+export function isShrinkage(variance: number, theoreticalUsage: number): boolean {
+  return variance < 0 && -variance > theoreticalUsage * (SHRINKAGE_TOLERANCE_PERCENT / 100);
+}
+
+// Variance for every counted line. Sales in a zone with no line for the item
+// (sold from unallocated stock) are attributed to the item's unallocated line.
+export function buildVarianceReport(lines: StockCountLine[], served: ServedQuantity[]): VarianceRow[] {
+  const lineKeys = new Set(lines.map(l => `${l.menu_item_id}:${l.zone_id || ''}`));
+  const usage: Record<string, number> = {};
+  served.forEach((s) => {
+    const zoneKey = `${s.menu_item_id}:${s.zone_id || ''}`;
+    const key = lineKeys.has(zoneKey) ? zoneKey : `${s.menu_item_id}:`;
+    usage[key] = (usage[key] || 0) + s.quantity;
+  });
+
+  return lines
+    .filter(line => line.counted_quantity !== null)
+    .map((line) => {
+      const counted = line.counted_quantity || 0;
+      const theoretical = usage[`${line.menu_item_id}:${line.zone_id || ''}`] || 0;
+      const variance = counted - line.expected_quantity;
+      return {
+        line_id: line.id,
+        item_name: line.menu_items?.name || 'Unknown',
+        category: line.menu_items?.category || 'Unknown',
+        zone_id: line.zone_id,
+        zone_name: line.zones?.name || UNALLOCATED_ZONE_NAME,
+        expected: line.expected_quantity,
+        counted,
+        theoretical_usage: theoretical,
+        actual_usage: theoretical - variance,
+        variance,
+        variance_value: line.unit_cost === null ? null : variance * Number(line.unit_cost),
+        is_shrinkage: isShrinkage(variance, theoretical),
+      };
+    });
+}
+
+export function summariseVarianceByZone(rows: VarianceRow[]): ZoneVariance[] {
+  const zones: Record<string, ZoneVariance> = {};
+  rows.forEach((row) => {
+    const key = row.zone_id || 'unallocated';
+    if (!zones[key]) {
+      zones[key] = { zone_id: row.zone_id, zone_name: row.zone_name, variance_value: 0, flagged_items: 0 };
+    }
+    zones[key].variance_value += row.variance_value || 0;
+    if (row.is_shrinkage) zones[key].flagged_items += 1;
+  });
+  return Object.values(zones).sort((a, b) => a.variance_value - b.variance_value);
+}
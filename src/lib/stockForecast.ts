@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Warn this many minutes before a zone is forecast to run out, unless the
+// tenant sets its own horizon in tenants.theme_config.notifications
+export const DEFAULT_STOCKOUT_HORIZON_MINUTES = 20;
+
+// Order velocity is measured over this trailing window, shortened to the time
+// since the first order in it (but never below the minimum) early in an event
+export const VELOCITY_WINDOW_MINUTES = 30;
+const MIN_VELOCITY_WINDOW_MINUTES = 10;
+
+// Ordered but not yet served: still on the zone's shelf, but already spoken for
+const COMMITTED_STATUSES = ['pending', 'dispatched', 'ready'] as const;
+const CANCELLED_STATUSES = ['rejected', 'returned', 'voided'];
+
+export interface ZoneAllocationStock {
+  menu_item_id: string;
+  zone_id: string;
+  allocated_quantity: number;
+  menu_items: { name: string } | null;
+  zones: { name: string } | null;
+}
+
+export interface ZoneOrderedItem {
+  menu_item_id: string;
+  quantity: number;
+  status: string;
+  created_at: string;
+  zone_id: string;
+}
+
+export interface StockForecast {
+  menu_item_id: string;
+  item_name: string;
+  zone_id: string;
+  zone_name: string;
+  // Allocated stock less what is ordered but not yet served
+  remaining: number;
+  units_per_minute: number;
+  // Null when nothing has been ordered in the window
+  minutes_until_stockout: number | null;
+}
+
+export function getStockoutHorizon(themeConfig: unknown): number {
+  const notifications = (themeConfig as { notifications?: { stockout_horizon_minutes?: number } } | null)?.notifications;
+  return notifications?.stockout_horizon_minutes || DEFAULT_STOCKOUT_HORIZON_MINUTES;
+}
+
+export async function fetchStockoutHorizon(tenantId: string): Promise<number> {
+  const { data } = await supabase
+    .from('tenants')
+    .select('theme_config')
+    .eq('id', tenantId)
+    .maybeSingle();
+
+  return getStockoutHorizon(data?.theme_config);
+}
+
+// Forecast for every zone allocation, soonest stock-out first
+export function buildStockForecast(
+  allocations: ZoneAllocationStock[],
+  orderedItems: ZoneOrderedItem[],
+  now: number = Date.now()
+): StockForecast[] {
+  const windowStart = now - VELOCITY_WINDOW_MINUTES * 60000;
+  const recent = orderedItems.filter(
+    item => new Date(item.created_at).getTime() >= windowStart && !CANCELLED_STATUSES.includes(item.status)
+  );
+  const firstOrderAt = Math.min(...recent.map(item => new Date(item.created_at).getTime()), now);
+  const windowMinutes = Math.max((now - firstOrderAt) / 60000, MIN_VELOCITY_WINDOW_MINUTES);
+
+  const ordered: Record<string, number> = {};
+  const committed: Record<string, number> = {};
+  orderedItems.forEach((item) => {
+    const key = `${item.menu_item_id}:${item.zone_id}`;
+    if (recent.includes(item)) {
+      ordered[key] = (ordered[key] || 0) + item.quantity;
+    }
+    if ((COMMITTED_STATUSES as readonly string[]).includes(item.status)) {
+      committed[key] = (committed[key] || 0) + item.quantity;
+    }
+  });
+
+  return allocations
+    .map((allocation) => {
+      const key = `${allocation.menu_item_id}:${allocation.zone_id}`;
+      const remaining = Math.max(allocation.allocated_quantity - (committed[key] || 0), 0);
+      const unitsPerMinute = (ordered[key] || 0) / windowMinutes;
+      return {
+        menu_item_id: allocation.menu_item_id,
+        item_name: allocation.menu_items?.name || 'Unknown item',
+        zone_id: allocation.zone_id,
+        zone_name: allocation.zones?.name || 'Unknown zone',
+        remaining,
+        units_per_minute: unitsPerMinute,
+        minutes_until_stockout: unitsPerMinute > 0 ? Math.floor(remaining / unitsPerMinute) : null,
+      };
+    })
+    .sort((a, b) => (a.minutes_until_stockout ?? Infinity) - (b.minutes_until_stockout ?? Infinity));
+}
+
+export async function fetchStockForecast(eventId: string, zoneIds?: string[]): Promise<StockForecast[]> {
+  const isZoneScoped = !!zoneIds && zoneIds.length > 0;
+  const windowStart = new Date(Date.now() - VELOCITY_WINDOW_MINUTES * 60000).toISOString();
+
+  let allocationsQuery = supabase
+    .from('inventory_zone_allocations')
+    .select('menu_item_id, zone_id, allocated_quantity, menu_items(name), zones(name)')
+    .eq('event_id', eventId);
+
+  // Recent orders for the velocity, plus older ones still waiting to be served
+  let orderedQuery = supabase
+    .from('order_items')
+    .select('menu_item_id, quantity, status, created_at, orders!inner(event_id, table:tables!orders_table_id_fkey!inner(zone_id))')
+    .eq('orders.event_id', eventId)
+    .or(`created_at.gte.${windowStart},status.in.(${COMMITTED_STATUSES.join(',')})`);
+
+  if (isZoneScoped) {
+    allocationsQuery = allocationsQuery.in('zone_id', zoneIds);
+    orderedQuery = orderedQuery.in('orders.table.zone_id', zoneIds);
+  }
+
+  const [{ data: allocations, error: allocationsError }, { data: ordered, error: orderedError }] = await Promise.all([
+    allocationsQuery,
+    orderedQuery,
+  ]);
+
+  if (allocationsError || orderedError) {
+    console.error("Error fetching stock forecast:", (allocationsError || orderedError)?.message);
+    return [];
+  }
+
+  const orderedItems: ZoneOrderedItem[] = (ordered || []).map(item => ({
+    menu_item_id: item.menu_item_id,
+    quantity: item.quantity,
+    status: item.status,
+    created_at: item.created_at,
+    zone_id: item.orders.table.zone_id,
+  }));
+
+  return buildStockForecast(allocations || [], orderedItems);
+}
@@ -0,0 +1,53 @@
+export type TableTabStatus = 'open' | 'settled' | 'closed';
+
+// Orders on a tab that still have to be paid
+export const UNPAID_ORDER_STATUSES = ['pending', 'dispatched', 'ready', 'bumped', 'served'];
+
+// Orders still being prepared; the tab cannot be settled until they are served
+export const IN_PROGRESS_ORDER_STATUSES = ['pending', 'dispatched'];
+
+export interface TableTabOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  total_amount: number;
+  waiter: { full_name: string | null } | null;
+}
+
+export interface TableTab {
+  id: string;
+  table_id: string;
+  status: string;
+  opened_at: string;
+  orders: TableTabOrder[];
+}
+
+export const TABLE_TAB_SELECT = `
+  id,
+  table_id,
+  status,
+  opened_at,
+  orders (
+    id,
+    order_number,
+    status,
+    total_amount,
+    waiter:profiles!orders_waiter_id_fkey (full_name)
+  )
+`;
+
+export function getUnpaidTabOrders(tab: TableTab): TableTabOrder[] {
+  return tab.orders.filter(order => UNPAID_ORDER_STATUSES.includes(order.status));
+}
+
+export function getInProgressTabOrders(tab: TableTab): TableTabOrder[] {
+  return tab.orders.filter(order => IN_PROGRESS_ORDER_STATUSES.includes(order.status));
+}
+
+export function getTabBalance(tab: TableTab): number {
+  return getUnpaidTabOrders(tab).reduce((sum, order) => sum + Number(order.total_amount), 0);
+}
+
+export function getTabWaiterNames(tab: TableTab): string[] {
+  return [...new Set(tab.orders.map(order => order.waiter?.full_name || 'Unknown'))];
+}
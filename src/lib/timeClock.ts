@@ -0,0 +1,37 @@
+export interface TimeEntryBreak {
+  id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface TimeEntry {
+  id: string;
+  user_id: string;
+  event_id: string | null;
+  role: string | null;
+  zone_ids: string[];
+  clock_in: string;
+  clock_out: string | null;
+  time_entry_breaks: TimeEntryBreak[];
+}
+
+// Open entries and breaks are counted up to `now`
+export function getBreakMinutes(entry: TimeEntry, now: Date = new Date()): number {
+  return entry.time_entry_breaks.reduce((sum, b) => {
+    const end = b.ended_at ? new Date(b.ended_at) : now;
+    return sum + Math.max(0, end.getTime() - new Date(b.started_at).getTime()) / 60000;
+  }, 0);
+}
+
+// Paid hours: clock-in to clock-out, less breaks
+export function getWorkedHours(entry: TimeEntry, now: Date = new Date()): number {
+  const end = entry.clock_out ? new Date(entry.clock_out) : now;
+  const minutes = (end.getTime() - new Date(entry.clock_in).getTime()) / 60000 - getBreakMinutes(entry, now);
+  return Math.max(0, minutes) / 60;
+}
+
+// e.g. "2h 05m"
+export function formatDuration(hours: number): string {
+  const totalMinutes = Math.floor(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+}
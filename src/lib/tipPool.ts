@@ -0,0 +1,75 @@
+export type TipPoolRule = 'equal' | 'hours' | 'points';
+
+export const TIP_POOL_RULES: { value: TipPoolRule; label: string; description: string }[] = [
+  { value: 'equal', label: 'Equal share', description: 'Every member of the pool gets the same share' },
+  { value: 'hours', label: 'Hours worked', description: 'Shares are weighted by hours worked during the event' },
+  { value: 'points', label: 'Points', description: 'Shares are weighted by the points set for each role' },
+];
+
+// Roles that take part in the tip pool
+export const TIP_POOL_ROLES = ['waiter', 'bar_staff', 'mixologist', 'drink_dispenser', 'meal_dispenser'];
+
+export const DEFAULT_TIP_POOL_POINTS: Record<string, number> = {
+  waiter: 3,
+  bar_staff: 2,
+  mixologist: 2,
+  drink_dispenser: 1,
+  meal_dispenser: 1,
+};
+
+// Stored in tenants.theme_config.tip_pool alongside the other tenant preferences
+export interface TipPoolSettings {
+  rule: TipPoolRule;
+  points: Record<string, number>;
+}
+
+export function getTipPoolSettings(themeConfig: unknown): TipPoolSettings {
+  const tipPool = (themeConfig as { tip_pool?: Partial<TipPoolSettings> } | null)?.tip_pool || {};
+  return {
+    rule: tipPool.rule || 'equal',
+    points: { ...DEFAULT_TIP_POOL_POINTS, ...(tipPool.points || {}) },
+  };
+}
+
+export interface TipPoolMember {
+  user_id: string;
+  name: string;
+  role: string;
+  hours: number;
+}
+
+export interface TipShare extends TipPoolMember {
+  weight: number;
+  share: number;
+}
+
+// Split the pooled tips by the chosen rule. Shares are rounded to cents and the
+// rounding difference goes to the largest share so the total always adds up.
+export function distributeTips(total: number, members: TipPoolMember[], settings: TipPoolSettings): TipShare[] {
+  const weighted = members.map(member => ({
+    ...member,
+    weight: settings.rule === 'hours'
+      ? member.hours
+      : settings.rule === 'points'
+        ? Number(settings.points[member.role] ?? 0)
+        : 1,
+  }));
+
+  const totalWeight = weighted.reduce((sum, m) => sum + m.weight, 0);
+  if (total <= 0 || totalWeight <= 0) {
+    return weighted.map(m => ({ ...m, share: 0 }));
+  }
+
+  const shares = weighted.map(m => ({
+    ...m,
+    share: Math.floor((total * m.weight / totalWeight) * 100) / 100,
+  }));
+
+  const remainder = Math.round((total - shares.reduce((sum, m) => sum + m.share, 0)) * 100) / 100;
+  if (remainder !== 0) {
+    const largest = shares.reduce((max, m) => (m.share > max.share ? m : max), shares[0]);
+    largest.share = Math.round((largest.share + remainder) * 100) / 100;
+  }
+
+  return shares.sort((a, b) => b.share - a.share);
+}
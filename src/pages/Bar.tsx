@@ -4,10 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Loader2, LogOut, Plus, Minus, DollarSign, X, CheckCircle } from "lucide-react";
+import { Loader2, LogOut, Plus, Minus, DollarSign, X, CheckCircle, Ban, Percent, ListPlus } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
+import { fetchCurrentRosterShift } from "@/lib/roster";
+import { countHeldByTable } from "@/lib/courses";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
@@ -26,6 +29,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ModifierSelectionDialog } from "@/components/ModifierSelectionDialog";
+import { DiscountDialog } from "@/components/DiscountDialog";
+import { TipInput } from "@/components/TipInput";
+import { VoidItemDialog } from "@/components/VoidItemDialog";
+import {
+  ModifierGroup,
+  SelectedModifier,
+  MODIFIER_GROUPS_SELECT,
+  sortModifierGroups,
+  getModifiersTotal,
+  formatModifiers,
+  getCartLineKey,
+} from "@/lib/modifiers";
 
 interface MenuItem {
   id: string;
@@ -33,10 +49,14 @@ interface MenuItem {
   price: number;
   category: string;
   station_type: string;
+  modifier_groups?: ModifierGroup[];
 }
 
 interface CartItem extends MenuItem {
   quantity: number;
+  cartKey: string;
+  modifiers: SelectedModifier[];
+  unitPrice: number;
 }
 
 interface OrderItem {
@@ -45,6 +65,9 @@ interface OrderItem {
   station_type: string;
   menu_item_name: string;
   quantity: number;
+  price: number;
+  modifiers: string;
+  is_held: boolean;
 }
 
 interface Order {
@@ -71,11 +94,17 @@ const Bar = () => {
   const [guestName, setGuestName] = useState("");
   const [paymentDialog, setPaymentDialog] = useState<Order | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<"cash" | "pos" | "transfer">("cash");
+  const [tipAmount, setTipAmount] = useState("");
   const [processing, setProcessing] = useState(false);
   const [activeEvent, setActiveEvent] = useState<string>("");
   const [userName, setUserName] = useState<string | null>(null);
   const [userZoneIds, setUserZoneIds] = useState<string[]>([]);
   const [userZoneNames, setUserZoneNames] = useState<string[]>([]);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [discountOrder, setDiscountOrder] = useState<Order | null>(null);
+  const [voidItem, setVoidItem] = useState<OrderItem | null>(null);
+  // Open order the current cart will be added to instead of starting a new one
+  const [appendOrder, setAppendOrder] = useState<Order | null>(null);
 
   // Fetch user profile name
   useEffect(() => {
@@ -143,8 +172,14 @@ const Bar = () => {
       .eq('user_id', user.id)
       .eq('tenant_id', tenantId);
 
-    const zoneIds = zoneAssignments?.map(z => z.zone_id) || [];
-    const zoneNames = zoneAssignments?.map(z => (z.zones as any)?.name).filter(Boolean) || [];
+    // While rostered on a bar shift, only that shift's zone is shown
+    const rosterShift = await fetchCurrentRosterShift(user.id, 'bar_staff');
+    const zoneIds = rosterShift?.zone_id
+      ? [rosterShift.zone_id]
+      : zoneAssignments?.map(z => z.zone_id) || [];
+    const zoneNames = rosterShift?.zone_id
+      ? [rosterShift.zones?.name].filter(Boolean)
+      : zoneAssignments?.map(z => (z.zones as any)?.name).filter(Boolean) || [];
     setUserZoneIds(zoneIds);
     setUserZoneNames(zoneNames);
   };
@@ -161,8 +196,12 @@ const Bar = () => {
         .single();
 
       let eventId: string | null = null;
+      const rosterShift = await fetchCurrentRosterShift(user.id, 'bar_staff');
 
-      if (profile?.event_id) {
+      if (rosterShift) {
+        // Work the event of the roster shift that is running now
+        eventId = rosterShift.event_id;
+      } else if (profile?.event_id) {
         // Use user's assigned event
         eventId = profile.event_id;
       } else {
@@ -224,14 +263,17 @@ const Bar = () => {
     try {
       const { data, error } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(`*, ${MODIFIER_GROUPS_SELECT}`)
         .eq('event_id', eventId)
         .in('station_type', ['bar', 'mixologist'])
         .eq('is_available', true)
         .order('category', { ascending: true });
 
       if (error) throw error;
-      setMenuItems(data || []);
+      setMenuItems(((data || []) as unknown as MenuItem[]).map(item => ({
+        ...item,
+        modifier_groups: sortModifierGroups(item.modifier_groups),
+      })));
     } catch (error: any) {
       toast({
         title: "Error loading menu",
@@ -254,18 +296,6 @@ const Bar = () => {
     }
 
     try {
-      // First get table numbers in user's assigned zones for the event
-      const { data: tablesInZones } = await supabase
-        .from('tables')
-        .select('table_number, event_id')
-        .in('zone_id', userZoneIds)
-        .eq('event_id', eid);
-
-      if (!tablesInZones || tablesInZones.length === 0) {
-        setOrders([]);
-        return;
-      }
-
       // Fetch orders that have bar or mixologist items (exclude paid orders)
       const { data, error } = await supabase
         .from('orders')
@@ -276,15 +306,24 @@ const Bar = () => {
             station_type,
             status,
             quantity,
+            price,
+            is_held,
             menu_items (
               name
+            ),
+            order_item_modifiers (
+              option_name
             )
           ),
           profiles!orders_waiter_id_fkey (
             full_name
+          ),
+          table:tables!orders_table_id_fkey!inner (
+            zone_id
           )
         `)
         .eq('event_id', eid)
+        .in('table.zone_id', userZoneIds)
         .in('order_items.station_type', ['bar', 'mixologist'])
         .neq('status', 'paid')
         .order('created_at', { ascending: false })
@@ -292,13 +331,8 @@ const Bar = () => {
 
       if (error) throw error;
       
-      // Filter orders to only those where table_number matches tables in user's zones
-      const filteredData = (data || []).filter(order => 
-        tablesInZones.some(t => t.table_number === order.table_number)
-      );
-      
       // Remove duplicates since an order might have multiple bar items
-      const uniqueOrders = filteredData.reduce((acc: Order[], order: any) => {
+      const uniqueOrders = (data || []).reduce((acc: Order[], order: any) => {
         if (!acc.find(o => o.id === order.id)) {
           // Filter only bar/mixologist items
           const barItems = order.order_items
@@ -309,6 +343,9 @@ const Bar = () => {
               station_type: item.station_type,
               menu_item_name: item.menu_items?.name || 'Unknown',
               quantity: item.quantity,
+              price: Number(item.price),
+              modifiers: formatModifiers(item.order_item_modifiers),
+              is_held: item.is_held,
             }));
           
           acc.push({
@@ -337,32 +374,49 @@ const Bar = () => {
   };
 
   const addToCart = (item: MenuItem) => {
+    // Items with modifier groups need options chosen before they go in the cart
+    if (item.modifier_groups && item.modifier_groups.length > 0) {
+      setModifierItem(item);
+      return;
+    }
+    addCartLine(item, []);
+  };
+
+  const addCartLine = (item: MenuItem, modifiers: SelectedModifier[]) => {
+    const cartKey = getCartLineKey(item.id, modifiers);
     setCart(prev => {
-      const existing = prev.find(i => i.id === item.id);
+      const existing = prev.find(i => i.cartKey === cartKey);
       if (existing) {
-        return prev.map(i => i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i);
+        return prev.map(i => i.cartKey === cartKey ? { ...i, quantity: i.quantity + 1 } : i);
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [...prev, {
+        ...item,
+        quantity: 1,
+        cartKey,
+        modifiers,
+        unitPrice: Number(item.price) + getModifiersTotal(modifiers),
+      }];
     });
   };
 
-  const removeFromCart = (itemId: string) => {
+  const removeFromCart = (cartKey: string) => {
     setCart(prev => {
-      const existing = prev.find(i => i.id === itemId);
+      const existing = prev.find(i => i.cartKey === cartKey);
       if (existing && existing.quantity > 1) {
-        return prev.map(i => i.id === itemId ? { ...i, quantity: i.quantity - 1 } : i);
+        return prev.map(i => i.cartKey === cartKey ? { ...i, quantity: i.quantity - 1 } : i);
       }
-      return prev.filter(i => i.id !== itemId);
+      return prev.filter(i => i.cartKey !== cartKey);
     });
   };
 
   const clearCart = () => {
     setCart([]);
     setGuestName("");
+    setAppendOrder(null);
   };
 
   const getTotalAmount = () => {
-    return cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    return cart.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
   };
 
   const handleCreateOrder = async () => {
@@ -379,51 +433,26 @@ const Bar = () => {
     try {
       if (!user || !tenantId) throw new Error("Not authenticated");
 
-      // Generate order number
-      const { data: orderNumber, error: orderNumError } = await supabase
-        .rpc('generate_order_number', { _event_id: activeEvent });
-
-      if (orderNumError) throw orderNumError;
-
-      // Create order
+      // Bar orders are handed over immediately, so they are created as served
       const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          order_number: orderNumber,
-          event_id: activeEvent,
-          waiter_id: user.id,
-          tenant_id: tenantId,
-          table_number: 'BAR',
-          guest_name: guestName || null,
-          status: 'served',
-          total_amount: getTotalAmount(),
-          served_at: new Date().toISOString(),
+        .rpc('create_order', {
+          _event_id: activeEvent,
+          _table_number: 'BAR',
+          _guest_name: guestName || undefined,
+          _status: 'served',
+          _items: cart.map(item => ({
+            menu_item_id: item.id,
+            quantity: item.quantity,
+            modifier_option_ids: item.modifiers.map(m => m.modifier_option_id),
+          })),
         })
-        .select()
         .single();
 
       if (orderError) throw orderError;
 
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: order.id,
-        menu_item_id: item.id,
-        quantity: item.quantity,
-        price: item.price,
-        station_type: item.station_type as "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar",
-        tenant_id: tenantId,
-        status: 'served' as "served",
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
       toast({
         title: "Order created",
-        description: `Order ${orderNumber} ready for payment`,
+        description: `Order ${order.order_number} ready for payment`,
       });
 
       clearCart();
@@ -439,6 +468,49 @@ const Bar = () => {
     }
   };
 
+  const handleAddToOrder = async () => {
+    if (!appendOrder || cart.length === 0) return;
+
+    setProcessing(true);
+    try {
+      // Walk-in bar orders are handed over immediately; table orders go to the stations
+      const { data, error } = await supabase
+        .rpc('add_order_items', {
+          _order_id: appendOrder.id,
+          _status: appendOrder.table_number === 'BAR' ? 'served' : 'pending',
+          _items: cart.map(item => ({
+            menu_item_id: item.id,
+            quantity: item.quantity,
+            modifier_option_ids: item.modifiers.map(m => m.modifier_option_id),
+          })),
+        })
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Items added",
+        description: `Course ${data.course_number} added to ${appendOrder.order_number} • ${formatPrice(Number(data.total_amount))}`,
+      });
+
+      clearCart();
+      fetchOrders();
+    } catch (error) {
+      toast({
+        title: "Error adding items",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleAddItemsClick = (e: React.MouseEvent, order: Order) => {
+    e.stopPropagation(); // Prevent opening payment dialog
+    setAppendOrder(order);
+  };
+
   const handleProcessPayment = async () => {
     if (!paymentDialog) return;
 
@@ -446,12 +518,15 @@ const Bar = () => {
     try {
       if (!user || !tenantId) throw new Error("Not authenticated");
 
-      // Create payment
+      const tip = Math.max(parseFloat(tipAmount) || 0, 0);
+
+      // Create payment; the tip is kept apart from the order amount
       const { error: paymentError } = await supabase
         .from('payments')
         .insert({
           order_id: paymentDialog.id,
           amount: paymentDialog.total_amount,
+          tip_amount: tip,
           payment_method: paymentMethod,
           tenant_id: tenantId,
           confirmed_by: user.id,
@@ -496,8 +571,7 @@ const Bar = () => {
         .from('order_items')
         .update({ 
           status: 'ready',
-          ready_at: new Date().toISOString(),
-          assigned_to: user?.id
+          ready_at: new Date().toISOString()
         })
         .eq('id', itemId);
 
@@ -518,6 +592,16 @@ const Bar = () => {
     }
   };
 
+  const handleVoidClick = (e: React.MouseEvent, item: OrderItem) => {
+    e.stopPropagation(); // Prevent opening payment dialog
+    setVoidItem(item);
+  };
+
+  const handleDiscountApplied = (newTotal: number) => {
+    setPaymentDialog(prev => prev ? { ...prev, total_amount: newTotal } : prev);
+    fetchOrders();
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut({ scope: 'local' });
     navigate('/auth');
@@ -529,6 +613,13 @@ const Bar = () => {
     return acc;
   }, {} as Record<string, MenuItem[]>);
 
+  // Later courses stay pending until fired; they cannot be marked ready yet
+  const heldTables = countHeldByTable(
+    orders.flatMap(order => (order.items || [])
+      .filter(item => item.is_held && item.status === 'pending')
+      .map(item => ({ quantity: item.quantity, orders: { table_number: order.table_number } })))
+  );
+
   if (loading || authLoading) {
     return (
       <div className="fixed inset-0 flex items-center justify-center bg-background">
@@ -549,6 +640,7 @@ const Bar = () => {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <TimeClockButton userId={user?.id} role="bar_staff" />
             <NotificationBell />
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
@@ -561,15 +653,17 @@ const Bar = () => {
         {/* Left Side - Menu & Cart */}
         <div className="space-y-4">
           {/* Guest Name */}
-          <Card className="p-4">
-            <Label>Guest Name (Optional)</Label>
-            <Input
-              value={guestName}
-              onChange={(e) => setGuestName(e.target.value)}
-              placeholder="Customer name..."
-              className="mt-2"
-            />
-          </Card>
+          {!appendOrder && (
+            <Card className="p-4">
+              <Label>Guest Name (Optional)</Label>
+              <Input
+                value={guestName}
+                onChange={(e) => setGuestName(e.target.value)}
+                placeholder="Customer name..."
+                className="mt-2"
+              />
+            </Card>
+          )}
 
           {/* Menu Items */}
           <Card className="p-4">
@@ -615,8 +709,10 @@ const Bar = () => {
           {/* Cart */}
           <Card className="p-4">
             <div className="flex items-center justify-between mb-3">
-              <h2 className="font-semibold">Current Order</h2>
-              {cart.length > 0 && (
+              <h2 className="font-semibold">
+                {appendOrder ? `Adding to ${appendOrder.order_number}` : 'Current Order'}
+              </h2>
+              {(cart.length > 0 || appendOrder) && (
                 <Button variant="ghost" size="sm" onClick={clearCart}>
                   <X className="mr-2 h-4 w-4" />
                   Clear
@@ -626,30 +722,35 @@ const Bar = () => {
 
             {cart.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                Add items to start an order
+                {appendOrder ? 'Add items for the next round' : 'Add items to start an order'}
               </div>
             ) : (
               <div className="space-y-3">
                 {cart.map(item => (
-                  <div key={item.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md">
+                  <div key={item.cartKey} className="flex items-center justify-between p-2 bg-muted/50 rounded-md">
                     <div className="flex-1">
                       <div className="font-medium">{item.name}</div>
+                      {item.modifiers.length > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatModifiers(item.modifiers)}
+                        </div>
+                      )}
                       <div className="text-sm text-muted-foreground">
-                        {formatPrice(item.price)} × {item.quantity}
+                        {formatPrice(item.unitPrice)} × {item.quantity}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => removeFromCart(item.id)}
+                        onClick={() => removeFromCart(item.cartKey)}
                       >
                         <Minus className="h-3 w-3" />
                       </Button>
                       <span className="w-8 text-center font-semibold">{item.quantity}</span>
                       <Button
                         size="sm"
-                        onClick={() => addToCart(item)}
+                        onClick={() => addCartLine(item, item.modifiers)}
                       >
                         <Plus className="h-3 w-3" />
                       </Button>
@@ -666,16 +767,16 @@ const Bar = () => {
 
                 <Button
                   className="w-full h-12"
-                  onClick={handleCreateOrder}
+                  onClick={appendOrder ? handleAddToOrder : handleCreateOrder}
                   disabled={processing}
                 >
                   {processing ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Creating...
+                      {appendOrder ? 'Adding...' : 'Creating...'}
                     </>
                   ) : (
-                    'Create Order'
+                    appendOrder ? `Add to ${appendOrder.order_number}` : 'Create Order'
                   )}
                 </Button>
               </div>
@@ -687,6 +788,16 @@ const Bar = () => {
         <div className="space-y-4">
           <Card className="p-4">
             <h2 className="font-semibold mb-3">Pending Payments</h2>
+            {heldTables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+                <span className="text-muted-foreground">Held:</span>
+                {heldTables.map((held) => (
+                  <Badge key={held.table_number} variant="outline">
+                    Table {held.table_number} • {held.quantity}
+                  </Badge>
+                ))}
+              </div>
+            )}
             <div className="space-y-3">
               {orders.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
@@ -700,7 +811,11 @@ const Bar = () => {
                     <Card
                       key={order.id}
                       className={`p-3 transition-colors ${hasPendingItems ? 'cursor-not-allowed opacity-80' : 'cursor-pointer hover:bg-accent/5'}`}
-                      onClick={() => !hasPendingItems && setPaymentDialog(order)}
+                      onClick={() => {
+                        if (hasPendingItems) return;
+                        setTipAmount("");
+                        setPaymentDialog(order);
+                      }}
                     >
                       <div className="flex items-center justify-between mb-2">
                         <div>
@@ -709,7 +824,18 @@ const Bar = () => {
                             {order.guest_name || (order.table_number === 'BAR' ? 'Walk-in' : order.waiter_name || 'Unknown')}
                           </div>
                         </div>
-                        <Badge variant="secondary">{order.status}</Badge>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant={appendOrder?.id === order.id ? 'default' : 'outline'}
+                            className="h-7"
+                            onClick={(e) => handleAddItemsClick(e, order)}
+                          >
+                            <ListPlus className="h-3 w-3 mr-1" />
+                            Add
+                          </Button>
+                          <Badge variant="secondary">{order.status}</Badge>
+                        </div>
                       </div>
                       
                       {/* Show order items with mark ready buttons for pending items */}
@@ -720,17 +846,35 @@ const Bar = () => {
                               <div className="flex-1 text-sm">
                                 <span className="font-medium">{item.quantity}x</span>{' '}
                                 <span>{item.menu_item_name}</span>
-                                <Badge variant="outline" className="ml-2 text-xs">{item.status}</Badge>
+                                {item.modifiers && (
+                                  <span className="text-muted-foreground"> ({item.modifiers})</span>
+                                )}
+                                <Badge variant="outline" className="ml-2 text-xs">{item.is_held ? 'held' : item.status}</Badge>
+                              </div>
+                              <div className="flex gap-1">
+                                {item.status === 'pending' && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 text-destructive"
+                                    onClick={(e) => handleVoidClick(e, item)}
+                                  >
+                                    <Ban className="h-3 w-3 mr-1" />
+                                    Void
+                                  </Button>
+                                )}
+                                {!item.is_held && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-7"
+                                    onClick={(e) => handleMarkItemReady(e, item.id)}
+                                  >
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Ready
+                                  </Button>
+                                )}
                               </div>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="h-7"
-                                onClick={(e) => handleMarkItemReady(e, item.id)}
-                              >
-                                <CheckCircle className="h-3 w-3 mr-1" />
-                                Ready
-                              </Button>
                             </div>
                           ))}
                         </div>
@@ -768,6 +912,16 @@ const Bar = () => {
               <div className="text-3xl font-bold">
                 {paymentDialog ? formatPrice(paymentDialog.total_amount) : ''}
               </div>
+              <Button
+                variant="link"
+                size="sm"
+                className="mt-1"
+                onClick={() => setDiscountOrder(paymentDialog)}
+                disabled={processing}
+              >
+                <Percent className="mr-1 h-3 w-3" />
+                Discount / Comp
+              </Button>
             </div>
 
             <div className="space-y-2">
@@ -786,6 +940,13 @@ const Bar = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            <TipInput
+              baseAmount={paymentDialog?.total_amount || 0}
+              value={tipAmount}
+              onChange={setTipAmount}
+              disabled={processing}
+            />
           </div>
 
           <DialogFooter>
@@ -812,6 +973,42 @@ const Bar = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Modifier Selection */}
+      <ModifierSelectionDialog
+        open={!!modifierItem}
+        onOpenChange={(open) => !open && setModifierItem(null)}
+        menuItem={modifierItem ? { ...modifierItem, modifier_groups: modifierItem.modifier_groups || [] } : null}
+        onConfirm={(modifiers) => modifierItem && addCartLine(modifierItem, modifiers)}
+      />
+
+      {/* Discounts & Comps */}
+      <DiscountDialog
+        open={!!discountOrder}
+        onOpenChange={(open) => !open && setDiscountOrder(null)}
+        order={discountOrder ? {
+          id: discountOrder.id,
+          order_number: discountOrder.order_number,
+          total_amount: discountOrder.total_amount,
+          items: (discountOrder.items || [])
+            .filter(item => !['returned', 'rejected', 'voided'].includes(item.status))
+            .map(item => ({
+              id: item.id,
+              name: item.menu_item_name,
+              quantity: item.quantity,
+              price: item.price,
+            })),
+        } : null}
+        onApplied={handleDiscountApplied}
+      />
+
+      {/* Void Pending Item */}
+      <VoidItemDialog
+        open={!!voidItem}
+        onOpenChange={(open) => !open && setVoidItem(null)}
+        item={voidItem ? { id: voidItem.id, name: voidItem.menu_item_name, quantity: voidItem.quantity } : null}
+        onVoided={() => fetchOrders()}
+      />
     </div>
   );
 };
@@ -3,13 +3,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, LogOut, DollarSign, AlertTriangle, Split, Printer, ChevronDown, ChevronRight, Eye, EyeOff, Layers, CheckSquare, Square, AlertCircle } from "lucide-react";
+import { Loader2, LogOut, DollarSign, AlertTriangle, Split, Printer, ChevronDown, ChevronRight, Eye, EyeOff, Layers, CheckSquare, Square, AlertCircle, Percent, RotateCcw, Wallet, Receipt } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
+import { fetchCurrentRosterShift } from "@/lib/roster";
 import { SplitPaymentDialog } from "@/components/SplitPaymentDialog";
 import { ConsolidatedOrderDialog } from "@/components/ConsolidatedOrderDialog";
+import { DiscountDialog } from "@/components/DiscountDialog";
+import { TipInput } from "@/components/TipInput";
+import { RefundDialog } from "@/components/RefundDialog";
+import { CashierShiftDialog } from "@/components/CashierShiftDialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,6 +23,11 @@ import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Checkbox } from "@/components/ui/checkbox";
+import { formatModifiers } from "@/lib/modifiers";
+import { OrderCharge, formatChargeLabel, getAddedChargesTotal } from "@/lib/orderCharges";
+import { OrderDiscount, formatDiscountLabel, getDiscountTotal } from "@/lib/orderDiscounts";
+import { CashierShift } from "@/lib/cashierShifts";
+import { TableTab, TABLE_TAB_SELECT, getInProgressTabOrders } from "@/lib/tableTabs";
 import {
   Dialog,
   DialogContent,
@@ -42,6 +53,7 @@ interface Order {
   total_amount: number;
   created_at: string;
   served_at: string | null;
+  tab_id: string | null;
   profiles: {
     full_name: string | null;
   };
@@ -53,7 +65,13 @@ interface Order {
     menu_item: {
       name: string;
     };
+    order_item_modifiers?: Array<{
+      option_name: string;
+      price_delta: number;
+    }>;
   }>;
+  order_charges?: OrderCharge[];
+  order_discounts?: OrderDiscount[];
 }
 
 interface OrderReturn {
@@ -69,8 +87,10 @@ interface OrderReturn {
       name: string;
     };
     orders: {
+      id: string;
       order_number: string;
       table_number: string;
+      status: string;
       total_amount: number;
     };
   };
@@ -132,6 +152,7 @@ const Cashier = () => {
     transfer: "",
   });
   const [paymentNotes, setPaymentNotes] = useState("");
+  const [tipAmount, setTipAmount] = useState("");
   const [processing, setProcessing] = useState(false);
   const [expandedPaymentTables, setExpandedPaymentTables] = useState<Set<string>>(new Set());
   const [expandedReturnTables, setExpandedReturnTables] = useState<Set<string>>(new Set());
@@ -140,9 +161,16 @@ const Cashier = () => {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set());
   const [showConsolidatedDialog, setShowConsolidatedDialog] = useState(false);
+  const [openTabs, setOpenTabs] = useState<TableTab[]>([]);
+  const [settlingTabId, setSettlingTabId] = useState<string | null>(null);
   const [userName, setUserName] = useState<string | null>(null);
   const [userZoneIds, setUserZoneIds] = useState<string[]>([]);
   const [userZoneNames, setUserZoneNames] = useState<string[]>([]);
+  const [discountOrder, setDiscountOrder] = useState<Order | null>(null);
+  const [refundOrder, setRefundOrder] = useState<{ id: string; order_number: string } | null>(null);
+  const [refundReturn, setRefundReturn] = useState<OrderReturn | null>(null);
+  const [currentShift, setCurrentShift] = useState<CashierShift | null>(null);
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
 
   // Fetch user profile name
   useEffect(() => {
@@ -156,8 +184,37 @@ const Cashier = () => {
       if (data?.full_name) setUserName(data.full_name);
     };
     fetchUserName();
+    fetchCurrentShift();
   }, [user]);
 
+  const fetchCurrentShift = async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from('cashier_shifts')
+      .select('id, event_id, cashier_id, status, opening_float, counted_cash, expected_cash, over_short, notes, opened_at, closed_at')
+      .eq('cashier_id', user.id)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching current shift:", error);
+      return;
+    }
+    setCurrentShift(data);
+  };
+
+  // Payments are reconciled against the cashier's till, so one must be open
+  const requireOpenShift = () => {
+    if (currentShift) return true;
+    toast({
+      title: "No open shift",
+      description: "Open your shift with a float before taking payments",
+      variant: "destructive",
+    });
+    setShiftDialogOpen(true);
+    return false;
+  };
+
   // Group orders by table for Payments tab
   const groupedOrders = useMemo(() => {
     const statusPriority: Record<string, number> = { served: 0, paid: 1 };
@@ -207,6 +264,11 @@ const Cashier = () => {
     return orders.filter(order => selectedOrderIds.has(order.id));
   }, [orders, selectedOrderIds]);
 
+  // Unpaid orders on the tab being settled
+  const settlingTabOrders = useMemo(() => {
+    return orders.filter(order => order.tab_id === settlingTabId && order.status !== 'paid');
+  }, [orders, settlingTabId]);
+
   // Check if selected orders are from the same table
   const canConsolidate = useMemo(() => {
     if (selectedOrders.length < 2) return false;
@@ -318,8 +380,14 @@ const Cashier = () => {
 
       if (error) throw error;
 
-      const zoneIds = data?.map(d => d.zone_id) || [];
-      const zoneNames = data?.map(d => (d.zones as any)?.name).filter(Boolean) || [];
+      // While rostered on a cashier shift, only that shift's zone is shown
+      const rosterShift = await fetchCurrentRosterShift(user.id, 'cashier');
+      const zoneIds = rosterShift?.zone_id
+        ? [rosterShift.zone_id]
+        : data?.map(d => d.zone_id) || [];
+      const zoneNames = rosterShift?.zone_id
+        ? [rosterShift.zones?.name].filter(Boolean)
+        : data?.map(d => (d.zones as any)?.name).filter(Boolean) || [];
       setUserZoneIds(zoneIds);
       setUserZoneNames(zoneNames);
       return zoneIds;
@@ -351,6 +419,7 @@ const Cashier = () => {
         },
         () => {
           fetchOrders();
+          fetchOpenTabs();
         }
       )
       .on(
@@ -389,7 +458,8 @@ const Cashier = () => {
       fetchOrders(showPaidOrders, zones), 
       fetchReturns(zones), 
       fetchRejectedItems(zones),
-      fetchConsolidatedPayments(zones)
+      fetchConsolidatedPayments(zones),
+      fetchOpenTabs(zones)
     ]);
     setLoading(false);
   };
@@ -403,19 +473,9 @@ const Cashier = () => {
         return;
       }
 
-      // First get tables in the user's assigned zones
-      const { data: tablesData, error: tablesError } = await supabase
-        .from('tables')
-        .select('table_number')
-        .in('zone_id', zones);
-
-      if (tablesError) throw tablesError;
-
-      const tablesInZones = new Set(tablesData?.map(t => t.table_number) || []);
-
-      const statusFilter: ("served" | "ready" | "paid")[] = includePaid 
-        ? ['served', 'ready', 'paid'] 
-        : ['served', 'ready'];
+      const statusFilter: ("served" | "ready" | "bumped" | "paid")[] = includePaid 
+        ? ['served', 'ready', 'bumped', 'paid'] 
+        : ['served', 'ready', 'bumped'];
       
       const { data, error } = await supabase
         .from('orders')
@@ -428,38 +488,42 @@ const Cashier = () => {
           total_amount,
           created_at,
           served_at,
+          tab_id,
           profiles!orders_waiter_id_fkey (full_name),
           order_items (
             id,
             quantity,
             price,
             status,
-            menu_items (name)
-          )
+            menu_items (name),
+            order_item_modifiers (option_name, price_delta)
+          ),
+          order_charges (charge_type, name, rate, amount, is_inclusive),
+          order_discounts (id, discount_type, value, amount, reason, order_item_id),
+          table:tables!orders_table_id_fkey!inner (zone_id)
         `)
         .in('status', statusFilter)
+        .in('table.zone_id', zones)
         .order('served_at', { ascending: true, nullsFirst: false });
 
       if (error) throw error;
       
-      // Transform the data to match our Order interface and filter out returned/rejected items
+      // Transform the data to match our Order interface and filter out returned/rejected/voided items
       const transformedData = (data || [])
-        // Filter to only orders from tables in the cashier's zones
-        .filter(order => order.table_number && tablesInZones.has(order.table_number))
         .map(order => {
-          // Filter out returned and rejected items from the bill
+          // Filter out returned, rejected and voided items from the bill
           const billableItems = order.order_items
-            ?.filter(item => item.status !== 'returned' && item.status !== 'rejected')
+            ?.filter(item => item.status !== 'returned' && item.status !== 'rejected' && item.status !== 'voided')
             .map(item => ({
               ...item,
               menu_item: item.menu_items
             }));
           
-          // Recalculate total based on billable items only
-          const recalculatedTotal = billableItems?.reduce(
+          // Recalculate total based on billable items only, less discounts, plus tax and service charge
+          const recalculatedTotal = (billableItems?.reduce(
             (sum, item) => sum + (item.price * item.quantity), 
             0
-          ) || 0;
+          ) || 0) - getDiscountTotal(order.order_discounts) + getAddedChargesTotal(order.order_charges);
           
           return {
             ...order,
@@ -467,7 +531,7 @@ const Cashier = () => {
             total_amount: recalculatedTotal
           };
         })
-        // Remove orders where all items have been returned/rejected
+        // Remove orders where all items have been returned/rejected/voided
         .filter(order => order.order_items && order.order_items.length > 0);
       
       setOrders(transformedData);
@@ -480,23 +544,34 @@ const Cashier = () => {
     }
   };
 
-  const fetchReturns = async (zoneIds?: string[]) => {
+  const fetchOpenTabs = async (zoneIds?: string[]) => {
     const zones = zoneIds || userZoneIds;
     try {
       if (zones.length === 0) {
-        setReturns([]);
+        setOpenTabs([]);
         return;
       }
 
-      // First get tables in the user's assigned zones
-      const { data: tablesData, error: tablesError } = await supabase
-        .from('tables')
-        .select('table_number')
-        .in('zone_id', zones);
+      const { data, error } = await supabase
+        .from('table_tabs')
+        .select(`${TABLE_TAB_SELECT}, table:tables!table_tabs_table_id_fkey!inner (zone_id)`)
+        .eq('status', 'open')
+        .in('table.zone_id', zones);
 
-      if (tablesError) throw tablesError;
+      if (error) throw error;
+      setOpenTabs((data || []) as unknown as TableTab[]);
+    } catch (error) {
+      console.error('Error fetching open tabs:', error);
+    }
+  };
 
-      const tablesInZones = new Set(tablesData?.map(t => t.table_number) || []);
+  const fetchReturns = async (zoneIds?: string[]) => {
+    const zones = zoneIds || userZoneIds;
+    try {
+      if (zones.length === 0) {
+        setReturns([]);
+        return;
+      }
 
       const { data, error } = await supabase
         .from('order_returns')
@@ -510,22 +585,24 @@ const Cashier = () => {
             quantity,
             price,
             menu_items (name),
-            orders (order_number, table_number, total_amount)
+            orders!inner (
+              id,
+              order_number,
+              table_number,
+              status,
+              total_amount,
+              table:tables!orders_table_id_fkey!inner (zone_id)
+            )
           ),
           profiles!order_returns_reported_by_fkey (full_name)
         `)
+        .in('order_items.orders.table.zone_id', zones)
         .not('confirmed_at', 'is', null)
         .order('confirmed_at', { ascending: false });
 
       if (error) throw error;
       
-      // Filter returns to only those from tables in the cashier's zones
-      const filteredReturns = (data || []).filter(returnItem => {
-        const tableNumber = (returnItem.order_items as any)?.orders?.table_number;
-        return tableNumber && tablesInZones.has(tableNumber);
-      });
-      
-      setReturns(filteredReturns);
+      setReturns(data || []);
     } catch (error: any) {
       toast({
         title: "Error loading returns",
@@ -543,16 +620,6 @@ const Cashier = () => {
         return;
       }
 
-      // First get tables in the user's assigned zones
-      const { data: tablesData, error: tablesError } = await supabase
-        .from('tables')
-        .select('table_number')
-        .in('zone_id', zones);
-
-      if (tablesError) throw tablesError;
-
-      const tablesInZones = new Set(tablesData?.map(t => t.table_number) || []);
-
       // Fetch rejected order items with their order and menu item info
       const { data, error } = await supabase
         .from('order_items')
@@ -562,23 +629,21 @@ const Cashier = () => {
           price,
           created_at,
           menu_items (name),
-          orders (
+          orders!inner (
             order_number, 
             table_number,
-            profiles!orders_waiter_id_fkey (full_name)
+            profiles!orders_waiter_id_fkey (full_name),
+            table:tables!orders_table_id_fkey!inner (zone_id)
           )
         `)
         .eq('status', 'rejected')
+        .in('orders.table.zone_id', zones)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      // Filter and transform rejected items
+      // Transform rejected items
       const transformedItems: RejectedItem[] = (data || [])
-        .filter(item => {
-          const tableNumber = (item.orders as any)?.table_number;
-          return tableNumber && tablesInZones.has(tableNumber);
-        })
         .map(item => ({
           id: item.id,
           type: 'rejected' as const,
@@ -609,16 +674,6 @@ const Cashier = () => {
         return;
       }
 
-      // First get tables in the user's assigned zones
-      const { data: tablesData, error: tablesError } = await supabase
-        .from('tables')
-        .select('table_number')
-        .in('zone_id', zones);
-
-      if (tablesError) throw tablesError;
-
-      const tablesInZones = new Set(tablesData?.map(t => t.table_number) || []);
-
       // Fetch payments with consolidated notes
       const { data: paymentsData, error: paymentsError } = await supabase
         .from('payments')
@@ -629,7 +684,7 @@ const Cashier = () => {
           payment_method,
           created_at,
           notes,
-          orders (
+          orders!inner (
             id,
             order_number,
             table_number,
@@ -642,9 +697,11 @@ const Cashier = () => {
               price,
               status,
               menu_items (name)
-            )
+            ),
+            table:tables!orders_table_id_fkey!inner (zone_id)
           )
         `)
+        .in('orders.table.zone_id', zones)
         .like('notes', '%[Consolidated%')
         .order('created_at', { ascending: false });
 
@@ -655,8 +712,6 @@ const Cashier = () => {
       
       (paymentsData || []).forEach((payment: any) => {
         if (!payment.orders) return;
-        // Filter to only orders from tables in the cashier's zones
-        if (!tablesInZones.has(payment.orders.table_number)) return;
         
         const paidAt = payment.orders.paid_at || payment.created_at;
         const tableNumber = payment.orders.table_number || 'N/A';
@@ -711,12 +766,22 @@ const Cashier = () => {
   };
 
   const handleOpenPayment = (order: Order) => {
+    if (!requireOpenShift()) return;
     setSelectedOrder(order);
     setPaymentMethod("cash");
     setSplitAmounts({ cash: "", pos: "", transfer: "" });
     setPaymentNotes("");
+    setTipAmount("");
   };
 
+  const handleDiscountApplied = (newTotal: number) => {
+    setSelectedOrder(prev => prev ? { ...prev, total_amount: newTotal } : prev);
+    fetchOrders();
+  };
+
+  const getDiscountItemName = (order: Order, discount: OrderDiscount) =>
+    order.order_items?.find(item => item.id === discount.order_item_id)?.menu_item?.name;
+
   const handleConfirmPayment = async () => {
     if (!selectedOrder) return;
 
@@ -725,6 +790,7 @@ const Cashier = () => {
       if (!user || !tenantId) throw new Error("Not authenticated");
 
       let paymentAmount = selectedOrder.total_amount;
+      const tip = Math.max(parseFloat(tipAmount) || 0, 0);
       
       // Handle split payment
       if (paymentMethod === "split") {
@@ -749,12 +815,14 @@ const Cashier = () => {
         if (pos > 0) payments.push({ method: 'pos', amount: pos });
         if (transfer > 0) payments.push({ method: 'transfer', amount: transfer });
 
-        for (const payment of payments) {
+        // The tip is recorded once, on the first payment of the split
+        for (const [index, payment] of payments.entries()) {
           const { error: paymentError } = await supabase
             .from('payments')
             .insert({
               order_id: selectedOrder.id,
               amount: payment.amount,
+              tip_amount: index === 0 ? tip : 0,
               payment_method: payment.method as "cash" | "pos" | "transfer",
               tenant_id: tenantId,
               confirmed_by: user.id,
@@ -770,6 +838,7 @@ const Cashier = () => {
           .insert({
             order_id: selectedOrder.id,
             amount: paymentAmount,
+            tip_amount: tip,
             payment_method: paymentMethod,
             tenant_id: tenantId,
             confirmed_by: user.id,
@@ -792,7 +861,9 @@ const Cashier = () => {
 
       toast({
         title: "Payment confirmed",
-        description: `Order ${selectedOrder.order_number} marked as paid`,
+        description: tip > 0
+          ? `Order ${selectedOrder.order_number} marked as paid with ${formatPrice(tip)} tip`
+          : `Order ${selectedOrder.order_number} marked as paid`,
       });
 
       setSelectedOrder(null);
@@ -835,6 +906,20 @@ const Cashier = () => {
     }
   };
 
+  const handleOpenReturnRefund = (returnItem: OrderReturn) => {
+    if (!requireOpenShift()) return;
+    setRefundReturn(returnItem);
+    setRefundOrder({
+      id: returnItem.order_items.orders.id,
+      order_number: returnItem.order_items.orders.order_number,
+    });
+  };
+
+  const handleRefunded = () => {
+    fetchOrders();
+    fetchReturns();
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut({ scope: 'local' });
     navigate('/auth');
@@ -910,6 +995,22 @@ const Cashier = () => {
               width: 50px;
               text-align: right;
             }
+            .item-modifier {
+              font-size: 10px;
+              padding-left: 8px;
+              margin-top: -2px;
+              margin-bottom: 4px;
+            }
+            .charges {
+              margin-bottom: 8px;
+              padding-bottom: 8px;
+              border-bottom: 1px dashed #000;
+            }
+            .charge-row {
+              display: flex;
+              justify-content: space-between;
+              font-size: 11px;
+            }
             .total {
               display: flex;
               justify-content: space-between;
@@ -976,9 +1077,35 @@ const Cashier = () => {
                 <span class="item-qty">${item.quantity}</span>
                 <span class="item-price">${formatPrice(item.price * item.quantity)}</span>
               </div>
+              ${item.order_item_modifiers?.map(modifier => `
+              <div class="item-modifier">
+                + ${modifier.option_name}${modifier.price_delta ? ` (${formatPrice(modifier.price_delta)})` : ''}
+              </div>
+              `).join('') || ''}
             `).join('') || ''}
           </div>
           
+          ${order.order_charges?.length || order.order_discounts?.length ? `
+          <div class="charges">
+            <div class="charge-row">
+              <span>Subtotal</span>
+              <span>${formatPrice(order.order_items?.reduce((sum, item) => sum + item.price * item.quantity, 0) || 0)}</span>
+            </div>
+            ${(order.order_discounts || []).map(discount => `
+            <div class="charge-row">
+              <span>${formatDiscountLabel(discount, getDiscountItemName(order, discount))}</span>
+              <span>-${formatPrice(Number(discount.amount))}</span>
+            </div>
+            `).join('')}
+            ${(order.order_charges || []).map(charge => `
+            <div class="charge-row">
+              <span>${formatChargeLabel(charge)}</span>
+              <span>${formatPrice(Number(charge.amount))}</span>
+            </div>
+            `).join('')}
+          </div>
+          ` : ''}
+          
           <div class="total">
             <span>TOTAL</span>
             <span>${formatPrice(order.total_amount)}</span>
@@ -1008,6 +1135,8 @@ const Cashier = () => {
     switch (status) {
       case 'ready':
         return 'bg-success text-success-foreground';
+      case 'bumped':
+        return 'bg-primary text-primary-foreground';
       case 'served':
         return 'bg-accent text-accent-foreground';
       default:
@@ -1077,6 +1206,16 @@ const Cashier = () => {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant={currentShift ? "outline" : "default"}
+              size="sm"
+              onClick={() => setShiftDialogOpen(true)}
+              className="gap-2"
+            >
+              <Wallet className="h-4 w-4" />
+              {currentShift ? "Shift Open" : "Open Shift"}
+            </Button>
+            <TimeClockButton userId={user?.id} role="cashier" />
             <NotificationBell />
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
@@ -1120,7 +1259,7 @@ const Cashier = () => {
                     {canConsolidate && (
                       <Button
                         size="sm"
-                        onClick={() => setShowConsolidatedDialog(true)}
+                        onClick={() => requireOpenShift() && setShowConsolidatedDialog(true)}
                         className="gap-2"
                       >
                         <Layers className="h-4 w-4" />
@@ -1178,6 +1317,8 @@ const Cashier = () => {
                 const unpaidOrders = tableOrders.filter(o => o.status !== 'paid');
                 const allTableSelected = unpaidOrders.length > 0 && unpaidOrders.every(o => selectedOrderIds.has(o.id));
                 const someTableSelected = unpaidOrders.some(o => selectedOrderIds.has(o.id));
+                const tab = openTabs.find(t => unpaidOrders.some(o => o.tab_id === t.id));
+                const tabInProgress = tab ? getInProgressTabOrders(tab).length : 0;
                 
                 return (
                   <Collapsible
@@ -1221,9 +1362,25 @@ const Cashier = () => {
                               </p>
                             </div>
                           </div>
-                          <Badge variant="secondary">
-                            {tableOrders.length}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            {tab && !selectionMode && (
+                              <Button
+                                size="sm"
+                                className="gap-2"
+                                disabled={tabInProgress > 0}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (requireOpenShift()) setSettlingTabId(tab.id);
+                                }}
+                              >
+                                <Receipt className="h-4 w-4" />
+                                {tabInProgress > 0 ? `${tabInProgress} still in progress` : 'Settle Tab'}
+                              </Button>
+                            )}
+                            <Badge variant="secondary">
+                              {tableOrders.length}
+                            </Badge>
+                          </div>
                         </div>
                       </CollapsibleTrigger>
                       <CollapsibleContent>
@@ -1285,13 +1442,27 @@ const Cashier = () => {
                                         }
                                       </div>
                                     </div>
+                                    {!selectionMode && isPaid && (
+                                      <Button
+                                        variant="outline"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          if (!requireOpenShift()) return;
+                                          setRefundReturn(null);
+                                          setRefundOrder(order);
+                                        }}
+                                      >
+                                        <RotateCcw className="mr-2 h-4 w-4" />
+                                        Refund
+                                      </Button>
+                                    )}
                                     {!selectionMode && !isPaid && (
                                       <div className="flex gap-2">
                                         <Button
                                           variant="outline"
                                           onClick={(e) => {
                                             e.stopPropagation();
-                                            setSplitPaymentOrder(order);
+                                            if (requireOpenShift()) setSplitPaymentOrder(order);
                                           }}
                                         >
                                           <Split className="mr-2 h-4 w-4" />
@@ -1520,18 +1691,31 @@ const Cashier = () => {
 
                                   <div className="flex items-center justify-between border-t border-border pt-3">
                                     <div className="text-lg font-bold">
-                                      Loss: {formatPrice(returnItem.refund_amount || 
+                                      {returnItem.order_items.orders.status === 'paid' ? 'Refund' : 'Loss'}: {formatPrice(returnItem.refund_amount || 
                                         returnItem.order_items.price * returnItem.order_items.quantity
                                       )}
                                     </div>
-                                    <Button
-                                      variant="outline"
-                                      onClick={() => !returnItem.refund_amount && handleConfirmRevenueLoss(returnItem)}
-                                      disabled={!!returnItem.refund_amount}
-                                      className={returnItem.refund_amount ? "opacity-50 cursor-not-allowed" : ""}
-                                    >
-                                      {returnItem.refund_amount ? "Loss Confirmed" : "Confirm Revenue Loss"}
-                                    </Button>
+                                    {returnItem.order_items.orders.status === 'paid' ? (
+                                      // The guest already paid for the item, so money goes back to them
+                                      <Button
+                                        variant="outline"
+                                        onClick={() => !returnItem.refund_amount && handleOpenReturnRefund(returnItem)}
+                                        disabled={!!returnItem.refund_amount}
+                                        className={returnItem.refund_amount ? "opacity-50 cursor-not-allowed" : ""}
+                                      >
+                                        <RotateCcw className="mr-2 h-4 w-4" />
+                                        {returnItem.refund_amount ? "Refunded" : "Issue Refund"}
+                                      </Button>
+                                    ) : (
+                                      <Button
+                                        variant="outline"
+                                        onClick={() => !returnItem.refund_amount && handleConfirmRevenueLoss(returnItem)}
+                                        disabled={!!returnItem.refund_amount}
+                                        className={returnItem.refund_amount ? "opacity-50 cursor-not-allowed" : ""}
+                                      >
+                                        {returnItem.refund_amount ? "Loss Confirmed" : "Confirm Revenue Loss"}
+                                      </Button>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -1564,6 +1748,16 @@ const Cashier = () => {
                 {selectedOrder ? formatPrice(selectedOrder.total_amount) : ''}
               </div>
               <div className="text-sm text-muted-foreground">Total Amount</div>
+              <Button
+                variant="link"
+                size="sm"
+                className="mt-1"
+                onClick={() => setDiscountOrder(selectedOrder)}
+                disabled={processing}
+              >
+                <Percent className="mr-1 h-3 w-3" />
+                Discount / Comp
+              </Button>
             </div>
 
             <div className="space-y-2">
@@ -1632,6 +1826,13 @@ const Cashier = () => {
               </div>
             )}
 
+            <TipInput
+              baseAmount={selectedOrder?.total_amount || 0}
+              value={tipAmount}
+              onChange={setTipAmount}
+              disabled={processing}
+            />
+
             <div className="space-y-2">
               <Label>Notes (Optional)</Label>
               <Input
@@ -1675,6 +1876,53 @@ const Cashier = () => {
         }}
       />
 
+      {/* Discounts & Comps */}
+      <DiscountDialog
+        open={!!discountOrder}
+        onOpenChange={(open) => !open && setDiscountOrder(null)}
+        order={discountOrder ? {
+          id: discountOrder.id,
+          order_number: discountOrder.order_number,
+          total_amount: discountOrder.total_amount,
+          items: (discountOrder.order_items || []).map(item => ({
+            id: item.id,
+            name: item.menu_item?.name || 'Item',
+            quantity: item.quantity,
+            price: item.price,
+          })),
+        } : null}
+        onApplied={handleDiscountApplied}
+      />
+
+      {user && tenantId && (
+        <CashierShiftDialog
+          open={shiftDialogOpen}
+          onOpenChange={setShiftDialogOpen}
+          shift={currentShift}
+          cashierId={user.id}
+          cashierName={userName}
+          tenantId={tenantId}
+          onShiftChange={fetchCurrentShift}
+        />
+      )}
+
+      <RefundDialog
+        open={!!refundOrder}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRefundOrder(null);
+            setRefundReturn(null);
+          }
+        }}
+        order={refundOrder}
+        orderReturn={refundReturn ? {
+          id: refundReturn.id,
+          item_name: refundReturn.order_items.menu_items.name,
+          amount: refundReturn.order_items.price * refundReturn.order_items.quantity,
+        } : null}
+        onRefunded={handleRefunded}
+      />
+
       {/* Order Details Dialog */}
       <Dialog open={!!viewingOrder} onOpenChange={(open) => !open && setViewingOrder(null)}>
         <DialogContent className="max-w-md">
@@ -1697,7 +1945,14 @@ const Cashier = () => {
                     <span className="text-sm font-medium bg-muted px-2 py-1 rounded">
                       {item.quantity}x
                     </span>
-                    <span>{item.menu_item?.name}</span>
+                    <div>
+                      <span>{item.menu_item?.name}</span>
+                      {item.order_item_modifiers && item.order_item_modifiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatModifiers(item.order_item_modifiers)}
+                        </p>
+                      )}
+                    </div>
                   </div>
                   <span className="font-medium">
                     {formatPrice(item.price * item.quantity)}
@@ -1706,6 +1961,31 @@ const Cashier = () => {
               ))}
             </div>
 
+            {viewingOrder?.order_discounts && viewingOrder.order_discounts.length > 0 && (
+              <div className="space-y-1 text-sm text-success">
+                {viewingOrder.order_discounts.map((discount) => (
+                  <div key={discount.id} className="flex items-center justify-between">
+                    <span>
+                      {formatDiscountLabel(discount, getDiscountItemName(viewingOrder, discount))}
+                      <span className="text-muted-foreground"> • {discount.reason}</span>
+                    </span>
+                    <span>-{formatPrice(Number(discount.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {viewingOrder?.order_charges && viewingOrder.order_charges.length > 0 && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                {viewingOrder.order_charges.map((charge) => (
+                  <div key={`${charge.charge_type}-${charge.name}-${charge.rate}`} className="flex items-center justify-between">
+                    <span>{formatChargeLabel(charge)}</span>
+                    <span>{formatPrice(Number(charge.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center justify-between pt-3 border-t border-border">
               <span className="text-lg font-semibold">Total</span>
               <span className="text-xl font-bold">
@@ -1765,6 +2045,22 @@ const Cashier = () => {
           tenantId={tenantId}
         />
       )}
+
+      {/* Settle Tab Dialog */}
+      {user && tenantId && (
+        <ConsolidatedOrderDialog
+          orders={settlingTabOrders}
+          open={!!settlingTabId}
+          onClose={() => setSettlingTabId(null)}
+          onPaymentComplete={() => {
+            fetchOrders();
+            fetchOpenTabs();
+            fetchConsolidatedPayments();
+          }}
+          userId={user.id}
+          tenantId={tenantId}
+        />
+      )}
     </div>
   );
 };
@@ -43,6 +43,9 @@ const Dashboard = () => {
             case 'bar_staff':
               navigate('/bar');
               break;
+            case 'expo':
+              navigate('/expo');
+              break;
             case 'event_manager':
               navigate('/manager');
               break;
@@ -184,19 +184,21 @@ const Documentation = () => {
     Note over Station: Real-time subscription active
     Note over Station: Orders filtered by assigned zones
     
+    DB->>DB: Assign round-robin to clocked-in station staff
     DB->>Station: New order_item (zone-filtered)
-    Station-->>StationStaff: Display new order
+    Station-->>StationStaff: Display new order and assignee
     
     alt Item Available
+        StationStaff->>Station: Accept
+        Station->>DB: claim_order_item (status=dispatched, assigned_to=current_user_id)
         StationStaff->>Station: Mark Ready
         Station->>DB: Update status=ready
-        Station->>DB: Set assigned_to=current_user_id
         Station->>DB: Set ready_at=now()
         DB-->>Waiter: Real-time: item ready
     else Item Out of Stock
         StationStaff->>Station: Mark Out of Stock
-        Station->>DB: Update menu_item.is_available=false
-        Station->>DB: Reject pending orders for item
+        Station->>DB: Set zone allocation is_available=false
+        Station->>DB: Reject pending orders for item in zone
         DB-->>Waiter: Real-time: item rejected
     end
     
@@ -0,0 +1,334 @@
+import { useEffect, useState, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, CheckCircle, Circle, BellRing } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
+import { fetchCurrentRosterShift } from "@/lib/roster";
+import { useAuthGuard } from "@/hooks/useAuthGuard";
+import { formatCourse } from "@/lib/courses";
+import {
+  EXPO_ORDER_STATUSES,
+  ExpoOrder,
+  getHeldItemCount,
+  getStationProgress,
+  isReadyToBump,
+} from "@/lib/expo";
+
+const Expo = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, tenantId, loading: authLoading } = useAuthGuard();
+  const [loading, setLoading] = useState(true);
+  const [orders, setOrders] = useState<ExpoOrder[]>([]);
+  const [userName, setUserName] = useState<string | null>(null);
+  const [userZoneIds, setUserZoneIds] = useState<string[]>([]);
+  const [userZoneNames, setUserZoneNames] = useState<string[]>([]);
+  const [bumpingOrderId, setBumpingOrderId] = useState<string | null>(null);
+
+  // Fetch user profile name
+  useEffect(() => {
+    const fetchUserName = async () => {
+      if (!user) return;
+      const { data } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', user.id)
+        .single();
+      if (data?.full_name) setUserName(data.full_name);
+    };
+    fetchUserName();
+  }, [user]);
+
+  // Complete orders first so they leave the pass quickly, then oldest first
+  const sortedOrders = useMemo(() => {
+    return [...orders].sort((a, b) => {
+      const readyA = isReadyToBump(a) ? 0 : 1;
+      const readyB = isReadyToBump(b) ? 0 : 1;
+      if (readyA !== readyB) {
+        return readyA - readyB;
+      }
+      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    });
+  }, [orders]);
+
+  useEffect(() => {
+    if (!authLoading && user && tenantId) {
+      fetchExpoData();
+    }
+  }, [authLoading, user, tenantId]);
+
+  // Set up real-time subscriptions only after we have zone info
+  useEffect(() => {
+    if (userZoneIds.length === 0) return;
+
+    const channel = supabase
+      .channel('expo-updates')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'orders'
+        },
+        () => {
+          fetchOrders();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_items'
+        },
+        () => {
+          fetchOrders();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userZoneIds]);
+
+  const fetchExpoData = async () => {
+    if (!user || !tenantId) return;
+
+    try {
+      // Fetch user's assigned zones from zone_role_assignments with zone names
+      const { data: zoneAssignments } = await supabase
+        .from('zone_role_assignments')
+        .select('zone_id, zones(name)')
+        .eq('user_id', user.id)
+        .eq('tenant_id', tenantId);
+
+      // While rostered on an expo shift, only that shift's pass is shown
+      const rosterShift = await fetchCurrentRosterShift(user.id, 'expo');
+      const zoneIds = rosterShift?.zone_id
+        ? [rosterShift.zone_id]
+        : zoneAssignments?.map(z => z.zone_id) || [];
+      const zoneNames = rosterShift?.zone_id
+        ? [rosterShift.zones?.name].filter(Boolean)
+        : zoneAssignments?.map(z => (z.zones as { name: string } | null)?.name).filter(Boolean) || [];
+      setUserZoneIds(zoneIds);
+      setUserZoneNames(zoneNames as string[]);
+
+      await fetchOrders(zoneIds);
+    } catch (error) {
+      toast({
+        title: "Error loading expo",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOrders = async (zoneIds?: string[]) => {
+    const zones = zoneIds || userZoneIds;
+
+    try {
+      // If user has no zone assignments, show no orders
+      if (zones.length === 0) {
+        setOrders([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          id,
+          order_number,
+          table_number,
+          status,
+          created_at,
+          waiter:profiles!orders_waiter_id_fkey (full_name),
+          table:tables!orders_table_id_fkey!inner (zone_id),
+          order_items (
+            id,
+            quantity,
+            status,
+            station_type,
+            course_number,
+            is_held,
+            menu_items (name)
+          )
+        `)
+        .in('status', [...EXPO_ORDER_STATUSES])
+        .in('table.zone_id', zones)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Bar-served and fully cancelled orders have nothing to bring together
+      setOrders(((data || []) as unknown as ExpoOrder[]).filter(order => getStationProgress(order).length > 0));
+    } catch (error) {
+      toast({
+        title: "Error loading orders",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBump = async (order: ExpoOrder) => {
+    setBumpingOrderId(order.id);
+    try {
+      const { error } = await supabase.rpc('bump_order', { _order_id: order.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Order bumped",
+        description: `${order.waiter?.full_name || 'The waiter'} has been told ${order.order_number} is at the pass`,
+      });
+
+      fetchOrders();
+    } catch (error) {
+      toast({
+        title: "Error bumping order",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setBumpingOrderId(null);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut({ scope: 'local' });
+    navigate('/auth');
+  };
+
+  const getMinutesWaiting = (createdAt: string) => {
+    return Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-background" style={{ minHeight: '-webkit-fill-available' }}>
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-card border-b border-border shadow-sm">
+        <div className="flex items-center justify-between p-4">
+          <div>
+            <h1 className="text-xl font-bold">Expo</h1>
+            <p className="text-sm text-muted-foreground">
+              {userName ? `${userName} • ` : ''}{userZoneNames.length > 0 ? `${userZoneNames.join(', ')} • ` : ''}{orders.length} orders at the pass
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <TimeClockButton userId={user?.id} role="expo" />
+            <NotificationBell />
+            <Button variant="ghost" size="icon" onClick={handleSignOut}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-4 space-y-4">
+        {orders.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">No orders at the pass</p>
+          </Card>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+            {sortedOrders.map((order) => {
+              const stations = getStationProgress(order);
+              const readyToBump = isReadyToBump(order);
+              const heldCount = getHeldItemCount(order);
+
+              return (
+                <Card key={order.id} className={`p-4 ${readyToBump ? 'border-success' : ''}`}>
+                  <div className="space-y-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="font-semibold text-lg">{order.order_number}</div>
+                        <div className="text-sm text-muted-foreground">
+                          Table {order.table_number || 'N/A'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Waiter: {order.waiter?.full_name || 'Unknown'}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant={readyToBump ? "default" : "secondary"}>
+                          {readyToBump ? 'Complete' : 'In progress'}
+                        </Badge>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {getMinutesWaiting(order.created_at)} min
+                        </div>
+                      </div>
+                    </div>
+
+                    {stations.map((station) => (
+                      <div key={station.station_type} className="border-t border-border pt-2">
+                        <div className="flex items-center justify-between text-sm font-medium">
+                          <span>{station.label}</span>
+                          <span className="text-muted-foreground">
+                            {station.ready}/{station.total} ready
+                          </span>
+                        </div>
+                        <ul className="mt-1 space-y-0.5">
+                          {station.items.map((item) => (
+                            <li key={item.id} className="flex items-center gap-2 text-sm">
+                              {item.status === 'ready' ? (
+                                <CheckCircle className="h-4 w-4 text-success" />
+                              ) : (
+                                <Circle className="h-4 w-4 text-muted-foreground" />
+                              )}
+                              <span>{item.quantity}x {item.menu_items?.name || 'Unknown'}</span>
+                              {item.course_number > 1 && (
+                                <Badge variant="outline" className="text-xs">{formatCourse(item.course_number)}</Badge>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+
+                    {heldCount > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {heldCount} held for a later course
+                      </div>
+                    )}
+
+                    <Button
+                      className="w-full"
+                      disabled={!readyToBump || bumpingOrderId === order.id}
+                      onClick={() => handleBump(order)}
+                    >
+                      {bumpingOrderId === order.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <BellRing className="mr-2 h-4 w-4" />
+                      )}
+                      Bump to Waiter
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Expo;
@@ -0,0 +1,213 @@
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Loader2, MonitorSmartphone, Unlink } from "lucide-react";
+import { KdsTicketView } from "@/components/kds/KdsTicketView";
+import { KdsSummaryView } from "@/components/kds/KdsSummaryView";
+import {
+  KDS_DEVICE_TOKEN_KEY,
+  KDS_SCREEN_POLL_SECONDS,
+  KdsScreenData,
+  buildKdsSummary,
+  buildKdsTickets,
+  countHeldKdsItems,
+} from "@/lib/kds";
+
+// A kitchen screen paired by code from its pairing link. It has no staff
+// login: the device token from pairing is all it uses to read and update its
+// tickets.
+export default function KdsScreen() {
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const screenId = searchParams.get("screen");
+  const [deviceToken, setDeviceToken] = useState<string | null>(() => localStorage.getItem(KDS_DEVICE_TOKEN_KEY));
+  const [screen, setScreen] = useState<KdsScreenData | null>(null);
+  const [pairingCode, setPairingCode] = useState("");
+  const [pairing, setPairing] = useState(false);
+
+  useEffect(() => {
+    if (!deviceToken) return;
+
+    fetchScreen();
+    const interval = setInterval(fetchScreen, KDS_SCREEN_POLL_SECONDS * 1000);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [deviceToken]);
+
+  const fetchScreen = async () => {
+    if (!deviceToken) return;
+
+    const { data, error } = await supabase.rpc("get_kds_screen", { _device_token: deviceToken });
+
+    if (error) {
+      // Unpaired from admin: go back to the pairing form
+      if (error.message.includes("not paired")) {
+        localStorage.removeItem(KDS_DEVICE_TOKEN_KEY);
+        setDeviceToken(null);
+        setScreen(null);
+      }
+      return;
+    }
+
+    setScreen(data as unknown as KdsScreenData);
+  };
+
+  const handlePair = async () => {
+    if (!screenId || !pairingCode.trim()) return;
+
+    setPairing(true);
+    try {
+      const { data, error } = await supabase.rpc("pair_kds_screen", {
+        _screen_id: screenId,
+        _pairing_code: pairingCode,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error("Invalid or expired pairing code");
+
+      localStorage.setItem(KDS_DEVICE_TOKEN_KEY, data);
+      setDeviceToken(data);
+      setPairingCode("");
+    } catch (error) {
+      toast({
+        title: "Pairing failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  const handleUnpair = () => {
+    localStorage.removeItem(KDS_DEVICE_TOKEN_KEY);
+    setDeviceToken(null);
+    setScreen(null);
+  };
+
+  const handleUpdateStatus = async (itemId: string, status: "dispatched" | "ready") => {
+    if (!deviceToken) return;
+
+    const { error } = await supabase.rpc("set_kds_item_status", {
+      _device_token: deviceToken,
+      _order_item_id: itemId,
+      _status: status,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchScreen();
+  };
+
+  const items = useMemo(() => (screen?.items || []).filter((item) => !item.is_held), [screen]);
+  const heldTables = useMemo(() => countHeldKdsItems(screen?.items || []), [screen]);
+  const tickets = useMemo(() => buildKdsTickets(items), [items]);
+  const summaryLines = useMemo(() => buildKdsSummary(items), [items]);
+
+  if (!deviceToken) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-sm p-6 space-y-4">
+          <div className="text-center space-y-2">
+            <MonitorSmartphone className="w-12 h-12 mx-auto text-primary" />
+            <h1 className="text-2xl font-bold">Pair Kitchen Screen</h1>
+            <p className="text-sm text-muted-foreground">
+              {screenId
+                ? "Enter the code shown for this screen under Kitchen Displays in admin"
+                : "Open the pairing link shown for this screen under Kitchen Displays in admin"}
+            </p>
+          </div>
+          {screenId && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="pairing-code">Pairing code</Label>
+                <Input
+                  id="pairing-code"
+                  value={pairingCode}
+                  onChange={(e) => setPairingCode(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => e.key === "Enter" && handlePair()}
+                  className="text-center text-2xl font-mono tracking-widest"
+                  maxLength={10}
+                  autoFocus
+                />
+              </div>
+              <Button className="w-full" onClick={handlePair} disabled={pairing || !pairingCode.trim()}>
+                {pairing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pair Screen
+              </Button>
+            </>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  if (!screen) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-16 h-16 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-4xl font-bold">{screen.profile.name}</h1>
+            <p className="text-muted-foreground">
+              {screen.screen_name}
+              {screen.screen_count > 1 && ` • Screen ${screen.screen_number} of ${screen.screen_count}`}
+              {` • ${items.length} items`}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleUnpair}>
+            <Unlink className="w-4 h-4 mr-2" />
+            Unpair
+          </Button>
+        </div>
+
+        {heldTables.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="text-sm font-medium text-muted-foreground">Held courses:</span>
+            {heldTables.map((held) => (
+              <Badge key={held.table_number} variant="outline" className="text-sm">
+                Table {held.table_number} • {held.quantity} held
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <CheckCircle className="w-16 h-16 mx-auto mb-4 text-green-500" />
+              <h2 className="text-2xl font-bold mb-2">All Caught Up!</h2>
+              <p className="text-muted-foreground">No pending orders at the moment.</p>
+            </div>
+          </Card>
+        ) : screen.profile.view_mode === "summary" ? (
+          <KdsSummaryView lines={summaryLines} thresholds={screen.profile} />
+        ) : (
+          <KdsTicketView tickets={tickets} thresholds={screen.profile} onUpdateStatus={handleUpdateStatus} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,20 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Clock, ChefHat, CheckCircle, AlertCircle, ArrowUp, Loader2 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { Clock, ChefHat, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
+import { HeldTableCount, countHeldByTable } from "@/lib/courses";
+import { KdsTicketView } from "@/components/kds/KdsTicketView";
+import { KdsSummaryView } from "@/components/kds/KdsSummaryView";
+import {
+  DEFAULT_TIMER_THRESHOLDS,
+  KdsItem,
+  KdsProfile,
+  StationType,
+  buildKdsSummary,
+  buildKdsTickets,
+  countHeldKdsItems,
+} from "@/lib/kds";
 import {
   Select,
   SelectContent,
@@ -15,28 +26,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface OrderItem {
-  id: string;
-  quantity: number;
-  notes: string | null;
-  status: "pending" | "dispatched" | "ready" | "served";
-  created_at: string;
-  dispatched_at: string | null;
-  ready_at: string | null;
-  station_type: "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar";
-  menu_item: {
-    name: string;
-    category: string;
-  };
-  order: {
-    order_number: string;
-    table_number: string | null;
-    guest_name: string | null;
-    waiter: {
-      full_name: string | null;
-    };
+// Without a profile the display follows the signed-in user's own station
+const MY_STATION = "station";
+
+const roleToStation = (role?: string) => {
+  const roleToStationType: Record<string, string> = {
+    drink_dispenser: "drink_dispenser",
+    meal_dispenser: "meal_dispenser",
+    mixologist: "mixologist",
+    bar_staff: "bar",
   };
-}
+  return (role && roleToStationType[role]) || "";
+};
 
 interface Event {
   id: string;
@@ -45,9 +46,12 @@ interface Event {
 
 export default function KitchenDisplay() {
   const { user, tenantId, loading: authLoading } = useAuthGuard();
-  const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [orderItems, setOrderItems] = useState<KdsItem[]>([]);
+  const [heldTables, setHeldTables] = useState<HeldTableCount[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [selectedEvent, setSelectedEvent] = useState<string>("");
+  const [profiles, setProfiles] = useState<KdsProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(MY_STATION);
   const [stationType, setStationType] = useState<string>("");
   const [userZoneIds, setUserZoneIds] = useState<string[]>([]);
   const [userZoneNames, setUserZoneNames] = useState<string[]>([]);
@@ -62,15 +66,25 @@ export default function KitchenDisplay() {
   }, [authLoading, user, tenantId]);
 
   useEffect(() => {
-    if (selectedEvent && stationType && userZoneIds.length > 0) {
+    if (selectedEvent) {
+      fetchProfiles();
+    }
+  }, [selectedEvent]);
+
+  const selectedProfile = profiles.find((p) => p.id === selectedProfileId) || null;
+  const thresholds = selectedProfile || DEFAULT_TIMER_THRESHOLDS;
+
+  useEffect(() => {
+    if (selectedProfile || (selectedEvent && stationType && userZoneIds.length > 0)) {
       fetchOrderItems();
     }
-  }, [selectedEvent, stationType, userZoneIds]);
+  }, [selectedEvent, stationType, userZoneIds, selectedProfile]);
 
-  // Set up real-time subscription only after we have zone info
+  // Set up real-time subscription only after we have zone info or a profile
   useEffect(() => {
-    if (!stationType || userZoneIds.length === 0) return;
-    
+    if (!selectedProfile && (!stationType || userZoneIds.length === 0)) return;
+
+    // Profiles can route by category or item, so they listen to every station
     const channel = supabase
       .channel("order-items-kds")
       .on(
@@ -79,7 +93,7 @@ export default function KitchenDisplay() {
           event: "*",
           schema: "public",
           table: "order_items",
-          filter: `station_type=eq.${stationType}`,
+          ...(selectedProfile ? {} : { filter: `station_type=eq.${stationType}` }),
         },
         () => {
           fetchOrderItems();
@@ -90,7 +104,7 @@ export default function KitchenDisplay() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [stationType, userZoneIds, selectedEvent]);
+  }, [stationType, userZoneIds, selectedEvent, selectedProfile]);
 
   const fetchUserStationType = async () => {
     if (!user || !tenantId) return;
@@ -102,15 +116,7 @@ export default function KitchenDisplay() {
       .eq("tenant_id", tenantId)
       .single();
 
-    if (userRole) {
-      const roleToStationType: Record<string, string> = {
-        drink_dispenser: "drink_dispenser",
-        meal_dispenser: "meal_dispenser",
-        mixologist: "mixologist",
-        bar_staff: "bar",
-      };
-      setStationType(roleToStationType[userRole.role] || "");
-    }
+    setStationType(roleToStation(userRole?.role));
 
     // Fetch user's assigned zones from zone_role_assignments with zone names
     const { data: zoneAssignments } = await supabase
@@ -123,6 +129,11 @@ export default function KitchenDisplay() {
     const zoneNames = zoneAssignments?.map(z => (z.zones as any)?.name).filter(Boolean) || [];
     setUserZoneIds(zoneIds);
     setUserZoneNames(zoneNames);
+
+    // Managers and other roles without a station can still open a profile
+    if (!roleToStation(userRole?.role) || zoneIds.length === 0) {
+      setLoading(false);
+    }
   };
 
   const fetchEvents = async () => {
@@ -147,42 +158,84 @@ export default function KitchenDisplay() {
     }
   };
 
+  const fetchProfiles = async () => {
+    const { data, error } = await supabase
+      .from("kds_profiles")
+      .select("id, event_id, name, station_type, categories, menu_item_ids, zone_ids, view_mode, warning_percent, critical_percent, is_active")
+      .eq("event_id", selectedEvent)
+      .eq("is_active", true)
+      .order("name");
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch display profiles",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProfiles(data || []);
+    if (!data?.some((p) => p.id === selectedProfileId)) {
+      setSelectedProfileId(MY_STATION);
+    }
+  };
+
+  const fetchProfileItems = async (profileId: string) => {
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc("get_kds_items", { _profile_id: profileId });
+
+      if (error) throw error;
+
+      const items = (data || []) as unknown as KdsItem[];
+      setOrderItems(items.filter((item) => !item.is_held));
+      setHeldTables(countHeldKdsItems(items));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const fetchOrderItems = async () => {
+    if (selectedProfile) {
+      await fetchProfileItems(selectedProfile.id);
+      return;
+    }
+
     if (!selectedEvent || !stationType || userZoneIds.length === 0) return;
 
     setLoading(true);
 
     try {
-      // First get table numbers in user's assigned zones for the selected event
-      const { data: tablesInZones } = await supabase
-        .from('tables')
-        .select('table_number, event_id')
-        .in('zone_id', userZoneIds)
-        .eq('event_id', selectedEvent);
-
-      if (!tablesInZones || tablesInZones.length === 0) {
-        setOrderItems([]);
-        setLoading(false);
-        return;
-      }
-
       const { data, error } = await supabase
         .from("order_items")
         .select(
           `
           *,
           menu_item:menu_items(name, category),
-          order:orders(
+          modifiers:order_item_modifiers(group_name, option_name),
+          order:orders!inner(
             order_number,
             table_number,
             guest_name,
             event_id,
-            waiter:profiles!waiter_id(full_name)
+            waiter:profiles!waiter_id(full_name),
+            table:tables!orders_table_id_fkey!inner(zone_id)
           )
         `
         )
-        .eq("station_type", stationType as any)
+        .eq("station_type", stationType as StationType)
         .in("status", ["pending", "dispatched"])
+        .eq("is_held", false)
+        .eq("order.event_id", selectedEvent)
+        .in("order.table.zone_id", userZoneIds)
         .order("created_at", { ascending: true });
 
       if (error) {
@@ -195,15 +248,19 @@ export default function KitchenDisplay() {
         return;
       }
 
-      // Filter order items to only those where order.table_number + event_id match tables in user's zones
-      const filteredItems = (data || []).filter(item => {
-        const order = item.order as any;
-        return tablesInZones.some(
-          t => t.table_number === order.table_number && t.event_id === order.event_id
-        );
-      });
+      setOrderItems((data || []) as KdsItem[]);
 
-      setOrderItems(filteredItems as OrderItem[]);
+      // Held courses are not shown until fired, only counted per table
+      const { data: heldData } = await supabase
+        .from("order_items")
+        .select("quantity, orders!inner(table_number, event_id, table:tables!orders_table_id_fkey!inner(zone_id))")
+        .eq("station_type", stationType as StationType)
+        .eq("status", "pending")
+        .eq("is_held", true)
+        .eq("orders.event_id", selectedEvent)
+        .in("orders.table.zone_id", userZoneIds);
+
+      setHeldTables(countHeldByTable(heldData || []));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -215,65 +272,19 @@ export default function KitchenDisplay() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending":
-        return "bg-red-500";
-      case "dispatched":
-        return "bg-yellow-500";
-      case "ready":
-        return "bg-green-500";
-      default:
-        return "bg-gray-500";
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "pending":
-        return <AlertCircle className="w-5 h-5" />;
-      case "dispatched":
-        return <ChefHat className="w-5 h-5" />;
-      case "ready":
-        return <CheckCircle className="w-5 h-5" />;
-      default:
-        return null;
-    }
-  };
-
-  const getElapsedTime = (createdAt: string) => {
-    const now = new Date();
-    const created = new Date(createdAt);
-    const diffMs = now.getTime() - created.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    return diffMins;
-  };
-
-  const getTimerColor = (minutes: number) => {
-    if (minutes < 5) return "text-green-500";
-    if (minutes < 10) return "text-yellow-500";
-    return "text-red-500 animate-pulse";
-  };
-
   const updateOrderItemStatus = async (itemId: string, newStatus: string) => {
-    const updates: any = { status: newStatus };
-
-    if (newStatus === "dispatched") {
-      updates.dispatched_at = new Date().toISOString();
-    } else if (newStatus === "ready") {
-      updates.ready_at = new Date().toISOString();
-      updates.assigned_to = user?.id;
-    }
-
-    const { error } = await supabase
-      .from("order_items")
-      .update(updates)
-      .eq("id", itemId);
+    // Starting prep claims the item, so two cooks never pick up the same one
+    const { error } = newStatus === "dispatched"
+      ? await supabase.rpc("claim_order_item", { _order_item_id: itemId })
+      : await supabase
+          .from("order_items")
+          .update({ status: "ready", ready_at: new Date().toISOString() })
+          .eq("id", itemId);
 
     if (error) {
       toast({
         title: "Error",
-        description: "Failed to update order status",
+        description: error.message,
         variant: "destructive",
       });
       return;
@@ -289,29 +300,9 @@ export default function KitchenDisplay() {
     });
   };
 
-  const bumpToReady = async (itemId: string) => {
-    await updateOrderItemStatus(itemId, "ready");
-  };
-
-  const startPreparation = async (itemId: string) => {
-    await updateOrderItemStatus(itemId, "dispatched");
-  };
-
-  // Sort orders by status priority (pending first) then by creation time (oldest first)
-  const sortedOrders = useMemo(() => {
-    const statusPriority: Record<string, number> = {
-      pending: 0,
-      dispatched: 1,
-      ready: 2,
-      served: 3,
-    };
-
-    return [...orderItems].sort((a, b) => {
-      const priorityDiff = statusPriority[a.status] - statusPriority[b.status];
-      if (priorityDiff !== 0) return priorityDiff;
-      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-    });
-  }, [orderItems]);
+  const tickets = useMemo(() => buildKdsTickets(orderItems), [orderItems]);
+  const summaryLines = useMemo(() => buildKdsSummary(orderItems), [orderItems]);
+  const viewMode = selectedProfile?.view_mode || "ticket";
 
   const pendingItems = orderItems.filter((item) => item.status === "pending");
   const preparingItems = orderItems.filter((item) => item.status === "dispatched");
@@ -334,21 +325,40 @@ export default function KitchenDisplay() {
           <div>
             <h1 className="text-4xl font-bold">Kitchen Display System</h1>
             <p className="text-muted-foreground capitalize">
-              {stationType?.replace("_", " ")} Station{userZoneNames.length > 0 ? ` • ${userZoneNames.join(', ')}` : ''}
+              {selectedProfile
+                ? selectedProfile.name
+                : `${stationType?.replace("_", " ")} Station${userZoneNames.length > 0 ? ` • ${userZoneNames.join(', ')}` : ''}`}
             </p>
           </div>
-          <Select value={selectedEvent} onValueChange={setSelectedEvent}>
-            <SelectTrigger className="w-64">
-              <SelectValue placeholder="Select Event" />
-            </SelectTrigger>
-            <SelectContent>
-              {events.map((event) => (
-                <SelectItem key={event.id} value={event.id}>
-                  {event.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex items-center gap-2">
+            {profiles.length > 0 && (
+              <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MY_STATION}>My station</SelectItem>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={selectedEvent} onValueChange={setSelectedEvent}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select Event" />
+              </SelectTrigger>
+              <SelectContent>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -383,6 +393,17 @@ export default function KitchenDisplay() {
           </Card>
         </div>
 
+        {heldTables.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="text-sm font-medium text-muted-foreground">Held courses:</span>
+            {heldTables.map((held) => (
+              <Badge key={held.table_number} variant="outline" className="text-sm">
+                Table {held.table_number} • {held.quantity} held
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {orderItems.length === 0 ? (
           <Card className="p-12">
             <div className="text-center">
@@ -391,99 +412,10 @@ export default function KitchenDisplay() {
               <p className="text-muted-foreground">No pending orders at the moment.</p>
             </div>
           </Card>
+        ) : viewMode === "summary" ? (
+          <KdsSummaryView lines={summaryLines} thresholds={thresholds} />
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {sortedOrders.map((item) => {
-              const elapsedMinutes = getElapsedTime(item.created_at);
-              const isPriority = elapsedMinutes > 8;
-
-              return (
-                <Card
-                  key={item.id}
-                  className={`relative border-2 ${
-                    isPriority ? "border-red-500 animate-pulse" : ""
-                  }`}
-                >
-                  {isPriority && (
-                    <div className="absolute -top-3 -right-3 bg-red-500 text-white rounded-full p-2">
-                      <ArrowUp className="w-5 h-5" />
-                    </div>
-                  )}
-                  
-                  <CardHeader className="pb-3">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-lg">
-                          {item.order.order_number}
-                        </CardTitle>
-                        <p className="text-sm text-muted-foreground">
-                          Table {item.order.table_number || "N/A"} • {item.order.guest_name}
-                        </p>
-                      </div>
-                      <Badge className={getStatusColor(item.status)}>
-                        {getStatusIcon(item.status)}
-                      </Badge>
-                    </div>
-                  </CardHeader>
-
-                  <CardContent className="space-y-4">
-                    <div>
-                      <h3 className="font-bold text-2xl mb-1">{item.menu_item.name}</h3>
-                      <div className="flex items-center justify-between">
-                        <Badge variant="outline">{item.menu_item.category}</Badge>
-                        <span className="text-2xl font-bold">×{item.quantity}</span>
-                      </div>
-                    </div>
-
-                    {item.notes && (
-                      <div className="bg-yellow-50 dark:bg-yellow-950 p-3 rounded border-l-4 border-yellow-500">
-                        <p className="text-sm font-medium">Note: {item.notes}</p>
-                      </div>
-                    )}
-
-                    <div
-                      className={`flex items-center gap-2 text-lg font-bold ${getTimerColor(
-                        elapsedMinutes
-                      )}`}
-                    >
-                      <Clock className="w-5 h-5" />
-                      <span>{elapsedMinutes} min</span>
-                      <span className="text-xs text-muted-foreground ml-auto">
-                        {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
-                      </span>
-                    </div>
-
-                    <div className="text-xs text-muted-foreground">
-                      Waiter: {item.order.waiter.full_name}
-                    </div>
-
-                    <div className="flex gap-2 pt-2">
-                      {item.status === "pending" && (
-                        <Button
-                          onClick={() => startPreparation(item.id)}
-                          className="flex-1"
-                          size="lg"
-                        >
-                          <ChefHat className="w-4 h-4 mr-2" />
-                          Start Prep
-                        </Button>
-                      )}
-                      {item.status === "dispatched" && (
-                        <Button
-                          onClick={() => bumpToReady(item.id)}
-                          className="flex-1 bg-green-600 hover:bg-green-700"
-                          size="lg"
-                        >
-                          <CheckCircle className="w-4 h-4 mr-2" />
-                          Mark Ready
-                        </Button>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
+          <KdsTicketView tickets={tickets} thresholds={thresholds} onUpdateStatus={updateOrderItemStatus} />
         )}
       </div>
     </div>
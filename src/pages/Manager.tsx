@@ -7,11 +7,16 @@ import { Loader2, LogOut, TrendingUp, AlertTriangle, Clock, DollarSign, Activity
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
+import { fetchCurrentRosterShift } from "@/lib/roster";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FloorMap } from "@/components/FloorMap";
 import { CriticalAlerts } from "@/components/CriticalAlerts";
+import { StockOutForecast } from "@/components/StockOutForecast";
 import { LiveOrderTracking } from "@/components/LiveOrderTracking";
+import { RestockQueue } from "@/components/inventory/RestockQueue";
+import { StationQueues } from "@/components/StationQueues";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
 
@@ -47,6 +52,8 @@ interface OutOfStockItem {
   name: string;
   category: string;
   station_type: string;
+  // Set when the item has only run out in one zone
+  zone_name?: string | null;
 }
 
 interface PerformanceMetrics {
@@ -89,7 +96,12 @@ const Manager = () => {
           .eq('user_id', user.id)
           .eq('role', 'event_manager');
 
-        if (zoneAssignments && zoneAssignments.length > 0) {
+        // A running roster shift overrides the standing event and zone assignments
+        const rosterShift = await fetchCurrentRosterShift(user.id, 'event_manager');
+
+        if (rosterShift?.zone_id) {
+          setAssignedZones([{ id: rosterShift.zone_id, name: rosterShift.zones?.name || 'Zone' }]);
+        } else if (zoneAssignments && zoneAssignments.length > 0) {
           const zones = zoneAssignments
             .map((za: any) => za.zones)
             .filter(Boolean) as Zone[];
@@ -97,11 +109,12 @@ const Manager = () => {
         }
 
         // Fetch assigned event details
-        if (profile?.event_id) {
+        const eventId = rosterShift?.event_id || profile?.event_id;
+        if (eventId) {
           const { data: eventData } = await supabase
             .from('events')
             .select('id, name, event_date')
-            .eq('id', profile.event_id)
+            .eq('id', eventId)
             .single();
 
           if (eventData) {
@@ -182,6 +195,17 @@ const Manager = () => {
             fetchOutOfStock();
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'inventory_zone_allocations'
+          },
+          () => {
+            fetchOutOfStock();
+          }
+        )
         .subscribe();
 
       // Refresh data every 30 seconds
@@ -211,25 +235,11 @@ const Manager = () => {
     if (!assignedEvent || zoneIds.length === 0) return;
     
     try {
-      // Get tables in assigned zones first
-      const { data: zoneTables } = await supabase
-        .from('tables')
-        .select('table_number')
-        .eq('event_id', assignedEvent.id)
-        .in('zone_id', zoneIds);
-
-      const tableNumbers = zoneTables?.map(t => t.table_number) || [];
-      
-      if (tableNumbers.length === 0) {
-        setOrderStats({ pending: 0, dispatched: 0, ready: 0, served: 0, paid: 0 });
-        return;
-      }
-
       const { data, error } = await supabase
         .from('orders')
-        .select('status')
+        .select('status, table:tables!orders_table_id_fkey!inner(zone_id)')
         .eq('event_id', assignedEvent.id)
-        .in('table_number', tableNumbers);
+        .in('table.zone_id', zoneIds);
 
       if (error) throw error;
 
@@ -257,20 +267,6 @@ const Manager = () => {
     if (!assignedEvent || zoneIds.length === 0) return;
     
     try {
-      // Get tables in assigned zones first
-      const { data: zoneTables } = await supabase
-        .from('tables')
-        .select('table_number')
-        .eq('event_id', assignedEvent.id)
-        .in('zone_id', zoneIds);
-
-      const tableNumbers = zoneTables?.map(t => t.table_number) || [];
-      
-      if (tableNumbers.length === 0) {
-        setStationStats([]);
-        return;
-      }
-
       const { data, error } = await supabase
         .from('order_items')
         .select(`
@@ -278,10 +274,10 @@ const Manager = () => {
           status,
           created_at,
           ready_at,
-          orders!inner (event_id, table_number)
+          orders!inner (event_id, table:tables!orders_table_id_fkey!inner (zone_id))
         `)
         .eq('orders.event_id', assignedEvent.id)
-        .in('orders.table_number', tableNumbers);
+        .in('orders.table.zone_id', zoneIds);
 
       if (error) throw error;
 
@@ -353,7 +349,23 @@ const Manager = () => {
       const { data, error } = await query;
 
       if (error) throw error;
-      setOutOfStock(data || []);
+
+      // Items that have run out in one of the assigned zones only
+      const { data: zoneData, error: zoneError } = await supabase
+        .from('inventory_zone_allocations')
+        .select('menu_items(id, name, category, station_type), zones(name)')
+        .eq('event_id', assignedEvent.id)
+        .eq('is_available', false)
+        .in('zone_id', zoneIds);
+
+      if (zoneError) throw zoneError;
+
+      const eventWideIds = new Set((data || []).map(item => item.id));
+      const zoneItems = (zoneData || [])
+        .filter(allocation => allocation.menu_items && !eventWideIds.has(allocation.menu_items.id))
+        .map(allocation => ({ ...allocation.menu_items, zone_name: allocation.zones?.name || null }));
+
+      setOutOfStock([...(data || []), ...zoneItems]);
     } catch (error: any) {
       console.error("Error fetching out of stock:", error);
     }
@@ -363,31 +375,11 @@ const Manager = () => {
     if (!assignedEvent || zoneIds.length === 0) return;
     
     try {
-      // Get tables in assigned zones first
-      const { data: zoneTables } = await supabase
-        .from('tables')
-        .select('table_number')
-        .eq('event_id', assignedEvent.id)
-        .in('zone_id', zoneIds);
-
-      const tableNumbers = zoneTables?.map(t => t.table_number) || [];
-      
-      if (tableNumbers.length === 0) {
-        setMetrics({
-          avgOrderToReady: 0,
-          avgOrderToServed: 0,
-          avgOrderToPaid: 0,
-          totalOrders: 0,
-          totalRevenue: 0,
-        });
-        return;
-      }
-
       const { data, error } = await supabase
         .from('orders')
-        .select('created_at, ready_at, served_at, paid_at, total_amount')
+        .select('created_at, ready_at, served_at, paid_at, total_amount, table:tables!orders_table_id_fkey!inner(zone_id)')
         .eq('event_id', assignedEvent.id)
-        .in('table_number', tableNumbers);
+        .in('table.zone_id', zoneIds);
 
       if (error) throw error;
 
@@ -502,6 +494,7 @@ const Manager = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <TimeClockButton userId={user?.id} role="event_manager" />
             <NotificationBell />
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
@@ -514,10 +507,11 @@ const Manager = () => {
       <div className="p-4 space-y-4">
         {/* Tabs Navigation */}
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 lg:w-[400px]">
+          <TabsList className="grid w-full grid-cols-4 lg:w-[520px]">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="live-orders">Live Orders</TabsTrigger>
             <TabsTrigger value="floor-map">Floor Map</TabsTrigger>
+            <TabsTrigger value="restock">Restock</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -600,6 +594,15 @@ const Manager = () => {
           </div>
         </Card>
 
+        {/* Stock-Out Forecast */}
+        {assignedEvent && tenantId && (
+          <StockOutForecast
+            eventId={assignedEvent.id}
+            tenantId={tenantId}
+            zoneIds={zoneIds}
+          />
+        )}
+
         {/* Station Bottlenecks */}
         <Card className="p-4">
           <h2 className="text-lg font-semibold mb-4">Station Performance</h2>
@@ -659,6 +662,15 @@ const Manager = () => {
           </div>
         </Card>
 
+        {/* Per-person queue depth */}
+        {assignedEvent && tenantId && (
+          <StationQueues
+            eventId={assignedEvent.id}
+            tenantId={tenantId}
+            zoneIds={zoneIds}
+          />
+        )}
+
         {/* Out of Stock Alerts */}
         {outOfStock.length > 0 && (
           <Card className="p-4 border-destructive/50 animate-fade-in">
@@ -669,7 +681,7 @@ const Manager = () => {
             <div className="space-y-2">
               {outOfStock.map((item) => (
                 <div
-                  key={item.id}
+                  key={`${item.id}:${item.zone_name || ''}`}
                   className="flex items-center justify-between p-2 bg-destructive/10 rounded-md animate-fade-in"
                 >
                   <div>
@@ -678,7 +690,9 @@ const Manager = () => {
                       {item.category} • {getStationName(item.station_type)}
                     </div>
                   </div>
-                  <Badge variant="destructive">Unavailable</Badge>
+                  <Badge variant="destructive">
+                    {item.zone_name ? `Out in ${item.zone_name}` : 'Unavailable'}
+                  </Badge>
                 </div>
               ))}
             </div>
@@ -697,6 +711,13 @@ const Manager = () => {
           )}
         </TabsContent>
 
+        {/* Restock Tab */}
+        <TabsContent value="restock" className="mt-4">
+          {assignedEvent && (
+            <RestockQueue eventId={assignedEvent.id} zoneIds={zoneIds} />
+          )}
+        </TabsContent>
+
         {/* Floor Map Tab */}
         <TabsContent value="floor-map" className="mt-4">
           {assignedEvent && tenantId && (
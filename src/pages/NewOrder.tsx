@@ -13,7 +13,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2, ArrowLeft, Plus, Minus, ShoppingCart } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
@@ -23,6 +23,18 @@ import { OfflineStorage } from "@/lib/offlineStorage";
 import { offlineQueue } from "@/lib/offlineQueue";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { fetchCurrentRosterShift } from "@/lib/roster";
+import { ModifierSelectionDialog } from "@/components/ModifierSelectionDialog";
+import {
+  ModifierGroup,
+  SelectedModifier,
+  MODIFIER_GROUPS_SELECT,
+  sortModifierGroups,
+  getModifiersTotal,
+  formatModifiers,
+  getCartLineKey,
+} from "@/lib/modifiers";
+import { MAX_COURSES, formatCourse } from "@/lib/courses";
 
 interface Event {
   id: string;
@@ -52,19 +64,36 @@ interface MenuItem {
   category: string;
   station_type: string;
   is_available: boolean;
+  modifier_groups?: ModifierGroup[];
 }
 
 interface CartItem extends MenuItem {
   quantity: number;
+  cartKey: string;
+  modifiers: SelectedModifier[];
+  unitPrice: number;
+  course: number;
+}
+
+// An open order that a further round of items is being added to
+interface AppendOrder {
+  id: string;
+  order_number: string;
+  event_id: string;
+  table_number: string | null;
+  zone_id: string | null;
 }
 
 interface ZoneAllocation {
   menu_item_id: string;
   allocated_quantity: number;
+  is_available: boolean;
 }
 
 const NewOrder = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const appendOrderId = searchParams.get('order');
   const { toast } = useToast();
   const { isOnline } = useOnlineStatus();
   const { user, tenantId, loading: authLoading } = useAuthGuard();
@@ -79,11 +108,17 @@ const NewOrder = () => {
   const [usingCache, setUsingCache] = useState(false);
   const [waiterZoneId, setWaiterZoneId] = useState<string | null>(null);
   const [waiterEventId, setWaiterEventId] = useState<string | null>(null);
+  const [rosterZoneId, setRosterZoneId] = useState<string | null>(null);
   const [zoneAllocations, setZoneAllocations] = useState<ZoneAllocation[]>([]);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [appendOrder, setAppendOrder] = useState<AppendOrder | null>(null);
+  // Course that items are added to; courses after the first are held until fired
+  const [course, setCourse] = useState(1);
   
   const [selectedEvent, setSelectedEvent] = useState<string>("");
   const [selectedTable, setSelectedTable] = useState("");
   const [guestName, setGuestName] = useState("");
+  const [guestCount, setGuestCount] = useState("");
 
   useEffect(() => {
     if (!authLoading && user) {
@@ -95,10 +130,40 @@ const NewOrder = () => {
     if (selectedEvent) {
       fetchMenuItems();
       fetchTables();
-      fetchZoneAllocations();
       setSelectedTable("");
     }
-  }, [selectedEvent, waiterZoneId]);
+  }, [selectedEvent, waiterZoneId, rosterZoneId]);
+
+  // Stock and availability follow the zone of the table being ordered for
+  const orderZoneId = appendOrder
+    ? appendOrder.zone_id
+    : tables.find(t => t.id === selectedTable)?.zone_id || waiterZoneId;
+
+  useEffect(() => {
+    fetchZoneAllocations();
+
+    if (!selectedEvent || !orderZoneId) return;
+
+    const channel = supabase
+      .channel('new-order-zone-allocations')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'inventory_zone_allocations',
+          filter: `zone_id=eq.${orderZoneId}`
+        },
+        () => {
+          fetchZoneAllocations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedEvent, orderZoneId]);
 
   const fetchData = async () => {
     if (!user) return;
@@ -111,11 +176,40 @@ const NewOrder = () => {
         .eq('id', user.id)
         .single();
       
-      if (profile?.zone_id) {
-        setWaiterZoneId(profile.zone_id);
+      // A running waiter shift overrides the standing event and zone assignment
+      const rosterShift = await fetchCurrentRosterShift(user.id, 'waiter');
+      const zoneId = rosterShift?.zone_id || profile?.zone_id;
+      const eventId = rosterShift?.event_id || profile?.event_id;
+
+      if (zoneId) {
+        setWaiterZoneId(zoneId);
+      }
+      if (rosterShift?.zone_id) {
+        setRosterZoneId(rosterShift.zone_id);
       }
-      if (profile?.event_id) {
-        setWaiterEventId(profile.event_id);
+      if (eventId) {
+        setWaiterEventId(eventId);
+      }
+
+      // Adding to an existing order: the event and table come from the order
+      if (appendOrderId) {
+        const { data: orderData, error: orderError } = await supabase
+          .from('orders')
+          .select('id, order_number, event_id, table_number, table:tables!orders_table_id_fkey (zone_id)')
+          .eq('id', appendOrderId)
+          .single();
+
+        if (orderError) throw orderError;
+
+        setAppendOrder({
+          id: orderData.id,
+          order_number: orderData.order_number,
+          event_id: orderData.event_id,
+          table_number: orderData.table_number,
+          zone_id: orderData.table?.zone_id || null,
+        });
+        setSelectedEvent(orderData.event_id);
+        return;
       }
 
       // Build events query
@@ -126,8 +220,8 @@ const NewOrder = () => {
         .order('event_date', { ascending: false });
 
       // If waiter has an event assigned, filter to only that event
-      if (profile?.event_id) {
-        eventsQuery = eventsQuery.eq('id', profile.event_id);
+      if (eventId) {
+        eventsQuery = eventsQuery.eq('id', eventId);
       }
 
       const { data, error } = await eventsQuery;
@@ -178,7 +272,14 @@ const NewOrder = () => {
       // Filter tables to only show:
       // 1. Tables directly assigned to this waiter
       // 2. Ad-hoc tables in the waiter's zone (accessible to all zone waiters)
+      // While rostered in a zone, only that zone's tables that are unassigned,
+      // ad-hoc or assigned to this waiter are shown
       let filteredTables = (data || []).filter(table => {
+        if (rosterZoneId) {
+          return table.zone_id === rosterZoneId
+            && (!table.assigned_waiter_id || table.assigned_waiter_id === user.id || table.is_adhoc);
+        }
+
         const isAssignedToWaiter = table.assigned_waiter_id === user.id;
         const isAdhocInWaiterZone = waiterZoneId && table.zone_id === waiterZoneId && table.is_adhoc;
         
@@ -205,14 +306,17 @@ const NewOrder = () => {
 
       const { data, error } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(`*, ${MODIFIER_GROUPS_SELECT}`)
         .eq('event_id', selectedEvent)
         .eq('is_available', true)
         .order('category', { ascending: true });
 
       if (error) throw error;
       
-      const items = data || [];
+      const items = ((data || []) as unknown as MenuItem[]).map(item => ({
+        ...item,
+        modifier_groups: sortModifierGroups(item.modifier_groups),
+      }));
       setMenuItems(items);
       setUsingCache(false);
       
@@ -239,7 +343,7 @@ const NewOrder = () => {
   };
 
   const fetchZoneAllocations = async () => {
-    if (!selectedEvent || !waiterZoneId) {
+    if (!selectedEvent || !orderZoneId) {
       setZoneAllocations([]);
       return;
     }
@@ -247,9 +351,9 @@ const NewOrder = () => {
     try {
       const { data, error } = await supabase
         .from('inventory_zone_allocations')
-        .select('menu_item_id, allocated_quantity')
+        .select('menu_item_id, allocated_quantity, is_available')
         .eq('event_id', selectedEvent)
-        .eq('zone_id', waiterZoneId);
+        .eq('zone_id', orderZoneId);
 
       if (error) throw error;
       setZoneAllocations(data || []);
@@ -264,32 +368,107 @@ const NewOrder = () => {
     return allocation ? allocation.allocated_quantity : null;
   };
 
+  const isUnavailableInZone = (menuItemId: string): boolean => {
+    return zoneAllocations.some(a => a.menu_item_id === menuItemId && !a.is_available);
+  };
+
   const addToCart = (item: MenuItem) => {
+    // Items with modifier groups need options chosen before they go in the cart
+    if (item.modifier_groups && item.modifier_groups.length > 0) {
+      setModifierItem(item);
+      return;
+    }
+    addCartLine(item, []);
+  };
+
+  const addCartLine = (item: MenuItem, modifiers: SelectedModifier[]) => {
+    const cartKey = `${getCartLineKey(item.id, modifiers)}@${course}`;
     setCart(prev => {
-      const existing = prev.find(i => i.id === item.id);
+      const existing = prev.find(i => i.cartKey === cartKey);
       if (existing) {
-        return prev.map(i => i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i);
+        return prev.map(i => i.cartKey === cartKey ? { ...i, quantity: i.quantity + 1 } : i);
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [...prev, {
+        ...item,
+        quantity: 1,
+        cartKey,
+        modifiers,
+        unitPrice: Number(item.price) + getModifiersTotal(modifiers),
+        course,
+      }];
     });
   };
 
-  const removeFromCart = (itemId: string) => {
+  const removeCartLine = (cartKey: string) => {
     setCart(prev => {
-      const existing = prev.find(i => i.id === itemId);
+      const existing = prev.find(i => i.cartKey === cartKey);
       if (existing && existing.quantity > 1) {
-        return prev.map(i => i.id === itemId ? { ...i, quantity: i.quantity - 1 } : i);
+        return prev.map(i => i.cartKey === cartKey ? { ...i, quantity: i.quantity - 1 } : i);
       }
-      return prev.filter(i => i.id !== itemId);
+      return prev.filter(i => i.cartKey !== cartKey);
     });
   };
 
+  const removeFromCart = (itemId: string) => {
+    // Remove from the most recently added line for this menu item
+    const lines = cart.filter(i => i.id === itemId);
+    if (lines.length > 0) {
+      removeCartLine(lines[lines.length - 1].cartKey);
+    }
+  };
+
   const getCartItemQuantity = (itemId: string) => {
-    return cart.find(i => i.id === itemId)?.quantity || 0;
+    return cart.filter(i => i.id === itemId).reduce((sum, i) => sum + i.quantity, 0);
   };
 
   const getTotalAmount = () => {
-    return cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    return cart.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
+  };
+
+  const handleAddToOrder = async () => {
+    if (!appendOrder || cart.length === 0) return;
+
+    const unavailable = cart.filter(item => isUnavailableInZone(item.id));
+    if (unavailable.length > 0) {
+      toast({
+        title: "Out of stock in this zone",
+        description: `Remove ${[...new Set(unavailable.map(item => item.name))].join(', ')} to add them to the order`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase
+        .rpc('add_order_items', {
+          _order_id: appendOrder.id,
+          _items: cart.map(item => ({
+            menu_item_id: item.id,
+            quantity: item.quantity,
+            modifier_option_ids: item.modifiers.map(m => m.modifier_option_id),
+            course_number: item.course,
+          })),
+        })
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Items added",
+        description: `Course ${data.course_number} dispatched to stations • ${appendOrder.order_number} now ${formatPrice(Number(data.total_amount))}`,
+      });
+
+      navigate(`/waiter/order/${appendOrder.id}`);
+    } catch (error) {
+      toast({
+        title: "Error adding items",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const handleSubmit = async () => {
@@ -302,7 +481,29 @@ const NewOrder = () => {
       return;
     }
 
-    const tableNumber = tables.find(t => t.id === selectedTable)?.table_number || selectedTable;
+    const unavailable = cart.filter(item => isUnavailableInZone(item.id));
+    if (unavailable.length > 0) {
+      toast({
+        title: "Out of stock in this zone",
+        description: `Remove ${[...new Set(unavailable.map(item => item.name))].join(', ')} to place the order`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Prices are resolved server-side; only ids, quantities and selections are sent
+    const orderRequest = {
+      _event_id: selectedEvent,
+      _table_id: selectedTable,
+      _guest_name: guestName || undefined,
+      _guest_count: parseInt(guestCount) || undefined,
+      _items: cart.map(item => ({
+        menu_item_id: item.id,
+        quantity: item.quantity,
+        modifier_option_ids: item.modifiers.map(m => m.modifier_option_id),
+        course_number: item.course,
+      })),
+    };
 
     setSubmitting(true);
     try {
@@ -310,18 +511,7 @@ const NewOrder = () => {
 
       // If offline, queue the order
       if (!isOnline) {
-        const orderData = {
-          event_id: selectedEvent,
-          waiter_id: user.id,
-          tenant_id: tenantId,
-          table_number: tableNumber,
-          guest_name: guestName || null,
-          status: 'pending',
-          total_amount: getTotalAmount(),
-          cart: cart,
-        };
-
-        offlineQueue.addToQueue('order', orderData);
+        offlineQueue.addToQueue('order', orderRequest);
 
         toast({
           title: "Order queued",
@@ -332,50 +522,15 @@ const NewOrder = () => {
         return;
       }
 
-      // Generate order number
-      const { data: orderNumber, error: orderNumError } = await supabase
-        .rpc('generate_order_number', { _event_id: selectedEvent });
-
-      if (orderNumError) throw orderNumError;
-
-      // Create order
       const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          order_number: orderNumber,
-          event_id: selectedEvent,
-          waiter_id: user.id,
-          tenant_id: tenantId,
-          table_number: tableNumber,
-          guest_name: guestName || null,
-          status: 'pending',
-          total_amount: getTotalAmount(),
-        })
-        .select()
+        .rpc('create_order', orderRequest)
         .single();
 
       if (orderError) throw orderError;
 
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: order.id,
-        menu_item_id: item.id,
-        quantity: item.quantity,
-        price: item.price,
-        station_type: item.station_type as "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar",
-        tenant_id: tenantId,
-        status: 'pending' as "pending",
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
       toast({
         title: "Order created",
-        description: `Order ${orderNumber} dispatched to stations`,
+        description: `Order ${order.order_number} dispatched to stations • ${formatPrice(Number(order.total_amount))}`,
       });
 
       navigate('/waiter');
@@ -409,12 +564,20 @@ const NewOrder = () => {
       {/* Header */}
       <div className="sticky top-0 z-10 bg-card border-b border-border shadow-sm">
         <div className="flex items-center gap-3 p-4">
-          <Button variant="ghost" size="icon" onClick={() => navigate('/waiter')}>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate(appendOrder ? `/waiter/order/${appendOrder.id}` : '/waiter')}
+          >
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <div className="flex-1">
-            <h1 className="text-xl font-bold">New Order</h1>
-            <p className="text-sm text-muted-foreground">Create a new order</p>
+            <h1 className="text-xl font-bold">{appendOrder ? 'Add Items' : 'New Order'}</h1>
+            <p className="text-sm text-muted-foreground">
+              {appendOrder
+                ? `${appendOrder.order_number} • Table ${appendOrder.table_number || 'N/A'}`
+                : 'Create a new order'}
+            </p>
           </div>
           <OfflineIndicator />
         </div>
@@ -423,25 +586,27 @@ const NewOrder = () => {
       {/* Content */}
       <div className="p-4 space-y-4">
         {/* Event Selection */}
-        <Card className="p-4 space-y-3">
-          <Label htmlFor="event">Event</Label>
-          <select
-            id="event"
-            value={selectedEvent}
-            onChange={(e) => setSelectedEvent(e.target.value)}
-            className="w-full h-10 px-3 rounded-md border border-input bg-background"
-          >
-            <option value="">Select an event</option>
-            {events.map(event => (
-              <option key={event.id} value={event.id}>
-                {event.name} - {new Date(event.event_date).toLocaleDateString()}
-              </option>
-            ))}
-          </select>
-        </Card>
+        {!appendOrder && (
+          <Card className="p-4 space-y-3">
+            <Label htmlFor="event">Event</Label>
+            <select
+              id="event"
+              value={selectedEvent}
+              onChange={(e) => setSelectedEvent(e.target.value)}
+              className="w-full h-10 px-3 rounded-md border border-input bg-background"
+            >
+              <option value="">Select an event</option>
+              {events.map(event => (
+                <option key={event.id} value={event.id}>
+                  {event.name} - {new Date(event.event_date).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+          </Card>
+        )}
 
         {/* Table & Guest Info */}
-        {selectedEvent && (
+        {selectedEvent && !appendOrder && (
           <Card className="p-4 space-y-3">
             <div className="space-y-2">
               <Label htmlFor="table">Table *</Label>
@@ -488,6 +653,17 @@ const NewOrder = () => {
                 placeholder="Guest name"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="guest-count">Guests (Optional)</Label>
+              <Input
+                id="guest-count"
+                type="number"
+                min="1"
+                value={guestCount}
+                onChange={(e) => setGuestCount(e.target.value)}
+                placeholder="Number of guests"
+              />
+            </div>
           </Card>
         )}
 
@@ -495,6 +671,28 @@ const NewOrder = () => {
         {selectedEvent && menuItems.length > 0 && (
           <div className="space-y-3">
             <h2 className="text-lg font-semibold">Menu Items</h2>
+            {!appendOrder && (
+              <Card className="p-4 space-y-2">
+                <Label>Course</Label>
+                <div className="flex gap-2">
+                  {Array.from({ length: MAX_COURSES }, (_, i) => i + 1).map((n) => (
+                    <Button
+                      key={n}
+                      size="sm"
+                      variant={course === n ? "default" : "outline"}
+                      onClick={() => setCourse(n)}
+                    >
+                      {n}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {course === 1
+                    ? 'Sent to the stations straight away'
+                    : `${formatCourse(course)} is held until you fire it from the order`}
+                </p>
+              </Card>
+            )}
             {Object.entries(groupedMenuItems).map(([category, items]) => (
               <Card key={category} className="p-4">
                 <h3 className="font-semibold mb-3 text-primary">{category}</h3>
@@ -502,36 +700,63 @@ const NewOrder = () => {
                   {items.map(item => {
                     const quantity = getCartItemQuantity(item.id);
                     const zoneAllocation = getZoneAllocation(item.id);
+                    const outOfStockHere = isUnavailableInZone(item.id);
+                    const modifierLines = cart.filter(i => i.id === item.id && (i.modifiers.length > 0 || i.course > 1));
                     return (
-                      <div key={item.id} className="flex items-center justify-between gap-3 py-2">
-                        <div className="flex-1">
-                          <div className="font-medium">{item.name}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatPrice(item.price)}
-                            {zoneAllocation !== null && (
-                              <span className="ml-2 text-primary">
-                                • {zoneAllocation} available
-                              </span>
-                            )}
+                      <div key={item.id} className="py-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex-1">
+                            <div className={`font-medium ${outOfStockHere ? 'text-muted-foreground line-through' : ''}`}>{item.name}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {formatPrice(item.price)}
+                              {outOfStockHere ? (
+                                <span className="ml-2 text-destructive">
+                                  • Out of stock in this zone
+                                </span>
+                              ) : zoneAllocation !== null && (
+                                <span className="ml-2 text-primary">
+                                  • {zoneAllocation} available
+                                </span>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                        {quantity === 0 ? (
-                          <Button size="sm" onClick={() => addToCart(item)}>
-                            <Plus className="h-4 w-4" />
-                          </Button>
-                        ) : (
-                          <div className="flex items-center gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => removeFromCart(item.id)}
-                            >
-                              <Minus className="h-4 w-4" />
-                            </Button>
-                            <span className="w-8 text-center font-semibold">{quantity}</span>
-                            <Button size="sm" onClick={() => addToCart(item)}>
+                          {quantity === 0 ? (
+                            <Button size="sm" onClick={() => addToCart(item)} disabled={outOfStockHere}>
                               <Plus className="h-4 w-4" />
                             </Button>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => removeFromCart(item.id)}
+                              >
+                                <Minus className="h-4 w-4" />
+                              </Button>
+                              <span className="w-8 text-center font-semibold">{quantity}</span>
+                              <Button size="sm" onClick={() => addToCart(item)} disabled={outOfStockHere}>
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        {modifierLines.length > 0 && (
+                          <div className="mt-2 space-y-1 pl-3 border-l-2 border-primary/30">
+                            {modifierLines.map(line => (
+                              <div key={line.cartKey} className="flex items-center justify-between text-sm">
+                                <span className="text-muted-foreground">
+                                  {line.quantity}× {[line.course > 1 && formatCourse(line.course), formatModifiers(line.modifiers)].filter(Boolean).join(' • ')} • {formatPrice(line.unitPrice)}
+                                </span>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-7"
+                                  onClick={() => removeCartLine(line.cartKey)}
+                                >
+                                  <Minus className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            ))}
                           </div>
                         )}
                       </div>
@@ -562,22 +787,47 @@ const NewOrder = () => {
               {formatPrice(getTotalAmount())}
             </div>
           </div>
-          <Button
-            className="w-full h-12"
-            onClick={handleSubmit}
-            disabled={submitting || !selectedEvent || !selectedTable}
-          >
-            {submitting ? (
-              <>
-                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                Creating Order...
-              </>
-            ) : (
-              'Submit Order'
-            )}
-          </Button>
+          {appendOrder ? (
+            <Button
+              className="w-full h-12"
+              onClick={handleAddToOrder}
+              disabled={submitting || !isOnline}
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Adding Items...
+                </>
+              ) : (
+                `Add to ${appendOrder.order_number}`
+              )}
+            </Button>
+          ) : (
+            <Button
+              className="w-full h-12"
+              onClick={handleSubmit}
+              disabled={submitting || !selectedEvent || !selectedTable}
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Creating Order...
+                </>
+              ) : (
+                'Submit Order'
+              )}
+            </Button>
+          )}
         </div>
       )}
+
+      {/* Modifier Selection */}
+      <ModifierSelectionDialog
+        open={!!modifierItem}
+        onOpenChange={(open) => !open && setModifierItem(null)}
+        menuItem={modifierItem ? { ...modifierItem, modifier_groups: modifierItem.modifier_groups || [] } : null}
+        onConfirm={(modifiers) => modifierItem && addCartLine(modifierItem, modifiers)}
+      />
     </div>
   );
 };
@@ -3,7 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, ArrowLeft, CheckCircle, AlertTriangle } from "lucide-react";
+import { Loader2, ArrowLeft, CheckCircle, AlertTriangle, Ban, Repeat, Plus, Flame } from "lucide-react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
@@ -18,6 +18,8 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { VoidItemDialog } from "@/components/VoidItemDialog";
+import { formatCourse } from "@/lib/courses";
 
 interface OrderItem {
   id: string;
@@ -26,6 +28,8 @@ interface OrderItem {
   notes: string | null;
   status: string;
   station_type: string;
+  course_number: number;
+  is_held: boolean;
   created_at: string;
   dispatched_at: string | null;
   ready_at: string | null;
@@ -33,6 +37,15 @@ interface OrderItem {
     name: string;
     category: string;
   };
+  // Suggested by the station when it rejected the item as out of stock
+  substitution: {
+    menu_item_id: string;
+    substitute_order_item_id: string | null;
+    menu_items: {
+      name: string;
+      price: number;
+    } | null;
+  } | null;
 }
 
 interface Order {
@@ -50,6 +63,9 @@ interface Order {
   reservation_name?: string | null;
 }
 
+// Orders that can still take another round of items
+const OPEN_ORDER_STATUSES = ['pending', 'dispatched', 'ready', 'bumped', 'served'];
+
 interface Payment {
   payment_method: string;
   amount: number;
@@ -68,6 +84,9 @@ const OrderDetails = () => {
   const [returnDialog, setReturnDialog] = useState<{ item: OrderItem } | null>(null);
   const [returnReason, setReturnReason] = useState("");
   const [processing, setProcessing] = useState(false);
+  const [voidItem, setVoidItem] = useState<OrderItem | null>(null);
+  const [acceptingSubstituteId, setAcceptingSubstituteId] = useState<string | null>(null);
+  const [firingCourse, setFiringCourse] = useState<number | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -109,37 +128,17 @@ const OrderDetails = () => {
 
   const fetchOrderDetails = async () => {
     try {
-      // Fetch order
+      // Fetch order with the reservation name from its table
       const { data: orderData, error: orderError } = await supabase
         .from('orders')
-        .select('*')
+        .select('*, table:tables!orders_table_id_fkey (reservation_name)')
         .eq('id', id)
         .single();
 
       if (orderError) throw orderError;
 
-      // Fetch reservation name from table if table_number exists
-      let reservationName: string | null = null;
-      if (orderData?.table_number) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('tenant_id')
-          .eq('id', (await supabase.auth.getUser()).data.user?.id)
-          .single();
-
-        if (profile?.tenant_id) {
-          const { data: tableData } = await supabase
-            .from('tables')
-            .select('reservation_name')
-            .eq('tenant_id', profile.tenant_id)
-            .eq('table_number', orderData.table_number)
-            .maybeSingle();
-
-          reservationName = tableData?.reservation_name || null;
-        }
-      }
-
-      setOrder({ ...orderData, reservation_name: reservationName });
+      const { table, ...orderFields } = orderData;
+      setOrder({ ...orderFields, reservation_name: table?.reservation_name || null });
 
       // Fetch order items
       const { data: itemsData, error: itemsError } = await supabase
@@ -151,10 +150,17 @@ const OrderDetails = () => {
           notes,
           status,
           station_type,
+          course_number,
+          is_held,
           created_at,
           dispatched_at,
           ready_at,
-          menu_items (name, category)
+          menu_items (name, category),
+          substitution:order_item_substitutions!order_item_substitutions_order_item_id_fkey (
+            menu_item_id,
+            substitute_order_item_id,
+            menu_items (name, price)
+          )
         `)
         .eq('order_id', id)
         .order('created_at', { ascending: true });
@@ -185,9 +191,9 @@ const OrderDetails = () => {
     if (!order) return;
 
     try {
-      // Exclude rejected/returned items from the check - they won't be served
+      // Exclude rejected/returned/voided items from the check - they won't be served
       const activeItems = orderItems.filter(item => 
-        item.status !== 'rejected' && item.status !== 'returned'
+        item.status !== 'rejected' && item.status !== 'returned' && item.status !== 'voided'
       );
       const allReady = activeItems.length > 0 && activeItems.every(item => 
         item.status === 'ready' || item.status === 'served'
@@ -297,6 +303,65 @@ const OrderDetails = () => {
     }
   };
 
+  const handleAcceptSubstitute = async (item: OrderItem) => {
+    const substitute = item.substitution?.menu_items;
+    if (!substitute) return;
+
+    setAcceptingSubstituteId(item.id);
+    try {
+      const { error } = await supabase.rpc('accept_substitute', { _order_item_id: item.id });
+
+      if (error) throw error;
+
+      const difference = (Number(substitute.price) - Number(item.price)) * item.quantity;
+      toast({
+        title: "Substitute added",
+        description: difference === 0
+          ? `${substitute.name} sent to the station at the same price`
+          : `${substitute.name} sent to the station, ${difference > 0 ? '+' : '-'}${formatPrice(Math.abs(difference))} on the bill`,
+      });
+
+      fetchOrderDetails();
+    } catch (error) {
+      toast({
+        title: "Error adding substitute",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setAcceptingSubstituteId(null);
+    }
+  };
+
+  const handleFireCourse = async (courseNumber: number) => {
+    if (!order) return;
+
+    setFiringCourse(courseNumber);
+    try {
+      const { data: fired, error } = await supabase.rpc('fire_course', {
+        _order_id: order.id,
+        _course_number: courseNumber,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: `${formatCourse(courseNumber)} fired`,
+        description: `${fired} item${fired !== 1 ? 's' : ''} sent to the stations`,
+      });
+
+      fetchOrderDetails();
+    } catch (error) {
+      toast({
+        title: "Error firing course",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setFiringCourse(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
@@ -305,6 +370,8 @@ const OrderDetails = () => {
         return 'bg-accent text-accent-foreground';
       case 'ready':
         return 'bg-success text-success-foreground';
+      case 'bumped':
+        return 'bg-primary text-primary-foreground';
       case 'served':
         return 'bg-secondary text-secondary-foreground';
       case 'paid':
@@ -312,6 +379,8 @@ const OrderDetails = () => {
       case 'rejected':
       case 'returned':
         return 'bg-destructive text-destructive-foreground';
+      case 'voided':
+        return 'bg-muted text-muted-foreground line-through';
       default:
         return 'bg-secondary text-secondary-foreground';
     }
@@ -355,14 +424,24 @@ const OrderDetails = () => {
     );
   }
 
-  // Exclude rejected/returned items from the check - they won't be served
+  // Exclude rejected/returned/voided items from the check - they won't be served
   const activeItems = orderItems.filter(item => 
-    item.status !== 'rejected' && item.status !== 'returned'
+    item.status !== 'rejected' && item.status !== 'returned' && item.status !== 'voided'
   );
   const allReady = activeItems.length > 0 && activeItems.every(item => 
     item.status === 'ready' || item.status === 'served'
   );
 
+  // Courses still waiting to be fired, with how many items each holds
+  const heldCourses = Object.entries(
+    orderItems
+      .filter(item => item.is_held && item.status === 'pending')
+      .reduce((acc, item) => {
+        acc[item.course_number] = (acc[item.course_number] || 0) + item.quantity;
+        return acc;
+      }, {} as Record<number, number>)
+  ).map(([courseNumber, quantity]) => ({ courseNumber: Number(courseNumber), quantity }));
+
   return (
     <div className="min-h-screen bg-background pb-24">
       {/* Header */}
@@ -430,9 +509,42 @@ const OrderDetails = () => {
               {payments.map((payment, index) => (
                 <div key={index} className="flex justify-between items-center text-sm">
                   <span className="text-muted-foreground capitalize">
-                    {payment.payment_method}
+                    {payment.amount < 0 ? `Refund (${payment.payment_method})` : payment.payment_method}
                   </span>
-                  <span className="font-semibold">{formatPrice(payment.amount)}</span>
+                  <span className={`font-semibold ${payment.amount < 0 ? 'text-destructive' : ''}`}>
+                    {payment.amount < 0 ? `-${formatPrice(-payment.amount)}` : formatPrice(payment.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Held Courses */}
+        {heldCourses.length > 0 && order.status !== 'paid' && (
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Held Courses</h3>
+            <div className="space-y-2">
+              {heldCourses.map(({ courseNumber, quantity }) => (
+                <div key={courseNumber} className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{formatCourse(courseNumber)}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {quantity} item{quantity !== 1 ? 's' : ''} held
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleFireCourse(courseNumber)}
+                    disabled={firingCourse !== null}
+                  >
+                    {firingCourse === courseNumber ? (
+                      <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                    ) : (
+                      <Flame className="mr-2 h-3 w-3" />
+                    )}
+                    Fire
+                  </Button>
                 </div>
               ))}
             </div>
@@ -441,8 +553,20 @@ const OrderDetails = () => {
 
         {/* Items by Station */}
         <div className="space-y-3">
-          <h2 className="text-lg font-semibold">Items by Station</h2>
-          
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Items by Station</h2>
+            {OPEN_ORDER_STATUSES.includes(order.status) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/waiter/new-order?order=${order.id}`)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Items
+              </Button>
+            )}
+          </div>
+
           {Object.entries(groupedItems).map(([station, items]) => (
             <Card key={station} className="p-4">
               <h3 className="font-semibold mb-3 text-primary">
@@ -453,7 +577,12 @@ const OrderDetails = () => {
                   <div key={item.id} className="border-l-2 border-primary/30 pl-3">
                     <div className="flex items-start justify-between gap-3">
                       <div className="flex-1">
-                        <div className="font-medium">{item.menu_items.name}</div>
+                        <div className="font-medium">
+                          {item.menu_items.name}
+                          {item.course_number > 1 && (
+                            <Badge variant="outline" className="ml-2">{formatCourse(item.course_number)}</Badge>
+                          )}
+                        </div>
                         <div className="text-sm text-muted-foreground">
                           Qty: {item.quantity} • {formatPrice(item.price)} each
                         </div>
@@ -464,10 +593,49 @@ const OrderDetails = () => {
                         )}
                       </div>
                       <Badge className={getStatusColor(item.status)} variant="secondary">
-                        {item.status}
+                        {item.is_held && item.status === 'pending' ? 'held' : item.status}
                       </Badge>
                     </div>
 
+                    {/* Substitute suggested by the station */}
+                    {item.status === 'rejected' && item.substitution?.menu_items && (
+                      <div className="mt-2 rounded-md border border-dashed p-2 text-sm">
+                        {item.substitution.substitute_order_item_id ? (
+                          <span className="text-muted-foreground">
+                            Replaced with {item.substitution.menu_items.name}
+                          </span>
+                        ) : (
+                          <div className="flex items-center justify-between gap-2">
+                            <div>
+                              <div>
+                                Suggested: <span className="font-medium">{item.substitution.menu_items.name}</span>
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatPrice(item.substitution.menu_items.price)} each
+                                {Number(item.substitution.menu_items.price) !== Number(item.price) && (
+                                  ` (${Number(item.substitution.menu_items.price) > Number(item.price) ? '+' : '-'}${formatPrice(Math.abs(Number(item.substitution.menu_items.price) - Number(item.price)))} vs original)`
+                                )}
+                              </div>
+                            </div>
+                            {order.status !== 'paid' && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleAcceptSubstitute(item)}
+                                disabled={acceptingSubstituteId === item.id}
+                              >
+                                {acceptingSubstituteId === item.id ? (
+                                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                                ) : (
+                                  <Repeat className="mr-2 h-3 w-3" />
+                                )}
+                                Accept
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Item Actions */}
                     {item.status === 'served' && order.status !== 'paid' && (
                       <Button
@@ -480,6 +648,17 @@ const OrderDetails = () => {
                         Report Return
                       </Button>
                     )}
+                    {item.status === 'pending' && order.status !== 'paid' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => setVoidItem(item)}
+                      >
+                        <Ban className="mr-2 h-3 w-3" />
+                        Void Item
+                      </Button>
+                    )}
 
                     {/* Timestamps */}
                     <div className="text-xs text-muted-foreground mt-2 space-y-1">
@@ -499,7 +678,7 @@ const OrderDetails = () => {
       </div>
 
       {/* Fixed Bottom Actions */}
-      {(order.status === 'ready' || (order.status === 'pending' && allReady) || (order.status === 'dispatched' && allReady)) && allReady && (
+      {(order.status === 'ready' || order.status === 'bumped' || (order.status === 'pending' && allReady) || (order.status === 'dispatched' && allReady)) && allReady && (
         <div className="fixed bottom-0 left-0 right-0 bg-card border-t border-border shadow-lg p-4">
           <Button
             className="w-full h-12"
@@ -558,6 +737,14 @@ const OrderDetails = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Void Dialog */}
+      <VoidItemDialog
+        open={!!voidItem}
+        onOpenChange={(open) => !open && setVoidItem(null)}
+        item={voidItem ? { id: voidItem.id, name: voidItem.menu_items.name, quantity: voidItem.quantity } : null}
+        onVoided={fetchOrderDetails}
+      />
     </div>
   );
 };
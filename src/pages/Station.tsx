@@ -3,12 +3,34 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, LogOut, AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+import { Loader2, LogOut, AlertTriangle, CheckCircle, XCircle, PackagePlus, ChefHat } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
+import { fetchCurrentRosterShift } from "@/lib/roster";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { RESTOCK_STATUS_LABELS, RestockRequest, RestockRequestStatus, formatMinutes, getMinutesBetween } from "@/lib/restock";
+import { HeldTableCount, countHeldByTable, formatCourse } from "@/lib/courses";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,17 +45,28 @@ import {
 interface OrderItem {
   id: string;
   quantity: number;
+  price: number;
   notes: string | null;
   status: string;
+  course_number: number;
   created_at: string;
   dispatched_at: string | null;
   order_id: string;
   menu_item_id: string;
+  assigned_to: string | null;
+  assignee: {
+    full_name: string | null;
+  } | null;
   menu_items: {
     id: string;
     name: string;
     price: number;
   };
+  order_item_modifiers: {
+    group_name: string;
+    option_name: string;
+    price_delta: number;
+  }[];
   orders: {
     order_number: string;
     table_number: string;
@@ -41,7 +74,31 @@ interface OrderItem {
     profiles: {
       full_name: string | null;
     };
+    table: {
+      zone_id: string;
+    } | null;
+  };
+}
+
+interface SubstituteOption {
+  id: string;
+  name: string;
+  price: number;
+  category: string;
+}
+
+const NO_SUBSTITUTE = "none";
+
+interface ZoneUnavailableItem {
+  menu_item_id: string;
+  zone_id: string;
+  unavailable_at: string | null;
+  menu_items: {
+    name: string;
   };
+  zones: {
+    name: string;
+  } | null;
 }
 
 interface OrderReturn {
@@ -70,10 +127,20 @@ const Station = () => {
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [returns, setReturns] = useState<OrderReturn[]>([]);
   const [stationType, setStationType] = useState<"drink_dispenser" | "meal_dispenser" | "mixologist" | "bar" | "">("");
-  const [outOfStockItem, setOutOfStockItem] = useState<{ id: string; name: string } | null>(null);
+  const [outOfStockItem, setOutOfStockItem] = useState<{ id: string; name: string; zoneId: string } | null>(null);
+  const [unavailableItems, setUnavailableItems] = useState<ZoneUnavailableItem[]>([]);
+  const [substituteOptions, setSubstituteOptions] = useState<SubstituteOption[]>([]);
+  const [substituteId, setSubstituteId] = useState(NO_SUBSTITUTE);
   const [userName, setUserName] = useState<string | null>(null);
   const [userZoneIds, setUserZoneIds] = useState<string[]>([]);
   const [userZoneNames, setUserZoneNames] = useState<string[]>([]);
+  const [restockRequests, setRestockRequests] = useState<RestockRequest[]>([]);
+  const [restockItem, setRestockItem] = useState<{ id: string; name: string } | null>(null);
+  const [restockZoneId, setRestockZoneId] = useState("");
+  const [restockQuantity, setRestockQuantity] = useState("");
+  const [restockNotes, setRestockNotes] = useState("");
+  const [submittingRestock, setSubmittingRestock] = useState(false);
+  const [heldTables, setHeldTables] = useState<HeldTableCount[]>([]);
 
   // Fetch user profile name
   useEffect(() => {
@@ -97,7 +164,13 @@ const Station = () => {
     };
     
     return [...orderItems].sort((a, b) => {
-      // First sort by status priority (pending first)
+      // Items handed to someone else go to the bottom
+      const othersA = !!a.assigned_to && a.assigned_to !== user?.id;
+      const othersB = !!b.assigned_to && b.assigned_to !== user?.id;
+      if (othersA !== othersB) {
+        return Number(othersA) - Number(othersB);
+      }
+      // Then by status priority (pending first)
       const priorityA = statusPriority[a.status] ?? 99;
       const priorityB = statusPriority[b.status] ?? 99;
       if (priorityA !== priorityB) {
@@ -106,7 +179,7 @@ const Station = () => {
       // Then by created_at ascending (oldest first)
       return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
     });
-  }, [orderItems]);
+  }, [orderItems, user]);
 
   useEffect(() => {
     if (!authLoading && user && tenantId) {
@@ -142,6 +215,28 @@ const Station = () => {
           fetchReturns();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'restock_requests'
+        },
+        () => {
+          fetchRestockRequests();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'inventory_zone_allocations'
+        },
+        () => {
+          fetchUnavailableItems();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -174,7 +269,11 @@ const Station = () => {
         'bar_staff': 'bar',
       };
 
-      const station = roleToStation[userRole.role as keyof typeof roleToStation];
+      // A running roster shift decides both the station and the zone being worked
+      const rosterShift = await fetchCurrentRosterShift(user.id);
+      const role = rosterShift && roleToStation[rosterShift.role] ? rosterShift.role : userRole.role;
+
+      const station = roleToStation[role as keyof typeof roleToStation];
       if (!station) {
         toast({
           title: "Invalid role",
@@ -192,14 +291,20 @@ const Station = () => {
         .eq('user_id', user.id)
         .eq('tenant_id', tenantId);
 
-      const zoneIds = zoneAssignments?.map(z => z.zone_id) || [];
-      const zoneNames = zoneAssignments?.map(z => (z.zones as any)?.name).filter(Boolean) || [];
+      const zoneIds = rosterShift?.zone_id
+        ? [rosterShift.zone_id]
+        : zoneAssignments?.map(z => z.zone_id) || [];
+      const zoneNames = rosterShift?.zone_id
+        ? [rosterShift.zones?.name].filter(Boolean)
+        : zoneAssignments?.map(z => (z.zones as any)?.name).filter(Boolean) || [];
       setUserZoneIds(zoneIds);
       setUserZoneNames(zoneNames);
 
       setStationType(station);
       await fetchOrderItems(station, zoneIds);
       await fetchReturns(station, zoneIds);
+      await fetchRestockRequests(zoneIds);
+      await fetchUnavailableItems(station, zoneIds);
     } catch (error: any) {
       toast({
         title: "Error loading station",
@@ -223,55 +328,54 @@ const Station = () => {
         return;
       }
 
-      // First get table numbers in user's assigned zones
-      const { data: tablesInZones } = await supabase
-        .from('tables')
-        .select('table_number, event_id')
-        .in('zone_id', zones);
-
-      if (!tablesInZones || tablesInZones.length === 0) {
-        setOrderItems([]);
-        return;
-      }
-
-      // Get unique table_number + event_id combinations
-      const tableNumbers = [...new Set(tablesInZones.map(t => t.table_number))];
-
       const { data, error } = await supabase
         .from('order_items')
         .select(`
           id,
           quantity,
+          price,
           notes,
           status,
+          course_number,
           created_at,
           dispatched_at,
           order_id,
           menu_item_id,
+          assigned_to,
+          assignee:profiles!order_items_assigned_to_fkey (full_name),
           menu_items (id, name, price),
-          orders (
+          order_item_modifiers (group_name, option_name, price_delta),
+          orders!inner (
             order_number,
             table_number,
             guest_name,
             event_id,
-            profiles (full_name)
+            profiles!orders_waiter_id_fkey (full_name),
+            table:tables!orders_table_id_fkey!inner (zone_id)
           )
         `)
         .eq('station_type', type)
         .in('status', ['pending', 'dispatched'])
+        .eq('is_held', false)
+        .in('orders.table.zone_id', zones)
         .order('created_at', { ascending: true });
 
       if (error) throw error;
 
-      // Filter order items to only those where order.table_number + event_id match tables in user's zones
-      const filteredItems = (data || []).filter(item => {
-        const order = item.orders as any;
-        return tablesInZones.some(
-          t => t.table_number === order.table_number && t.event_id === order.event_id
-        );
-      });
+      setOrderItems(data || []);
 
-      setOrderItems(filteredItems);
+      // Later courses stay off the queue until fired; only their count is shown
+      const { data: heldData, error: heldError } = await supabase
+        .from('order_items')
+        .select('quantity, orders!inner (table_number, table:tables!orders_table_id_fkey!inner (zone_id))')
+        .eq('station_type', type)
+        .eq('status', 'pending')
+        .eq('is_held', true)
+        .in('orders.table.zone_id', zones);
+
+      if (heldError) throw heldError;
+
+      setHeldTables(countHeldByTable(heldData || []));
     } catch (error: any) {
       toast({
         title: "Error loading orders",
@@ -293,17 +397,6 @@ const Station = () => {
         return;
       }
 
-      // First get table numbers in user's assigned zones
-      const { data: tablesInZones } = await supabase
-        .from('tables')
-        .select('table_number, event_id')
-        .in('zone_id', zones);
-
-      if (!tablesInZones || tablesInZones.length === 0) {
-        setReturns([]);
-        return;
-      }
-
       const { data, error } = await supabase
         .from('order_returns')
         .select(`
@@ -315,24 +408,17 @@ const Station = () => {
             station_type,
             quantity,
             menu_items (name),
-            orders (order_number, table_number, event_id)
+            orders!inner (order_number, table_number, event_id, table:tables!orders_table_id_fkey!inner (zone_id))
           )
         `)
         .eq('order_items.station_type', type)
+        .in('order_items.orders.table.zone_id', zones)
         .is('confirmed_at', null)
         .order('created_at', { ascending: true });
 
       if (error) throw error;
 
-      // Filter returns to only those where order.table_number + event_id match tables in user's zones
-      const filteredReturns = (data || []).filter(returnItem => {
-        const order = (returnItem.order_items as any).orders;
-        return tablesInZones.some(
-          t => t.table_number === order.table_number && t.event_id === order.event_id
-        );
-      });
-
-      setReturns(filteredReturns);
+      setReturns(data || []);
     } catch (error: any) {
       toast({
         title: "Error loading returns",
@@ -342,6 +428,146 @@ const Station = () => {
     }
   };
 
+  const fetchUnavailableItems = async (station?: "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar", zoneIds?: string[]) => {
+    const type = station || stationType;
+    const zones = zoneIds || userZoneIds;
+    if (!type || zones.length === 0) {
+      setUnavailableItems([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('inventory_zone_allocations')
+        .select('menu_item_id, zone_id, unavailable_at, menu_items!inner(name, station_type), zones(name)')
+        .eq('is_available', false)
+        .eq('menu_items.station_type', type)
+        .in('zone_id', zones);
+
+      if (error) throw error;
+
+      setUnavailableItems(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading unavailable items",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchRestockRequests = async (zoneIds?: string[]) => {
+    const zones = zoneIds || userZoneIds;
+    if (zones.length === 0) {
+      setRestockRequests([]);
+      return;
+    }
+
+    try {
+      // Open requests plus anything resolved in the last hour
+      const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('restock_requests')
+        .select('*, menu_items(name), zones!restock_requests_zone_id_fkey(name)')
+        .in('zone_id', zones)
+        .or(`status.in.(pending,acknowledged),resolved_at.gte.${since}`)
+        .order('requested_at', { ascending: false });
+
+      if (error) throw error;
+
+      setRestockRequests(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading restock requests",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRequestRestock = (menuItemId: string, menuItemName: string, zoneId?: string) => {
+    setRestockItem({ id: menuItemId, name: menuItemName });
+    setRestockZoneId(zoneId || userZoneIds[0] || "");
+    setRestockQuantity("");
+    setRestockNotes("");
+  };
+
+  const submitRestockRequest = async () => {
+    if (!restockItem) return;
+
+    const quantity = parseInt(restockQuantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      toast({
+        title: "Invalid quantity",
+        description: "Enter how many units you need",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmittingRestock(true);
+    try {
+      const { error } = await supabase.rpc('request_restock', {
+        _menu_item_id: restockItem.id,
+        _zone_id: restockZoneId,
+        _quantity: quantity,
+        _notes: restockNotes,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Restock requested",
+        description: `A manager has been alerted to send ${quantity} × ${restockItem.name}`,
+      });
+
+      setRestockItem(null);
+      fetchRestockRequests();
+    } catch (error) {
+      toast({
+        title: "Error requesting restock",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingRestock(false);
+    }
+  };
+
+  const getRestockStatusVariant = (status: string) => {
+    switch (status) {
+      case 'fulfilled':
+        return 'default';
+      case 'declined':
+        return 'destructive';
+      default:
+        return 'secondary';
+    }
+  };
+
+  const handleClaim = async (itemId: string) => {
+    try {
+      const { error } = await supabase.rpc('claim_order_item', { _order_item_id: itemId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Item accepted",
+        description: "It is now in preparation under your name",
+      });
+
+      fetchOrderItems();
+    } catch (error) {
+      toast({
+        title: "Error accepting item",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      fetchOrderItems();
+    }
+  };
+
+  // Only the person who claimed the item marks it ready
   const handleMarkReady = async (itemId: string) => {
     try {
       const { error } = await supabase
@@ -349,7 +575,6 @@ const Station = () => {
         .update({
           status: 'ready',
           ready_at: new Date().toISOString(),
-          assigned_to: user?.id,
         })
         .eq('id', itemId);
 
@@ -370,38 +595,62 @@ const Station = () => {
     }
   };
 
-  const handleOutOfStock = async (menuItemId: string, menuItemName: string) => {
-    setOutOfStockItem({ id: menuItemId, name: menuItemName });
+  const handleOutOfStock = async (menuItemId: string, menuItemName: string, zoneId: string) => {
+    setOutOfStockItem({ id: menuItemId, name: menuItemName, zoneId });
+    setSubstituteId(NO_SUBSTITUTE);
+    setSubstituteOptions([]);
+
+    // Offer what the zone can still sell, same category first
+    const { data: zone } = await supabase
+      .from('zones')
+      .select('event_id')
+      .eq('id', zoneId)
+      .single();
+
+    if (!zone?.event_id) return;
+
+    const { data: items } = await supabase
+      .from('menu_items')
+      .select('id, name, price, category')
+      .eq('event_id', zone.event_id)
+      .eq('is_available', true)
+      .eq('is_retired', false)
+      .order('name');
+
+    const unavailableHere = new Set(
+      unavailableItems.filter(u => u.zone_id === zoneId).map(u => u.menu_item_id)
+    );
+    const category = items?.find(i => i.id === menuItemId)?.category;
+    setSubstituteOptions(
+      (items || [])
+        .filter(i => i.id !== menuItemId && !unavailableHere.has(i.id))
+        .sort((a, b) => Number(b.category === category) - Number(a.category === category))
+    );
   };
 
   const confirmOutOfStock = async () => {
     if (!outOfStockItem) return;
 
     try {
-      // Mark menu item as unavailable
-      const { error: menuError } = await supabase
-        .from('menu_items')
-        .update({ is_available: false })
-        .eq('id', outOfStockItem.id);
-
-      if (menuError) throw menuError;
-
-      // Reject all pending order items for this menu item
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .update({ status: 'rejected' })
-        .eq('menu_item_id', outOfStockItem.id)
-        .in('status', ['pending', 'dispatched']);
+      // Only this zone runs out; other zones keep selling the item
+      const { data: rejected, error } = await supabase.rpc('mark_zone_item_unavailable', {
+        _menu_item_id: outOfStockItem.id,
+        _zone_id: outOfStockItem.zoneId,
+        _substitute_menu_item_id: substituteId === NO_SUBSTITUTE ? undefined : substituteId,
+      });
 
-      if (itemsError) throw itemsError;
+      if (error) throw error;
 
+      const substitute = substituteOptions.find(o => o.id === substituteId);
       toast({
         title: "Item marked out of stock",
-        description: "All pending orders have been rejected",
+        description: `${rejected || 0} pending ${rejected === 1 ? 'order' : 'orders'} in this zone rejected`
+          + (substitute ? `, ${substitute.name} suggested instead` : ''),
       });
 
       setOutOfStockItem(null);
       fetchOrderItems();
+      fetchUnavailableItems();
     } catch (error: any) {
       toast({
         title: "Error marking out of stock",
@@ -411,6 +660,30 @@ const Station = () => {
     }
   };
 
+  const handleBackInStock = async (item: ZoneUnavailableItem) => {
+    try {
+      const { error } = await supabase.rpc('mark_zone_item_available', {
+        _menu_item_id: item.menu_item_id,
+        _zone_id: item.zone_id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Item back in stock",
+        description: `${item.menu_items.name} can be ordered again`,
+      });
+
+      fetchUnavailableItems();
+    } catch (error) {
+      toast({
+        title: "Error updating availability",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleConfirmReturn = async (returnId: string, orderItemId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -499,6 +772,9 @@ const Station = () => {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {stationType && (
+              <TimeClockButton userId={user?.id} role={stationType === "bar" ? "bar_staff" : stationType} />
+            )}
             <NotificationBell />
             <Button variant="ghost" size="icon" onClick={handleSignOut}>
               <LogOut className="h-5 w-5" />
@@ -549,10 +825,90 @@ const Station = () => {
           </div>
         )}
 
+        {/* Items out of stock in this station's zones */}
+        {unavailableItems.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <XCircle className="h-5 w-5" />
+              Out of Stock Here ({unavailableItems.length})
+            </h2>
+            {unavailableItems.map((item) => (
+              <Card key={`${item.menu_item_id}:${item.zone_id}`} className="p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{item.menu_items.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {userZoneIds.length > 1 && item.zones?.name ? `${item.zones.name} • ` : ''}
+                      {item.unavailable_at && `Since ${new Date(item.unavailable_at).toLocaleTimeString()}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRequestRestock(item.menu_item_id, item.menu_items.name, item.zone_id)}
+                    >
+                      <PackagePlus className="mr-2 h-4 w-4" />
+                      Restock
+                    </Button>
+                    <Button size="sm" onClick={() => handleBackInStock(item)}>
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                      Back in Stock
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Restock requests raised from this station's zones */}
+        {restockRequests.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <PackagePlus className="h-5 w-5" />
+              Restock Requests
+            </h2>
+            {restockRequests.map((request) => (
+              <Card key={request.id} className="p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">
+                      {request.quantity_fulfilled ?? request.quantity_requested} × {request.menu_items?.name || 'Unknown item'}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {userZoneIds.length > 1 && request.zones?.name ? `${request.zones.name} • ` : ''}
+                      {request.resolved_at
+                        ? `Resolved in ${formatMinutes(getMinutesBetween(request.requested_at, request.resolved_at))}`
+                        : `Waiting ${formatMinutes(getMinutesBetween(request.requested_at))}`}
+                    </div>
+                    {request.decline_reason && (
+                      <div className="text-xs text-destructive mt-1">{request.decline_reason}</div>
+                    )}
+                  </div>
+                  <Badge variant={getRestockStatusVariant(request.status)}>
+                    {RESTOCK_STATUS_LABELS[request.status as RestockRequestStatus] || request.status}
+                  </Badge>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
         {/* Order Items - Flat list sorted by status and time */}
         <div className="space-y-3">
           <h2 className="text-lg font-semibold">Active Orders</h2>
-          
+          {heldTables.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Held:</span>
+              {heldTables.map((held) => (
+                <Badge key={held.table_number} variant="outline">
+                  Table {held.table_number} • {held.quantity}
+                </Badge>
+              ))}
+            </div>
+          )}
+
           {orderItems.length === 0 ? (
             <Card className="p-8 text-center">
               <p className="text-muted-foreground">No pending orders</p>
@@ -566,6 +922,9 @@ const Station = () => {
                       <div>
                         <div className="font-semibold text-lg">
                           {item.orders.order_number}
+                          {item.course_number > 1 && (
+                            <Badge variant="outline" className="ml-2">{formatCourse(item.course_number)}</Badge>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground">
                           Table {item.orders.table_number || 'N/A'}
@@ -574,6 +933,12 @@ const Station = () => {
                         <div className="text-xs text-muted-foreground">
                           Waiter: {item.orders.profiles?.full_name || 'Unknown'}
                         </div>
+                        {item.assigned_to && (
+                          <div className="text-xs font-medium">
+                            {item.status === 'dispatched' ? 'Claimed by' : 'Assigned to'}{' '}
+                            {item.assigned_to === user?.id ? 'you' : item.assignee?.full_name || 'Unknown'}
+                          </div>
+                        )}
                       </div>
                       <Badge className={getStatusColor(item.status)}>
                         {item.status}
@@ -582,8 +947,18 @@ const Station = () => {
 
                     <div className="border-t border-border pt-3">
                       <div className="font-medium">{item.menu_items.name}</div>
+                      {item.order_item_modifiers?.length > 0 && (
+                        <ul className="text-sm mt-1 space-y-0.5">
+                          {item.order_item_modifiers.map((modifier, idx) => (
+                            <li key={idx}>
+                              <span className="text-muted-foreground">{modifier.group_name}:</span>{' '}
+                              <span className="font-medium">{modifier.option_name}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <div className="text-sm text-muted-foreground">
-                        Quantity: {item.quantity} • {formatPrice(item.menu_items.price)} each
+                        Quantity: {item.quantity} • {formatPrice(item.price)} each
                       </div>
                       {item.notes && (
                         <div className="text-sm text-muted-foreground mt-1">
@@ -597,16 +972,36 @@ const Station = () => {
                     </div>
 
                     <div className="flex gap-2">
+                      {item.status === 'pending' ? (
+                        <Button
+                          className="flex-1"
+                          disabled={!!item.assigned_to && item.assigned_to !== user?.id}
+                          onClick={() => handleClaim(item.id)}
+                        >
+                          <ChefHat className="mr-2 h-4 w-4" />
+                          Accept
+                        </Button>
+                      ) : (
+                        <Button
+                          className="flex-1"
+                          disabled={item.assigned_to !== user?.id}
+                          onClick={() => handleMarkReady(item.id)}
+                        >
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Mark Ready
+                        </Button>
+                      )}
                       <Button
-                        className="flex-1"
-                        onClick={() => handleMarkReady(item.id)}
+                        variant="outline"
+                        onClick={() => handleRequestRestock(item.menu_item_id, item.menu_items.name, item.orders.table?.zone_id)}
                       >
-                        <CheckCircle className="mr-2 h-4 w-4" />
-                        Mark Ready
+                        <PackagePlus className="mr-2 h-4 w-4" />
+                        Restock
                       </Button>
                       <Button
                         variant="destructive"
-                        onClick={() => handleOutOfStock(item.menu_item_id, item.menu_items.name)}
+                        disabled={!item.orders.table}
+                        onClick={() => item.orders.table && handleOutOfStock(item.menu_item_id, item.menu_items.name, item.orders.table.zone_id)}
                       >
                         <XCircle className="mr-2 h-4 w-4" />
                         Out of Stock
@@ -620,15 +1015,93 @@ const Station = () => {
         </div>
       </div>
 
+      {/* Restock Request Dialog */}
+      <Dialog open={!!restockItem} onOpenChange={(open) => !open && setRestockItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Restock</DialogTitle>
+            <DialogDescription>
+              Ask a manager to send more "{restockItem?.name}" to your zone before it runs out.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {userZoneIds.length > 1 && (
+              <div className="space-y-2">
+                <Label>Zone</Label>
+                <Select value={restockZoneId} onValueChange={setRestockZoneId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userZoneIds.map((zoneId, index) => (
+                      <SelectItem key={zoneId} value={zoneId}>
+                        {userZoneNames[index] || 'Zone'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="restock-quantity">Quantity</Label>
+              <Input
+                id="restock-quantity"
+                type="number"
+                min="1"
+                value={restockQuantity}
+                onChange={(e) => setRestockQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restock-notes">Notes (optional)</Label>
+              <Textarea
+                id="restock-notes"
+                value={restockNotes}
+                onChange={(e) => setRestockNotes(e.target.value)}
+                placeholder="e.g. Only 3 left on the shelf"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestockItem(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRestockRequest} disabled={submittingRestock || !restockZoneId}>
+              {submittingRestock && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Out of Stock Confirmation Dialog */}
       <AlertDialog open={!!outOfStockItem} onOpenChange={(open) => !open && setOutOfStockItem(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Mark Item Out of Stock?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will mark "{outOfStockItem?.name}" as unavailable for the event and reject all pending orders for this item. Waiters will be notified.
+              This will mark "{outOfStockItem?.name}" as unavailable in this zone and reject its pending orders from tables here. Other zones keep selling it. Consider requesting a restock instead.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Suggest a Substitute</Label>
+            <Select value={substituteId} onValueChange={setSubstituteId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SUBSTITUTE}>No substitute</SelectItem>
+                {substituteOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} ({formatPrice(option.price)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Waiters can add it to the order in one tap
+            </p>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={confirmOutOfStock}>
@@ -7,12 +7,14 @@ import { Loader2, Plus, LogOut, ChevronDown, ChevronRight } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { NotificationBell } from "@/components/NotificationBell";
+import { TimeClockButton } from "@/components/TimeClockButton";
 import { OfflineIndicator } from "@/components/OfflineIndicator";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
 import { OfflineStorage } from "@/lib/offlineStorage";
 import { offlineQueue } from "@/lib/offlineQueue";
 import { useAuthGuard } from "@/hooks/useAuthGuard";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { fetchCurrentRosterShift } from "@/lib/roster";
 import {
   Collapsible,
   CollapsibleContent,
@@ -33,10 +35,11 @@ const STATUS_PRIORITY: Record<string, number> = {
   pending: 1,
   dispatched: 2,
   ready: 3,
-  served: 4,
-  paid: 5,
-  rejected: 6,
-  returned: 7,
+  bumped: 4,
+  served: 5,
+  paid: 6,
+  rejected: 7,
+  returned: 8,
 };
 
 const Waiter = () => {
@@ -50,6 +53,7 @@ const Waiter = () => {
   const [usingCache, setUsingCache] = useState(false);
   const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
   const [userName, setUserName] = useState<string | null>(null);
+  const [rosterZoneName, setRosterZoneName] = useState<string | null>(null);
 
   // Fetch user profile name
   useEffect(() => {
@@ -182,10 +186,20 @@ const Waiter = () => {
 
       if (!user) return;
 
-      const { data, error } = await supabase
+      // While rostered on a waiter shift, only that shift's event is shown
+      const rosterShift = await fetchCurrentRosterShift(user.id, 'waiter');
+      setRosterZoneName(rosterShift?.zones?.name || null);
+
+      let query = supabase
         .from('orders')
         .select('*')
-        .eq('waiter_id', user.id)
+        .eq('waiter_id', user.id);
+
+      if (rosterShift) {
+        query = query.eq('event_id', rosterShift.event_id);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(20);
 
@@ -222,10 +236,9 @@ const Waiter = () => {
   const processQueuedRequest = async (request: any): Promise<boolean> => {
     try {
       if (request.type === 'order') {
-        // Process order creation
+        // Process order creation - request.data holds the create_order arguments
         const { error } = await supabase
-          .from('orders')
-          .insert(request.data);
+          .rpc('create_order', request.data);
         
         if (error) throw error;
         
@@ -260,6 +273,8 @@ const Waiter = () => {
         return 'bg-accent text-accent-foreground';
       case 'ready':
         return 'bg-success text-success-foreground';
+      case 'bumped':
+        return 'bg-primary text-primary-foreground';
       case 'served':
         return 'bg-served text-served-foreground';
       case 'paid':
@@ -294,10 +309,12 @@ const Waiter = () => {
               <h1 className="text-xl font-bold">Waiter Station</h1>
               <p className="text-sm text-muted-foreground">
                 {userName ? `Welcome, ${userName}` : 'Manage your orders'}
+                {rosterZoneName && ` • ${rosterZoneName}`}
               </p>
             </div>
             <div className="flex items-center gap-2">
               <OfflineIndicator />
+              <TimeClockButton userId={user?.id} role="waiter" />
               <NotificationBell />
               <Button variant="ghost" size="icon" onClick={handleSignOut}>
                 <LogOut className="h-5 w-5" />
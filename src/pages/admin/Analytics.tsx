@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -28,6 +29,7 @@ import {
   Target,
   Award,
   AlertTriangle,
+  Percent,
 } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import {
@@ -37,6 +39,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { AdjustmentAction, AdjustmentDetails, ADJUSTMENT_ACTIONS, ADJUSTMENT_LABELS } from "@/lib/orderDiscounts";
+import { MenuItemSales, getGrossProfit, getMarginPercentage } from "@/lib/menuEngineering";
+import { MenuEngineeringMatrix } from "@/components/MenuEngineeringMatrix";
 
 const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8", "#82ca9d"];
 
@@ -47,8 +52,14 @@ interface RevenueLossData {
   byCategory: { category: string; amount: number }[];
   byReason: { reason: string; count: number; amount: number }[];
   byDate: { date: string; amount: number; count: number }[];
+  adjustmentLoss: number;
+  bySource: { source: string; count: number; amount: number }[];
 }
 
+type StationEfficiency = Database["public"]["Functions"]["get_station_efficiency"]["Returns"][number];
+
+type SlaBreakdown = "station" | "staff" | "hour";
+
 interface EventOption {
   id: string;
   name: string;
@@ -65,7 +76,9 @@ export default function Analytics() {
 
   const [peakHours, setPeakHours] = useState<any[]>([]);
   const [popularItems, setPopularItems] = useState<any[]>([]);
-  const [stationEfficiency, setStationEfficiency] = useState<any[]>([]);
+  const [menuItemSales, setMenuItemSales] = useState<MenuItemSales[]>([]);
+  const [stationEfficiency, setStationEfficiency] = useState<StationEfficiency[]>([]);
+  const [slaBreakdown, setSlaBreakdown] = useState<SlaBreakdown>("station");
   const [waiterPerformance, setWaiterPerformance] = useState<any[]>([]);
   const [revenueTrends, setRevenueTrends] = useState<any[]>([]);
   const [categoryPerformance, setCategoryPerformance] = useState<any[]>([]);
@@ -76,6 +89,8 @@ export default function Analytics() {
     byCategory: [],
     byReason: [],
     byDate: [],
+    adjustmentLoss: 0,
+    bySource: [],
   });
 
   useEffect(() => {
@@ -94,6 +109,13 @@ export default function Analytics() {
     }
   }, [tenantId, dateRange, selectedEventId]);
 
+  useEffect(() => {
+    if (tenantId) {
+      const { start, end } = getDateRange();
+      fetchStationEfficiency(start, end);
+    }
+  }, [slaBreakdown]);
+
   const fetchEventsInRange = async () => {
     const { start, end } = getDateRange();
     const { data, error } = await supabase
@@ -242,6 +264,35 @@ export default function Analytics() {
       });
     });
 
+    // Discounts, comps and voids from the audit log, each reported as its own line
+    let adjustmentQuery = supabase
+      .from("audit_logs")
+      .select("action, details")
+      .eq("tenant_id", tenantId)
+      .in("action", ADJUSTMENT_ACTIONS)
+      .gte("created_at", start)
+      .lte("created_at", end);
+
+    if (selectedEventId !== "all") {
+      adjustmentQuery = adjustmentQuery.eq("details->>event_id", selectedEventId);
+    }
+
+    const { data: adjustments } = await adjustmentQuery;
+
+    const sourceMap = new Map<string, { count: number; amount: number }>([
+      ["Returns", { count: filteredReturns.length, amount: totalLoss }],
+    ]);
+    ADJUSTMENT_ACTIONS.forEach(action => sourceMap.set(ADJUSTMENT_LABELS[action], { count: 0, amount: 0 }));
+
+    let adjustmentLoss = 0;
+    (adjustments || []).forEach((log) => {
+      const label = ADJUSTMENT_LABELS[log.action as AdjustmentAction];
+      const amount = Number((log.details as unknown as AdjustmentDetails).amount || 0);
+      const existing = sourceMap.get(label)!;
+      sourceMap.set(label, { count: existing.count + 1, amount: existing.amount + amount });
+      adjustmentLoss += amount;
+    });
+
     setRevenueLossData({
       totalLoss,
       confirmedLoss,
@@ -255,6 +306,9 @@ export default function Analytics() {
       byDate: Array.from(dateMap.entries())
         .map(([date, data]) => ({ date, ...data }))
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+      adjustmentLoss,
+      bySource: Array.from(sourceMap.entries())
+        .map(([source, data]) => ({ source, ...data })),
     });
   };
 
@@ -315,6 +369,7 @@ export default function Analytics() {
     const { data: orders } = await ordersQuery;
     if (!orders || orders.length === 0) {
       setPopularItems([]);
+      setMenuItemSales([]);
       return;
     }
 
@@ -330,7 +385,8 @@ export default function Analytics() {
         order_id,
         menu_items (
           name,
-          category
+          category,
+          cost_price
         )
       `)
       .in("order_id", orderIds);
@@ -342,6 +398,7 @@ export default function Analytics() {
           item_id: item.menu_item_id,
           item_name: item.menu_items?.name || "Unknown",
           category: item.menu_items?.category || "Unknown",
+          cost_price: item.menu_items?.cost_price ?? null,
           total_quantity: 0,
           total_revenue: 0,
           order_count: new Set(),
@@ -352,13 +409,31 @@ export default function Analytics() {
         itemMap.set(item.menu_item_id, existing);
       });
 
+      const items = Array.from(itemMap.values());
+
+      setMenuItemSales(
+        items.map(item => ({
+          item_id: item.item_id,
+          item_name: item.item_name,
+          category: item.category,
+          quantity: item.total_quantity,
+          revenue: item.total_revenue,
+          cost_price: item.cost_price === null ? null : Number(item.cost_price),
+        }))
+      );
+
       setPopularItems(
-        Array.from(itemMap.values())
-          .map(item => ({
-            ...item,
-            order_count: item.order_count.size,
-            avg_price: item.total_revenue / item.total_quantity,
-          }))
+        items
+          .map(item => {
+            const grossProfit = getGrossProfit(item.total_revenue, item.total_quantity, item.cost_price === null ? null : Number(item.cost_price));
+            return {
+              ...item,
+              order_count: item.order_count.size,
+              avg_price: item.total_revenue / item.total_quantity,
+              gross_profit: grossProfit,
+              margin_percentage: getMarginPercentage(item.total_revenue, grossProfit),
+            };
+          })
           .sort((a, b) => b.total_quantity - a.total_quantity)
           .slice(0, 10)
       );
@@ -366,61 +441,19 @@ export default function Analytics() {
   };
 
   const fetchStationEfficiency = async (start: string, end: string) => {
-    // Get orders with optional event filter
-    let ordersQuery = supabase
-      .from("orders")
-      .select("id")
-      .eq("tenant_id", tenantId)
-      .gte("created_at", start)
-      .lte("created_at", end);
-
-    if (selectedEventId !== "all") {
-      ordersQuery = ordersQuery.eq("event_id", selectedEventId);
-    }
-
-    const { data: orders } = await ordersQuery;
-    if (!orders || orders.length === 0) {
-      setStationEfficiency([]);
-      return;
-    }
-
-    const orderIds = orders.map(o => o.id);
-
-    // Get order items with ready_at for those orders
-    const { data: orderItems, error } = await supabase
-      .from("order_items")
-      .select("station_type, created_at, ready_at")
-      .in("order_id", orderIds)
-      .not("ready_at", "is", null);
-
-    if (!error && orderItems) {
-      const stationMap = new Map<string, any>();
-      orderItems.forEach((item: any) => {
-        const prepTime = (new Date(item.ready_at).getTime() - new Date(item.created_at).getTime()) / 60000; // minutes
-        const existing = stationMap.get(item.station_type) || {
-          station_type: item.station_type,
-          total_items: 0,
-          total_prep_time: 0,
-          items_on_time: 0,
-          items_delayed: 0,
-        };
-        existing.total_items += 1;
-        existing.total_prep_time += prepTime;
-        if (prepTime <= 10) {
-          existing.items_on_time += 1;
-        } else {
-          existing.items_delayed += 1;
-        }
-        stationMap.set(item.station_type, existing);
-      });
+    if (!tenantId) return;
+
+    // Each item is measured against its own prep target
+    const { data, error } = await supabase.rpc("get_station_efficiency", {
+      _start_date: start,
+      _end_date: end,
+      _tenant_id: tenantId,
+      _event_id: selectedEventId !== "all" ? selectedEventId : undefined,
+      _group_by: slaBreakdown,
+    });
 
-      setStationEfficiency(
-        Array.from(stationMap.values()).map(station => ({
-          ...station,
-          avg_prep_time_minutes: station.total_prep_time / station.total_items,
-          efficiency_percentage: (station.items_on_time / station.total_items) * 100,
-        }))
-      );
+    if (!error && data) {
+      setStationEfficiency(data);
     }
   };
 
@@ -550,28 +583,38 @@ export default function Analytics() {
         quantity,
         price,
         menu_items (
-          category
+          category,
+          cost_price
         )
       `)
       .in("order_id", orderIds);
 
     if (!error && orderItems) {
-      const categoryMap = new Map<string, number>();
+      const categoryMap = new Map<string, { value: number; costedRevenue: number; grossProfit: number }>();
       let grandTotal = 0;
 
       orderItems.forEach((item: any) => {
         const revenue = item.price * item.quantity;
         const category = item.menu_items?.category || "Unknown";
-        categoryMap.set(category, (categoryMap.get(category) || 0) + revenue);
+        const existing = categoryMap.get(category) || { value: 0, costedRevenue: 0, grossProfit: 0 };
+        existing.value += revenue;
+        // Margin only counts items with a cost price
+        if (item.menu_items?.cost_price !== null && item.menu_items?.cost_price !== undefined) {
+          existing.costedRevenue += revenue;
+          existing.grossProfit += revenue - Number(item.menu_items.cost_price) * item.quantity;
+        }
+        categoryMap.set(category, existing);
         grandTotal += revenue;
       });
 
       setCategoryPerformance(
         Array.from(categoryMap.entries())
-          .map(([name, value]) => ({
+          .map(([name, data]) => ({
             name,
-            value,
-            percentage: grandTotal > 0 ? (value / grandTotal) * 100 : 0,
+            value: data.value,
+            percentage: grandTotal > 0 ? (data.value / grandTotal) * 100 : 0,
+            gross_profit: data.grossProfit,
+            margin_percentage: getMarginPercentage(data.costedRevenue, data.costedRevenue > 0 ? data.grossProfit : null),
           }))
           .sort((a, b) => b.value - a.value)
       );
@@ -699,6 +742,7 @@ export default function Analytics() {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="items">Popular Items</TabsTrigger>
+          <TabsTrigger value="margins">Margins</TabsTrigger>
           <TabsTrigger value="staff">Staff Performance</TabsTrigger>
           <TabsTrigger value="stations">Station Efficiency</TabsTrigger>
           <TabsTrigger value="losses">Revenue Loss</TabsTrigger>
@@ -834,6 +878,11 @@ export default function Analytics() {
                       <p className="text-sm text-muted-foreground">
                         {formatPrice(parseFloat(item.total_revenue))} revenue
                       </p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.gross_profit !== null
+                          ? `${formatPrice(item.gross_profit)} profit (${item.margin_percentage?.toFixed(1) ?? '0.0'}%)`
+                          : "No cost price"}
+                      </p>
                     </div>
                   </div>
                 ))}
@@ -842,6 +891,48 @@ export default function Analytics() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="margins" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Gross Profit by Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={categoryPerformance}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatPrice(value)} />
+                  <Legend />
+                  <Bar dataKey="value" fill="#8884d8" name="Revenue" />
+                  <Bar dataKey="gross_profit" fill="#82ca9d" name="Gross Profit" />
+                </BarChart>
+              </ResponsiveContainer>
+              <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3 mt-4">
+                {categoryPerformance.map((category) => (
+                  <div key={category.name} className="p-3 border rounded-lg">
+                    <p className="font-semibold">{category.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {category.margin_percentage !== null
+                        ? `${category.margin_percentage.toFixed(1)}% margin`
+                        : "No cost prices"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Menu Engineering</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MenuEngineeringMatrix items={menuItemSales} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="staff" className="space-y-4">
           <Card>
             <CardHeader>
@@ -881,12 +972,29 @@ export default function Analytics() {
         </TabsContent>
 
         <TabsContent value="stations" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              On time means ready within the item's own prep target
+            </p>
+            <Select value={slaBreakdown} onValueChange={(value) => setSlaBreakdown(value as SlaBreakdown)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="station">By Station</SelectItem>
+                <SelectItem value="staff">By Staff</SelectItem>
+                <SelectItem value="hour">By Hour</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {stationEfficiency.map((station) => (
-              <Card key={station.station_type}>
+              <Card key={station.group_key ?? "unassigned"}>
                 <CardHeader>
                   <CardTitle className="capitalize">
-                    {station.station_type.replace("_", " ")}
+                    {slaBreakdown === "hour"
+                      ? new Date(station.group_key).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })
+                      : station.group_label}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -896,9 +1004,12 @@ export default function Analytics() {
                       <p className="text-2xl font-bold">{station.total_items}</p>
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Avg Prep Time</p>
+                      <p className="text-sm text-muted-foreground">Avg Prep / Target</p>
                       <p className="text-2xl font-bold">
-                        {parseFloat(station.avg_prep_time_minutes).toFixed(1)}m
+                        {Number(station.avg_prep_time_minutes || 0).toFixed(1)}m
+                        <span className="text-base font-normal text-muted-foreground">
+                          {" "}/ {Number(station.avg_target_minutes).toFixed(0)}m
+                        </span>
                       </p>
                     </div>
                     <div>
@@ -908,24 +1019,31 @@ export default function Analytics() {
                       </p>
                     </div>
                     <div>
-                      <p className="text-sm text-muted-foreground">Delayed</p>
+                      <p className="text-sm text-muted-foreground">Breached</p>
                       <p className="text-2xl font-bold text-red-600">
                         {station.items_delayed}
                       </p>
                     </div>
                   </div>
+                  {station.items_delayed > 0 && (
+                    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                      <span>Backlog: {station.backlog_breaches}</span>
+                      <span>• Out of stock: {station.out_of_stock_breaches}</span>
+                      <span>• Returns: {station.return_breaches}</span>
+                    </div>
+                  )}
                   <div className="pt-4 border-t">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Efficiency Rate</span>
+                      <span className="text-sm font-medium">SLA Attainment</span>
                       <span className="text-xl font-bold">
-                        {parseFloat(station.efficiency_percentage || 0).toFixed(1)}%
+                        {Number(station.efficiency_percentage || 0).toFixed(1)}%
                       </span>
                     </div>
                     <div className="mt-2 h-2 bg-secondary rounded-full overflow-hidden">
                       <div
                         className="h-full bg-primary rounded-full transition-all"
                         style={{
-                          width: `${Math.min(parseFloat(station.efficiency_percentage || 0), 100)}%`,
+                          width: `${Math.min(Number(station.efficiency_percentage || 0), 100)}%`,
                         }}
                       />
                     </div>
@@ -938,7 +1056,7 @@ export default function Analytics() {
 
         <TabsContent value="losses" className="space-y-4">
           {/* Revenue Loss KPI Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium">Total Revenue Loss</CardTitle>
@@ -977,8 +1095,44 @@ export default function Analytics() {
                 <p className="text-xs text-muted-foreground">Awaiting cashier confirmation</p>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Discounts, Comps & Voids</CardTitle>
+                <Percent className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPrice(revenueLossData.adjustmentLoss)}</div>
+                <p className="text-xs text-muted-foreground">Manager approved</p>
+              </CardContent>
+            </Card>
           </div>
 
+          {/* Loss by Source */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Losses by Source</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {revenueLossData.bySource.map((item) => (
+                  <div
+                    key={item.source}
+                    className="flex items-center justify-between p-4 border rounded-lg"
+                  >
+                    <div>
+                      <p className="font-semibold">{item.source}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.count} {item.count === 1 ? "entry" : "entries"}
+                      </p>
+                    </div>
+                    <p className="font-bold text-destructive">{formatPrice(item.amount)}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             {/* Loss by Category */}
             <Card>
@@ -10,11 +10,18 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { PackageSearch, TrendingDown, History, AlertTriangle, Loader2, MapPin, Repeat } from "lucide-react";
+import { PackageSearch, TrendingDown, History, AlertTriangle, Loader2, MapPin, Repeat, ListChecks, Plus, Pencil, Truck } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ZoneAllocationDialog } from "@/components/inventory/ZoneAllocationDialog";
 import { ZoneTransferDialog } from "@/components/inventory/ZoneTransferDialog";
+import { IngredientDialog } from "@/components/inventory/IngredientDialog";
+import { RecipeDialog } from "@/components/inventory/RecipeDialog";
+import { PurchaseOrderDialog, PurchaseOrderSuggestion } from "@/components/inventory/PurchaseOrderDialog";
+import { StockCountPanel } from "@/components/inventory/StockCountPanel";
+import { RestockQueue } from "@/components/inventory/RestockQueue";
+import { Ingredient, RecipeItem, formatPacks, formatQuantity, getRecipeAvailability } from "@/lib/ingredients";
+import { Supplier } from "@/lib/purchasing";
 
 interface MenuItem {
   id: string;
@@ -63,14 +70,27 @@ export default function AdminInventory() {
   const [zoneAllocationDialog, setZoneAllocationDialog] = useState(false);
   const [zoneTransferDialog, setZoneTransferDialog] = useState(false);
   const [selectedItemForZone, setSelectedItemForZone] = useState<MenuItem | null>(null);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipeItems, setRecipeItems] = useState<RecipeItem[]>([]);
+  const [ingredientDialog, setIngredientDialog] = useState(false);
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [recipeDialog, setRecipeDialog] = useState(false);
+  const [recipeMenuItem, setRecipeMenuItem] = useState<MenuItem | null>(null);
+  const [ingredientAdjustDialog, setIngredientAdjustDialog] = useState(false);
+  const [adjustingIngredient, setAdjustingIngredient] = useState<Ingredient | null>(null);
+  const [newIngredientStock, setNewIngredientStock] = useState("");
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrderDialog, setPurchaseOrderDialog] = useState(false);
 
   useEffect(() => {
     fetchEvents();
+    fetchSuppliers();
   }, []);
 
   useEffect(() => {
     if (selectedEvent) {
       fetchMenuItems();
+      fetchIngredients();
       fetchAdjustmentHistory();
       fetchUsageAnalytics();
       subscribeToInventoryChanges();
@@ -98,6 +118,21 @@ export default function AdminInventory() {
     setIsLoading(false);
   };
 
+  const fetchSuppliers = async () => {
+    const { data, error } = await supabase
+      .from("suppliers")
+      .select("id, name, contact_name, email, phone, notes, is_active")
+      .eq("is_active", true)
+      .order("name", { ascending: true });
+
+    if (error) {
+      toast.error("Failed to load suppliers");
+      return;
+    }
+
+    setSuppliers(data || []);
+  };
+
   const fetchMenuItems = async () => {
     const { data, error } = await supabase
       .from("menu_items")
@@ -114,12 +149,33 @@ export default function AdminInventory() {
     setMenuItems(data || []);
   };
 
+  const fetchIngredients = async () => {
+    const { data, error } = await supabase
+      .from("ingredients")
+      .select("id, name, unit, pack_size, pack_label, starting_stock, current_stock")
+      .eq("event_id", selectedEvent)
+      .order("name", { ascending: true });
+
+    if (error) {
+      toast.error("Failed to load ingredients");
+      return;
+    }
+
+    const { data: recipes } = await supabase
+      .from("recipe_items")
+      .select("id, menu_item_id, ingredient_id, quantity, menu_items!inner (event_id)")
+      .eq("menu_items.event_id", selectedEvent);
+
+    setIngredients(data || []);
+    setRecipeItems((recipes || []).map(({ menu_items, ...recipe }) => recipe));
+  };
+
   const fetchAdjustmentHistory = async () => {
     const { data, error } = await supabase
       .from("audit_logs")
       .select("*")
-      .eq("action", "inventory_adjustment")
-      .eq("resource_type", "menu_item")
+      .in("action", ["inventory_adjustment", "stock_received"])
+      .in("resource_type", ["menu_item", "ingredient"])
       .order("created_at", { ascending: false })
       .limit(50);
 
@@ -168,6 +224,16 @@ export default function AdminInventory() {
           fetchUsageAnalytics();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'ingredients',
+          filter: `event_id=eq.${selectedEvent}`
+        },
+        () => fetchIngredients()
+      )
       .subscribe();
 
     return () => {
@@ -234,6 +300,82 @@ export default function AdminInventory() {
     fetchUsageAnalytics();
   };
 
+  const handleAdjustIngredient = async () => {
+    if (!adjustingIngredient || adjustmentReason.trim() === "") {
+      toast.error("Please provide a reason for the adjustment");
+      return;
+    }
+
+    // Counted in packs when the ingredient has a pack size
+    const newStock = (parseFloat(newIngredientStock) || 0) * (adjustingIngredient.pack_size || 1);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile) return;
+
+    const { error: updateError } = await supabase
+      .from("ingredients")
+      .update({ current_stock: newStock })
+      .eq("id", adjustingIngredient.id);
+
+    if (updateError) {
+      toast.error("Failed to adjust ingredient stock");
+      return;
+    }
+
+    const { error: logError } = await supabase
+      .from("audit_logs")
+      .insert({
+        action: "inventory_adjustment",
+        resource_type: "ingredient",
+        resource_id: adjustingIngredient.id,
+        tenant_id: profile.tenant_id,
+        user_id: user.id,
+        details: {
+          item_name: adjustingIngredient.name,
+          old_quantity: Number(adjustingIngredient.current_stock),
+          new_quantity: newStock,
+          unit: adjustingIngredient.unit,
+          reason: adjustmentReason
+        }
+      });
+
+    if (logError) {
+      console.error("Failed to log adjustment:", logError);
+    }
+
+    toast.success("Ingredient stock adjusted");
+    setIngredientAdjustDialog(false);
+    setAdjustingIngredient(null);
+    setNewIngredientStock("");
+    setAdjustmentReason("");
+    fetchIngredients();
+    fetchAdjustmentHistory();
+  };
+
+  const openIngredientAdjustDialog = (ingredient: Ingredient) => {
+    setAdjustingIngredient(ingredient);
+    setNewIngredientStock(String(Number((Number(ingredient.current_stock) / (ingredient.pack_size || 1)).toFixed(2))));
+    setIngredientAdjustDialog(true);
+  };
+
+  const openIngredientDialog = (ingredient: Ingredient | null) => {
+    setEditingIngredient(ingredient);
+    setIngredientDialog(true);
+  };
+
+  const openRecipeDialog = (item: MenuItem) => {
+    setRecipeMenuItem(item);
+    setRecipeDialog(true);
+  };
+
   const openAdjustmentDialog = (item: MenuItem) => {
     setSelectedItem(item);
     setNewQuantity(item.current_inventory);
@@ -264,8 +406,38 @@ export default function AdminInventory() {
     });
   };
 
+  const getLowStockIngredients = () => {
+    return ingredients.filter(ingredient => {
+      const stockPercentage = ingredient.starting_stock > 0
+        ? (ingredient.current_stock / ingredient.starting_stock) * 100
+        : 0;
+      return stockPercentage < 20;
+    });
+  };
+
+  // Low stock lines topped back up to their starting level
+  const getPurchaseOrderSuggestions = (): PurchaseOrderSuggestion[] => [
+    ...lowStockItems.map(item => ({
+      menuItemId: item.id,
+      quantity: item.starting_inventory - item.current_inventory,
+    })),
+    ...getLowStockIngredients()
+      .filter(ingredient => ingredient.starting_stock > ingredient.current_stock)
+      .map(ingredient => ({
+        ingredientId: ingredient.id,
+        quantity: ingredient.starting_stock - ingredient.current_stock,
+      })),
+  ];
+
   const getOutOfStockItems = () => {
-    return menuItems.filter(item => item.current_inventory === 0);
+    return menuItems.filter(item =>
+      item.current_inventory === 0 || getRecipeAvailability(item.id, recipeItems, ingredients)?.servings === 0
+    );
+  };
+
+  const getIngredientUsage = (ingredientId: string) => {
+    const menuItemIds = recipeItems.filter(r => r.ingredient_id === ingredientId).map(r => r.menu_item_id);
+    return menuItems.filter(item => menuItemIds.includes(item.id));
   };
 
   const getReorderSuggestions = () => {
@@ -275,6 +447,10 @@ export default function AdminInventory() {
       .slice(0, 10);
   };
 
+  // Ingredient adjustments are logged in base units; menu item ones are plain counts
+  const formatHistoryQuantity = (quantity: number, unit?: string) =>
+    unit ? formatQuantity(quantity, unit) : String(quantity);
+
   const groupedItems = menuItems.reduce((acc, item) => {
     if (!acc[item.category]) {
       acc[item.category] = [];
@@ -385,9 +561,12 @@ export default function AdminInventory() {
       <Tabs defaultValue="inventory" className="space-y-4">
         <TabsList>
           <TabsTrigger value="inventory">Current Inventory</TabsTrigger>
+          <TabsTrigger value="ingredients">Ingredients</TabsTrigger>
           <TabsTrigger value="analytics">Usage Analytics</TabsTrigger>
           <TabsTrigger value="reorder">Reorder Suggestions</TabsTrigger>
           <TabsTrigger value="history">Adjustment History</TabsTrigger>
+          <TabsTrigger value="count">Stock Count</TabsTrigger>
+          <TabsTrigger value="restock">Restock Requests</TabsTrigger>
         </TabsList>
 
         <TabsContent value="inventory" className="space-y-4">
@@ -408,6 +587,7 @@ export default function AdminInventory() {
                           <TableHead>Starting</TableHead>
                           <TableHead>Current</TableHead>
                           <TableHead>Sold</TableHead>
+                          <TableHead>Can Make</TableHead>
                           <TableHead>Status</TableHead>
                           <TableHead>Actions</TableHead>
                         </TableRow>
@@ -418,6 +598,7 @@ export default function AdminInventory() {
                           const stockPercentage = item.starting_inventory > 0 
                             ? (item.current_inventory / item.starting_inventory) * 100 
                             : 0;
+                          const recipe = getRecipeAvailability(item.id, recipeItems, ingredients);
                           
                           return (
                             <TableRow key={item.id}>
@@ -425,8 +606,11 @@ export default function AdminInventory() {
                               <TableCell>{item.starting_inventory}</TableCell>
                               <TableCell>{item.current_inventory}</TableCell>
                               <TableCell>{sold}</TableCell>
+                              <TableCell>{recipe ? recipe.servings : "-"}</TableCell>
                               <TableCell>
-                                {stockPercentage === 0 ? (
+                                {recipe?.servings === 0 ? (
+                                  <Badge variant="destructive">Out of {recipe.limiting?.name || "ingredient"}</Badge>
+                                ) : stockPercentage === 0 ? (
                                   <Badge variant="destructive">Out of Stock</Badge>
                                 ) : stockPercentage < 20 ? (
                                   <Badge variant="destructive">Low Stock</Badge>
@@ -445,6 +629,14 @@ export default function AdminInventory() {
                                   >
                                     Adjust
                                   </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => openRecipeDialog(item)}
+                                    title="Edit recipe"
+                                  >
+                                    <ListChecks className="h-4 w-4" />
+                                  </Button>
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -475,6 +667,100 @@ export default function AdminInventory() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="ingredients" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Ingredients</CardTitle>
+                <CardDescription>Stock used by menu item recipes, in the units it is bought in</CardDescription>
+              </div>
+              <Button onClick={() => openIngredientDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Ingredient
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {ingredients.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No ingredients yet. Add ingredients, then give menu items a recipe to track stock by what goes into them.
+                </div>
+              ) : (
+                <ScrollArea className="h-[600px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ingredient</TableHead>
+                        <TableHead>In Stock</TableHead>
+                        <TableHead>Used</TableHead>
+                        <TableHead>Used In</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ingredients.map((ingredient) => {
+                        const current = Number(ingredient.current_stock);
+                        const starting = Number(ingredient.starting_stock);
+                        const stockPercentage = starting > 0 ? (current / starting) * 100 : 0;
+                        const usedIn = getIngredientUsage(ingredient.id);
+                        return (
+                          <TableRow key={ingredient.id}>
+                            <TableCell className="font-medium">{ingredient.name}</TableCell>
+                            <TableCell>
+                              <div>{formatPacks(current, ingredient)}</div>
+                              {ingredient.pack_size && (
+                                <div className="text-xs text-muted-foreground">{formatQuantity(current, ingredient.unit)}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatQuantity(Math.max(0, starting - current), ingredient.unit)}</TableCell>
+                            <TableCell className="max-w-[250px]">
+                              <div className="flex flex-wrap gap-1">
+                                {usedIn.map(item => (
+                                  <Badge key={item.id} variant="outline" className="text-xs">{item.name}</Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {current <= 0 ? (
+                                <Badge variant="destructive">Out of Stock</Badge>
+                              ) : stockPercentage < 20 ? (
+                                <Badge variant="destructive">Low Stock</Badge>
+                              ) : stockPercentage < 50 ? (
+                                <Badge className="bg-yellow-500">Medium</Badge>
+                              ) : (
+                                <Badge className="bg-green-500">In Stock</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openIngredientAdjustDialog(ingredient)}
+                                >
+                                  Adjust
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openIngredientDialog(ingredient)}
+                                  title="Edit ingredient"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="analytics" className="space-y-4">
           <Card>
             <CardHeader>
@@ -524,9 +810,15 @@ export default function AdminInventory() {
 
         <TabsContent value="reorder" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle>Reorder Suggestions</CardTitle>
-              <CardDescription>Items running low that need restocking</CardDescription>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Reorder Suggestions</CardTitle>
+                <CardDescription>Items running low that need restocking</CardDescription>
+              </div>
+              <Button onClick={() => setPurchaseOrderDialog(true)}>
+                <Truck className="h-4 w-4 mr-2" />
+                Create Purchase Order
+              </Button>
             </CardHeader>
             <CardContent>
               <Table>
@@ -593,11 +885,11 @@ export default function AdminInventory() {
                           <TableCell className="font-medium">
                             {adjustment.details.item_name}
                           </TableCell>
-                          <TableCell>{adjustment.details.old_quantity}</TableCell>
-                          <TableCell>{adjustment.details.new_quantity}</TableCell>
+                          <TableCell>{formatHistoryQuantity(adjustment.details.old_quantity, adjustment.details.unit)}</TableCell>
+                          <TableCell>{formatHistoryQuantity(adjustment.details.new_quantity, adjustment.details.unit)}</TableCell>
                           <TableCell>
                             <span className={change >= 0 ? "text-green-500" : "text-destructive"}>
-                              {change >= 0 ? "+" : ""}{change}
+                              {change >= 0 ? "+" : "-"}{formatHistoryQuantity(Math.abs(change), adjustment.details.unit)}
                             </span>
                           </TableCell>
                           <TableCell className="max-w-[300px] truncate">
@@ -612,6 +904,21 @@ export default function AdminInventory() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="restock" className="space-y-4">
+          <RestockQueue eventId={selectedEvent} onFulfilled={fetchMenuItems} />
+        </TabsContent>
+
+        <TabsContent value="count" className="space-y-4">
+          <StockCountPanel
+            eventId={selectedEvent}
+            onCompleted={() => {
+              fetchMenuItems();
+              fetchAdjustmentHistory();
+              fetchUsageAnalytics();
+            }}
+          />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={adjustmentDialog} onOpenChange={setAdjustmentDialog}>
@@ -660,6 +967,84 @@ export default function AdminInventory() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={ingredientAdjustDialog} onOpenChange={setIngredientAdjustDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Ingredient Stock</DialogTitle>
+            <DialogDescription>
+              Update stock level for {adjustingIngredient?.name}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>
+                Current Stock: {adjustingIngredient && formatPacks(Number(adjustingIngredient.current_stock), adjustingIngredient)}
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="newIngredientStock">
+                New Stock ({adjustingIngredient?.pack_size ? `${adjustingIngredient.pack_label || "pack"}s` : adjustingIngredient?.unit})
+              </Label>
+              <Input
+                id="newIngredientStock"
+                type="number"
+                min="0"
+                step="any"
+                value={newIngredientStock}
+                onChange={(e) => setNewIngredientStock(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ingredientReason">Reason for Adjustment *</Label>
+              <Textarea
+                id="ingredientReason"
+                placeholder="e.g., Physical count correction, breakage, delivery..."
+                value={adjustmentReason}
+                onChange={(e) => setAdjustmentReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIngredientAdjustDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdjustIngredient}>Save Adjustment</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <IngredientDialog
+        open={ingredientDialog}
+        onOpenChange={setIngredientDialog}
+        ingredient={editingIngredient}
+        eventId={selectedEvent}
+        onSaved={fetchIngredients}
+      />
+
+      <RecipeDialog
+        open={recipeDialog}
+        onOpenChange={setRecipeDialog}
+        menuItem={recipeMenuItem}
+        ingredients={ingredients}
+        recipeItems={recipeItems}
+        onSaved={fetchIngredients}
+      />
+
+      <PurchaseOrderDialog
+        open={purchaseOrderDialog}
+        onOpenChange={setPurchaseOrderDialog}
+        eventId={selectedEvent}
+        suppliers={suppliers}
+        menuItems={menuItems}
+        ingredients={ingredients}
+        suggestions={getPurchaseOrderSuggestions()}
+      />
+
       <ZoneAllocationDialog
         open={zoneAllocationDialog}
         onOpenChange={setZoneAllocationDialog}
@@ -0,0 +1,720 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Monitor, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Constants } from "@/integrations/supabase/types";
+import {
+  DEFAULT_CRITICAL_PERCENT,
+  DEFAULT_WARNING_PERCENT,
+  KDS_SCREEN_POLL_SECONDS,
+  KDS_VIEW_MODES,
+  KdsProfile,
+  KdsScreen,
+  StationType,
+  describeKdsRouting,
+} from "@/lib/kds";
+
+interface Event {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+interface MenuItemOption {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface ZoneOption {
+  id: string;
+  name: string;
+}
+
+const ANY_STATION = "none";
+
+const emptyProfileForm = {
+  name: '',
+  stationType: ANY_STATION,
+  categories: [] as string[],
+  menuItemIds: [] as string[],
+  zoneIds: [] as string[],
+  viewMode: 'ticket',
+  warningPercent: String(DEFAULT_WARNING_PERCENT),
+  criticalPercent: String(DEFAULT_CRITICAL_PERCENT),
+  isActive: true,
+};
+
+// A screen that has not polled for a few intervals is treated as offline
+const isScreenOnline = (screen: KdsScreen) =>
+  !!screen.last_seen_at && Date.now() - new Date(screen.last_seen_at).getTime() < KDS_SCREEN_POLL_SECONDS * 3000;
+
+// A pairing code only works until it expires
+const isPairingActive = (screen: KdsScreen) =>
+  !!screen.pairing_code && !!screen.pairing_expires_at && new Date(screen.pairing_expires_at).getTime() > Date.now();
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export function AdminKitchenDisplays() {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<string>("");
+  const [tenantId, setTenantId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<KdsProfile[]>([]);
+  const [screens, setScreens] = useState<KdsScreen[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemOption[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Profile dialog state
+  const [profileDialog, setProfileDialog] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<KdsProfile | null>(null);
+  const [profileForm, setProfileForm] = useState(emptyProfileForm);
+  const [deletingProfile, setDeletingProfile] = useState<KdsProfile | null>(null);
+
+  // Screen dialog state
+  const [screenProfile, setScreenProfile] = useState<KdsProfile | null>(null);
+  const [screenName, setScreenName] = useState("");
+
+  useEffect(() => {
+    fetchEvents();
+    fetchTenant();
+  }, []);
+
+  useEffect(() => {
+    if (selectedEvent) {
+      fetchProfiles();
+      fetchRoutingOptions();
+    }
+  }, [selectedEvent]);
+
+  const fetchEvents = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('id, name, event_date')
+      .order('event_date', { ascending: false });
+
+    setEvents(data || []);
+    if (data && data.length > 0) {
+      setSelectedEvent(data[0].id);
+    } else {
+      setLoading(false);
+    }
+  };
+
+  const fetchTenant = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    setTenantId(profile?.tenant_id || null);
+  };
+
+  const fetchProfiles = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('kds_profiles')
+      .select('id, event_id, name, station_type, categories, menu_item_ids, zone_ids, view_mode, warning_percent, critical_percent, is_active')
+      .eq('event_id', selectedEvent)
+      .order('name');
+
+    if (error) {
+      toast({
+        title: "Error loading display profiles",
+        description: error.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    setProfiles(data || []);
+    await fetchScreens((data || []).map(p => p.id));
+    setLoading(false);
+  };
+
+  const fetchScreens = async (profileIds: string[]) => {
+    if (profileIds.length === 0) {
+      setScreens([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('kds_screens')
+      .select('id, profile_id, name, position, pairing_code, pairing_expires_at, paired_at, last_seen_at')
+      .in('profile_id', profileIds)
+      .order('position');
+
+    setScreens(data || []);
+  };
+
+  const fetchRoutingOptions = async () => {
+    const [{ data: items }, { data: zoneData }] = await Promise.all([
+      supabase
+        .from('menu_items')
+        .select('id, name, category')
+        .eq('event_id', selectedEvent)
+        .order('name'),
+      supabase
+        .from('zones')
+        .select('id, name')
+        .eq('event_id', selectedEvent)
+        .order('name'),
+    ]);
+
+    setMenuItems(items || []);
+    setZones(zoneData || []);
+  };
+
+  const categories = [...new Set(menuItems.map(item => item.category))].sort();
+  const menuItemNames = Object.fromEntries(menuItems.map(item => [item.id, item.name]));
+
+  const openProfileDialog = (profile: KdsProfile | null) => {
+    setEditingProfile(profile);
+    setProfileForm(profile
+      ? {
+          name: profile.name,
+          stationType: profile.station_type || ANY_STATION,
+          categories: profile.categories,
+          menuItemIds: profile.menu_item_ids,
+          zoneIds: profile.zone_ids,
+          viewMode: profile.view_mode,
+          warningPercent: String(profile.warning_percent),
+          criticalPercent: String(profile.critical_percent),
+          isActive: profile.is_active,
+        }
+      : emptyProfileForm
+    );
+    setProfileDialog(true);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileForm.name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please enter a name for the display",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (profileForm.stationType === ANY_STATION && profileForm.categories.length === 0 && profileForm.menuItemIds.length === 0) {
+      toast({
+        title: "Routing required",
+        description: "Choose a station, categories or menu items to show on this display",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const warningPercent = parseInt(profileForm.warningPercent);
+    const criticalPercent = parseInt(profileForm.criticalPercent);
+    if (!(warningPercent > 0) || !(criticalPercent > warningPercent)) {
+      toast({
+        title: "Invalid timers",
+        description: "The late share of target must be higher than the warning share",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!tenantId) return;
+
+    setSaving(true);
+    try {
+      const profileData = {
+        name: profileForm.name.trim(),
+        station_type: profileForm.stationType === ANY_STATION ? null : profileForm.stationType as StationType,
+        categories: profileForm.categories,
+        menu_item_ids: profileForm.menuItemIds,
+        zone_ids: profileForm.zoneIds,
+        view_mode: profileForm.viewMode,
+        warning_percent: warningPercent,
+        critical_percent: criticalPercent,
+        is_active: profileForm.isActive,
+      };
+
+      const { error } = editingProfile
+        ? await supabase.from('kds_profiles').update(profileData).eq('id', editingProfile.id)
+        : await supabase.from('kds_profiles').insert({ ...profileData, tenant_id: tenantId, event_id: selectedEvent });
+
+      if (error) throw error;
+
+      toast({ title: editingProfile ? "Display updated" : "Display added" });
+      setProfileDialog(false);
+      fetchProfiles();
+    } catch (error) {
+      toast({
+        title: "Error saving display",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!deletingProfile) return;
+
+    const { error } = await supabase
+      .from('kds_profiles')
+      .delete()
+      .eq('id', deletingProfile.id);
+
+    if (error) {
+      toast({
+        title: "Error deleting display",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: `${deletingProfile.name} deleted` });
+      fetchProfiles();
+    }
+    setDeletingProfile(null);
+  };
+
+  const openScreenDialog = (profile: KdsProfile) => {
+    const count = screens.filter(s => s.profile_id === profile.id).length;
+    setScreenProfile(profile);
+    setScreenName(`Screen ${count + 1}`);
+  };
+
+  const handleAddScreen = async () => {
+    if (!screenProfile || !tenantId || !screenName.trim()) return;
+
+    const profileScreens = screens.filter(s => s.profile_id === screenProfile.id);
+    const { error } = await supabase
+      .from('kds_screens')
+      .insert({
+        tenant_id: tenantId,
+        profile_id: screenProfile.id,
+        name: screenName.trim(),
+        position: Math.max(0, ...profileScreens.map(s => s.position)) + 1,
+      });
+
+    if (error) {
+      toast({
+        title: "Error adding screen",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setScreenProfile(null);
+    fetchScreens(profiles.map(p => p.id));
+  };
+
+  const handleStartPairing = async (screen: KdsScreen) => {
+    const { error } = await supabase.rpc('start_kds_screen_pairing', { _screen_id: screen.id });
+
+    if (error) {
+      toast({
+        title: "Error pairing screen",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: `Pairing ${screen.name}`,
+      description: "Open its pairing link on the device and enter the code within 10 minutes",
+    });
+    fetchScreens(profiles.map(p => p.id));
+  };
+
+  const handleDeleteScreen = async (screen: KdsScreen) => {
+    const { error } = await supabase
+      .from('kds_screens')
+      .delete()
+      .eq('id', screen.id);
+
+    if (error) {
+      toast({
+        title: "Error removing screen",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchScreens(profiles.map(p => p.id));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Kitchen Displays</h2>
+          <p className="text-muted-foreground">
+            Route items to kitchen screens and pair each screen from its own pairing link
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={selectedEvent} onValueChange={setSelectedEvent}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Select event" />
+            </SelectTrigger>
+            <SelectContent>
+              {events.map(event => (
+                <SelectItem key={event.id} value={event.id}>
+                  {event.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => openProfileDialog(null)} disabled={!selectedEvent}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Display
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : profiles.length === 0 ? (
+        <Card className="text-center py-12 text-muted-foreground">
+          No kitchen displays for this event
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {profiles.map((profile) => {
+            const profileScreens = screens.filter(s => s.profile_id === profile.id);
+            const viewLabel = KDS_VIEW_MODES.find(m => m.value === profile.view_mode)?.label || profile.view_mode;
+
+            return (
+              <Card key={profile.id} className="p-4 space-y-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-lg">{profile.name}</h3>
+                      {!profile.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {viewLabel} • late at {profile.warning_percent}/{profile.critical_percent}% of target
+                      {profile.zone_ids.length > 0 && ` • ${profile.zone_ids.length} zone${profile.zone_ids.length === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" onClick={() => openProfileDialog(profile)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => setDeletingProfile(profile)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {describeKdsRouting(profile, menuItemNames).map((route, idx) => (
+                    <Badge key={idx} variant="outline" className="capitalize">{route}</Badge>
+                  ))}
+                </div>
+
+                <div className="space-y-2 border-t border-border pt-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Screens</span>
+                    <Button size="sm" variant="outline" onClick={() => openScreenDialog(profile)}>
+                      <Monitor className="h-4 w-4 mr-1" />
+                      Add Screen
+                    </Button>
+                  </div>
+                  {profileScreens.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No screens yet. Staff can still open this display from /kds.
+                    </p>
+                  ) : (
+                    profileScreens.map((screen) => (
+                      <div key={screen.id} className="space-y-1 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <span>{screen.name}</span>
+                            {isPairingActive(screen) ? (
+                              <Badge variant="outline" className="font-mono tracking-widest">{screen.pairing_code}</Badge>
+                            ) : !screen.paired_at ? (
+                              <Badge variant="secondary">Not paired</Badge>
+                            ) : isScreenOnline(screen) ? (
+                              <Badge className="bg-green-500">Online</Badge>
+                            ) : (
+                              <Badge variant="secondary">Offline</Badge>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            {!isPairingActive(screen) && (
+                              <Button size="sm" variant="ghost" onClick={() => handleStartPairing(screen)}>
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                {screen.paired_at ? "Re-pair" : "Pair"}
+                              </Button>
+                            )}
+                            <Button size="icon" variant="ghost" onClick={() => handleDeleteScreen(screen)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {isPairingActive(screen) && (
+                          <p className="text-xs text-muted-foreground break-all">
+                            Open {window.location.origin}/kds/screen?screen={screen.id} and enter the code
+                            before {new Date(screen.pairing_expires_at!).toLocaleTimeString()}
+                          </p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                  {profileScreens.length > 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Orders are split between the screens that are online
+                    </p>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={profileDialog} onOpenChange={setProfileDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProfile ? "Edit Display" : "New Display"}</DialogTitle>
+            <DialogDescription>
+              Items show on this display if they match the station, any chosen category or any chosen item
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="displayName">Name *</Label>
+                <Input
+                  id="displayName"
+                  placeholder="e.g. Grill"
+                  value={profileForm.name}
+                  onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Station</Label>
+                <Select
+                  value={profileForm.stationType}
+                  onValueChange={(value) => setProfileForm({ ...profileForm, stationType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_STATION}>No station</SelectItem>
+                    {Constants.public.Enums.station_type.map((station) => (
+                      <SelectItem key={station} value={station} className="capitalize">
+                        {station.replace('_', ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Categories</Label>
+              <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+                {categories.map((category) => (
+                  <div key={category} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`category-${category}`}
+                      checked={profileForm.categories.includes(category)}
+                      onCheckedChange={() => setProfileForm({ ...profileForm, categories: toggleValue(profileForm.categories, category) })}
+                    />
+                    <label htmlFor={`category-${category}`} className="text-sm cursor-pointer">{category}</label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Menu Items</Label>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border rounded-md p-3">
+                {menuItems.map((item) => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`item-${item.id}`}
+                      checked={profileForm.menuItemIds.includes(item.id)}
+                      onCheckedChange={() => setProfileForm({ ...profileForm, menuItemIds: toggleValue(profileForm.menuItemIds, item.id) })}
+                    />
+                    <label htmlFor={`item-${item.id}`} className="text-sm cursor-pointer">{item.name}</label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {zones.length > 0 && (
+              <div className="space-y-2">
+                <Label>Zones</Label>
+                <p className="text-xs text-muted-foreground">Leave empty to show tables in every zone</p>
+                <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+                  {zones.map((zone) => (
+                    <div key={zone.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`zone-${zone.id}`}
+                        checked={profileForm.zoneIds.includes(zone.id)}
+                        onCheckedChange={() => setProfileForm({ ...profileForm, zoneIds: toggleValue(profileForm.zoneIds, zone.id) })}
+                      />
+                      <label htmlFor={`zone-${zone.id}`} className="text-sm cursor-pointer">{zone.name}</label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>View</Label>
+                <Select
+                  value={profileForm.viewMode}
+                  onValueChange={(value) => setProfileForm({ ...profileForm, viewMode: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KDS_VIEW_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="warningPercent">Warning (% of target)</Label>
+                <Input
+                  id="warningPercent"
+                  type="number"
+                  min="1"
+                  value={profileForm.warningPercent}
+                  onChange={(e) => setProfileForm({ ...profileForm, warningPercent: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="criticalPercent">Late (% of target)</Label>
+                <Input
+                  id="criticalPercent"
+                  type="number"
+                  min="2"
+                  value={profileForm.criticalPercent}
+                  onChange={(e) => setProfileForm({ ...profileForm, criticalPercent: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {KDS_VIEW_MODES.find(m => m.value === profileForm.viewMode)?.description}
+            </p>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="displayActive">Active</Label>
+              <Switch
+                id="displayActive"
+                checked={profileForm.isActive}
+                onCheckedChange={(checked) => setProfileForm({ ...profileForm, isActive: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProfileDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveProfile} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingProfile ? "Save Changes" : "Add Display"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!screenProfile} onOpenChange={(open) => !open && setScreenProfile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Screen</DialogTitle>
+            <DialogDescription>
+              Once added, pair the screen to get its pairing link and a code that lasts 10 minutes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="screenName">Name</Label>
+            <Input
+              id="screenName"
+              value={screenName}
+              onChange={(e) => setScreenName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScreenProfile(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddScreen} disabled={!screenName.trim()}>
+              Add Screen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingProfile} onOpenChange={(open) => !open && setDeletingProfile(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProfile?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its paired screens will stop showing orders and need pairing to another display.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteProfile}>
+              Delete Display
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
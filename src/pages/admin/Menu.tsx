@@ -3,7 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Settings, Trash2, Archive, Eye, EyeOff } from "lucide-react";
+import { Plus, Edit, Settings, Trash2, Archive, Eye, EyeOff, SlidersHorizontal } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Label } from "@/components/ui/label";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
@@ -34,19 +34,26 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { ModifierGroupsDialog } from "@/components/menu/ModifierGroupsDialog";
+import { DEFAULT_PREP_TARGET_MINUTES } from "@/lib/kds";
 
 interface MenuItem {
   id: string;
   name: string;
   category: string;
   price: number;
+  cost_price: number | null;
+  cost_source: string;
   station_type: string;
   is_available: boolean;
   is_retired: boolean;
   starting_inventory: number | null;
   current_inventory: number | null;
+  prep_target_minutes: number | null;
   event_id: string | null;
+  tenant_id: string;
   has_orders?: boolean;
+  modifier_groups?: { id: string }[];
 }
 
 interface Event {
@@ -54,11 +61,19 @@ interface Event {
   name: string;
 }
 
+interface CostHistoryEntry {
+  id: string;
+  cost_price: number | null;
+  source: string;
+  created_at: string;
+}
+
 interface MenuCategory {
   id: string;
   name: string;
   description: string | null;
   display_order: number;
+  prep_target_minutes: number | null;
 }
 
 export function AdminMenu() {
@@ -75,10 +90,13 @@ export function AdminMenu() {
     name: "",
     category: "",
     price: "",
+    cost_price: "",
     station_type: "drink_dispenser" as "drink_dispenser" | "meal_dispenser" | "mixologist" | "bar",
     starting_inventory: "",
+    prep_target_minutes: "",
     event_id: "",
   });
+  const [costHistory, setCostHistory] = useState<CostHistoryEntry[]>([]);
 
   // Category management state
   const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
@@ -87,6 +105,7 @@ export function AdminMenu() {
     name: "",
     description: "",
     display_order: "0",
+    prep_target_minutes: "",
   });
   const [deleteCategoryDialogOpen, setDeleteCategoryDialogOpen] = useState(false);
   const [categoryToDelete, setCategoryToDelete] = useState<MenuCategory | null>(null);
@@ -97,6 +116,9 @@ export function AdminMenu() {
   const [itemToDelete, setItemToDelete] = useState<MenuItem | null>(null);
   const [itemHasOrders, setItemHasOrders] = useState(false);
 
+  // Modifier groups state
+  const [modifiersItem, setModifiersItem] = useState<MenuItem | null>(null);
+
   useEffect(() => {
     fetchEvents();
     fetchMenuItems();
@@ -148,7 +170,7 @@ export function AdminMenu() {
     try {
       let query = supabase
         .from('menu_items')
-        .select('*')
+        .select('*, modifier_groups:menu_modifier_groups(id)')
         .order('category', { ascending: true });
 
       if (selectedEvent !== "all") {
@@ -281,15 +303,31 @@ export function AdminMenu() {
     }
   };
 
+  const fetchCostHistory = async (itemId: string) => {
+    const { data } = await supabase
+      .from('menu_item_cost_history')
+      .select('id, cost_price, source, created_at')
+      .eq('menu_item_id', itemId)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    setCostHistory(data || []);
+  };
+
   const handleOpenDialog = (item?: MenuItem) => {
+    setCostHistory([]);
     if (item) {
       setEditingItem(item);
+      fetchCostHistory(item.id);
       setFormData({
         name: item.name,
         category: item.category,
         price: item.price.toString(),
+        // Only a manual cost is editable; received costs follow stock deliveries
+        cost_price: item.cost_source === 'manual' && item.cost_price !== null ? item.cost_price.toString() : "",
         station_type: item.station_type as any,
         starting_inventory: item.starting_inventory?.toString() || "",
+        prep_target_minutes: item.prep_target_minutes?.toString() || "",
         event_id: item.event_id || "",
       });
     } else {
@@ -298,8 +336,10 @@ export function AdminMenu() {
         name: "",
         category: "",
         price: "",
+        cost_price: "",
         station_type: "drink_dispenser",
         starting_inventory: "",
+        prep_target_minutes: "",
         event_id: "",
       });
     }
@@ -348,9 +388,13 @@ export function AdminMenu() {
         name: formData.name.trim(),
         category: formData.category.trim(),
         price: parseFloat(formData.price),
+        ...(formData.cost_price
+          ? { cost_price: parseFloat(formData.cost_price), cost_source: 'manual' }
+          : { cost_source: 'received' }),
         station_type: formData.station_type,
         starting_inventory: formData.starting_inventory ? parseInt(formData.starting_inventory) : null,
         current_inventory: formData.starting_inventory ? parseInt(formData.starting_inventory) : null,
+        prep_target_minutes: formData.prep_target_minutes ? parseInt(formData.prep_target_minutes) : null,
         event_id: formData.event_id && formData.event_id !== "all" ? formData.event_id : null,
         tenant_id: profile.tenant_id,
         is_available: true,
@@ -364,6 +408,11 @@ export function AdminMenu() {
           .eq('id', editingItem.id);
 
         if (error) throw error;
+
+        // Switching back from a manual cost picks up the received cost again
+        if (!formData.cost_price && editingItem.cost_source === 'manual') {
+          await supabase.rpc('refresh_menu_item_cost', { _menu_item_id: editingItem.id });
+        }
         toast({ 
           title: "Success",
           description: "Menu item updated successfully" 
@@ -391,6 +440,12 @@ export function AdminMenu() {
     }
   };
 
+  const getCategoryPrepTarget = (categoryName: string) =>
+    categories.find((category) => category.name === categoryName)?.prep_target_minutes || DEFAULT_PREP_TARGET_MINUTES;
+
+  const getPrepTarget = (item: MenuItem) =>
+    item.prep_target_minutes || getCategoryPrepTarget(item.category);
+
   // Category management functions
   const handleOpenCategoryDialog = (category?: MenuCategory) => {
     if (category) {
@@ -399,6 +454,7 @@ export function AdminMenu() {
         name: category.name,
         description: category.description || "",
         display_order: category.display_order.toString(),
+        prep_target_minutes: category.prep_target_minutes?.toString() || "",
       });
     } else {
       setEditingCategory(null);
@@ -406,6 +462,7 @@ export function AdminMenu() {
         name: "",
         description: "",
         display_order: "0",
+        prep_target_minutes: "",
       });
     }
     setCategoryDialogOpen(true);
@@ -451,6 +508,7 @@ export function AdminMenu() {
         name: categoryFormData.name.trim(),
         description: categoryFormData.description.trim() || null,
         display_order: parseInt(categoryFormData.display_order) || 0,
+        prep_target_minutes: categoryFormData.prep_target_minutes ? parseInt(categoryFormData.prep_target_minutes) : null,
         tenant_id: profile.tenant_id,
       };
 
@@ -560,6 +618,11 @@ export function AdminMenu() {
                           <div className="font-medium">{item.name}</div>
                           <div className="text-sm text-muted-foreground">
                             {formatPrice(item.price)}
+                            {item.cost_price !== null && item.price > 0 && (
+                              <span>
+                                {' '}• Cost {formatPrice(item.cost_price)} ({(((item.price - item.cost_price) / item.price) * 100).toFixed(0)}% margin)
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-1">
@@ -575,7 +638,7 @@ export function AdminMenu() {
                       </div>
 
                       <div className="text-xs text-muted-foreground">
-                        Station: {item.station_type.replace("_", " ")}
+                        Station: {item.station_type.replace("_", " ")} • Prep target {getPrepTarget(item)} min
                       </div>
 
                       {item.starting_inventory && (
@@ -584,6 +647,12 @@ export function AdminMenu() {
                         </div>
                       )}
 
+                      {item.modifier_groups && item.modifier_groups.length > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Modifiers: {item.modifier_groups.length} group{item.modifier_groups.length !== 1 ? 's' : ''}
+                        </div>
+                      )}
+
                       <div className="flex gap-2">
                         <Button
                           variant="outline"
@@ -594,6 +663,14 @@ export function AdminMenu() {
                           <Edit className="mr-2 h-3 w-3" />
                           Edit
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setModifiersItem(item)}
+                          title="Manage modifiers"
+                        >
+                          <SlidersHorizontal className="h-3 w-3" />
+                        </Button>
                         {showRetired ? (
                           <Button
                             variant="outline"
@@ -708,6 +785,34 @@ export function AdminMenu() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Cost Price (Optional)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.cost_price}
+                onChange={(e) => setFormData((prev) => ({ ...prev, cost_price: e.target.value }))}
+                placeholder={
+                  editingItem?.cost_source === 'received' && editingItem.cost_price !== null
+                    ? editingItem.cost_price.toFixed(2)
+                    : "2.00"
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the cost of received stock or the item's recipe
+              </p>
+              {costHistory.length > 0 && (
+                <div className="space-y-1 pt-1">
+                  {costHistory.map((entry) => (
+                    <div key={entry.id} className="flex justify-between text-xs text-muted-foreground">
+                      <span>{new Date(entry.created_at).toLocaleDateString()} • {entry.source === 'manual' ? 'Manual' : 'From stock'}</span>
+                      <span>{entry.cost_price !== null ? formatPrice(entry.cost_price) : '-'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label>Station Type *</Label>
               <Select
@@ -764,6 +869,25 @@ export function AdminMenu() {
                 placeholder="100"
               />
             </div>
+
+            <div className="space-y-2">
+              <Label>Target Prep Time (Optional)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={formData.prep_target_minutes}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    prep_target_minutes: e.target.value,
+                  }))
+                }
+                placeholder={String(getCategoryPrepTarget(formData.category))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Minutes from order to ready. Leave blank to use the category's target
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
@@ -786,6 +910,14 @@ export function AdminMenu() {
         </DialogContent>
       </Dialog>
 
+      {/* Modifier Groups Dialog */}
+      <ModifierGroupsDialog
+        open={!!modifiersItem}
+        onOpenChange={(open) => !open && setModifiersItem(null)}
+        menuItem={modifiersItem}
+        onModifiersChanged={fetchMenuItems}
+      />
+
       {/* Category Management Dialog */}
       <Dialog open={categoryDialogOpen} onOpenChange={setCategoryDialogOpen}>
         <DialogContent className="max-w-lg">
@@ -807,6 +939,9 @@ export function AdminMenu() {
                     {category.description && (
                       <p className="text-xs text-muted-foreground">{category.description}</p>
                     )}
+                    {category.prep_target_minutes && (
+                      <p className="text-xs text-muted-foreground">Prep target {category.prep_target_minutes} min</p>
+                    )}
                   </div>
                   <div className="flex gap-1">
                     <Button
@@ -861,6 +996,19 @@ export function AdminMenu() {
                 placeholder="0"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Target Prep Time (min)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={categoryFormData.prep_target_minutes}
+                onChange={(e) => setCategoryFormData((prev) => ({ ...prev, prep_target_minutes: e.target.value }))}
+                placeholder={String(DEFAULT_PREP_TARGET_MINUTES)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used by items in this category that have no target of their own
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
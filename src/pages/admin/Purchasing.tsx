@@ -0,0 +1,548 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, PackageCheck, Pencil, Plus, Truck, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { PurchaseOrderDialog } from "@/components/inventory/PurchaseOrderDialog";
+import { ReceiveStockDialog } from "@/components/inventory/ReceiveStockDialog";
+import { Ingredient } from "@/lib/ingredients";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  Supplier,
+  getPurchaseOrderTotal,
+} from "@/lib/purchasing";
+
+interface Event {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+const emptySupplierForm = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  notes: '',
+};
+
+const getStatusBadge = (status: string) => {
+  const label = PURCHASE_ORDER_STATUS_LABELS[status as PurchaseOrderStatus] || status;
+  switch (status) {
+    case 'received':
+      return <Badge className="bg-green-500">{label}</Badge>;
+    case 'partially_received':
+      return <Badge className="bg-orange-500">{label}</Badge>;
+    case 'cancelled':
+      return <Badge variant="secondary">{label}</Badge>;
+    default:
+      return <Badge variant="outline">{label}</Badge>;
+  }
+};
+
+export function AdminPurchasing() {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<string>("");
+  const [tenantId, setTenantId] = useState<string | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [menuItems, setMenuItems] = useState<{ id: string; name: string }[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [purchaseOrderDialog, setPurchaseOrderDialog] = useState(false);
+  const [receiveDialog, setReceiveDialog] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+
+  // Supplier dialog state
+  const [supplierDialog, setSupplierDialog] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierForm, setSupplierForm] = useState(emptySupplierForm);
+
+  useEffect(() => {
+    fetchEvents();
+    fetchSuppliers();
+  }, []);
+
+  useEffect(() => {
+    if (selectedEvent) {
+      fetchPurchaseOrders();
+      fetchStockItems();
+    }
+  }, [selectedEvent]);
+
+  const fetchEvents = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('id, name, event_date')
+      .order('event_date', { ascending: false });
+
+    setEvents(data || []);
+    if (data && data.length > 0) {
+      setSelectedEvent(data[0].id);
+    } else {
+      setLoading(false);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.tenant_id) return;
+    setTenantId(profile.tenant_id);
+
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('id, name, contact_name, email, phone, notes, is_active')
+      .eq('tenant_id', profile.tenant_id)
+      .order('name');
+
+    if (error) {
+      toast({
+        title: "Error loading suppliers",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSuppliers(data || []);
+  };
+
+  const fetchPurchaseOrders = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(`
+        id, event_id, supplier_id, po_number, status, notes, created_at, received_at,
+        suppliers (name),
+        purchase_order_items (
+          id, menu_item_id, ingredient_id, units_per_purchase, quantity_ordered, quantity_received, unit_cost,
+          menu_items (name),
+          ingredients (name, unit, pack_label)
+        )
+      `)
+      .eq('event_id', selectedEvent)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error loading purchase orders",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPurchaseOrders(data || []);
+    }
+    setLoading(false);
+  };
+
+  const fetchStockItems = async () => {
+    const [{ data: items }, { data: ingredientData }] = await Promise.all([
+      supabase
+        .from('menu_items')
+        .select('id, name')
+        .eq('event_id', selectedEvent)
+        .order('name'),
+      supabase
+        .from('ingredients')
+        .select('id, name, unit, pack_size, pack_label, starting_stock, current_stock')
+        .eq('event_id', selectedEvent)
+        .order('name'),
+    ]);
+
+    setMenuItems(items || []);
+    setIngredients(ingredientData || []);
+  };
+
+  const openSupplierDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierForm(supplier
+      ? {
+          name: supplier.name,
+          contactName: supplier.contact_name || '',
+          email: supplier.email || '',
+          phone: supplier.phone || '',
+          notes: supplier.notes || '',
+        }
+      : emptySupplierForm
+    );
+    setSupplierDialog(true);
+  };
+
+  const handleSaveSupplier = async () => {
+    if (!supplierForm.name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please enter the supplier's name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!tenantId) return;
+
+    setSaving(true);
+    try {
+      const supplierData = {
+        name: supplierForm.name.trim(),
+        contact_name: supplierForm.contactName.trim() || null,
+        email: supplierForm.email.trim() || null,
+        phone: supplierForm.phone.trim() || null,
+        notes: supplierForm.notes.trim() || null,
+      };
+
+      const { error } = editingSupplier
+        ? await supabase.from('suppliers').update(supplierData).eq('id', editingSupplier.id)
+        : await supabase.from('suppliers').insert({ ...supplierData, tenant_id: tenantId });
+
+      if (error) throw error;
+
+      toast({ title: editingSupplier ? "Supplier updated" : "Supplier added" });
+      setSupplierDialog(false);
+      fetchSuppliers();
+    } catch (error) {
+      toast({
+        title: "Error saving supplier",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleSupplier = async (supplier: Supplier) => {
+    const { error } = await supabase
+      .from('suppliers')
+      .update({ is_active: !supplier.is_active })
+      .eq('id', supplier.id);
+
+    if (error) {
+      toast({
+        title: "Error updating supplier",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchSuppliers();
+  };
+
+  const handleCancelOrder = async (order: PurchaseOrder) => {
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'cancelled' })
+      .eq('id', order.id);
+
+    if (error) {
+      toast({
+        title: "Error cancelling order",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: `${order.po_number} cancelled` });
+    fetchPurchaseOrders();
+  };
+
+  const openReceiveDialog = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setReceiveDialog(true);
+  };
+
+  const openOrders = purchaseOrders.filter(o => o.status === 'ordered' || o.status === 'partially_received');
+  // Value still to arrive on open orders, at the ordered cost
+  const outstandingValue = openOrders.reduce(
+    (sum, order) => sum + order.purchase_order_items.reduce(
+      (lineSum, item) => lineSum + Math.max(0, Number(item.quantity_ordered) - Number(item.quantity_received)) * Number(item.unit_cost),
+      0
+    ),
+    0
+  );
+  const orderedValue = purchaseOrders
+    .filter(o => o.status !== 'cancelled')
+    .reduce((sum, order) => sum + getPurchaseOrderTotal(order), 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Purchasing</h2>
+          <p className="text-muted-foreground">Suppliers, purchase orders and stock deliveries</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={selectedEvent} onValueChange={setSelectedEvent}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Select event" />
+            </SelectTrigger>
+            <SelectContent>
+              {events.map(event => (
+                <SelectItem key={event.id} value={event.id}>
+                  {event.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => openSupplierDialog(null)}>
+            <Truck className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+          <Button onClick={() => setPurchaseOrderDialog(true)} disabled={!selectedEvent}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Purchase Order
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Open Orders</div>
+          <div className="text-2xl font-bold">{openOrders.length}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Awaiting Delivery</div>
+          <div className="text-2xl font-bold">{formatPrice(outstandingValue)}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Ordered This Event</div>
+          <div className="text-2xl font-bold">{formatPrice(orderedValue)}</div>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="orders" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : purchaseOrders.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                No purchase orders for this event
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PO</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Raised</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrders.map((order) => {
+                    const isOpen = order.status === 'ordered' || order.status === 'partially_received';
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.po_number}</TableCell>
+                        <TableCell>{order.suppliers?.name}</TableCell>
+                        <TableCell>{order.purchase_order_items.length}</TableCell>
+                        <TableCell>{formatPrice(getPurchaseOrderTotal(order))}</TableCell>
+                        <TableCell>{getStatusBadge(order.status)}</TableCell>
+                        <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {isOpen && (
+                              <Button size="sm" variant="outline" onClick={() => openReceiveDialog(order)}>
+                                <PackageCheck className="h-4 w-4 mr-1" />
+                                Receive
+                              </Button>
+                            )}
+                            {order.status === 'ordered' && (
+                              <Button size="sm" variant="ghost" onClick={() => handleCancelOrder(order)}>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <Card>
+            {suppliers.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                No suppliers yet
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((supplier) => (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>{supplier.contact_name}</TableCell>
+                      <TableCell>{supplier.email}</TableCell>
+                      <TableCell>{supplier.phone}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={supplier.is_active}
+                          onCheckedChange={() => handleToggleSupplier(supplier)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="icon" variant="ghost" onClick={() => openSupplierDialog(supplier)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={supplierDialog} onOpenChange={setSupplierDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+            <DialogDescription>Suppliers can be used on purchase orders for any event</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Name *</Label>
+              <Input
+                id="supplierName"
+                value={supplierForm.name}
+                onChange={(e) => setSupplierForm({ ...supplierForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierContact">Contact name</Label>
+              <Input
+                id="supplierContact"
+                value={supplierForm.contactName}
+                onChange={(e) => setSupplierForm({ ...supplierForm, contactName: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplierEmail">Email</Label>
+                <Input
+                  id="supplierEmail"
+                  type="email"
+                  value={supplierForm.email}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierPhone">Phone</Label>
+                <Input
+                  id="supplierPhone"
+                  value={supplierForm.phone}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierNotes">Notes</Label>
+              <Textarea
+                id="supplierNotes"
+                placeholder="Account number, delivery days..."
+                value={supplierForm.notes}
+                onChange={(e) => setSupplierForm({ ...supplierForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSupplierDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSupplier} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingSupplier ? "Save Changes" : "Add Supplier"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <PurchaseOrderDialog
+        open={purchaseOrderDialog}
+        onOpenChange={setPurchaseOrderDialog}
+        eventId={selectedEvent}
+        suppliers={suppliers.filter(s => s.is_active)}
+        menuItems={menuItems}
+        ingredients={ingredients}
+        onSaved={fetchPurchaseOrders}
+      />
+
+      <ReceiveStockDialog
+        open={receiveDialog}
+        onOpenChange={setReceiveDialog}
+        purchaseOrder={receivingOrder}
+        onReceived={() => {
+          fetchPurchaseOrders();
+          fetchStockItems();
+        }}
+      />
+    </div>
+  );
+}
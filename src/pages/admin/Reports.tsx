@@ -5,6 +5,15 @@ import { Card } from "@/components/ui/card";
 import { Download, TrendingUp, DollarSign, Users, ShoppingCart, ChevronDown, ChevronUp, GripVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { OrderCharge, formatChargeLabel, getAddedChargesTotal, getServiceChargeTotal, getTaxTotal } from "@/lib/orderCharges";
+import { AdjustmentAction, AdjustmentDetails, ADJUSTMENT_ACTIONS, ADJUSTMENT_LABELS, OrderDiscount, getDiscountTotal } from "@/lib/orderDiscounts";
+import { getRefundTotal } from "@/lib/refunds";
+import { formatOverShort } from "@/lib/cashierShifts";
+import { formatDuration, getWorkedHours } from "@/lib/timeClock";
+import { getAverageUnitCosts, getMenuItemUnitCost } from "@/lib/purchasing";
+import { MenuItemSales, getGrossProfit, getMarginPercentage } from "@/lib/menuEngineering";
+import { MenuEngineeringMatrix } from "@/components/MenuEngineeringMatrix";
+import { TipPoolMember, TipPoolRule, TipPoolSettings, TIP_POOL_ROLES, TIP_POOL_RULES, distributeTips, getTipPoolSettings } from "@/lib/tipPool";
 import {
   Select,
   SelectContent,
@@ -56,6 +65,10 @@ interface HourlySales {
 interface CashierPerformance {
   cashier_name: string;
   payments_count: number;
+  refunds_count: number;
+  total_refunded: number;
+  shifts_count: number;
+  over_short: number;
   total_collected: number;
   avg_payment: number;
 }
@@ -94,7 +107,34 @@ interface OutstandingOrder {
   created_at: string;
 }
 
-type ReportCardId = 'outstandingOrders' | 'topItems' | 'waiterPerformance' | 'hourlySales' | 'cashierPerformance' | 'drinkDispenser' | 'drinkDispenserStaff' | 'mixologistStaff' | 'mealDispenserStaff';
+interface ChargeSummary {
+  label: string;
+  charge_type: string;
+  is_inclusive: boolean;
+  orders_count: number;
+  total_amount: number;
+}
+
+interface AdjustmentEntry {
+  id: string;
+  action: AdjustmentAction;
+  created_at: string;
+  order_number: string;
+  item_name: string | null;
+  reason: string;
+  amount: number;
+}
+
+interface LabourRow {
+  zone_id: string | null;
+  zone_name: string;
+  staff_count: number;
+  hours: number;
+  labour_cost: number;
+  revenue: number;
+}
+
+type ReportCardId = 'menuEngineering' | 'grossMargin' | 'labour' | 'tipPool' | 'adjustments' | 'taxSummary' | 'outstandingOrders' | 'topItems' | 'waiterPerformance' | 'hourlySales' | 'cashierPerformance' | 'drinkDispenser' | 'drinkDispenserStaff' | 'mixologistStaff' | 'mealDispenserStaff';
 
 interface ReportCardState {
   id: ReportCardId;
@@ -123,6 +163,14 @@ export function AdminReports() {
   const [mixologistStaff, setMixologistStaff] = useState<MixologistStaff[]>([]);
   const [mealDispenserStaff, setMealDispenserStaff] = useState<MealDispenserStaff[]>([]);
   const [outstandingOrders, setOutstandingOrders] = useState<OutstandingOrder[]>([]);
+  const [chargeSummary, setChargeSummary] = useState<ChargeSummary[]>([]);
+  const [adjustments, setAdjustments] = useState<AdjustmentEntry[]>([]);
+  const [tipTotal, setTipTotal] = useState(0);
+  const [tipPoolMembers, setTipPoolMembers] = useState<TipPoolMember[]>([]);
+  const [tipPoolSettings, setTipPoolSettings] = useState<TipPoolSettings>(getTipPoolSettings(null));
+  const [labourRows, setLabourRows] = useState<LabourRow[]>([]);
+  const [grossMarginRows, setGrossMarginRows] = useState<MenuItemSales[]>([]);
+  const [menuEngineeringRows, setMenuEngineeringRows] = useState<MenuItemSales[]>([]);
   
   const [reportCards, setReportCards] = useState<ReportCardState[]>([
     { id: 'outstandingOrders', title: 'Outstanding Orders', isOpen: true },
@@ -134,6 +182,12 @@ export function AdminReports() {
     { id: 'mixologistStaff', title: 'Mixologist Staff Performance', isOpen: true },
     { id: 'mealDispenserStaff', title: 'Meal Dispenser Staff Performance', isOpen: true },
     { id: 'hourlySales', title: 'Sales by Hour', isOpen: true },
+    { id: 'taxSummary', title: 'Tax & Service Charges', isOpen: true },
+    { id: 'adjustments', title: 'Discounts, Comps & Voids', isOpen: true },
+    { id: 'tipPool', title: 'Tip Pool', isOpen: true },
+    { id: 'labour', title: 'Labour vs Revenue', isOpen: true },
+    { id: 'grossMargin', title: 'COGS & Gross Margin', isOpen: true },
+    { id: 'menuEngineering', title: 'Menu Engineering', isOpen: true },
   ]);
 
   const toggleCard = (id: ReportCardId) => {
@@ -199,6 +253,11 @@ export function AdminReports() {
       fetchMixologistStaff(),
       fetchMealDispenserStaff(),
       fetchOutstandingOrders(),
+      fetchChargeSummary(),
+      fetchAdjustments(),
+      fetchTipPool(),
+      fetchLabour(),
+      fetchGrossMargin(),
     ]);
   };
 
@@ -353,23 +412,53 @@ export function AdminReports() {
 
       if (error) throw error;
 
-      const cashierMap: Record<string, { count: number; total: number }> = {};
+      const { data: shifts, error: shiftsError } = await supabase
+        .from('cashier_shifts')
+        .select(`
+          over_short,
+          status,
+          profiles!cashier_shifts_cashier_id_fkey (full_name)
+        `)
+        .eq('event_id', selectedEvent);
+
+      if (shiftsError) throw shiftsError;
+
+      const cashierMap: Record<string, { count: number; total: number; refunds: number; refunded: number; shifts: number; overShort: number }> = {};
 
+      // Refunds are negative payments, so the collected total is already net of them
       data?.forEach((payment: any) => {
         const name = payment.profiles?.full_name || 'Unknown';
         if (!cashierMap[name]) {
-          cashierMap[name] = { count: 0, total: 0 };
+          cashierMap[name] = { count: 0, total: 0, refunds: 0, refunded: 0, shifts: 0, overShort: 0 };
+        }
+        if (payment.amount < 0) {
+          cashierMap[name].refunds++;
+          cashierMap[name].refunded -= payment.amount;
+        } else {
+          cashierMap[name].count++;
         }
-        cashierMap[name].count++;
         cashierMap[name].total += payment.amount || 0;
       });
 
+      shifts?.forEach((shift) => {
+        const name = shift.profiles?.full_name || 'Unknown';
+        if (!cashierMap[name]) {
+          cashierMap[name] = { count: 0, total: 0, refunds: 0, refunded: 0, shifts: 0, overShort: 0 };
+        }
+        cashierMap[name].shifts++;
+        cashierMap[name].overShort += Number(shift.over_short || 0);
+      });
+
       const performance: CashierPerformance[] = Object.entries(cashierMap)
         .map(([name, data]) => ({
           cashier_name: name,
           payments_count: data.count,
+          refunds_count: data.refunds,
+          total_refunded: data.refunded,
+          shifts_count: data.shifts,
+          over_short: data.overShort,
           total_collected: data.total,
-          avg_payment: data.count > 0 ? data.total / data.count : 0,
+          avg_payment: data.count > 0 ? (data.total + data.refunded) / data.count : 0,
         }))
         .sort((a, b) => b.total_collected - a.total_collected);
 
@@ -583,6 +672,363 @@ export function AdminReports() {
     }
   };
 
+  const fetchChargeSummary = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_charges')
+        .select(`
+          order_id,
+          charge_type,
+          name,
+          rate,
+          amount,
+          is_inclusive,
+          orders!inner (event_id)
+        `)
+        .eq('orders.event_id', selectedEvent);
+
+      if (error) throw error;
+
+      const chargeMap: Record<string, ChargeSummary & { orderIds: Set<string> }> = {};
+
+      data?.forEach((charge) => {
+        const label = formatChargeLabel(charge);
+        if (!chargeMap[label]) {
+          chargeMap[label] = {
+            label,
+            charge_type: charge.charge_type,
+            is_inclusive: charge.is_inclusive,
+            orders_count: 0,
+            total_amount: 0,
+            orderIds: new Set(),
+          };
+        }
+        chargeMap[label].orderIds.add(charge.order_id);
+        chargeMap[label].total_amount += Number(charge.amount);
+      });
+
+      const summaryRows: ChargeSummary[] = Object.values(chargeMap)
+        .map(({ orderIds, ...row }) => ({ ...row, orders_count: orderIds.size }))
+        .sort((a, b) => b.total_amount - a.total_amount);
+
+      setChargeSummary(summaryRows);
+    } catch (error) {
+      console.error("Error fetching tax summary:", error);
+    }
+  };
+
+  const fetchAdjustments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('audit_logs')
+        .select('id, action, created_at, details')
+        .in('action', ADJUSTMENT_ACTIONS)
+        .eq('details->>event_id', selectedEvent)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setAdjustments((data || []).map((log) => {
+        const details = log.details as unknown as AdjustmentDetails;
+        return {
+          id: log.id,
+          action: log.action as AdjustmentAction,
+          created_at: log.created_at,
+          order_number: details.order_number,
+          item_name: details.item_name,
+          reason: details.reason,
+          amount: Number(details.amount || 0),
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching discounts and voids:", error);
+    }
+  };
+
+  const fetchTipPool = async () => {
+    try {
+      const { data: payments, error: paymentsError } = await supabase
+        .from('payments')
+        .select(`
+          tip_amount,
+          orders!inner (event_id)
+        `)
+        .eq('orders.event_id', selectedEvent);
+
+      if (paymentsError) throw paymentsError;
+
+      const { data: event } = await supabase
+        .from('events')
+        .select('tenants (theme_config)')
+        .eq('id', selectedEvent)
+        .single();
+
+      // Hours come from the time clock; staff who never clocked in fall back to
+      // the span between their first and last recorded activity on the event's orders
+      const { data: orders, error: ordersError } = await supabase
+        .from('orders')
+        .select(`
+          waiter_id,
+          created_at,
+          served_at,
+          paid_at,
+          profiles!orders_waiter_id_fkey (full_name)
+        `)
+        .eq('event_id', selectedEvent)
+        .not('waiter_id', 'is', null);
+
+      if (ordersError) throw ordersError;
+
+      const { data: items, error: itemsError } = await supabase
+        .from('order_items')
+        .select(`
+          assigned_to,
+          dispatched_at,
+          ready_at,
+          profiles!order_items_assigned_to_fkey (full_name),
+          orders!inner (event_id)
+        `)
+        .eq('orders.event_id', selectedEvent)
+        .not('assigned_to', 'is', null);
+
+      if (itemsError) throw itemsError;
+
+      const activityMap: Record<string, { name: string; first: number; last: number }> = {};
+      const trackActivity = (userId: string, name: string | undefined, times: (string | null)[]) => {
+        times.filter((t): t is string => !!t).forEach((t) => {
+          const time = new Date(t).getTime();
+          if (!activityMap[userId]) {
+            activityMap[userId] = { name: name || 'Unknown', first: time, last: time };
+          }
+          activityMap[userId].first = Math.min(activityMap[userId].first, time);
+          activityMap[userId].last = Math.max(activityMap[userId].last, time);
+        });
+      };
+
+      orders?.forEach((order) => {
+        if (!order.waiter_id) return;
+        trackActivity(order.waiter_id, order.profiles?.full_name, [order.created_at, order.served_at, order.paid_at]);
+      });
+      items?.forEach((item) => {
+        if (!item.assigned_to) return;
+        trackActivity(item.assigned_to, item.profiles?.full_name, [item.dispatched_at, item.ready_at]);
+      });
+
+      const { data: entries, error: entriesError } = await supabase
+        .from('time_entries')
+        .select(`
+          id,
+          user_id,
+          event_id,
+          role,
+          zone_ids,
+          clock_in,
+          clock_out,
+          time_entry_breaks (id, started_at, ended_at),
+          profiles!time_entries_user_id_fkey (full_name)
+        `)
+        .eq('event_id', selectedEvent);
+
+      if (entriesError) throw entriesError;
+
+      const clockedHours: Record<string, number> = {};
+      entries?.forEach((entry) => {
+        clockedHours[entry.user_id] = (clockedHours[entry.user_id] || 0) + getWorkedHours(entry);
+        if (!activityMap[entry.user_id]) {
+          const time = new Date(entry.clock_in).getTime();
+          activityMap[entry.user_id] = { name: entry.profiles?.full_name || 'Unknown', first: time, last: time };
+        }
+      });
+
+      const userIds = Object.keys(activityMap);
+      const { data: roles, error: rolesError } = userIds.length > 0
+        ? await supabase
+            .from('user_roles')
+            .select('user_id, role')
+            .in('user_id', userIds)
+        : { data: [], error: null };
+
+      if (rolesError) throw rolesError;
+
+      const members: TipPoolMember[] = userIds
+        .map((userId) => {
+          const userRoles = (roles || []).filter(r => r.user_id === userId).map(r => r.role as string);
+          const role = TIP_POOL_ROLES.find(r => userRoles.includes(r));
+          const activity = activityMap[userId];
+          return {
+            user_id: userId,
+            name: activity.name,
+            role: role || '',
+            hours: clockedHours[userId] !== undefined
+              ? Math.round(clockedHours[userId] * 100) / 100
+              : Math.max(Math.round((activity.last - activity.first) / 36000) / 100, 0.5),
+          };
+        })
+        .filter(member => member.role);
+
+      setTipTotal(payments?.reduce((sum, p) => sum + Number(p.tip_amount || 0), 0) || 0);
+      setTipPoolSettings(getTipPoolSettings(event?.tenants?.theme_config));
+      setTipPoolMembers(members);
+    } catch (error) {
+      console.error("Error fetching tip pool:", error);
+    }
+  };
+
+  const fetchLabour = async () => {
+    try {
+      const { data: entries, error: entriesError } = await supabase
+        .from('time_entries')
+        .select('id, user_id, event_id, role, zone_ids, clock_in, clock_out, time_entry_breaks (id, started_at, ended_at)')
+        .eq('event_id', selectedEvent);
+
+      if (entriesError) throw entriesError;
+
+      const { data: zones, error: zonesError } = await supabase
+        .from('zones')
+        .select('id, name')
+        .eq('event_id', selectedEvent);
+
+      if (zonesError) throw zonesError;
+
+      const { data: orders, error: ordersError } = await supabase
+        .from('orders')
+        .select(`
+          total_amount,
+          table:tables!orders_table_id_fkey (zone_id)
+        `)
+        .eq('event_id', selectedEvent);
+
+      if (ordersError) throw ordersError;
+
+      const userIds = [...new Set((entries || []).map(e => e.user_id))];
+      const { data: rates, error: ratesError } = userIds.length > 0
+        ? await supabase
+            .from('staff_pay_rates')
+            .select('user_id, hourly_rate')
+            .in('user_id', userIds)
+        : { data: [], error: null };
+
+      if (ratesError) throw ratesError;
+
+      const rateMap: Record<string, number> = {};
+      rates?.forEach(r => { rateMap[r.user_id] = Number(r.hourly_rate); });
+
+      const zoneNames: Record<string, string> = {};
+      zones?.forEach(z => { zoneNames[z.id] = z.name; });
+
+      const rowMap: Record<string, LabourRow & { staff: Set<string> }> = {};
+      const getRow = (zoneId: string | null) => {
+        const key = zoneId || 'unassigned';
+        if (!rowMap[key]) {
+          rowMap[key] = {
+            zone_id: zoneId,
+            zone_name: zoneId ? zoneNames[zoneId] : 'Unassigned',
+            staff_count: 0,
+            hours: 0,
+            labour_cost: 0,
+            revenue: 0,
+            staff: new Set(),
+          };
+        }
+        return rowMap[key];
+      };
+
+      // Staff covering several zones have their hours split evenly between them
+      entries?.forEach((entry) => {
+        const hours = getWorkedHours(entry);
+        const entryZones = entry.zone_ids.filter(id => zoneNames[id]);
+        const targets = entryZones.length > 0 ? entryZones : [null];
+        targets.forEach((zoneId) => {
+          const row = getRow(zoneId);
+          row.hours += hours / targets.length;
+          row.labour_cost += (hours / targets.length) * (rateMap[entry.user_id] || 0);
+          row.staff.add(entry.user_id);
+        });
+      });
+
+      orders?.forEach((order) => {
+        const zoneId = order.table?.zone_id;
+        getRow(zoneId && zoneNames[zoneId] ? zoneId : null).revenue += order.total_amount || 0;
+      });
+
+      const labour: LabourRow[] = Object.values(rowMap)
+        .map(({ staff, ...row }) => ({ ...row, staff_count: staff.size }))
+        .sort((a, b) => b.revenue - a.revenue);
+
+      setLabourRows(labour);
+    } catch (error) {
+      console.error("Error fetching labour report:", error);
+    }
+  };
+
+  const fetchGrossMargin = async () => {
+    try {
+      const { data: items, error: itemsError } = await supabase
+        .from('order_items')
+        .select(`
+          menu_item_id,
+          quantity,
+          price,
+          menu_items (name, category, cost_price),
+          orders!inner (event_id)
+        `)
+        .eq('orders.event_id', selectedEvent)
+        .in('status', ['served', 'paid']);
+
+      if (itemsError) throw itemsError;
+
+      const { data: receipts, error: receiptsError } = await supabase
+        .from('stock_receipts')
+        .select('menu_item_id, ingredient_id, quantity, stock_quantity, unit_cost')
+        .eq('event_id', selectedEvent);
+
+      if (receiptsError) throw receiptsError;
+
+      const { data: recipes, error: recipesError } = await supabase
+        .from('recipe_items')
+        .select('menu_item_id, ingredient_id, quantity, menu_items!inner (event_id)')
+        .eq('menu_items.event_id', selectedEvent);
+
+      if (recipesError) throw recipesError;
+
+      const unitCosts = getAverageUnitCosts(receipts || []);
+
+      // COGS comes from what was paid on delivery, so past margins hold when a
+      // cost price is changed; the matrix prices items at their current cost price
+      const rowMap: Record<string, MenuItemSales> = {};
+      const engineeringMap: Record<string, MenuItemSales> = {};
+      items?.forEach((item) => {
+        if (!rowMap[item.menu_item_id]) {
+          const costPrice = item.menu_items?.cost_price;
+          const row = {
+            item_id: item.menu_item_id,
+            item_name: item.menu_items?.name || 'Unknown',
+            category: item.menu_items?.category || 'Unknown',
+            quantity: 0,
+            revenue: 0,
+          };
+          rowMap[item.menu_item_id] = {
+            ...row,
+            cost_price: getMenuItemUnitCost(item.menu_item_id, unitCosts, recipes || []),
+          };
+          engineeringMap[item.menu_item_id] = {
+            ...row,
+            cost_price: costPrice === null || costPrice === undefined ? null : Number(costPrice),
+          };
+        }
+        [rowMap, engineeringMap].forEach((map) => {
+          map[item.menu_item_id].quantity += item.quantity;
+          map[item.menu_item_id].revenue += item.quantity * item.price;
+        });
+      });
+
+      setGrossMarginRows(Object.values(rowMap).sort((a, b) => b.revenue - a.revenue));
+      setMenuEngineeringRows(Object.values(engineeringMap));
+    } catch (error) {
+      console.error("Error fetching gross margin:", error);
+    }
+  };
+
   const handleExportCSV = async () => {
     try {
       const { data: orders, error } = await supabase
@@ -596,25 +1042,39 @@ export function AdminReports() {
           created_at,
           served_at,
           paid_at,
-          profiles!orders_waiter_id_fkey (full_name)
+          profiles!orders_waiter_id_fkey (full_name),
+          order_charges (charge_type, name, rate, amount, is_inclusive),
+          order_discounts (id, discount_type, value, amount, reason, order_item_id),
+          payments (amount, tip_amount)
         `)
         .eq('event_id', selectedEvent);
 
       if (error) throw error;
 
       // Create CSV content
-      const headers = ['Order Number', 'Table', 'Guest', 'Waiter', 'Status', 'Amount', 'Created', 'Served', 'Paid'];
-      const rows = orders?.map((order: any) => [
-        order.order_number,
-        order.table_number || '',
-        order.guest_name || '',
-        order.profiles?.full_name || '',
-        order.status,
-        order.total_amount?.toFixed(2) || '0.00',
-        new Date(order.created_at).toLocaleString(),
-        order.served_at ? new Date(order.served_at).toLocaleString() : '',
-        order.paid_at ? new Date(order.paid_at).toLocaleString() : '',
-      ]);
+      const headers = ['Order Number', 'Table', 'Guest', 'Waiter', 'Status', 'Subtotal', 'Discount', 'Tax', 'Service Charge', 'Amount', 'Tip', 'Refunded', 'Created', 'Served', 'Paid'];
+      const rows = orders?.map((order: any) => {
+        const charges: OrderCharge[] = order.order_charges || [];
+        const discounts: OrderDiscount[] = order.order_discounts || [];
+        const total = order.total_amount || 0;
+        return [
+          order.order_number,
+          order.table_number || '',
+          order.guest_name || '',
+          order.profiles?.full_name || '',
+          order.status,
+          (total - getAddedChargesTotal(charges) + getDiscountTotal(discounts)).toFixed(2),
+          getDiscountTotal(discounts).toFixed(2),
+          getTaxTotal(charges).toFixed(2),
+          getServiceChargeTotal(charges).toFixed(2),
+          order.total_amount?.toFixed(2) || '0.00',
+          (order.payments || []).reduce((sum: number, p: { tip_amount: number }) => sum + Number(p.tip_amount || 0), 0).toFixed(2),
+          getRefundTotal(order.payments).toFixed(2),
+          new Date(order.created_at).toLocaleString(),
+          order.served_at ? new Date(order.served_at).toLocaleString() : '',
+          order.paid_at ? new Date(order.paid_at).toLocaleString() : '',
+        ];
+      });
 
       const csvContent = [
         headers.join(','),
@@ -642,6 +1102,33 @@ export function AdminReports() {
 
   const selectedEventName = events.find(e => e.id === selectedEvent)?.name || '';
   const maxItemRevenue = Math.max(...topItems.map(i => i.revenue), 1);
+  const tipShares = distributeTips(tipTotal, tipPoolMembers, tipPoolSettings);
+  const labourTotals = labourRows.reduce(
+    (acc, row) => ({
+      hours: acc.hours + row.hours,
+      labour_cost: acc.labour_cost + row.labour_cost,
+      revenue: acc.revenue + row.revenue,
+    }),
+    { hours: 0, labour_cost: 0, revenue: 0 }
+  );
+  // Items with no cost on record are left out of COGS and margin, and counted separately
+  const costedMarginRows = grossMarginRows.filter(row => row.cost_price !== null);
+  const marginTotals = costedMarginRows.reduce(
+    (acc, row) => ({
+      revenue: acc.revenue + row.revenue,
+      cogs: acc.cogs + row.quantity * (row.cost_price || 0),
+    }),
+    { revenue: 0, cogs: 0 }
+  );
+  const uncostedMarginRows = grossMarginRows.length - costedMarginRows.length;
+  const marginByCategory = Object.values(
+    costedMarginRows.reduce((acc, row) => {
+      if (!acc[row.category]) acc[row.category] = { category: row.category, revenue: 0, cogs: 0 };
+      acc[row.category].revenue += row.revenue;
+      acc[row.category].cogs += row.quantity * (row.cost_price || 0);
+      return acc;
+    }, {} as Record<string, { category: string; revenue: number; cogs: number }>)
+  ).sort((a, b) => (b.revenue - b.cogs) - (a.revenue - a.cogs));
 
   return (
     <div className="p-6 space-y-6">
@@ -880,6 +1367,8 @@ export function AdminReports() {
                                     <div className="font-medium">{cashier.cashier_name}</div>
                                     <div className="text-sm text-muted-foreground">
                                       {cashier.payments_count} payments
+                                      {cashier.refunds_count > 0 && ` • ${cashier.refunds_count} refunds (${formatPrice(cashier.total_refunded)})`}
+                                      {cashier.shifts_count > 0 && ` • ${cashier.shifts_count} shifts, ${formatOverShort(cashier.over_short, formatPrice)}`}
                                     </div>
                                   </div>
                                 </div>
@@ -1050,6 +1539,250 @@ export function AdminReports() {
                       </div>
                     )}
 
+                    {card.id === 'taxSummary' && (
+                      <div className="space-y-3">
+                        {chargeSummary.map((charge) => (
+                          <div key={charge.label} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                            <div>
+                              <div className="font-medium">{charge.label}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {charge.orders_count} orders
+                                {charge.is_inclusive && ' • included in item prices'}
+                              </div>
+                            </div>
+                            <div className="font-bold">{formatPrice(charge.total_amount)}</div>
+                          </div>
+                        ))}
+                        {chargeSummary.length === 0 && (
+                          <div className="text-center py-8 text-muted-foreground">
+                            No tax or service charges recorded
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {card.id === 'adjustments' && (
+                      <div className="space-y-3">
+                        {ADJUSTMENT_ACTIONS.map((action) => {
+                          const entries = adjustments.filter(a => a.action === action);
+                          return (
+                            <div key={action} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                              <div>
+                                <div className="font-medium">{ADJUSTMENT_LABELS[action]}</div>
+                                <div className="text-sm text-muted-foreground">
+                                  {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+                                </div>
+                              </div>
+                              <div className="font-bold text-destructive">
+                                {formatPrice(entries.reduce((sum, a) => sum + a.amount, 0))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                        {adjustments.length > 0 ? (
+                          <div className="space-y-2 pt-2">
+                            {adjustments.slice(0, 20).map((entry) => (
+                              <div key={entry.id} className="flex items-center justify-between text-sm border-b border-border pb-2 last:border-0">
+                                <div>
+                                  <span className="font-medium">{entry.order_number}</span>
+                                  {entry.item_name && <span> • {entry.item_name}</span>}
+                                  <div className="text-xs text-muted-foreground">
+                                    {ADJUSTMENT_LABELS[entry.action]} • {entry.reason} • {new Date(entry.created_at).toLocaleTimeString()}
+                                  </div>
+                                </div>
+                                <span className="font-medium">{formatPrice(entry.amount)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="text-center py-8 text-muted-foreground">
+                            No discounts, comps or voids recorded
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {card.id === 'tipPool' && (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                          <div>
+                            <div className="font-medium">Tips collected</div>
+                            <div className="text-sm text-muted-foreground">
+                              Shared between {tipPoolMembers.length} staff
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <Select
+                              value={tipPoolSettings.rule}
+                              onValueChange={(rule) => setTipPoolSettings({ ...tipPoolSettings, rule: rule as TipPoolRule })}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {TIP_POOL_RULES.map((rule) => (
+                                  <SelectItem key={rule.value} value={rule.value}>
+                                    {rule.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <div className="font-bold">{formatPrice(tipTotal)}</div>
+                          </div>
+                        </div>
+                        {tipShares.length > 0 ? (
+                          <div className="space-y-2 pt-2">
+                            {tipShares.map((member) => (
+                              <div key={member.user_id} className="flex items-center justify-between text-sm border-b border-border pb-2 last:border-0">
+                                <div>
+                                  <span className="font-medium">{member.name}</span>
+                                  <div className="text-xs text-muted-foreground">
+                                    <span className="capitalize">{member.role.replace(/_/g, ' ')}</span>
+                                    {' • '}{member.hours.toFixed(1)} h
+                                    {tipPoolSettings.rule === 'points' && ` • ${member.weight} pts`}
+                                  </div>
+                                </div>
+                                <span className="font-medium">{formatPrice(member.share)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="text-center py-8 text-muted-foreground">
+                            No tip pool staff for this event
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {card.id === 'labour' && (
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-3 gap-2 text-center p-3 bg-muted/50 rounded-lg">
+                          <div>
+                            <div className="text-xs text-muted-foreground">Labour Hours</div>
+                            <div className="font-bold">{formatDuration(labourTotals.hours)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Sales per Labour Hour</div>
+                            <div className="font-bold">
+                              {labourTotals.hours > 0 ? formatPrice(labourTotals.revenue / labourTotals.hours) : '-'}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Labour Cost</div>
+                            <div className="font-bold">
+                              {formatPrice(labourTotals.labour_cost)}
+                              {labourTotals.revenue > 0 && (
+                                <span className="text-sm font-normal text-muted-foreground">
+                                  {' '}({((labourTotals.labour_cost / labourTotals.revenue) * 100).toFixed(1)}%)
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        {labourRows.length > 0 ? (
+                          <div className="space-y-2 pt-2">
+                            {labourRows.map((row) => (
+                              <div key={row.zone_id || 'unassigned'} className="flex items-center justify-between text-sm border-b border-border pb-2 last:border-0">
+                                <div>
+                                  <span className="font-medium">{row.zone_name}</span>
+                                  <div className="text-xs text-muted-foreground">
+                                    {row.staff_count} staff • {formatDuration(row.hours)} • {formatPrice(row.labour_cost)} labour
+                                    {row.revenue > 0 && ` (${((row.labour_cost / row.revenue) * 100).toFixed(1)}%)`}
+                                  </div>
+                                </div>
+                                <div className="text-right">
+                                  <div className="font-medium">{formatPrice(row.revenue)}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {row.hours > 0 ? `${formatPrice(row.revenue / row.hours)}/h` : 'No hours clocked'}
+                                  </div>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="text-center py-8 text-muted-foreground">
+                            No time clock data for this event
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {card.id === 'grossMargin' && (
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-3 gap-2 text-center p-3 bg-muted/50 rounded-lg">
+                          <div>
+                            <div className="text-xs text-muted-foreground">Revenue</div>
+                            <div className="font-bold">{formatPrice(marginTotals.revenue)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">COGS</div>
+                            <div className="font-bold">{formatPrice(marginTotals.cogs)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Gross Margin</div>
+                            <div className="font-bold">
+                              {formatPrice(marginTotals.revenue - marginTotals.cogs)}
+                              {marginTotals.revenue > 0 && (
+                                <span className="text-sm font-normal text-muted-foreground">
+                                  {' '}({(((marginTotals.revenue - marginTotals.cogs) / marginTotals.revenue) * 100).toFixed(1)}%)
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        {uncostedMarginRows > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {uncostedMarginRows} sold {uncostedMarginRows === 1 ? 'item has' : 'items have'} no received stock cost and {uncostedMarginRows === 1 ? 'is' : 'are'} left out of the totals
+                          </div>
+                        )}
+                        {marginByCategory.length > 1 && (
+                          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                            {marginByCategory.map((row) => (
+                              <div key={row.category} className="p-2 border rounded-lg text-sm">
+                                <div className="font-medium">{row.category}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {formatPrice(row.revenue - row.cogs)} gross profit
+                                  {row.revenue > 0 && ` (${(((row.revenue - row.cogs) / row.revenue) * 100).toFixed(1)}%)`}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {grossMarginRows.length > 0 ? (
+                          <div className="space-y-2 pt-2">
+                            {grossMarginRows.map((row) => {
+                              const grossProfit = getGrossProfit(row.revenue, row.quantity, row.cost_price);
+                              const margin = getMarginPercentage(row.revenue, grossProfit);
+                              return (
+                                <div key={row.item_id} className="flex items-center justify-between text-sm border-b border-border pb-2 last:border-0">
+                                  <div>
+                                    <span className="font-medium">{row.item_name}</span>
+                                    <div className="text-xs text-muted-foreground">
+                                      {row.quantity} sold • {grossProfit !== null ? `${formatPrice(grossProfit)} gross profit` : 'No received stock cost'}
+                                    </div>
+                                  </div>
+                                  <div className="text-right">
+                                    <div className="font-medium">{formatPrice(row.revenue)}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {margin !== null ? `${margin.toFixed(1)}% margin` : '-'}
+                                    </div>
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ) : (
+                          <div className="text-center py-8 text-muted-foreground">
+                            No items served yet
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {card.id === 'menuEngineering' && (
+                      <MenuEngineeringMatrix items={menuEngineeringRows} />
+                    )}
+
                     {card.id === 'hourlySales' && (
                       <div className="space-y-3">
                         {hourlySales.map((hour) => (
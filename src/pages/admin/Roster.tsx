@@ -0,0 +1,787 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, CalendarClock, Copy, Download, Gauge, Loader2, Pencil, Plus, Printer, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ROSTER_ROLES,
+  RosterCapacity,
+  RosterConflict,
+  RosterRole,
+  RosterShift,
+  findRosterConflicts,
+  getRoleLabel,
+  getShiftHours,
+  printRoster,
+} from "@/lib/roster";
+
+interface Event {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+interface Zone {
+  id: string;
+  name: string;
+}
+
+interface StaffOption {
+  id: string;
+  full_name: string | null;
+}
+
+const NO_ZONE = "__none__";
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toTimeInput = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const emptyShiftForm = {
+  userId: '',
+  role: '' as RosterRole | '',
+  zoneId: NO_ZONE,
+  date: '',
+  startTime: '18:00',
+  endTime: '23:00',
+  notes: '',
+};
+
+export function AdminRoster() {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<string>("");
+  const [tenantId, setTenantId] = useState<string | null>(null);
+  const [shifts, setShifts] = useState<RosterShift[]>([]);
+  const [capacities, setCapacities] = useState<RosterCapacity[]>([]);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Shift dialog state
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
+  const [editingShift, setEditingShift] = useState<RosterShift | null>(null);
+  const [shiftForm, setShiftForm] = useState(emptyShiftForm);
+
+  // Capacity dialog state
+  const [capacityDialogOpen, setCapacityDialogOpen] = useState(false);
+  const [capacityForm, setCapacityForm] = useState({ zoneId: NO_ZONE, role: '' as RosterRole | '', maxStaff: '' });
+
+  // Copy dialog state
+  const [copyDialogOpen, setCopyDialogOpen] = useState(false);
+  const [copyFromEvent, setCopyFromEvent] = useState("");
+
+  useEffect(() => {
+    fetchEvents();
+    fetchStaff();
+  }, []);
+
+  useEffect(() => {
+    if (selectedEvent) {
+      fetchRoster();
+    }
+  }, [selectedEvent]);
+
+  const fetchEvents = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('id, name, event_date')
+      .order('event_date', { ascending: false });
+
+    setEvents(data || []);
+    if (data && data.length > 0) {
+      setSelectedEvent(data[0].id);
+    } else {
+      setLoading(false);
+    }
+  };
+
+  const fetchStaff = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.tenant_id) return;
+    setTenantId(profile.tenant_id);
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .eq('tenant_id', profile.tenant_id)
+      .eq('is_active', true)
+      .order('full_name');
+
+    setStaff(data || []);
+  };
+
+  const fetchRoster = async () => {
+    setLoading(true);
+    try {
+      const [shiftsResult, capacitiesResult, zonesResult] = await Promise.all([
+        supabase
+          .from('roster_shifts')
+          .select('id, event_id, user_id, role, zone_id, starts_at, ends_at, notes')
+          .eq('event_id', selectedEvent)
+          .order('starts_at'),
+        supabase
+          .from('roster_capacities')
+          .select('id, zone_id, role, max_staff')
+          .eq('event_id', selectedEvent),
+        supabase
+          .from('zones')
+          .select('id, name')
+          .eq('event_id', selectedEvent)
+          .order('name'),
+      ]);
+
+      if (shiftsResult.error) throw shiftsResult.error;
+      if (capacitiesResult.error) throw capacitiesResult.error;
+      if (zonesResult.error) throw zonesResult.error;
+
+      setShifts(shiftsResult.data || []);
+      setCapacities(capacitiesResult.data || []);
+      setZones(zonesResult.data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading roster",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStaffName = (userId: string) => staff.find(s => s.id === userId)?.full_name || 'Unknown';
+  const getZoneName = (zoneId: string | null) => zones.find(z => z.id === zoneId)?.name || null;
+
+  const openShiftDialog = (shift?: RosterShift) => {
+    if (shift) {
+      const start = new Date(shift.starts_at);
+      setEditingShift(shift);
+      setShiftForm({
+        userId: shift.user_id,
+        role: shift.role as RosterRole,
+        zoneId: shift.zone_id || NO_ZONE,
+        date: toDateInput(start),
+        startTime: toTimeInput(start),
+        endTime: toTimeInput(new Date(shift.ends_at)),
+        notes: shift.notes || '',
+      });
+    } else {
+      const event = events.find(e => e.id === selectedEvent);
+      setEditingShift(null);
+      setShiftForm({
+        ...emptyShiftForm,
+        date: event ? toDateInput(new Date(event.event_date)) : toDateInput(new Date()),
+      });
+    }
+    setShiftDialogOpen(true);
+  };
+
+  const handleSaveShift = async () => {
+    if (!tenantId || !shiftForm.userId || !shiftForm.role || !shiftForm.date) return;
+
+    const startsAt = new Date(`${shiftForm.date}T${shiftForm.startTime}`);
+    const endsAt = new Date(`${shiftForm.date}T${shiftForm.endTime}`);
+    // An end time at or before the start runs past midnight
+    if (endsAt <= startsAt) endsAt.setDate(endsAt.getDate() + 1);
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const shiftData = {
+        tenant_id: tenantId,
+        event_id: selectedEvent,
+        user_id: shiftForm.userId,
+        role: shiftForm.role,
+        zone_id: shiftForm.zoneId === NO_ZONE ? null : shiftForm.zoneId,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt.toISOString(),
+        notes: shiftForm.notes.trim() || null,
+      };
+
+      if (editingShift) {
+        const { error } = await supabase
+          .from('roster_shifts')
+          .update(shiftData)
+          .eq('id', editingShift.id);
+
+        if (error) throw error;
+        toast({ title: "Shift updated" });
+      } else {
+        const { error } = await supabase
+          .from('roster_shifts')
+          .insert({ ...shiftData, created_by: user?.id });
+
+        if (error) throw error;
+        toast({ title: "Shift added" });
+      }
+
+      setShiftDialogOpen(false);
+      fetchRoster();
+    } catch (error) {
+      toast({
+        title: "Error saving shift",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteShift = async (shift: RosterShift) => {
+    const { error } = await supabase
+      .from('roster_shifts')
+      .delete()
+      .eq('id', shift.id);
+
+    if (error) {
+      toast({
+        title: "Error deleting shift",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Shift removed" });
+    fetchRoster();
+  };
+
+  const handleAddCapacity = async () => {
+    const maxStaff = parseInt(capacityForm.maxStaff);
+    if (!tenantId || !capacityForm.role || !(maxStaff > 0)) return;
+
+    const zoneId = capacityForm.zoneId === NO_ZONE ? null : capacityForm.zoneId;
+    const existing = capacities.find(c => c.role === capacityForm.role && c.zone_id === zoneId);
+
+    setSaving(true);
+    try {
+      const { error } = existing
+        ? await supabase
+            .from('roster_capacities')
+            .update({ max_staff: maxStaff })
+            .eq('id', existing.id)
+        : await supabase
+            .from('roster_capacities')
+            .insert({
+              tenant_id: tenantId,
+              event_id: selectedEvent,
+              zone_id: zoneId,
+              role: capacityForm.role,
+              max_staff: maxStaff,
+            });
+
+      if (error) throw error;
+
+      setCapacityForm({ zoneId: NO_ZONE, role: '', maxStaff: '' });
+      fetchRoster();
+    } catch (error) {
+      toast({
+        title: "Error saving capacity",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCapacity = async (capacity: RosterCapacity) => {
+    const { error } = await supabase
+      .from('roster_capacities')
+      .delete()
+      .eq('id', capacity.id);
+
+    if (error) {
+      toast({
+        title: "Error removing capacity",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchRoster();
+  };
+
+  const handleCopyRoster = async () => {
+    if (!copyFromEvent) return;
+
+    setSaving(true);
+    try {
+      const { data: copied, error } = await supabase.rpc('copy_roster', {
+        _from_event_id: copyFromEvent,
+        _to_event_id: selectedEvent,
+      });
+
+      if (error) throw error;
+
+      const source = events.find(e => e.id === copyFromEvent)?.name;
+      toast({
+        title: "Roster copied",
+        description: `${copied} shifts copied from ${source}. Shifts that would double-book staff were skipped.`,
+      });
+      setCopyDialogOpen(false);
+      setCopyFromEvent("");
+      fetchRoster();
+    } catch (error) {
+      toast({
+        title: "Error copying roster",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExportCSV = () => {
+    const headers = ['Date', 'Start', 'End', 'Hours', 'Staff', 'Role', 'Zone', 'Notes'];
+    const rows = shifts.map((shift) => {
+      const start = new Date(shift.starts_at);
+      return [
+        start.toLocaleDateString(),
+        toTimeInput(start),
+        toTimeInput(new Date(shift.ends_at)),
+        getShiftHours(shift).toFixed(2),
+        getStaffName(shift.user_id),
+        getRoleLabel(shift.role),
+        getZoneName(shift.zone_id) || '',
+        shift.notes || '',
+      ];
+    });
+
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `roster-${selectedEvent}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    printRoster({
+      eventName: selectedEventName,
+      shifts: shifts.map(shift => ({
+        ...shift,
+        staffName: getStaffName(shift.user_id),
+        zoneName: getZoneName(shift.zone_id),
+      })),
+    });
+  };
+
+  const describeConflict = (conflict: RosterConflict) => {
+    if (conflict.type === 'double_booked') {
+      return `${getStaffName(conflict.user_id)} is rostered on overlapping shifts`;
+    }
+    const where = getZoneName(conflict.capacity.zone_id) || 'the event';
+    const at = new Date(conflict.at).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    return `${conflict.count} ${getRoleLabel(conflict.capacity.role)} staff in ${where} at ${at} (capacity ${conflict.capacity.max_staff})`;
+  };
+
+  const selectedEventName = events.find(e => e.id === selectedEvent)?.name || '';
+  const conflicts = findRosterConflicts(shifts, capacities);
+  const conflictShiftIds = new Set(conflicts.flatMap(c => c.shift_ids));
+  const totalHours = shifts.reduce((sum, s) => sum + getShiftHours(s), 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Roster</h2>
+          <p className="text-muted-foreground">Schedule staff shifts per event, role and zone</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={selectedEvent} onValueChange={setSelectedEvent}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Select event" />
+            </SelectTrigger>
+            <SelectContent>
+              {events.map(event => (
+                <SelectItem key={event.id} value={event.id}>
+                  {event.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setCopyDialogOpen(true)} disabled={!selectedEvent}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Roster
+          </Button>
+          <Button variant="outline" onClick={() => setCapacityDialogOpen(true)} disabled={!selectedEvent}>
+            <Gauge className="h-4 w-4 mr-2" />
+            Capacity
+          </Button>
+          <Button variant="outline" onClick={handlePrint} disabled={shifts.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="outline" onClick={handleExportCSV} disabled={shifts.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button onClick={() => openShiftDialog()} disabled={!selectedEvent}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Shift
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Shifts</div>
+          <div className="text-2xl font-bold">{shifts.length}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Rostered Hours</div>
+          <div className="text-2xl font-bold">{totalHours.toFixed(1)}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Staff</div>
+          <div className="text-2xl font-bold">{new Set(shifts.map(s => s.user_id)).size}</div>
+        </Card>
+      </div>
+
+      {conflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Roster conflicts</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {conflicts.map((conflict, idx) => (
+                <li key={idx}>{describeConflict(conflict)}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading roster...</div>
+        ) : shifts.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <CalendarClock className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            No shifts rostered for this event
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Staff</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Zone</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts.map(shift => {
+                const start = new Date(shift.starts_at);
+                return (
+                  <TableRow key={shift.id} className={conflictShiftIds.has(shift.id) ? 'bg-destructive/10' : ''}>
+                    <TableCell>{start.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}</TableCell>
+                    <TableCell>{toTimeInput(start)} - {toTimeInput(new Date(shift.ends_at))}</TableCell>
+                    <TableCell className="font-medium">{getStaffName(shift.user_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{getRoleLabel(shift.role)}</Badge>
+                    </TableCell>
+                    <TableCell>{getZoneName(shift.zone_id) || '-'}</TableCell>
+                    <TableCell className="text-right">{getShiftHours(shift).toFixed(1)}</TableCell>
+                    <TableCell className="text-muted-foreground">{shift.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openShiftDialog(shift)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteShift(shift)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {/* Shift Dialog */}
+      <Dialog open={shiftDialogOpen} onOpenChange={setShiftDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingShift ? 'Edit Shift' : 'Add Shift'}</DialogTitle>
+            <DialogDescription>
+              Staff see this shift's zone on their station while it is running
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Staff Member *</Label>
+              <Select value={shiftForm.userId} onValueChange={(userId) => setShiftForm({ ...shiftForm, userId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select staff" />
+                </SelectTrigger>
+                <SelectContent>
+                  {staff.map(member => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || 'Unknown'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select value={shiftForm.role} onValueChange={(role) => setShiftForm({ ...shiftForm, role: role as RosterRole })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROSTER_ROLES.map(role => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Zone</Label>
+                <Select value={shiftForm.zoneId} onValueChange={(zoneId) => setShiftForm({ ...shiftForm, zoneId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ZONE}>Any zone</SelectItem>
+                    {zones.map(zone => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shiftDate">Date *</Label>
+                <Input
+                  id="shiftDate"
+                  type="date"
+                  value={shiftForm.date}
+                  onChange={(e) => setShiftForm({ ...shiftForm, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftStart">Start *</Label>
+                <Input
+                  id="shiftStart"
+                  type="time"
+                  value={shiftForm.startTime}
+                  onChange={(e) => setShiftForm({ ...shiftForm, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftEnd">End *</Label>
+                <Input
+                  id="shiftEnd"
+                  type="time"
+                  value={shiftForm.endTime}
+                  onChange={(e) => setShiftForm({ ...shiftForm, endTime: e.target.value })}
+                />
+              </div>
+            </div>
+            {shiftForm.endTime <= shiftForm.startTime && (
+              <p className="text-xs text-muted-foreground">Ends the following day</p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="shiftNotes">Notes</Label>
+              <Textarea
+                id="shiftNotes"
+                value={shiftForm.notes}
+                onChange={(e) => setShiftForm({ ...shiftForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShiftDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleSaveShift}
+              disabled={saving || !shiftForm.userId || !shiftForm.role || !shiftForm.date}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingShift ? 'Save Shift' : 'Add Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Capacity Dialog */}
+      <Dialog open={capacityDialogOpen} onOpenChange={setCapacityDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Staff Capacity</DialogTitle>
+            <DialogDescription>
+              Most staff wanted on at once in a role. Shifts above this are flagged as over capacity.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {capacities.length > 0 ? (
+              <div className="space-y-2">
+                {capacities.map(capacity => (
+                  <div key={capacity.id} className="flex items-center justify-between p-2 border rounded-md text-sm">
+                    <span>
+                      {getRoleLabel(capacity.role)} • {getZoneName(capacity.zone_id) || 'Whole event'}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">Max {capacity.max_staff}</Badge>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteCapacity(capacity)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-2">No capacities set</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={capacityForm.role} onValueChange={(role) => setCapacityForm({ ...capacityForm, role: role as RosterRole })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROSTER_ROLES.map(role => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={capacityForm.zoneId} onValueChange={(zoneId) => setCapacityForm({ ...capacityForm, zoneId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ZONE}>Whole event</SelectItem>
+                  {zones.map(zone => (
+                    <SelectItem key={zone.id} value={zone.id}>
+                      {zone.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                placeholder="Max"
+                value={capacityForm.maxStaff}
+                onChange={(e) => setCapacityForm({ ...capacityForm, maxStaff: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCapacityDialogOpen(false)}>Close</Button>
+            <Button
+              onClick={handleAddCapacity}
+              disabled={saving || !capacityForm.role || !(parseInt(capacityForm.maxStaff) > 0)}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set Capacity
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Copy Roster Dialog */}
+      <Dialog open={copyDialogOpen} onOpenChange={setCopyDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Copy Roster</DialogTitle>
+            <DialogDescription>
+              Copy shifts and capacities from another event into {selectedEventName}. Shift dates move with the event date and zones are matched by name.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Copy from</Label>
+            <Select value={copyFromEvent} onValueChange={setCopyFromEvent}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select event" />
+              </SelectTrigger>
+              <SelectContent>
+                {events.filter(e => e.id !== selectedEvent).map(event => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.name} ({new Date(event.event_date).toLocaleDateString()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCopyDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleCopyRoster} disabled={saving || !copyFromEvent}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Copy Roster
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
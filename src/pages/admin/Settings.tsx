@@ -8,9 +8,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { Upload, Save, Palette, Bell, Clock, Receipt, DollarSign } from "lucide-react";
+import { Upload, Save, Palette, Bell, Clock, Receipt, DollarSign, Percent, Plus, Trash2, HandCoins } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TIP_POOL_ROLES, TIP_POOL_RULES, getTipPoolSettings } from "@/lib/tipPool";
+import { DEFAULT_STOCKOUT_HORIZON_MINUTES } from "@/lib/stockForecast";
 
 interface TenantSettings {
   id: string;
@@ -18,8 +20,21 @@ interface TenantSettings {
   logo_url: string | null;
   theme_config: any;
   currency: string;
+  tax_inclusive: boolean;
+  service_charge_rate: number;
+  service_charge_min_guests: number;
 }
 
+interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+  category: string | null;
+  is_active: boolean;
+}
+
+const ALL_CATEGORIES = "__all__";
+
 const CURRENCIES = [
   { code: "USD", name: "US Dollar ($)", symbol: "$" },
   { code: "EUR", name: "Euro (€)", symbol: "€" },
@@ -47,9 +62,14 @@ export default function AdminSettings() {
   const [settings, setSettings] = useState<TenantSettings | null>(null);
   const [uploading, setUploading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [taxRateForm, setTaxRateForm] = useState({ name: "", rate: "", category: ALL_CATEGORIES });
 
   useEffect(() => {
     fetchSettings();
+    fetchTaxRates();
+    fetchCategories();
   }, []);
 
   const fetchSettings = async () => {
@@ -78,6 +98,29 @@ export default function AdminSettings() {
     setSettings(data);
   };
 
+  const fetchTaxRates = async () => {
+    const { data, error } = await supabase
+      .from("tax_rates")
+      .select("id, name, rate, category, is_active")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error("Failed to load tax rates");
+      return;
+    }
+
+    setTaxRates(data || []);
+  };
+
+  const fetchCategories = async () => {
+    const { data } = await supabase
+      .from("menu_categories")
+      .select("name")
+      .order("display_order", { ascending: true });
+
+    setCategories(data?.map(c => c.name) || []);
+  };
+
   const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !settings) return;
@@ -154,6 +197,91 @@ export default function AdminSettings() {
     }
   };
 
+  const handleSaveTaxSettings = async () => {
+    if (!settings) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('tenants')
+        .update({
+          tax_inclusive: settings.tax_inclusive,
+          service_charge_rate: settings.service_charge_rate,
+          service_charge_min_guests: settings.service_charge_min_guests,
+        })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+      toast.success("Tax settings saved");
+    } catch (error) {
+      toast.error("Failed to save tax settings");
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddTaxRate = async () => {
+    if (!settings || !taxRateForm.name.trim()) return;
+
+    const rate = parseFloat(taxRateForm.rate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error("Tax rate must be between 0 and 100");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('tax_rates')
+        .insert({
+          tenant_id: settings.id,
+          name: taxRateForm.name.trim(),
+          rate,
+          category: taxRateForm.category === ALL_CATEGORIES ? null : taxRateForm.category,
+        });
+
+      if (error) throw error;
+
+      setTaxRateForm({ name: "", rate: "", category: ALL_CATEGORIES });
+      toast.success("Tax rate added");
+      fetchTaxRates();
+    } catch (error) {
+      toast.error("Failed to add tax rate");
+      console.error(error);
+    }
+  };
+
+  const handleToggleTaxRate = async (taxRate: TaxRate, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('tax_rates')
+        .update({ is_active: isActive })
+        .eq('id', taxRate.id);
+
+      if (error) throw error;
+      fetchTaxRates();
+    } catch (error) {
+      toast.error("Failed to update tax rate");
+      console.error(error);
+    }
+  };
+
+  const handleDeleteTaxRate = async (taxRateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('tax_rates')
+        .delete()
+        .eq('id', taxRateId);
+
+      if (error) throw error;
+      toast.success("Tax rate removed");
+      fetchTaxRates();
+    } catch (error) {
+      toast.error("Failed to remove tax rate");
+      console.error(error);
+    }
+  };
+
   const updateThemeConfig = (path: string[], value: any) => {
     if (!settings) return;
 
@@ -176,6 +304,7 @@ export default function AdminSettings() {
   const notifications = settings.theme_config.notifications || {};
   const operationalHours = settings.theme_config.operational_hours || {};
   const receipt = settings.theme_config.receipt || {};
+  const tipPool = getTipPoolSettings(settings.theme_config);
 
   return (
     <div className="container mx-auto p-6 space-y-6">
@@ -202,6 +331,14 @@ export default function AdminSettings() {
             <Receipt className="h-4 w-4" />
             Receipt
           </TabsTrigger>
+          <TabsTrigger value="tax" className="gap-2">
+            <Percent className="h-4 w-4" />
+            Tax & Service
+          </TabsTrigger>
+          <TabsTrigger value="tips" className="gap-2">
+            <HandCoins className="h-4 w-4" />
+            Tips
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="branding" className="space-y-4">
@@ -391,6 +528,21 @@ export default function AdminSettings() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Expo Bump</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Notify waiters once expo bumps a complete order instead of per ready item
+                    </p>
+                  </div>
+                  <Switch
+                    checked={notifications.expo_bump ?? false}
+                    onCheckedChange={(checked) =>
+                      updateThemeConfig(["notifications", "expo_bump"], checked)
+                    }
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label>Returns & Issues</Label>
@@ -420,6 +572,28 @@ export default function AdminSettings() {
                     }
                   />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="stockout-horizon">Stock-Out Warning (minutes)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Warn managers when a zone is forecast to run out of an item within this time
+                    </p>
+                  </div>
+                  <Input
+                    id="stockout-horizon"
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={notifications.stockout_horizon_minutes ?? DEFAULT_STOCKOUT_HORIZON_MINUTES}
+                    onChange={(e) =>
+                      updateThemeConfig(
+                        ["notifications", "stockout_horizon_minutes"],
+                        Math.max(parseInt(e.target.value) || 1, 1)
+                      )
+                    }
+                  />
+                </div>
               </div>
 
               <Button onClick={handleSaveTheme} disabled={saving} className="mt-4">
@@ -570,6 +744,215 @@ export default function AdminSettings() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="tax" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax & Service Charge</CardTitle>
+              <CardDescription>Applied to new orders when they are created</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Prices Include Tax</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Menu prices already include tax; it is shown on receipts but not added to the total
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.tax_inclusive}
+                  onCheckedChange={(checked) => setSettings({ ...settings, tax_inclusive: checked })}
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2 pt-4 border-t">
+                <div className="space-y-2">
+                  <Label htmlFor="service-charge-rate">Service Charge (%)</Label>
+                  <Input
+                    id="service-charge-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={settings.service_charge_rate}
+                    onChange={(e) =>
+                      setSettings({ ...settings, service_charge_rate: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                  <p className="text-sm text-muted-foreground">Set to 0 to disable</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="service-charge-guests">Apply From Party Size</Label>
+                  <Input
+                    id="service-charge-guests"
+                    type="number"
+                    min="1"
+                    value={settings.service_charge_min_guests}
+                    onChange={(e) =>
+                      setSettings({ ...settings, service_charge_min_guests: Math.max(parseInt(e.target.value) || 1, 1) })
+                    }
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Orders with at least this many guests are charged automatically
+                  </p>
+                </div>
+              </div>
+
+              <Button onClick={handleSaveTaxSettings} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Tax Settings"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax Rates</CardTitle>
+              <CardDescription>
+                Rates for a category replace the rates set for all categories
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {taxRates.length === 0 && (
+                <p className="text-sm text-muted-foreground">No tax rates configured</p>
+              )}
+
+              {taxRates.map((taxRate) => (
+                <div key={taxRate.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium">
+                      {taxRate.name} • {Number(taxRate.rate)}%
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {taxRate.category || "All categories"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={taxRate.is_active}
+                      onCheckedChange={(checked) => handleToggleTaxRate(taxRate, checked)}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteTaxRate(taxRate.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="grid gap-3 md:grid-cols-4 items-end pt-4 border-t">
+                <div className="space-y-2">
+                  <Label htmlFor="tax-name">Name</Label>
+                  <Input
+                    id="tax-name"
+                    placeholder="e.g., VAT"
+                    value={taxRateForm.name}
+                    onChange={(e) => setTaxRateForm({ ...taxRateForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax-rate">Rate (%)</Label>
+                  <Input
+                    id="tax-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    placeholder="7.5"
+                    value={taxRateForm.rate}
+                    onChange={(e) => setTaxRateForm({ ...taxRateForm, rate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={taxRateForm.category}
+                    onValueChange={(value) => setTaxRateForm({ ...taxRateForm, category: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleAddTaxRate} disabled={!taxRateForm.name.trim() || !taxRateForm.rate}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rate
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tips" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tip Pool</CardTitle>
+              <CardDescription>How tips collected during an event are shared between staff</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label>Distribution Rule</Label>
+                <Select
+                  value={tipPool.rule}
+                  onValueChange={(value) => updateThemeConfig(["tip_pool", "rule"], value)}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIP_POOL_RULES.map((rule) => (
+                      <SelectItem key={rule.value} value={rule.value}>
+                        {rule.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {TIP_POOL_RULES.find((rule) => rule.value === tipPool.rule)?.description}
+                </p>
+              </div>
+
+              <div className="space-y-4 pt-4 border-t">
+                <div>
+                  <h4 className="font-medium">Points per Role</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Used by the points rule. A role with 0 points takes no share.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {TIP_POOL_ROLES.map((role) => (
+                    <div key={role} className="space-y-2">
+                      <Label className="capitalize">{role.replace(/_/g, " ")}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={tipPool.points[role]}
+                        onChange={(e) =>
+                          updateThemeConfig(["tip_pool", "points"], {
+                            ...tipPool.points,
+                            [role]: Math.max(parseInt(e.target.value) || 0, 0),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Button onClick={handleSaveTheme} disabled={saving} className="mt-4">
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Tip Settings"}
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Printer, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { CashierShift, CashMovement, formatOverShort, getMovementTotal, printZReport } from "@/lib/cashierShifts";
+
+interface Event {
+  id: string;
+  name: string;
+}
+
+interface ShiftRow extends CashierShift {
+  profiles: {
+    full_name: string | null;
+  } | null;
+  cash_movements: CashMovement[];
+}
+
+const ALL_EVENTS = "__all__";
+
+export function AdminShifts() {
+  const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<string>(ALL_EVENTS);
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [selectedEvent]);
+
+  const fetchEvents = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('id, name')
+      .order('event_date', { ascending: false });
+
+    setEvents(data || []);
+  };
+
+  const fetchShifts = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('cashier_shifts')
+        .select(`
+          id,
+          event_id,
+          cashier_id,
+          status,
+          opening_float,
+          counted_cash,
+          expected_cash,
+          over_short,
+          notes,
+          opened_at,
+          closed_at,
+          profiles!cashier_shifts_cashier_id_fkey (full_name),
+          cash_movements (id, movement_type, amount, reason, created_at)
+        `)
+        .order('opened_at', { ascending: false })
+        .limit(200);
+
+      if (selectedEvent !== ALL_EVENTS) {
+        query = query.eq('event_id', selectedEvent);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setShifts(data || []);
+    } catch (error) {
+      toast({
+        title: "Error loading shifts",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrintZReport = async (shift: ShiftRow) => {
+    try {
+      const { data: totals, error } = await supabase.rpc('get_cashier_shift_totals', {
+        _shift_id: shift.id,
+      });
+
+      if (error) throw error;
+
+      printZReport({
+        shift,
+        cashierName: shift.profiles?.full_name || 'Cashier',
+        eventName: events.find(e => e.id === shift.event_id)?.name,
+        totals: totals || [],
+        movements: shift.cash_movements,
+        formatPrice,
+      });
+    } catch (error) {
+      toast({
+        title: "Error printing Z-report",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closedShifts = shifts.filter(s => s.status === 'closed');
+  const netOverShort = closedShifts.reduce((sum, s) => sum + Number(s.over_short || 0), 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Cash Shifts</h2>
+          <p className="text-muted-foreground">Cashier till sessions and drawer reconciliation</p>
+        </div>
+        <Select value={selectedEvent} onValueChange={setSelectedEvent}>
+          <SelectTrigger className="w-[250px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_EVENTS}>All events</SelectItem>
+            {events.map(event => (
+              <SelectItem key={event.id} value={event.id}>
+                {event.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Open Shifts</div>
+          <div className="text-2xl font-bold">{shifts.length - closedShifts.length}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Closed Shifts</div>
+          <div className="text-2xl font-bold">{closedShifts.length}</div>
+        </Card>
+        <Card className="p-4">
+          <div className="text-sm text-muted-foreground mb-1">Net Over/Short</div>
+          <div className={`text-2xl font-bold ${Math.abs(netOverShort) < 0.005 ? '' : 'text-destructive'}`}>
+            {formatOverShort(netOverShort, formatPrice)}
+          </div>
+        </Card>
+      </div>
+
+      <Card>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading shifts...</div>
+        ) : shifts.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Wallet className="h-10 w-10 mx-auto mb-2 opacity-50" />
+            No shifts recorded
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cashier</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Float</TableHead>
+                <TableHead className="text-right">Drops</TableHead>
+                <TableHead className="text-right">Paid-outs</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead>Over/Short</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts.map(shift => {
+                const overShort = Number(shift.over_short || 0);
+                return (
+                  <TableRow key={shift.id}>
+                    <TableCell className="font-medium">{shift.profiles?.full_name || 'Unknown'}</TableCell>
+                    <TableCell>{new Date(shift.opened_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {shift.closed_at ? new Date(shift.closed_at).toLocaleString() : (
+                        <Badge variant="secondary">Open</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(Number(shift.opening_float))}</TableCell>
+                    <TableCell className="text-right">{formatPrice(getMovementTotal(shift.cash_movements, 'drop'))}</TableCell>
+                    <TableCell className="text-right">{formatPrice(getMovementTotal(shift.cash_movements, 'paid_out'))}</TableCell>
+                    <TableCell className="text-right">
+                      {shift.expected_cash !== null ? formatPrice(Number(shift.expected_cash)) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.counted_cash !== null ? formatPrice(Number(shift.counted_cash)) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {shift.status === 'closed' && (
+                        <Badge variant={Math.abs(overShort) < 0.005 ? 'secondary' : 'destructive'}>
+                          {formatOverShort(overShort, formatPrice)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {shift.status === 'closed' && (
+                        <Button variant="ghost" size="sm" onClick={() => handlePrintZReport(shift)}>
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -11,8 +11,9 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { UserPlus, Loader2, Eye, EyeOff, MoreVertical, Pencil, Key, UserX, Trash2, UserCheck, MapPin, AlertCircle } from "lucide-react";
+import { UserPlus, Loader2, Eye, EyeOff, MoreVertical, Pencil, Key, UserX, Trash2, UserCheck, MapPin, AlertCircle, ShieldCheck, Clock } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
 
 interface Zone {
   id: string;
@@ -66,19 +67,24 @@ const ROLES = [
   { value: 'meal_dispenser', label: 'Meal Dispenser', description: 'Handles food orders' },
   { value: 'mixologist', label: 'Mixologist', description: 'Prepares cocktails' },
   { value: 'bar_staff', label: 'Bar Staff', description: 'Handles bar orders' },
+  { value: 'expo', label: 'Expo', description: 'Checks orders at the pass and bumps them to waiters' },
   { value: 'read_only_partner', label: 'Read-Only Partner', description: 'View-only access' },
 ];
 
 const ASSIGNABLE_ROLES = ROLES.filter(r => r.value !== 'tenant_admin');
 
 // Station roles that support multi-zone assignment
-const STATION_ROLES = ['cashier', 'bar_staff', 'mixologist', 'drink_dispenser', 'meal_dispenser'];
+const STATION_ROLES = ['cashier', 'bar_staff', 'mixologist', 'drink_dispenser', 'meal_dispenser', 'expo'];
 
 // All roles that support multi-zone assignment (station roles + event_manager)
 const MULTI_ZONE_ROLES = [...STATION_ROLES, 'event_manager'];
 
+// Roles that can approve discounts, comps and voids with a PIN
+const APPROVER_ROLES = ['tenant_admin', 'event_manager'];
+
 export function AdminStaff() {
   const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
   const [staff, setStaff] = useState<StaffMember[]>([]);
   const [zones, setZones] = useState<Zone[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
@@ -116,6 +122,17 @@ export function AdminStaff() {
   const [newPassword, setNewPassword] = useState('');
   const [showNewPassword, setShowNewPassword] = useState(false);
 
+  // Approval PIN dialog state
+  const [pinDialogOpen, setPinDialogOpen] = useState(false);
+  const [pinMember, setPinMember] = useState<StaffMember | null>(null);
+  const [newPin, setNewPin] = useState('');
+
+  // Hourly rate dialog state
+  const [payRates, setPayRates] = useState<Record<string, number>>({});
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [rateMember, setRateMember] = useState<StaffMember | null>(null);
+  const [hourlyRate, setHourlyRate] = useState('');
+
   useEffect(() => {
     fetchStaff();
     fetchZones();
@@ -212,6 +229,16 @@ export function AdminStaff() {
         zone_assignments: zoneAssignmentsMap[item.id] || [],
       }));
       setStaff(mappedData as StaffMember[]);
+
+      const { data: rates } = await supabase
+        .from('staff_pay_rates')
+        .select('user_id, hourly_rate')
+        .eq('tenant_id', profile.tenant_id);
+
+      setPayRates((rates || []).reduce((acc, r) => {
+        acc[r.user_id] = Number(r.hourly_rate);
+        return acc;
+      }, {} as Record<string, number>));
     } catch (error: any) {
       toast({
         title: "Error loading staff",
@@ -514,6 +541,65 @@ export function AdminStaff() {
     }
   };
 
+  const handleSetApprovalPin = async () => {
+    if (!pinMember || !/^[0-9]{4,6}$/.test(newPin)) return;
+
+    setActionLoading(pinMember.id);
+    try {
+      const { error } = await supabase.rpc('set_approval_pin', {
+        _user_id: pinMember.id,
+        _pin: newPin,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Approval PIN set", description: `${pinMember.full_name || 'This manager'} can now approve discounts and voids` });
+      setPinDialogOpen(false);
+      setPinMember(null);
+      setNewPin('');
+    } catch (error) {
+      toast({
+        title: "Error setting PIN",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleSetHourlyRate = async () => {
+    const rate = parseFloat(hourlyRate);
+    if (!rateMember || !tenantId || isNaN(rate) || rate < 0) return;
+
+    setActionLoading(rateMember.id);
+    try {
+      const { error } = await supabase
+        .from('staff_pay_rates')
+        .upsert({
+          user_id: rateMember.id,
+          tenant_id: tenantId,
+          hourly_rate: rate,
+        });
+
+      if (error) throw error;
+
+      setPayRates({ ...payRates, [rateMember.id]: rate });
+      toast({ title: "Hourly rate saved" });
+      setRateDialogOpen(false);
+      setRateMember(null);
+      setHourlyRate('');
+    } catch (error) {
+      toast({
+        title: "Error saving hourly rate",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleToggleActive = async (member: StaffMember) => {
     const success = await handleManageStaff('toggle_active', member.id, { isActive: !member.is_active });
     if (success) {
@@ -653,6 +739,18 @@ export function AdminStaff() {
     setPasswordDialogOpen(true);
   };
 
+  const openPinDialog = (member: StaffMember) => {
+    setPinMember(member);
+    setNewPin('');
+    setPinDialogOpen(true);
+  };
+
+  const openRateDialog = (member: StaffMember) => {
+    setRateMember(member);
+    setHourlyRate(payRates[member.id] !== undefined ? payRates[member.id].toFixed(2) : '');
+    setRateDialogOpen(true);
+  };
+
   const getRoleBadgeColor = (role: string) => {
     const colors: Record<string, string> = {
       'tenant_admin': 'bg-purple-500/20 text-purple-700 dark:text-purple-300',
@@ -663,6 +761,7 @@ export function AdminStaff() {
       'meal_dispenser': 'bg-orange-500/20 text-orange-700 dark:text-orange-300',
       'mixologist': 'bg-pink-500/20 text-pink-700 dark:text-pink-300',
       'bar_staff': 'bg-indigo-500/20 text-indigo-700 dark:text-indigo-300',
+      'expo': 'bg-teal-500/20 text-teal-700 dark:text-teal-300',
       'read_only_partner': 'bg-gray-500/20 text-gray-700 dark:text-gray-300',
     };
     return colors[role] || 'bg-secondary';
@@ -844,6 +943,9 @@ export function AdminStaff() {
                       {member.phone && (
                         <p className="text-sm text-muted-foreground">{member.phone}</p>
                       )}
+                      {payRates[member.id] !== undefined && (
+                        <p className="text-sm text-muted-foreground">{formatPrice(payRates[member.id])}/hr</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <Badge variant={member.is_active ? "default" : "secondary"}>
@@ -868,6 +970,16 @@ export function AdminStaff() {
                             <Key className="h-4 w-4 mr-2" />
                             Reset Password
                           </DropdownMenuItem>
+                          {member.user_roles.some(r => APPROVER_ROLES.includes(r.role)) && (
+                            <DropdownMenuItem onClick={() => openPinDialog(member)}>
+                              <ShieldCheck className="h-4 w-4 mr-2" />
+                              Set Approval PIN
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => openRateDialog(member)}>
+                            <Clock className="h-4 w-4 mr-2" />
+                            Set Hourly Rate
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => handleToggleActive(member)}>
                             {member.is_active ? (
                               <>
@@ -1285,6 +1397,77 @@ export function AdminStaff() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Approval PIN Dialog */}
+      <Dialog open={pinDialogOpen} onOpenChange={setPinDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Approval PIN</DialogTitle>
+            <DialogDescription>
+              {pinMember?.full_name || 'This manager'} enters this PIN to approve discounts, comps and voids on staff devices
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="approvalPin">PIN</Label>
+              <Input
+                id="approvalPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder="4 to 6 digits"
+                maxLength={6}
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setPinDialogOpen(false)}>Cancel</Button>
+              <Button onClick={handleSetApprovalPin} disabled={newPin.length < 4 || actionLoading !== null}>
+                {actionLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Set PIN
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Hourly Rate Dialog */}
+      <Dialog open={rateDialogOpen} onOpenChange={setRateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Hourly Rate</DialogTitle>
+            <DialogDescription>
+              Used to cost {rateMember?.full_name || 'this staff member'}'s clocked hours in the labour report
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="hourlyRate">Hourly Rate</Label>
+              <Input
+                id="hourlyRate"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setRateDialogOpen(false)}>Cancel</Button>
+              <Button onClick={handleSetHourlyRate} disabled={hourlyRate === '' || parseFloat(hourlyRate) < 0 || actionLoading !== null}>
+                {actionLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Rate
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
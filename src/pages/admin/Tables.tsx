@@ -38,8 +38,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Users, Clock, ArrowRightLeft, Plus, MapPin, Pencil, Trash2, MoreVertical, UsersRound } from "lucide-react";
+import { useTenantCurrency } from "@/hooks/useTenantCurrency";
+import { Users, Clock, ArrowRightLeft, Plus, MapPin, Pencil, Trash2, MoreVertical, UsersRound, Receipt } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { TableTab, TABLE_TAB_SELECT, getTabBalance, getTabWaiterNames, getUnpaidTabOrders } from "@/lib/tableTabs";
 
 interface Zone {
   id: string;
@@ -76,6 +78,7 @@ interface Event {
 
 export default function Tables() {
   const [tables, setTables] = useState<Table[]>([]);
+  const [openTabs, setOpenTabs] = useState<TableTab[]>([]);
   const [zones, setZones] = useState<Zone[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [selectedEvent, setSelectedEvent] = useState<string>("");
@@ -121,6 +124,7 @@ export default function Tables() {
   const [reassignToTable, setReassignToTable] = useState("");
   
   const { toast } = useToast();
+  const { formatPrice } = useTenantCurrency();
 
   useEffect(() => {
     fetchEvents();
@@ -215,6 +219,24 @@ export default function Tables() {
 
     setTables((data || []) as Table[]);
     setLoading(false);
+    fetchOpenTabs();
+  };
+
+  const fetchOpenTabs = async () => {
+    if (!selectedEvent) return;
+
+    const { data, error } = await supabase
+      .from("table_tabs")
+      .select(TABLE_TAB_SELECT)
+      .eq("event_id", selectedEvent)
+      .eq("status", "open");
+
+    if (error) {
+      console.error("Error fetching tabs:", error);
+      return;
+    }
+
+    setOpenTabs((data || []) as unknown as TableTab[]);
   };
 
   const subscribeToTables = () => {
@@ -232,6 +254,18 @@ export default function Tables() {
           fetchTables();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "orders",
+          filter: `event_id=eq.${selectedEvent}`,
+        },
+        () => {
+          fetchOpenTabs();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -477,6 +511,16 @@ export default function Tables() {
   };
 
   const updateTableStatus = async (tableId: string, status: string) => {
+    const tab = openTabs.find((t) => t.table_id === tableId);
+    if (status === "available" && tab && getUnpaidTabOrders(tab).length > 0) {
+      toast({
+        title: "Cannot clear",
+        description: "This table has an open tab. Settle it at the cashier first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const updates: Record<string, unknown> = { status };
     
     if (status === "available") {
@@ -494,7 +538,7 @@ export default function Tables() {
     if (error) {
       toast({
         title: "Error",
-        description: "Failed to update table status",
+        description: error.message || "Failed to update table status",
         variant: "destructive",
       });
       return;
@@ -511,7 +555,7 @@ export default function Tables() {
 
     const { error: orderError } = await supabase
       .from("orders")
-      .update({ table_number: newTable.table_number })
+      .update({ table_id: newTable.id, table_number: newTable.table_number })
       .eq("id", reassignOrderId);
 
     if (orderError) {
@@ -970,148 +1014,166 @@ export default function Tables() {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {tables.map((table) => (
-          <Card key={table.id} className="relative group">
-            {table.zone && (
-              <div 
-                className="absolute top-0 left-0 right-0 h-1 rounded-t-lg"
-                style={{ backgroundColor: table.zone.color }}
-              />
-            )}
-            <CardHeader>
-              <div className="flex justify-between items-center gap-2 mb-2">
-                {table.is_adhoc && (
-                  <Badge variant="outline" className="px-1.5 bg-purple-500/10 text-purple-600 border-purple-300" title="Ad-hoc table">
-                    <UsersRound className="w-3 h-3" />
+        {tables.map((table) => {
+          const tab = openTabs.find((t) => t.table_id === table.id);
+          return (
+            <Card key={table.id} className="relative group">
+              {table.zone && (
+                <div 
+                  className="absolute top-0 left-0 right-0 h-1 rounded-t-lg"
+                  style={{ backgroundColor: table.zone.color }}
+                />
+              )}
+              <CardHeader>
+                <div className="flex justify-between items-center gap-2 mb-2">
+                  {table.is_adhoc && (
+                    <Badge variant="outline" className="px-1.5 bg-purple-500/10 text-purple-600 border-purple-300" title="Ad-hoc table">
+                      <UsersRound className="w-3 h-3" />
+                    </Badge>
+                  )}
+                  <Badge className={getStatusColor(table.status)}>
+                    {getStatusLabel(table.status)}
                   </Badge>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="icon" variant="ghost" className="h-7 w-7">
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => openEditTable(table)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit Table
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setDeletingTable(table)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete Table
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <CardTitle className="text-base">Table {table.table_number}</CardTitle>
+                {table.zone && (
+                  <div className="flex items-center gap-1 mt-1">
+                    <MapPin className="w-3 h-3 text-muted-foreground" />
+                    <span className="text-xs text-muted-foreground">{table.zone.name}</span>
+                  </div>
                 )}
-                <Badge className={getStatusColor(table.status)}>
-                  {getStatusLabel(table.status)}
-                </Badge>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button size="icon" variant="ghost" className="h-7 w-7">
-                      <MoreVertical className="w-4 h-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => openEditTable(table)}>
-                      <Pencil className="w-4 h-4 mr-2" />
-                      Edit Table
-                    </DropdownMenuItem>
-                    <DropdownMenuItem 
-                      onClick={() => setDeletingTable(table)}
-                      className="text-destructive focus:text-destructive"
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete Table
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-              <CardTitle className="text-base">Table {table.table_number}</CardTitle>
-              {table.zone && (
-                <div className="flex items-center gap-1 mt-1">
-                  <MapPin className="w-3 h-3 text-muted-foreground" />
-                  <span className="text-xs text-muted-foreground">{table.zone.name}</span>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <Users className="w-4 h-4" />
+                  <span>Capacity: {table.capacity}</span>
                 </div>
-              )}
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="flex items-center gap-2 text-sm">
-                <Users className="w-4 h-4" />
-                <span>Capacity: {table.capacity}</span>
-              </div>
 
-              {table.status === "occupied" && table.order && (
-                <>
-                  <div className="text-sm">
-                    <p className="font-semibold">{table.order.order_number}</p>
-                    <p className="text-muted-foreground">{table.order.guest_name}</p>
+                {tab && tab.orders.length > 0 && (
+                  <div className="rounded-md border p-2 text-sm space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-1 font-semibold">
+                        <Receipt className="w-3 h-3" />
+                        Tab
+                      </span>
+                      <span className="font-semibold">{formatPrice(getTabBalance(tab))}</span>
+                    </div>
                     <p className="text-xs text-muted-foreground">
-                      Waiter: {table.order.waiter.full_name}
+                      {tab.orders.length} order{tab.orders.length !== 1 ? "s" : ""} • {getTabWaiterNames(tab).join(", ")}
                     </p>
                   </div>
-                  {table.occupied_at && (
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <Clock className="w-3 h-3" />
-                      <span>
-                        {formatDistanceToNow(new Date(table.occupied_at), { addSuffix: true })}
-                      </span>
+                )}
+
+                {table.status === "occupied" && table.order && (
+                  <>
+                    <div className="text-sm">
+                      <p className="font-semibold">{table.order.order_number}</p>
+                      <p className="text-muted-foreground">{table.order.guest_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Waiter: {table.order.waiter.full_name}
+                      </p>
                     </div>
-                  )}
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="w-full"
-                        onClick={() => setReassignOrderId(table.current_order_id)}
-                      >
-                        <ArrowRightLeft className="w-4 h-4 mr-2" />
-                        Reassign
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Reassign Order</DialogTitle>
-                        <DialogDescription>
-                          Move this order to a different table
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="space-y-4">
-                        <div>
-                          <Label>Select Table</Label>
-                          <Select value={reassignToTable} onValueChange={setReassignToTable}>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Choose table" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {tables
-                                .filter((t) => t.status === "available" && t.id !== table.id)
-                                .map((t) => (
-                                  <SelectItem key={t.id} value={t.id}>
-                                    Table {t.table_number} (Capacity: {t.capacity})
-                                    {t.zone && ` - ${t.zone.name}`}
-                                  </SelectItem>
-                                ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                        <Button onClick={reassignOrder} className="w-full">
-                          Confirm Reassignment
-                        </Button>
+                    {table.occupied_at && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Clock className="w-3 h-3" />
+                        <span>
+                          {formatDistanceToNow(new Date(table.occupied_at), { addSuffix: true })}
+                        </span>
                       </div>
-                    </DialogContent>
-                  </Dialog>
-                </>
-              )}
-
-              <div className="flex gap-2">
-                {table.status !== "available" && (
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => updateTableStatus(table.id, "available")}
-                    className="flex-1"
-                  >
-                    Clear
-                  </Button>
-                )}
-                {table.status === "available" && (
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => updateTableStatus(table.id, "reserved")}
-                    className="flex-1"
-                  >
-                    Reserve
-                  </Button>
+                    )}
+                    <Dialog>
+                      <DialogTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => setReassignOrderId(table.current_order_id)}
+                        >
+                          <ArrowRightLeft className="w-4 h-4 mr-2" />
+                          Reassign
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Reassign Order</DialogTitle>
+                          <DialogDescription>
+                            Move this order to a different table
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                          <div>
+                            <Label>Select Table</Label>
+                            <Select value={reassignToTable} onValueChange={setReassignToTable}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose table" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {tables
+                                  .filter((t) => t.status === "available" && t.id !== table.id)
+                                  .map((t) => (
+                                    <SelectItem key={t.id} value={t.id}>
+                                      Table {t.table_number} (Capacity: {t.capacity})
+                                      {t.zone && ` - ${t.zone.name}`}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Button onClick={reassignOrder} className="w-full">
+                            Confirm Reassignment
+                          </Button>
+                        </div>
+                      </DialogContent>
+                    </Dialog>
+                  </>
                 )}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+
+                <div className="flex gap-2">
+                  {table.status !== "available" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateTableStatus(table.id, "available")}
+                      className="flex-1"
+                    >
+                      Clear
+                    </Button>
+                  )}
+                  {table.status === "available" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateTableStatus(table.id, "reserved")}
+                      className="flex-1"
+                    >
+                      Reserve
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {tables.length === 0 && (
@@ -0,0 +1,107 @@
+-- Create menu_modifier_groups table (e.g. "Size", "Mixer", "Doneness")
+CREATE TABLE public.menu_modifier_groups (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    is_required BOOLEAN NOT NULL DEFAULT false,
+    min_selections INTEGER NOT NULL DEFAULT 0,
+    max_selections INTEGER NOT NULL DEFAULT 1,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_selection_range CHECK (
+        min_selections >= 0 AND max_selections >= 1 AND min_selections <= max_selections
+    )
+);
+
+-- Create menu_modifier_options table (e.g. "Double +2.00", "Slimline", "Medium-rare")
+CREATE TABLE public.menu_modifier_options (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES public.menu_modifier_groups(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    price_delta NUMERIC(10,2) NOT NULL DEFAULT 0,
+    is_available BOOLEAN NOT NULL DEFAULT true,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create order_item_modifiers table
+-- Group/option names and price deltas are copied at order time so later menu edits
+-- do not rewrite what was ordered and charged
+CREATE TABLE public.order_item_modifiers (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+    modifier_option_id UUID REFERENCES public.menu_modifier_options(id) ON DELETE SET NULL,
+    group_name TEXT NOT NULL,
+    option_name TEXT NOT NULL,
+    price_delta NUMERIC(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_menu_modifier_groups_menu_item_id ON public.menu_modifier_groups(menu_item_id);
+CREATE INDEX idx_menu_modifier_groups_tenant_id ON public.menu_modifier_groups(tenant_id);
+CREATE INDEX idx_menu_modifier_options_group_id ON public.menu_modifier_options(group_id);
+CREATE INDEX idx_menu_modifier_options_tenant_id ON public.menu_modifier_options(tenant_id);
+CREATE INDEX idx_order_item_modifiers_order_item_id ON public.order_item_modifiers(order_item_id);
+CREATE INDEX idx_order_item_modifiers_tenant_id ON public.order_item_modifiers(tenant_id);
+
+-- Enable RLS
+ALTER TABLE public.menu_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_item_modifiers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for menu_modifier_groups
+CREATE POLICY "Users can view modifier groups in their tenant"
+ON public.menu_modifier_groups
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage modifier groups"
+ON public.menu_modifier_groups
+FOR ALL
+USING (
+    tenant_id = get_user_tenant(auth.uid())
+    AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)
+);
+
+-- RLS Policies for menu_modifier_options
+CREATE POLICY "Users can view modifier options in their tenant"
+ON public.menu_modifier_options
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage modifier options"
+ON public.menu_modifier_options
+FOR ALL
+USING (
+    tenant_id = get_user_tenant(auth.uid())
+    AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)
+);
+
+-- RLS Policies for order_item_modifiers
+CREATE POLICY "Users can view order item modifiers in their tenant"
+ON public.order_item_modifiers
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()));
+
+CREATE POLICY "Order item modifiers can be managed by staff"
+ON public.order_item_modifiers
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_menu_modifier_groups_updated_at
+BEFORE UPDATE ON public.menu_modifier_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_menu_modifier_options_updated_at
+BEFORE UPDATE ON public.menu_modifier_options
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,213 @@
+-- Atomic order creation
+-- Creates the order header, its items and their modifiers in a single transaction.
+-- Prices are looked up server-side; the client only sends ids and quantities.
+--
+-- _items format:
+--   [{ "menu_item_id": uuid, "quantity": int, "modifier_option_ids": [uuid], "notes": text }]
+--
+-- _table_id is the seated table; when it is null (bar walk-ins) _table_number is used as-is.
+-- _status is 'pending' for orders dispatched to stations, or 'served' for bar orders
+-- that are handed over immediately.
+CREATE OR REPLACE FUNCTION public.create_order(
+  _event_id UUID,
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _table_number TEXT DEFAULT NULL,
+  _guest_name TEXT DEFAULT NULL,
+  _status public.order_status DEFAULT 'pending'
+)
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _zone_id UUID;
+  _order_id UUID;
+  _order_number TEXT;
+  _total NUMERIC := 0;
+  _item JSONB;
+  _menu_item RECORD;
+  _group RECORD;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _unit_price NUMERIC;
+  _order_item_id UUID;
+  _selected_count INTEGER;
+  _min_required INTEGER;
+  _allocated INTEGER;
+  _requested INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Orders can only be created as pending or served';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order must contain at least one item';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id AND e.tenant_id = _tenant_id AND e.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Event not found or not active';
+  END IF;
+
+  -- Resolve the table and its zone
+  IF _table_id IS NOT NULL THEN
+    SELECT t.table_number, t.zone_id INTO _table_number, _zone_id
+    FROM tables t
+    WHERE t.id = _table_id AND t.event_id = _event_id AND t.tenant_id = _tenant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table not found for this event';
+    END IF;
+  END IF;
+
+  -- Serialise order creation per event so order numbers stay unique
+  PERFORM pg_advisory_xact_lock(hashtext(_event_id::text));
+
+  _order_number := generate_order_number(_event_id);
+
+  INSERT INTO orders (
+    order_number, event_id, waiter_id, tenant_id, table_number, guest_name,
+    status, total_amount, served_at
+  )
+  VALUES (
+    _order_number, _event_id, _user_id, _tenant_id, _table_number, NULLIF(_guest_name, ''),
+    _status, 0, CASE WHEN _status = 'served' THEN now() END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT mi.id, mi.name, mi.price, mi.station_type, mi.is_available, mi.is_retired
+    INTO _menu_item
+    FROM menu_items mi
+    WHERE mi.id = (_item->>'menu_item_id')::UUID
+      AND mi.tenant_id = _tenant_id
+      AND (mi.event_id = _event_id OR mi.event_id IS NULL);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not on the menu for this event', _item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) OR _menu_item.is_retired THEN
+      RAISE EXCEPTION '% is no longer available', _menu_item.name;
+    END IF;
+
+    _option_ids := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb))::UUID
+    );
+
+    -- Every selected option must belong to this item and be available
+    IF EXISTS (
+      SELECT 1 FROM unnest(_option_ids) AS sel(id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options mo
+        JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = sel.id
+          AND mg.menu_item_id = _menu_item.id
+          AND mo.is_available = true
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid or unavailable option selected for %', _menu_item.name;
+    END IF;
+
+    -- Enforce min/max selections per modifier group
+    FOR _group IN
+      SELECT mg.id, mg.name, mg.is_required, mg.min_selections, mg.max_selections
+      FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = _menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO _selected_count
+      FROM menu_modifier_options mo
+      WHERE mo.group_id = _group.id AND mo.id = ANY(_option_ids);
+
+      _min_required := CASE WHEN _group.is_required THEN GREATEST(_group.min_selections, 1)
+                            ELSE _group.min_selections END;
+
+      IF _selected_count < _min_required OR _selected_count > _group.max_selections THEN
+        RAISE EXCEPTION 'Invalid selection for % on %', _group.name, _menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT _menu_item.price + COALESCE(SUM(mo.price_delta), 0) INTO _unit_price
+    FROM menu_modifier_options mo
+    WHERE mo.id = ANY(_option_ids);
+
+    INSERT INTO order_items (
+      order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes
+    )
+    VALUES (
+      _order_id, _menu_item.id, _quantity, _unit_price, _menu_item.station_type, _tenant_id,
+      _status, NULLIF(_item->>'notes', '')
+    )
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO order_item_modifiers (
+      order_item_id, modifier_option_id, group_name, option_name, price_delta, tenant_id
+    )
+    SELECT _order_item_id, mo.id, mg.name, mo.name, mo.price_delta, _tenant_id
+    FROM menu_modifier_options mo
+    JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(_option_ids);
+
+    _total := _total + (_unit_price * _quantity);
+  END LOOP;
+
+  -- Check zone allocations against the total requested per menu item
+  IF _zone_id IS NOT NULL THEN
+    FOR _menu_item IN
+      SELECT oi.menu_item_id AS id, mi.name, SUM(oi.quantity)::INTEGER AS requested
+      FROM order_items oi
+      JOIN menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = _order_id
+      GROUP BY oi.menu_item_id, mi.name
+    LOOP
+      _requested := _menu_item.requested;
+
+      SELECT a.allocated_quantity INTO _allocated
+      FROM inventory_zone_allocations a
+      WHERE a.menu_item_id = _menu_item.id
+        AND a.zone_id = _zone_id
+        AND a.event_id = _event_id;
+
+      IF FOUND AND _allocated < _requested THEN
+        RAISE EXCEPTION 'Only % of % left in this zone', _allocated, _menu_item.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE orders SET total_amount = _total WHERE id = _order_id;
+
+  RETURN QUERY SELECT _order_id, _order_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, UUID, TEXT, TEXT, public.order_status) TO authenticated;
@@ -0,0 +1,103 @@
+-- Link orders to their table by id
+-- table_number on orders is kept as the display value; zone scoping goes through table_id
+ALTER TABLE public.orders
+ADD COLUMN table_id UUID REFERENCES public.tables(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_table_id ON public.orders(table_id);
+
+-- Backfill from the table number within the same event
+UPDATE public.orders o
+SET table_id = t.id
+FROM public.tables t
+WHERE o.table_id IS NULL
+  AND t.tenant_id = o.tenant_id
+  AND t.event_id = o.event_id
+  AND t.table_number = o.table_number;
+
+-- Keep table_id and table_number consistent on orders
+-- Orders created with only a table number (e.g. bar orders) are linked to the matching table in the event
+CREATE OR REPLACE FUNCTION public.sync_order_table()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.table_id IS NOT NULL THEN
+    SELECT t.table_number INTO NEW.table_number
+    FROM tables t
+    WHERE t.id = NEW.table_id;
+  ELSIF NEW.table_number IS NOT NULL THEN
+    SELECT t.id INTO NEW.table_id
+    FROM tables t
+    WHERE t.tenant_id = NEW.tenant_id
+      AND t.event_id = NEW.event_id
+      AND t.table_number = NEW.table_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_order_table_trigger
+BEFORE INSERT OR UPDATE OF table_id, table_number ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_order_table();
+
+-- Carry table renames through to the orders placed at that table
+CREATE OR REPLACE FUNCTION public.sync_table_number_to_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.table_number IS DISTINCT FROM OLD.table_number THEN
+    UPDATE orders
+    SET table_number = NEW.table_number
+    WHERE table_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_table_number_to_orders_trigger
+AFTER UPDATE OF table_number ON public.tables
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_table_number_to_orders();
+
+-- Resolve the zone through table_id when decrementing inventory on serve
+CREATE OR REPLACE FUNCTION public.decrement_inventory_on_served()
+RETURNS TRIGGER AS $$
+DECLARE
+  _zone_id uuid;
+  _event_id uuid;
+BEGIN
+  -- Only process if status changed to 'served'
+  IF NEW.status = 'served' AND (OLD.status IS NULL OR OLD.status != 'served') THEN
+    -- Get the zone_id and event_id from the order's table
+    SELECT t.zone_id, o.event_id INTO _zone_id, _event_id
+    FROM orders o
+    LEFT JOIN tables t ON t.id = o.table_id
+    WHERE o.id = NEW.order_id;
+
+    -- Decrement global inventory (menu_items.current_inventory)
+    UPDATE menu_items
+    SET current_inventory = GREATEST(0, current_inventory - NEW.quantity)
+    WHERE id = NEW.menu_item_id;
+
+    -- Decrement zone allocation if zone exists
+    IF _zone_id IS NOT NULL AND _event_id IS NOT NULL THEN
+      UPDATE inventory_zone_allocations
+      SET allocated_quantity = GREATEST(0, allocated_quantity - NEW.quantity),
+          updated_at = now()
+      WHERE menu_item_id = NEW.menu_item_id
+        AND zone_id = _zone_id
+        AND event_id = _event_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
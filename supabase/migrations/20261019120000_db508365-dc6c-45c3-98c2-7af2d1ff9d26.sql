@@ -0,0 +1,443 @@
+-- Tax and service charge settings per tenant
+-- tax_inclusive: menu prices already include tax; tax is extracted for reporting rather than added
+-- service_charge_rate: percentage added to orders with at least service_charge_min_guests guests
+ALTER TABLE public.tenants
+ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN service_charge_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN service_charge_min_guests INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.tenants
+ADD CONSTRAINT valid_service_charge CHECK (
+    service_charge_rate >= 0 AND service_charge_rate <= 100 AND service_charge_min_guests >= 1
+);
+
+-- Party size, used for the automatic service charge
+ALTER TABLE public.orders
+ADD COLUMN guest_count INTEGER;
+
+-- Create tax_rates table
+-- A rate with a category applies to menu items in that category; a rate without a category
+-- applies to every category that has no rate of its own
+CREATE TABLE public.tax_rates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    rate NUMERIC(5,2) NOT NULL,
+    category TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_tax_rate CHECK (rate >= 0 AND rate <= 100)
+);
+
+-- Create order_charge_type enum
+CREATE TYPE public.order_charge_type AS ENUM ('tax', 'service_charge');
+
+-- Create order_charges table
+-- Tax and service charge lines calculated for an order. Inclusive tax lines are already
+-- part of the item prices and are not added to the order total.
+CREATE TABLE public.order_charges (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    charge_type public.order_charge_type NOT NULL,
+    name TEXT NOT NULL,
+    rate NUMERIC(5,2) NOT NULL,
+    amount NUMERIC(10,2) NOT NULL,
+    is_inclusive BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_tax_rates_tenant_id ON public.tax_rates(tenant_id);
+CREATE INDEX idx_order_charges_order_id ON public.order_charges(order_id);
+CREATE INDEX idx_order_charges_tenant_id ON public.order_charges(tenant_id);
+
+-- Enable RLS
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_charges ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tax_rates
+CREATE POLICY "Users can view tax rates in their tenant"
+ON public.tax_rates
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage tax rates"
+ON public.tax_rates
+FOR ALL
+USING (
+    tenant_id = get_user_tenant(auth.uid())
+    AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)
+);
+
+-- RLS Policies for order_charges
+-- Rows are written by calculate_order_charges only
+CREATE POLICY "Users can view order charges in their tenant"
+ON public.order_charges
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_tax_rates_updated_at
+BEFORE UPDATE ON public.tax_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recalculate the tax and service charge lines of an order from its billable items
+-- (returned and rejected items are excluded) and update orders.total_amount.
+-- Returns the new order total.
+CREATE OR REPLACE FUNCTION public.calculate_order_charges(_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _settings RECORD;
+  _subtotal NUMERIC;
+  _added_charges NUMERIC;
+BEGIN
+  SELECT o.id, o.tenant_id, o.guest_count INTO _order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND _order.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT t.tax_inclusive, t.service_charge_rate, t.service_charge_min_guests INTO _settings
+  FROM tenants t
+  WHERE t.id = _order.tenant_id;
+
+  DELETE FROM order_charges WHERE order_id = _order_id;
+
+  SELECT COALESCE(SUM(oi.price * oi.quantity), 0) INTO _subtotal
+  FROM order_items oi
+  WHERE oi.order_id = _order_id
+    AND oi.status NOT IN ('returned', 'rejected');
+
+  -- One tax line per rate, summed over the categories it applies to.
+  -- Inclusive tax is extracted from the price using the combined rate of the category.
+  WITH billable AS (
+    SELECT mi.category, SUM(oi.price * oi.quantity) AS amount
+    FROM order_items oi
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    WHERE oi.order_id = _order_id
+      AND oi.status NOT IN ('returned', 'rejected')
+    GROUP BY mi.category
+  ),
+  applicable AS (
+    SELECT b.category, b.amount, tr.name, tr.rate
+    FROM billable b
+    JOIN tax_rates tr
+      ON tr.tenant_id = _order.tenant_id
+     AND tr.is_active = true
+     AND (
+       tr.category = b.category
+       OR (
+         tr.category IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM tax_rates c
+           WHERE c.tenant_id = _order.tenant_id
+             AND c.is_active = true
+             AND c.category = b.category
+         )
+       )
+     )
+  ),
+  category_rates AS (
+    SELECT category, SUM(rate) AS total_rate
+    FROM applicable
+    GROUP BY category
+  )
+  INSERT INTO order_charges (order_id, tenant_id, charge_type, name, rate, amount, is_inclusive)
+  SELECT
+    _order_id,
+    _order.tenant_id,
+    'tax',
+    a.name,
+    a.rate,
+    ROUND(SUM(
+      CASE WHEN _settings.tax_inclusive
+        THEN a.amount * a.rate / (100 + cr.total_rate)
+        ELSE a.amount * a.rate / 100
+      END
+    ), 2),
+    _settings.tax_inclusive
+  FROM applicable a
+  JOIN category_rates cr ON cr.category = a.category
+  WHERE a.rate > 0
+  GROUP BY a.name, a.rate;
+
+  -- Automatic service charge for larger parties
+  IF _settings.service_charge_rate > 0
+     AND _subtotal > 0
+     AND COALESCE(_order.guest_count, 1) >= _settings.service_charge_min_guests THEN
+    INSERT INTO order_charges (order_id, tenant_id, charge_type, name, rate, amount, is_inclusive)
+    VALUES (
+      _order_id,
+      _order.tenant_id,
+      'service_charge',
+      'Service charge',
+      _settings.service_charge_rate,
+      ROUND(_subtotal * _settings.service_charge_rate / 100, 2),
+      false
+    );
+  END IF;
+
+  SELECT COALESCE(SUM(oc.amount), 0) INTO _added_charges
+  FROM order_charges oc
+  WHERE oc.order_id = _order_id
+    AND oc.is_inclusive = false;
+
+  UPDATE orders
+  SET total_amount = _subtotal + _added_charges
+  WHERE id = _order_id;
+
+  RETURN _subtotal + _added_charges;
+END;
+$$;
+
+-- Keep charges in step when items are returned, rejected or repriced on unpaid orders
+CREATE OR REPLACE FUNCTION public.recalculate_order_charges_on_item_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (OLD.status IN ('returned', 'rejected')) IS DISTINCT FROM (NEW.status IN ('returned', 'rejected'))
+     OR NEW.quantity IS DISTINCT FROM OLD.quantity
+     OR NEW.price IS DISTINCT FROM OLD.price THEN
+    IF EXISTS (SELECT 1 FROM orders WHERE id = NEW.order_id AND status <> 'paid') THEN
+      PERFORM calculate_order_charges(NEW.order_id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recalculate_order_charges_trigger
+AFTER UPDATE OF status, quantity, price ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.recalculate_order_charges_on_item_change();
+
+-- Atomic order creation, now recording the party size and applying tax and service charges
+DROP FUNCTION IF EXISTS public.create_order(UUID, JSONB, UUID, TEXT, TEXT, public.order_status);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  _event_id UUID,
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _table_number TEXT DEFAULT NULL,
+  _guest_name TEXT DEFAULT NULL,
+  _status public.order_status DEFAULT 'pending',
+  _guest_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _zone_id UUID;
+  _order_id UUID;
+  _order_number TEXT;
+  _total NUMERIC;
+  _item JSONB;
+  _menu_item RECORD;
+  _group RECORD;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _unit_price NUMERIC;
+  _order_item_id UUID;
+  _selected_count INTEGER;
+  _min_required INTEGER;
+  _allocated INTEGER;
+  _requested INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Orders can only be created as pending or served';
+  END IF;
+
+  IF _guest_count IS NOT NULL AND _guest_count <= 0 THEN
+    RAISE EXCEPTION 'Guest count must be greater than zero';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order must contain at least one item';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id AND e.tenant_id = _tenant_id AND e.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Event not found or not active';
+  END IF;
+
+  -- Resolve the table and its zone
+  IF _table_id IS NOT NULL THEN
+    SELECT t.table_number, t.zone_id INTO _table_number, _zone_id
+    FROM tables t
+    WHERE t.id = _table_id AND t.event_id = _event_id AND t.tenant_id = _tenant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table not found for this event';
+    END IF;
+  END IF;
+
+  -- Serialise order creation per event so order numbers stay unique
+  PERFORM pg_advisory_xact_lock(hashtext(_event_id::text));
+
+  _order_number := generate_order_number(_event_id);
+
+  INSERT INTO orders (
+    order_number, event_id, waiter_id, tenant_id, table_id, table_number, guest_name,
+    guest_count, status, total_amount, served_at
+  )
+  VALUES (
+    _order_number, _event_id, _user_id, _tenant_id, _table_id, _table_number, NULLIF(_guest_name, ''),
+    _guest_count, _status, 0, CASE WHEN _status = 'served' THEN now() END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT mi.id, mi.name, mi.price, mi.station_type, mi.is_available, mi.is_retired
+    INTO _menu_item
+    FROM menu_items mi
+    WHERE mi.id = (_item->>'menu_item_id')::UUID
+      AND mi.tenant_id = _tenant_id
+      AND (mi.event_id = _event_id OR mi.event_id IS NULL);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not on the menu for this event', _item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) OR _menu_item.is_retired THEN
+      RAISE EXCEPTION '% is no longer available', _menu_item.name;
+    END IF;
+
+    _option_ids := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb))::UUID
+    );
+
+    -- Every selected option must belong to this item and be available
+    IF EXISTS (
+      SELECT 1 FROM unnest(_option_ids) AS sel(id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options mo
+        JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = sel.id
+          AND mg.menu_item_id = _menu_item.id
+          AND mo.is_available = true
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid or unavailable option selected for %', _menu_item.name;
+    END IF;
+
+    -- Enforce min/max selections per modifier group
+    FOR _group IN
+      SELECT mg.id, mg.name, mg.is_required, mg.min_selections, mg.max_selections
+      FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = _menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO _selected_count
+      FROM menu_modifier_options mo
+      WHERE mo.group_id = _group.id AND mo.id = ANY(_option_ids);
+
+      _min_required := CASE WHEN _group.is_required THEN GREATEST(_group.min_selections, 1)
+                            ELSE _group.min_selections END;
+
+      IF _selected_count < _min_required OR _selected_count > _group.max_selections THEN
+        RAISE EXCEPTION 'Invalid selection for % on %', _group.name, _menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT _menu_item.price + COALESCE(SUM(mo.price_delta), 0) INTO _unit_price
+    FROM menu_modifier_options mo
+    WHERE mo.id = ANY(_option_ids);
+
+    INSERT INTO order_items (
+      order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes
+    )
+    VALUES (
+      _order_id, _menu_item.id, _quantity, _unit_price, _menu_item.station_type, _tenant_id,
+      _status, NULLIF(_item->>'notes', '')
+    )
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO order_item_modifiers (
+      order_item_id, modifier_option_id, group_name, option_name, price_delta, tenant_id
+    )
+    SELECT _order_item_id, mo.id, mg.name, mo.name, mo.price_delta, _tenant_id
+    FROM menu_modifier_options mo
+    JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(_option_ids);
+
+  END LOOP;
+
+  -- Check zone allocations against the total requested per menu item
+  IF _zone_id IS NOT NULL THEN
+    FOR _menu_item IN
+      SELECT oi.menu_item_id AS id, mi.name, SUM(oi.quantity)::INTEGER AS requested
+      FROM order_items oi
+      JOIN menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = _order_id
+      GROUP BY oi.menu_item_id, mi.name
+    LOOP
+      _requested := _menu_item.requested;
+
+      SELECT a.allocated_quantity INTO _allocated
+      FROM inventory_zone_allocations a
+      WHERE a.menu_item_id = _menu_item.id
+        AND a.zone_id = _zone_id
+        AND a.event_id = _event_id;
+
+      IF FOUND AND _allocated < _requested THEN
+        RAISE EXCEPTION 'Only % of % left in this zone', _allocated, _menu_item.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Apply tax and service charge rules and set the order total
+  _total := calculate_order_charges(_order_id);
+
+  RETURN QUERY SELECT _order_id, _order_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, UUID, TEXT, TEXT, public.order_status, INTEGER) TO authenticated;
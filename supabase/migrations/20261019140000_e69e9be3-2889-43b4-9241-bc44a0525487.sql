@@ -0,0 +1,7 @@
+-- Gratuity paid with a payment, kept separate from amount so order balances,
+-- payment summaries and revenue totals are unaffected by tips
+ALTER TABLE public.payments
+ADD COLUMN tip_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments
+ADD CONSTRAINT valid_tip_amount CHECK (tip_amount >= 0);
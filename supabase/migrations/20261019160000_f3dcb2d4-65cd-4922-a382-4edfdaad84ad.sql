@@ -0,0 +1,220 @@
+-- Create cashier_shifts table
+-- A till session: opened with a float, closed with a blind count of the drawer.
+-- expected_cash and over_short are only filled in by close_cashier_shift, so the
+-- cashier never sees the expected figure before counting.
+CREATE TABLE public.cashier_shifts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    cashier_id UUID NOT NULL REFERENCES public.profiles(id),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    opening_float NUMERIC(10,2) NOT NULL DEFAULT 0,
+    counted_cash NUMERIC(10,2),
+    expected_cash NUMERIC(10,2),
+    over_short NUMERIC(10,2),
+    notes TEXT,
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_opening_float CHECK (opening_float >= 0)
+);
+
+-- Create cash_movements table
+-- Cash taken out of the drawer during a shift: drops to the safe and paid-outs
+CREATE TABLE public.cash_movements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    shift_id UUID NOT NULL REFERENCES public.cashier_shifts(id) ON DELETE CASCADE,
+    movement_type TEXT NOT NULL CHECK (movement_type IN ('drop', 'paid_out')),
+    amount NUMERIC(10,2) NOT NULL,
+    reason TEXT,
+    created_by UUID NOT NULL REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_movement_amount CHECK (amount > 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_cashier_shifts_tenant_id ON public.cashier_shifts(tenant_id);
+CREATE INDEX idx_cashier_shifts_event_id ON public.cashier_shifts(event_id);
+CREATE INDEX idx_cashier_shifts_cashier_id ON public.cashier_shifts(cashier_id);
+CREATE INDEX idx_cash_movements_shift_id ON public.cash_movements(shift_id);
+
+-- One open till per cashier
+CREATE UNIQUE INDEX idx_cashier_shifts_one_open ON public.cashier_shifts(cashier_id) WHERE status = 'open';
+
+-- Enable RLS
+ALTER TABLE public.cashier_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for cashier_shifts
+CREATE POLICY "Cashiers can view their own shifts"
+ON public.cashier_shifts
+FOR SELECT
+USING (
+  (tenant_id = get_user_tenant(auth.uid()) AND (cashier_id = auth.uid() OR has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)))
+  OR is_super_admin(auth.uid())
+);
+
+CREATE POLICY "Cashiers can open shifts"
+ON public.cashier_shifts
+FOR INSERT
+WITH CHECK (
+  tenant_id = get_user_tenant(auth.uid())
+  AND cashier_id = auth.uid()
+  AND status = 'open'
+  AND counted_cash IS NULL
+  AND expected_cash IS NULL
+  AND over_short IS NULL
+);
+
+CREATE POLICY "Tenant admins can manage shifts"
+ON public.cashier_shifts
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for cash_movements
+CREATE POLICY "Cashiers can view their own cash movements"
+ON public.cash_movements
+FOR SELECT
+USING (
+  (tenant_id = get_user_tenant(auth.uid()) AND (created_by = auth.uid() OR has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)))
+  OR is_super_admin(auth.uid())
+);
+
+CREATE POLICY "Cashiers can record cash movements on their open shift"
+ON public.cash_movements
+FOR INSERT
+WITH CHECK (
+  tenant_id = get_user_tenant(auth.uid())
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.cashier_shifts s
+    WHERE s.id = shift_id AND s.cashier_id = auth.uid() AND s.status = 'open'
+  )
+);
+
+CREATE POLICY "Tenant admins can manage cash movements"
+ON public.cash_movements
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_cashier_shifts_updated_at
+BEFORE UPDATE ON public.cashier_shifts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Payments taken by the shift's cashier while the shift was open, per method.
+-- Refunds are negative payments and net off sales; tips paid in cash sit in the drawer.
+CREATE OR REPLACE FUNCTION public.get_cashier_shift_totals(_shift_id UUID)
+RETURNS TABLE (
+  payment_method public.payment_method,
+  payments_count INTEGER,
+  sales NUMERIC,
+  refunds_count INTEGER,
+  refunds NUMERIC,
+  tips NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift RECORD;
+BEGIN
+  SELECT * INTO _shift FROM cashier_shifts WHERE id = _shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF _shift.cashier_id <> auth.uid()
+    AND NOT has_role(auth.uid(), _shift.tenant_id, 'tenant_admin'::app_role)
+    AND NOT is_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this shift';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.payment_method,
+    (COUNT(*) FILTER (WHERE p.amount >= 0))::INTEGER,
+    COALESCE(SUM(p.amount) FILTER (WHERE p.amount >= 0), 0),
+    (COUNT(*) FILTER (WHERE p.amount < 0))::INTEGER,
+    COALESCE(-SUM(p.amount) FILTER (WHERE p.amount < 0), 0),
+    COALESCE(SUM(p.tip_amount), 0)
+  FROM payments p
+  WHERE p.confirmed_by = _shift.cashier_id
+    AND p.tenant_id = _shift.tenant_id
+    AND p.created_at >= _shift.opened_at
+    AND p.created_at <= COALESCE(_shift.closed_at, now())
+  GROUP BY p.payment_method;
+END;
+$$;
+
+-- Close a shift with a blind count and work out the over/short against the drawer
+CREATE OR REPLACE FUNCTION public.close_cashier_shift(
+  _shift_id UUID,
+  _counted_cash NUMERIC,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift RECORD;
+  _cash NUMERIC;
+  _removed NUMERIC;
+  _expected NUMERIC;
+  _over_short NUMERIC;
+BEGIN
+  SELECT * INTO _shift FROM cashier_shifts WHERE id = _shift_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+
+  IF _shift.cashier_id <> auth.uid()
+    AND NOT has_role(auth.uid(), _shift.tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only the cashier or an admin can close this shift';
+  END IF;
+
+  IF _counted_cash IS NULL OR _counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash must be zero or more';
+  END IF;
+
+  SELECT COALESCE(SUM(sales - refunds + tips), 0) INTO _cash
+  FROM get_cashier_shift_totals(_shift_id)
+  WHERE payment_method = 'cash';
+
+  SELECT COALESCE(SUM(amount), 0) INTO _removed
+  FROM cash_movements
+  WHERE shift_id = _shift_id;
+
+  _expected := _shift.opening_float + _cash - _removed;
+  _over_short := _counted_cash - _expected;
+
+  UPDATE cashier_shifts
+  SET status = 'closed',
+      closed_at = now(),
+      counted_cash = _counted_cash,
+      expected_cash = _expected,
+      over_short = _over_short,
+      notes = NULLIF(TRIM(_notes), '')
+  WHERE id = _shift_id;
+
+  RETURN _over_short;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cashier_shift_totals(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_cashier_shift(UUID, NUMERIC, TEXT) TO authenticated;
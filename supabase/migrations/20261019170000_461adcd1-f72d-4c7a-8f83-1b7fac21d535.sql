@@ -0,0 +1,237 @@
+-- Create staff_pay_rates table
+-- Kept out of profiles because profiles are readable by the whole tenant
+CREATE TABLE public.staff_pay_rates (
+    user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    hourly_rate NUMERIC(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_hourly_rate CHECK (hourly_rate >= 0)
+);
+
+-- Create time_entries table
+-- One row per clock-in. zone_ids is a snapshot of the zones the staff member
+-- worked at clock-in so labour can be reported per zone after assignments change.
+CREATE TABLE public.time_entries (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    role public.app_role,
+    zone_ids UUID[] NOT NULL DEFAULT '{}',
+    clock_in TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    clock_out TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_clock_out CHECK (clock_out IS NULL OR clock_out >= clock_in)
+);
+
+-- Create time_entry_breaks table
+CREATE TABLE public.time_entry_breaks (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    time_entry_id UUID NOT NULL REFERENCES public.time_entries(id) ON DELETE CASCADE,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_break_end CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_staff_pay_rates_tenant_id ON public.staff_pay_rates(tenant_id);
+CREATE INDEX idx_time_entries_tenant_id ON public.time_entries(tenant_id);
+CREATE INDEX idx_time_entries_event_id ON public.time_entries(event_id);
+CREATE INDEX idx_time_entries_user_id ON public.time_entries(user_id);
+CREATE INDEX idx_time_entry_breaks_time_entry_id ON public.time_entry_breaks(time_entry_id);
+
+-- One open time entry per staff member, and one open break per entry
+CREATE UNIQUE INDEX idx_time_entries_one_open ON public.time_entries(user_id) WHERE clock_out IS NULL;
+CREATE UNIQUE INDEX idx_time_entry_breaks_one_open ON public.time_entry_breaks(time_entry_id) WHERE ended_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.staff_pay_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.time_entry_breaks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for staff_pay_rates
+CREATE POLICY "Staff can view their own pay rate"
+ON public.staff_pay_rates
+FOR SELECT
+USING (
+  (tenant_id = get_user_tenant(auth.uid()) AND (user_id = auth.uid() OR has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role)))
+  OR is_super_admin(auth.uid())
+);
+
+CREATE POLICY "Tenant admins can manage pay rates"
+ON public.staff_pay_rates
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for time_entries
+-- Staff clock in and out through the functions below so times come from the server
+CREATE POLICY "Users can view time entries in their tenant"
+ON public.time_entries
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Tenant admins can manage time entries"
+ON public.time_entries
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for time_entry_breaks
+CREATE POLICY "Users can view time entry breaks in their tenant"
+ON public.time_entry_breaks
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Tenant admins can manage time entry breaks"
+ON public.time_entry_breaks
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_staff_pay_rates_updated_at
+BEFORE UPDATE ON public.staff_pay_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_time_entries_updated_at
+BEFORE UPDATE ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clock the current user in against their assigned event (or the active one)
+-- and the zones they hold for the role they are working
+CREATE OR REPLACE FUNCTION public.clock_in(_role app_role DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile RECORD;
+  _event_id UUID;
+  _zone_ids UUID[];
+  _entry_id UUID;
+BEGIN
+  SELECT * INTO _profile FROM profiles WHERE id = auth.uid();
+
+  IF NOT FOUND OR _profile.tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM time_entries WHERE user_id = auth.uid() AND clock_out IS NULL) THEN
+    RAISE EXCEPTION 'Already clocked in';
+  END IF;
+
+  _event_id := _profile.event_id;
+
+  IF _event_id IS NULL THEN
+    SELECT id INTO _event_id
+    FROM events
+    WHERE tenant_id = _profile.tenant_id AND is_active = true
+    ORDER BY event_date DESC
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT zone_id), '{}') INTO _zone_ids
+  FROM zone_role_assignments
+  WHERE user_id = auth.uid()
+    AND (_role IS NULL OR role = _role);
+
+  IF cardinality(_zone_ids) = 0 AND _profile.zone_id IS NOT NULL THEN
+    _zone_ids := ARRAY[_profile.zone_id];
+  END IF;
+
+  INSERT INTO time_entries (tenant_id, user_id, event_id, role, zone_ids)
+  VALUES (_profile.tenant_id, auth.uid(), _event_id, _role, _zone_ids)
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
+
+-- Clock the current user out, ending any break still running
+CREATE OR REPLACE FUNCTION public.clock_out()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID;
+BEGIN
+  SELECT id INTO _entry_id
+  FROM time_entries
+  WHERE user_id = auth.uid() AND clock_out IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not clocked in';
+  END IF;
+
+  UPDATE time_entry_breaks
+  SET ended_at = now()
+  WHERE time_entry_id = _entry_id AND ended_at IS NULL;
+
+  UPDATE time_entries
+  SET clock_out = now()
+  WHERE id = _entry_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_break()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry RECORD;
+BEGIN
+  SELECT * INTO _entry
+  FROM time_entries
+  WHERE user_id = auth.uid() AND clock_out IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not clocked in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM time_entry_breaks WHERE time_entry_id = _entry.id AND ended_at IS NULL) THEN
+    RAISE EXCEPTION 'Already on a break';
+  END IF;
+
+  INSERT INTO time_entry_breaks (tenant_id, time_entry_id)
+  VALUES (_entry.tenant_id, _entry.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_break()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE time_entry_breaks b
+  SET ended_at = now()
+  FROM time_entries e
+  WHERE b.time_entry_id = e.id
+    AND e.user_id = auth.uid()
+    AND e.clock_out IS NULL
+    AND b.ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not on a break';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clock_in(app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.clock_out() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_break() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_break() TO authenticated;
@@ -0,0 +1,260 @@
+-- Create roster_shifts table
+-- A scheduled shift for one staff member on an event, in a role and optionally a zone
+CREATE TABLE public.roster_shifts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    role public.app_role NOT NULL,
+    zone_id UUID REFERENCES public.zones(id) ON DELETE SET NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_shift_times CHECK (ends_at > starts_at)
+);
+
+-- Create roster_capacities table
+-- Most staff wanted at once in a role, per zone (or event-wide when zone_id is null)
+CREATE TABLE public.roster_capacities (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    zone_id UUID REFERENCES public.zones(id) ON DELETE CASCADE,
+    role public.app_role NOT NULL,
+    max_staff INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_max_staff CHECK (max_staff > 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_roster_shifts_tenant_id ON public.roster_shifts(tenant_id);
+CREATE INDEX idx_roster_shifts_event_id ON public.roster_shifts(event_id);
+CREATE INDEX idx_roster_shifts_user_times ON public.roster_shifts(user_id, starts_at, ends_at);
+CREATE INDEX idx_roster_capacities_event_id ON public.roster_capacities(event_id);
+
+CREATE UNIQUE INDEX idx_roster_capacities_unique
+ON public.roster_capacities(event_id, COALESCE(zone_id, '00000000-0000-0000-0000-000000000000'::uuid), role);
+
+-- Enable RLS
+ALTER TABLE public.roster_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roster_capacities ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for roster_shifts
+CREATE POLICY "Users can view roster shifts in their tenant"
+ON public.roster_shifts
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Tenant admins can manage roster shifts"
+ON public.roster_shifts
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for roster_capacities
+CREATE POLICY "Users can view roster capacities in their tenant"
+ON public.roster_capacities
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Tenant admins can manage roster capacities"
+ON public.roster_capacities
+FOR ALL
+USING (has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_roster_shifts_updated_at
+BEFORE UPDATE ON public.roster_shifts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_roster_capacities_updated_at
+BEFORE UPDATE ON public.roster_capacities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Nobody can be rostered in two places at once, across all events
+CREATE OR REPLACE FUNCTION public.check_roster_double_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _clash RECORD;
+BEGIN
+  SELECT s.starts_at, s.ends_at, e.name AS event_name INTO _clash
+  FROM roster_shifts s
+  JOIN events e ON e.id = s.event_id
+  WHERE s.user_id = NEW.user_id
+    AND s.id <> NEW.id
+    AND s.starts_at < NEW.ends_at
+    AND s.ends_at > NEW.starts_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Staff member is already rostered on % from % to %',
+      _clash.event_name,
+      to_char(_clash.starts_at, 'DD Mon HH24:MI'),
+      to_char(_clash.ends_at, 'DD Mon HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_roster_double_booking
+BEFORE INSERT OR UPDATE OF user_id, starts_at, ends_at ON public.roster_shifts
+FOR EACH ROW
+EXECUTE FUNCTION public.check_roster_double_booking();
+
+-- Copy one event's roster and capacities onto another, moved by the number of days
+-- between the two events. Zones are matched by name; shifts that would double-book
+-- someone already rostered are skipped. Returns the number of shifts copied.
+CREATE OR REPLACE FUNCTION public.copy_roster(_from_event_id UUID, _to_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from RECORD;
+  _to RECORD;
+  _offset INTERVAL;
+  _shift RECORD;
+  _zone_id UUID;
+  _copied INTEGER := 0;
+BEGIN
+  SELECT * INTO _from FROM events WHERE id = _from_event_id;
+  SELECT * INTO _to FROM events WHERE id = _to_event_id;
+
+  IF _from.id IS NULL OR _to.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _from.tenant_id <> _to.tenant_id THEN
+    RAISE EXCEPTION 'Events belong to different tenants';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _to.tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can copy rosters';
+  END IF;
+
+  _offset := ((_to.event_date::date - _from.event_date::date) || ' days')::INTERVAL;
+
+  INSERT INTO roster_capacities (tenant_id, event_id, zone_id, role, max_staff)
+  SELECT _to.tenant_id, _to.id, tz.id, c.role, c.max_staff
+  FROM roster_capacities c
+  LEFT JOIN zones fz ON fz.id = c.zone_id
+  LEFT JOIN zones tz ON tz.event_id = _to.id AND tz.name = fz.name
+  WHERE c.event_id = _from.id
+    AND (c.zone_id IS NULL OR tz.id IS NOT NULL)
+  ON CONFLICT DO NOTHING;
+
+  FOR _shift IN
+    SELECT s.*, z.name AS zone_name
+    FROM roster_shifts s
+    LEFT JOIN zones z ON z.id = s.zone_id
+    WHERE s.event_id = _from.id
+    ORDER BY s.starts_at
+  LOOP
+    _zone_id := NULL;
+    IF _shift.zone_name IS NOT NULL THEN
+      SELECT id INTO _zone_id FROM zones WHERE event_id = _to.id AND name = _shift.zone_name LIMIT 1;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM roster_shifts
+      WHERE user_id = _shift.user_id
+        AND starts_at < _shift.ends_at + _offset
+        AND ends_at > _shift.starts_at + _offset
+    ) THEN
+      INSERT INTO roster_shifts (tenant_id, event_id, user_id, role, zone_id, starts_at, ends_at, notes, created_by)
+      VALUES (_to.tenant_id, _to.id, _shift.user_id, _shift.role, _zone_id,
+              _shift.starts_at + _offset, _shift.ends_at + _offset, _shift.notes, auth.uid());
+      _copied := _copied + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _copied;
+END;
+$$;
+
+-- Clock in against the roster shift currently running, falling back to the
+-- assigned event and zones when the staff member is not rostered
+CREATE OR REPLACE FUNCTION public.clock_in(_role app_role DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile RECORD;
+  _shift RECORD;
+  _event_id UUID;
+  _zone_ids UUID[];
+  _entry_id UUID;
+BEGIN
+  SELECT * INTO _profile FROM profiles WHERE id = auth.uid();
+
+  IF NOT FOUND OR _profile.tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM time_entries WHERE user_id = auth.uid() AND clock_out IS NULL) THEN
+    RAISE EXCEPTION 'Already clocked in';
+  END IF;
+
+  SELECT * INTO _shift
+  FROM roster_shifts
+  WHERE user_id = auth.uid()
+    AND starts_at <= now()
+    AND ends_at > now()
+  LIMIT 1;
+
+  IF FOUND THEN
+    INSERT INTO time_entries (tenant_id, user_id, event_id, role, zone_ids)
+    VALUES (
+      _profile.tenant_id,
+      auth.uid(),
+      _shift.event_id,
+      _shift.role,
+      CASE WHEN _shift.zone_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[_shift.zone_id] END
+    )
+    RETURNING id INTO _entry_id;
+
+    RETURN _entry_id;
+  END IF;
+
+  _event_id := _profile.event_id;
+
+  IF _event_id IS NULL THEN
+    SELECT id INTO _event_id
+    FROM events
+    WHERE tenant_id = _profile.tenant_id AND is_active = true
+    ORDER BY event_date DESC
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT zone_id), '{}') INTO _zone_ids
+  FROM zone_role_assignments
+  WHERE user_id = auth.uid()
+    AND (_role IS NULL OR role = _role);
+
+  IF cardinality(_zone_ids) = 0 AND _profile.zone_id IS NOT NULL THEN
+    _zone_ids := ARRAY[_profile.zone_id];
+  END IF;
+
+  INSERT INTO time_entries (tenant_id, user_id, event_id, role, zone_ids)
+  VALUES (_profile.tenant_id, auth.uid(), _event_id, _role, _zone_ids)
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.copy_roster(UUID, UUID) TO authenticated;
@@ -0,0 +1,136 @@
+-- Create ingredients table
+-- Stock is held in a base unit (ml, g or each). pack_size and pack_label describe
+-- how it is bought, e.g. a 700 ml bottle, so stock can be shown as bottles.
+CREATE TABLE public.ingredients (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    unit TEXT NOT NULL DEFAULT 'each' CHECK (unit IN ('ml', 'g', 'each')),
+    pack_size NUMERIC(12,3),
+    pack_label TEXT,
+    starting_stock NUMERIC(12,3) NOT NULL DEFAULT 0,
+    current_stock NUMERIC(12,3) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_pack_size CHECK (pack_size IS NULL OR pack_size > 0),
+    CONSTRAINT valid_ingredient_stock CHECK (starting_stock >= 0 AND current_stock >= 0),
+    UNIQUE (event_id, name)
+);
+
+-- Create recipe_items table
+-- Bill of materials: how much of each ingredient one serving of a menu item uses
+CREATE TABLE public.recipe_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    ingredient_id UUID NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+    quantity NUMERIC(12,3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_recipe_quantity CHECK (quantity > 0),
+    UNIQUE (menu_item_id, ingredient_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_ingredients_tenant_id ON public.ingredients(tenant_id);
+CREATE INDEX idx_ingredients_event_id ON public.ingredients(event_id);
+CREATE INDEX idx_recipe_items_menu_item_id ON public.recipe_items(menu_item_id);
+CREATE INDEX idx_recipe_items_ingredient_id ON public.recipe_items(ingredient_id);
+
+-- Enable RLS
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ingredients
+CREATE POLICY "Users can view ingredients in their tenant"
+ON public.ingredients
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage ingredients"
+ON public.ingredients
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for recipe_items
+CREATE POLICY "Users can view recipes in their tenant"
+ON public.recipe_items
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage recipes"
+ON public.recipe_items
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_ingredients_updated_at
+BEFORE UPDATE ON public.ingredients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_recipe_items_updated_at
+BEFORE UPDATE ON public.recipe_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deplete ingredients by recipe when an item is served. Menu items that can no
+-- longer be made from what is left are switched off; restocking does not switch
+-- them back on, so an item an admin disabled on purpose stays disabled.
+CREATE OR REPLACE FUNCTION public.decrement_inventory_on_served()
+RETURNS TRIGGER AS $$
+DECLARE
+  _zone_id uuid;
+  _event_id uuid;
+BEGIN
+  -- Only process if status changed to 'served'
+  IF NEW.status = 'served' AND (OLD.status IS NULL OR OLD.status != 'served') THEN
+    -- Get the zone_id and event_id from the order's table
+    SELECT t.zone_id, o.event_id INTO _zone_id, _event_id
+    FROM orders o
+    LEFT JOIN tables t ON t.id = o.table_id
+    WHERE o.id = NEW.order_id;
+
+    -- Decrement global inventory (menu_items.current_inventory)
+    UPDATE menu_items
+    SET current_inventory = GREATEST(0, current_inventory - NEW.quantity)
+    WHERE id = NEW.menu_item_id;
+
+    -- Decrement zone allocation if zone exists
+    IF _zone_id IS NOT NULL AND _event_id IS NOT NULL THEN
+      UPDATE inventory_zone_allocations
+      SET allocated_quantity = GREATEST(0, allocated_quantity - NEW.quantity),
+          updated_at = now()
+      WHERE menu_item_id = NEW.menu_item_id
+        AND zone_id = _zone_id
+        AND event_id = _event_id;
+    END IF;
+
+    -- Deplete the ingredients in the item's recipe
+    UPDATE ingredients i
+    SET current_stock = GREATEST(0, i.current_stock - r.quantity * NEW.quantity)
+    FROM recipe_items r
+    WHERE r.menu_item_id = NEW.menu_item_id
+      AND i.id = r.ingredient_id;
+
+    UPDATE menu_items m
+    SET is_available = false
+    WHERE m.is_available = true
+      AND EXISTS (
+        SELECT 1
+        FROM recipe_items r
+        JOIN ingredients i ON i.id = r.ingredient_id
+        WHERE r.menu_item_id = m.id
+          AND i.current_stock < r.quantity
+          AND r.ingredient_id IN (
+            SELECT ingredient_id FROM recipe_items WHERE menu_item_id = NEW.menu_item_id
+          )
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,327 @@
+-- Create suppliers table
+CREATE TABLE public.suppliers (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    contact_name TEXT,
+    email TEXT,
+    phone TEXT,
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (tenant_id, name)
+);
+
+-- Create purchase_orders table
+CREATE TABLE public.purchase_orders (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+    po_number TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'ordered' CHECK (status IN ('ordered', 'partially_received', 'received', 'cancelled')),
+    notes TEXT,
+    created_by UUID REFERENCES public.profiles(id),
+    received_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (tenant_id, po_number)
+);
+
+-- Create purchase_order_items table
+-- A line is either a menu item or an ingredient. Quantities and costs are per
+-- purchase unit (a case, a bottle); units_per_purchase converts to stock units.
+CREATE TABLE public.purchase_order_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE CASCADE,
+    units_per_purchase NUMERIC(12,3) NOT NULL DEFAULT 1,
+    quantity_ordered NUMERIC(12,3) NOT NULL,
+    quantity_received NUMERIC(12,3) NOT NULL DEFAULT 0,
+    unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT purchase_order_item_target CHECK ((menu_item_id IS NULL) <> (ingredient_id IS NULL)),
+    CONSTRAINT valid_units_per_purchase CHECK (units_per_purchase > 0),
+    CONSTRAINT valid_quantity_ordered CHECK (quantity_ordered > 0),
+    CONSTRAINT valid_quantity_received CHECK (quantity_received >= 0),
+    CONSTRAINT valid_unit_cost CHECK (unit_cost >= 0)
+);
+
+-- Create stock_receipts table
+-- One row per delivery of a purchase order line, at the cost actually charged
+CREATE TABLE public.stock_receipts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    purchase_order_item_id UUID NOT NULL REFERENCES public.purchase_order_items(id) ON DELETE CASCADE,
+    menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE CASCADE,
+    quantity NUMERIC(12,3) NOT NULL,
+    stock_quantity NUMERIC(12,3) NOT NULL,
+    unit_cost NUMERIC(10,2) NOT NULL,
+    received_by UUID REFERENCES public.profiles(id),
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_receipt_quantity CHECK (quantity > 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_suppliers_tenant_id ON public.suppliers(tenant_id);
+CREATE INDEX idx_purchase_orders_tenant_id ON public.purchase_orders(tenant_id);
+CREATE INDEX idx_purchase_orders_event_id ON public.purchase_orders(event_id);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX idx_stock_receipts_event_id ON public.stock_receipts(event_id);
+CREATE INDEX idx_stock_receipts_menu_item_id ON public.stock_receipts(menu_item_id);
+CREATE INDEX idx_stock_receipts_ingredient_id ON public.stock_receipts(ingredient_id);
+
+-- Enable RLS
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_receipts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for suppliers
+CREATE POLICY "Users can view suppliers in their tenant"
+ON public.suppliers
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage suppliers"
+ON public.suppliers
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for purchase_orders
+CREATE POLICY "Users can view purchase orders in their tenant"
+ON public.purchase_orders
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage purchase orders"
+ON public.purchase_orders
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for purchase_order_items
+CREATE POLICY "Users can view purchase order items in their tenant"
+ON public.purchase_order_items
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage purchase order items"
+ON public.purchase_order_items
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for stock_receipts
+-- Receipts are only written by receive_purchase_order
+CREATE POLICY "Users can view stock receipts in their tenant"
+ON public.stock_receipts
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_purchase_order_items_updated_at
+BEFORE UPDATE ON public.purchase_order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Raise a purchase order with its lines.
+-- _items: [{ "menu_item_id" | "ingredient_id", "units_per_purchase", "quantity", "unit_cost" }]
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  _event_id UUID,
+  _supplier_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+  _count INTEGER;
+  _po_id UUID;
+  _item JSONB;
+BEGIN
+  SELECT tenant_id INTO _tenant_id FROM events WHERE id = _event_id;
+
+  IF _tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can raise purchase orders';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one line';
+  END IF;
+
+  SELECT COUNT(*) + 1 INTO _count FROM purchase_orders WHERE tenant_id = _tenant_id;
+
+  INSERT INTO purchase_orders (tenant_id, event_id, supplier_id, po_number, notes, created_by)
+  VALUES (_tenant_id, _event_id, _supplier_id, 'PO-' || TO_CHAR(_count, 'FM0000'), NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id INTO _po_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    INSERT INTO purchase_order_items (
+      tenant_id, purchase_order_id, menu_item_id, ingredient_id,
+      units_per_purchase, quantity_ordered, unit_cost
+    )
+    VALUES (
+      _tenant_id,
+      _po_id,
+      NULLIF(_item->>'menu_item_id', '')::UUID,
+      NULLIF(_item->>'ingredient_id', '')::UUID,
+      COALESCE((_item->>'units_per_purchase')::NUMERIC, 1),
+      (_item->>'quantity')::NUMERIC,
+      COALESCE((_item->>'unit_cost')::NUMERIC, 0)
+    );
+  END LOOP;
+
+  RETURN _po_id;
+END;
+$$;
+
+-- Receive a delivery against a purchase order, in full or in part.
+-- _lines: [{ "purchase_order_item_id", "quantity", "unit_cost" }]
+-- Stock goes onto both starting and current levels so sold = starting - current
+-- still holds, and every line is written to audit_logs.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(_purchase_order_id UUID, _lines JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _po RECORD;
+  _line JSONB;
+  _poi RECORD;
+  _quantity NUMERIC;
+  _unit_cost NUMERIC;
+  _stock_quantity NUMERIC;
+  _item_name TEXT;
+  _old_quantity NUMERIC;
+  _unit TEXT;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _po FROM purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _po.tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can receive stock';
+  END IF;
+
+  IF _po.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order is already %', _po.status;
+  END IF;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb))
+  LOOP
+    _quantity := COALESCE((_line->>'quantity')::NUMERIC, 0);
+    CONTINUE WHEN _quantity <= 0;
+
+    SELECT * INTO _poi
+    FROM purchase_order_items
+    WHERE id = (_line->>'purchase_order_item_id')::UUID
+      AND purchase_order_id = _purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line does not belong to this purchase order';
+    END IF;
+
+    _unit_cost := COALESCE((_line->>'unit_cost')::NUMERIC, _poi.unit_cost);
+    _stock_quantity := _quantity * _poi.units_per_purchase;
+
+    IF _poi.menu_item_id IS NOT NULL THEN
+      SELECT name, current_inventory INTO _item_name, _old_quantity FROM menu_items WHERE id = _poi.menu_item_id;
+      _unit := NULL;
+
+      UPDATE menu_items
+      SET starting_inventory = starting_inventory + _stock_quantity::INTEGER,
+          current_inventory = current_inventory + _stock_quantity::INTEGER
+      WHERE id = _poi.menu_item_id;
+    ELSE
+      SELECT name, current_stock, unit INTO _item_name, _old_quantity, _unit FROM ingredients WHERE id = _poi.ingredient_id;
+
+      UPDATE ingredients
+      SET starting_stock = starting_stock + _stock_quantity,
+          current_stock = current_stock + _stock_quantity
+      WHERE id = _poi.ingredient_id;
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + _quantity
+    WHERE id = _poi.id;
+
+    INSERT INTO stock_receipts (
+      tenant_id, event_id, purchase_order_item_id, menu_item_id, ingredient_id,
+      quantity, stock_quantity, unit_cost, received_by
+    )
+    VALUES (
+      _po.tenant_id, _po.event_id, _poi.id, _poi.menu_item_id, _poi.ingredient_id,
+      _quantity, _stock_quantity, _unit_cost, auth.uid()
+    );
+
+    INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+    VALUES (
+      _po.tenant_id,
+      auth.uid(),
+      'stock_received',
+      CASE WHEN _poi.menu_item_id IS NOT NULL THEN 'menu_item' ELSE 'ingredient' END,
+      COALESCE(_poi.menu_item_id, _poi.ingredient_id),
+      jsonb_build_object(
+        'event_id', _po.event_id,
+        'purchase_order_id', _po.id,
+        'po_number', _po.po_number,
+        'item_name', _item_name,
+        'old_quantity', _old_quantity,
+        'new_quantity', _old_quantity + _stock_quantity,
+        'unit', _unit,
+        'unit_cost', _unit_cost,
+        'reason', 'Received on ' || _po.po_number
+      )
+    );
+  END LOOP;
+
+  SELECT CASE
+    WHEN bool_and(quantity_received >= quantity_ordered) THEN 'received'
+    WHEN bool_or(quantity_received > 0) THEN 'partially_received'
+    ELSE 'ordered'
+  END INTO _status
+  FROM purchase_order_items
+  WHERE purchase_order_id = _purchase_order_id;
+
+  UPDATE purchase_orders
+  SET status = _status,
+      received_at = CASE WHEN _status = 'received' THEN now() ELSE received_at END
+  WHERE id = _purchase_order_id;
+
+  RETURN _status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(UUID, UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) TO authenticated;
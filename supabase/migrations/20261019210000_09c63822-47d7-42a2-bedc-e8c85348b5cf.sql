@@ -0,0 +1,271 @@
+-- Cost price per menu item. 'received' costs are kept in line with stock
+-- receipts (or the recipe's ingredients); 'manual' costs are left alone.
+ALTER TABLE public.menu_items
+ADD COLUMN cost_price NUMERIC(10,2),
+ADD COLUMN cost_source TEXT NOT NULL DEFAULT 'received' CHECK (cost_source IN ('manual', 'received'));
+
+-- Create menu_item_cost_history table
+CREATE TABLE public.menu_item_cost_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    cost_price NUMERIC(10,2),
+    source TEXT NOT NULL CHECK (source IN ('manual', 'received')),
+    changed_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_menu_item_cost_history_menu_item_id ON public.menu_item_cost_history(menu_item_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.menu_item_cost_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for menu_item_cost_history
+-- History rows are only written by the cost change trigger
+CREATE POLICY "Users can view cost history in their tenant"
+ON public.menu_item_cost_history
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Record every change to a menu item's cost
+CREATE OR REPLACE FUNCTION public.log_menu_item_cost_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.cost_price IS NOT DISTINCT FROM OLD.cost_price
+     AND NEW.cost_source = OLD.cost_source THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.cost_price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO menu_item_cost_history (tenant_id, menu_item_id, cost_price, source, changed_by)
+  VALUES (NEW.tenant_id, NEW.id, NEW.cost_price, NEW.cost_source, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_menu_item_cost_change
+AFTER INSERT OR UPDATE OF cost_price, cost_source ON public.menu_items
+FOR EACH ROW
+EXECUTE FUNCTION public.log_menu_item_cost_change();
+
+-- Recalculate a 'received' cost: the weighted average paid per unit when the
+-- item itself is bought in, otherwise the cost of its recipe once every
+-- ingredient has been received at least once.
+CREATE OR REPLACE FUNCTION public.refresh_menu_item_cost(_menu_item_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _cost NUMERIC;
+BEGIN
+  SELECT id, cost_price, cost_source INTO _item FROM menu_items WHERE id = _menu_item_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _item.cost_source = 'manual' THEN
+    RETURN _item.cost_price;
+  END IF;
+
+  SELECT SUM(unit_cost * quantity) / NULLIF(SUM(stock_quantity), 0)
+  INTO _cost
+  FROM stock_receipts
+  WHERE menu_item_id = _menu_item_id;
+
+  IF _cost IS NULL THEN
+    SELECT CASE WHEN bool_and(ic.unit_cost IS NOT NULL) THEN SUM(ri.quantity * ic.unit_cost) END
+    INTO _cost
+    FROM recipe_items ri
+    LEFT JOIN (
+      SELECT ingredient_id, SUM(unit_cost * quantity) / NULLIF(SUM(stock_quantity), 0) AS unit_cost
+      FROM stock_receipts
+      WHERE ingredient_id IS NOT NULL
+      GROUP BY ingredient_id
+    ) ic ON ic.ingredient_id = ri.ingredient_id
+    WHERE ri.menu_item_id = _menu_item_id;
+  END IF;
+
+  UPDATE menu_items
+  SET cost_price = ROUND(_cost, 2)
+  WHERE id = _menu_item_id
+    AND cost_price IS DISTINCT FROM ROUND(_cost, 2);
+
+  RETURN ROUND(_cost, 2);
+END;
+$$;
+
+-- Keep received costs current as deliveries come in
+CREATE OR REPLACE FUNCTION public.refresh_costs_on_stock_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _menu_item_id UUID;
+BEGIN
+  IF NEW.menu_item_id IS NOT NULL THEN
+    PERFORM refresh_menu_item_cost(NEW.menu_item_id);
+  ELSE
+    FOR _menu_item_id IN
+      SELECT menu_item_id FROM recipe_items WHERE ingredient_id = NEW.ingredient_id
+    LOOP
+      PERFORM refresh_menu_item_cost(_menu_item_id);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_costs_on_stock_receipt
+AFTER INSERT ON public.stock_receipts
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_costs_on_stock_receipt();
+
+-- ...and when a recipe changes
+CREATE OR REPLACE FUNCTION public.refresh_costs_on_recipe_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_menu_item_cost(COALESCE(NEW.menu_item_id, OLD.menu_item_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_costs_on_recipe_change
+AFTER INSERT OR UPDATE OR DELETE ON public.recipe_items
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_costs_on_recipe_change();
+
+GRANT EXECUTE ON FUNCTION public.refresh_menu_item_cost(UUID) TO authenticated;
+
+-- Cost existing items from what has already been received
+SELECT public.refresh_menu_item_cost(id) FROM public.menu_items;
+
+-- Popular items and category performance now report cost and gross profit.
+-- Items without a cost price are left out of cost, profit and margin.
+DROP FUNCTION IF EXISTS public.get_popular_items(TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_popular_items(
+  _start_date TIMESTAMPTZ,
+  _end_date TIMESTAMPTZ,
+  _tenant_id UUID,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  item_id UUID,
+  item_name TEXT,
+  category TEXT,
+  total_quantity BIGINT,
+  total_revenue NUMERIC,
+  order_count BIGINT,
+  avg_price NUMERIC,
+  cost_price NUMERIC,
+  total_cost NUMERIC,
+  gross_profit NUMERIC,
+  margin_percentage NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    oi.menu_item_id as item_id,
+    mi.name as item_name,
+    mi.category,
+    SUM(oi.quantity)::BIGINT as total_quantity,
+    SUM(oi.price * oi.quantity) as total_revenue,
+    COUNT(DISTINCT oi.order_id)::BIGINT as order_count,
+    AVG(oi.price) as avg_price,
+    mi.cost_price,
+    SUM(mi.cost_price * oi.quantity) as total_cost,
+    SUM((oi.price - mi.cost_price) * oi.quantity) as gross_profit,
+    (SUM((oi.price - mi.cost_price) * oi.quantity) / NULLIF(SUM(oi.price * oi.quantity), 0) * 100) as margin_percentage
+  FROM order_items oi
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.tenant_id = _tenant_id
+    AND o.created_at BETWEEN _start_date AND _end_date
+    AND o.status = 'paid'
+  GROUP BY oi.menu_item_id, mi.name, mi.category, mi.cost_price
+  ORDER BY total_quantity DESC
+  LIMIT _limit;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_category_performance(TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION public.get_category_performance(
+  _start_date TIMESTAMPTZ,
+  _end_date TIMESTAMPTZ,
+  _tenant_id UUID
+)
+RETURNS TABLE (
+  category TEXT,
+  total_items BIGINT,
+  total_revenue NUMERIC,
+  avg_item_price NUMERIC,
+  percentage_of_total NUMERIC,
+  total_cost NUMERIC,
+  gross_profit NUMERIC,
+  margin_percentage NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH category_stats AS (
+    SELECT 
+      mi.category,
+      SUM(oi.quantity)::BIGINT as total_items,
+      SUM(oi.price * oi.quantity) as total_revenue,
+      AVG(oi.price) as avg_item_price,
+      SUM(mi.cost_price * oi.quantity) as total_cost,
+      SUM((oi.price - mi.cost_price) * oi.quantity) as gross_profit,
+      SUM(oi.price * oi.quantity) FILTER (WHERE mi.cost_price IS NOT NULL) as costed_revenue
+    FROM order_items oi
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.tenant_id = _tenant_id
+      AND o.created_at BETWEEN _start_date AND _end_date
+      AND o.status = 'paid'
+    GROUP BY mi.category
+  ),
+  total_rev AS (
+    SELECT SUM(total_revenue) as grand_total FROM category_stats
+  )
+  SELECT 
+    cs.category,
+    cs.total_items,
+    cs.total_revenue,
+    cs.avg_item_price,
+    (cs.total_revenue / NULLIF(tr.grand_total, 0) * 100) as percentage_of_total,
+    cs.total_cost,
+    cs.gross_profit,
+    (cs.gross_profit / NULLIF(cs.costed_revenue, 0) * 100) as margin_percentage
+  FROM category_stats cs
+  CROSS JOIN total_rev tr
+  ORDER BY cs.total_revenue DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_popular_items(TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_category_performance(TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO authenticated;
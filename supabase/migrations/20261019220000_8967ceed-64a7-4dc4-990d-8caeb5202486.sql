@@ -0,0 +1,218 @@
+-- Create stock_counts table
+-- A closing stocktake for an event. Expected quantities are snapshotted when
+-- the count starts so the variance is measured against the book stock then.
+CREATE TABLE public.stock_counts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+    notes TEXT,
+    started_by UUID REFERENCES public.profiles(id),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    completed_by UUID REFERENCES public.profiles(id),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create stock_count_lines table
+-- One line per menu item per zone allocation, plus one for stock not allocated
+-- to any zone (zone_id NULL)
+CREATE TABLE public.stock_count_lines (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    stock_count_id UUID NOT NULL REFERENCES public.stock_counts(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    zone_id UUID REFERENCES public.zones(id) ON DELETE CASCADE,
+    expected_quantity INTEGER NOT NULL,
+    counted_quantity INTEGER,
+    unit_cost NUMERIC(10,2),
+    counted_by UUID REFERENCES public.profiles(id),
+    counted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_counted_quantity CHECK (counted_quantity IS NULL OR counted_quantity >= 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_stock_counts_event_id ON public.stock_counts(event_id);
+CREATE INDEX idx_stock_count_lines_stock_count_id ON public.stock_count_lines(stock_count_id);
+
+-- One count in progress per event
+CREATE UNIQUE INDEX idx_stock_counts_one_in_progress
+ON public.stock_counts(event_id)
+WHERE status = 'in_progress';
+
+CREATE UNIQUE INDEX idx_stock_count_lines_unique
+ON public.stock_count_lines(stock_count_id, menu_item_id, COALESCE(zone_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Enable RLS
+ALTER TABLE public.stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stock_counts
+CREATE POLICY "Users can view stock counts in their tenant"
+ON public.stock_counts
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage stock counts"
+ON public.stock_counts
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for stock_count_lines
+CREATE POLICY "Users can view stock count lines in their tenant"
+ON public.stock_count_lines
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage stock count lines"
+ON public.stock_count_lines
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_stock_counts_updated_at
+BEFORE UPDATE ON public.stock_counts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stock_count_lines_updated_at
+BEFORE UPDATE ON public.stock_count_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start a stock count for an event with a line for every stocked menu item in
+-- every zone it is allocated to, plus its unallocated remainder
+CREATE OR REPLACE FUNCTION public.start_stock_count(_event_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+  _count_id UUID;
+BEGIN
+  SELECT tenant_id INTO _tenant_id FROM events WHERE id = _event_id;
+
+  IF _tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can start a stock count';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_counts WHERE event_id = _event_id AND status = 'in_progress') THEN
+    RAISE EXCEPTION 'A stock count is already in progress for this event';
+  END IF;
+
+  INSERT INTO stock_counts (tenant_id, event_id, started_by)
+  VALUES (_tenant_id, _event_id, auth.uid())
+  RETURNING id INTO _count_id;
+
+  INSERT INTO stock_count_lines (tenant_id, stock_count_id, menu_item_id, zone_id, expected_quantity, unit_cost)
+  SELECT _tenant_id, _count_id, a.menu_item_id, a.zone_id, a.allocated_quantity, m.cost_price
+  FROM inventory_zone_allocations a
+  JOIN menu_items m ON m.id = a.menu_item_id
+  WHERE a.event_id = _event_id
+    AND m.starting_inventory > 0;
+
+  INSERT INTO stock_count_lines (tenant_id, stock_count_id, menu_item_id, zone_id, expected_quantity, unit_cost)
+  SELECT _tenant_id, _count_id, m.id, NULL,
+         GREATEST(0, m.current_inventory - COALESCE(SUM(a.allocated_quantity), 0)),
+         m.cost_price
+  FROM menu_items m
+  LEFT JOIN inventory_zone_allocations a ON a.menu_item_id = m.id AND a.event_id = _event_id
+  WHERE m.event_id = _event_id
+    AND m.starting_inventory > 0
+  GROUP BY m.id;
+
+  RETURN _count_id;
+END;
+$$;
+
+-- Close a stock count and bring book stock in line with what was counted.
+-- Lines left uncounted keep their expected quantity. Each menu item whose
+-- stock changes is written to audit_logs as an inventory adjustment.
+CREATE OR REPLACE FUNCTION public.complete_stock_count(_stock_count_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count RECORD;
+  _item RECORD;
+BEGIN
+  SELECT * INTO _count FROM stock_counts WHERE id = _stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _count.tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can complete a stock count';
+  END IF;
+
+  IF _count.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Stock count is already completed';
+  END IF;
+
+  UPDATE inventory_zone_allocations a
+  SET allocated_quantity = l.counted_quantity,
+      updated_at = now()
+  FROM stock_count_lines l
+  WHERE l.stock_count_id = _stock_count_id
+    AND l.zone_id IS NOT NULL
+    AND l.counted_quantity IS NOT NULL
+    AND a.menu_item_id = l.menu_item_id
+    AND a.zone_id = l.zone_id
+    AND a.event_id = _count.event_id;
+
+  FOR _item IN
+    SELECT m.id, m.name, m.current_inventory AS old_quantity,
+           SUM(COALESCE(l.counted_quantity, l.expected_quantity))::INTEGER AS new_quantity
+    FROM stock_count_lines l
+    JOIN menu_items m ON m.id = l.menu_item_id
+    WHERE l.stock_count_id = _stock_count_id
+    GROUP BY m.id, m.name, m.current_inventory
+    HAVING bool_or(l.counted_quantity IS NOT NULL)
+  LOOP
+    CONTINUE WHEN _item.new_quantity = _item.old_quantity;
+
+    UPDATE menu_items
+    SET current_inventory = _item.new_quantity
+    WHERE id = _item.id;
+
+    INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+    VALUES (
+      _count.tenant_id,
+      auth.uid(),
+      'inventory_adjustment',
+      'menu_item',
+      _item.id,
+      jsonb_build_object(
+        'event_id', _count.event_id,
+        'stock_count_id', _count.id,
+        'item_name', _item.name,
+        'old_quantity', _item.old_quantity,
+        'new_quantity', _item.new_quantity,
+        'reason', 'Closing stock count'
+      )
+    );
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'completed',
+      completed_by = auth.uid(),
+      completed_at = now()
+  WHERE id = _stock_count_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_stock_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_stock_count(UUID) TO authenticated;
@@ -0,0 +1,271 @@
+-- Create restock_requests table
+-- Raised by a station for an item in its zone, then acknowledged and fulfilled
+-- (or declined) by a manager. Each step is timestamped.
+CREATE TABLE public.restock_requests (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    zone_id UUID NOT NULL REFERENCES public.zones(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    quantity_requested INTEGER NOT NULL,
+    quantity_fulfilled INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'acknowledged', 'fulfilled', 'declined')),
+    notes TEXT,
+    decline_reason TEXT,
+    source_zone_id UUID REFERENCES public.zones(id),
+    transfer_id UUID REFERENCES public.inventory_zone_transfers(id),
+    requested_by UUID REFERENCES public.profiles(id),
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    acknowledged_by UUID REFERENCES public.profiles(id),
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES public.profiles(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT valid_quantity_requested CHECK (quantity_requested > 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_restock_requests_event_id ON public.restock_requests(event_id);
+CREATE INDEX idx_restock_requests_zone_id ON public.restock_requests(zone_id);
+CREATE INDEX idx_restock_requests_status ON public.restock_requests(status);
+
+-- Enable RLS
+ALTER TABLE public.restock_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for restock_requests
+-- Changes go through the restock functions below
+CREATE POLICY "Users can view restock requests in their tenant"
+ON public.restock_requests
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_restock_requests_updated_at
+BEFORE UPDATE ON public.restock_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so managers see new requests straight away
+ALTER PUBLICATION supabase_realtime ADD TABLE public.restock_requests;
+
+CREATE OR REPLACE FUNCTION public.can_manage_restock(_user_id UUID, _tenant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)
+      OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)
+$$;
+
+-- Raise a restock request from a station
+CREATE OR REPLACE FUNCTION public.request_restock(
+  _menu_item_id UUID,
+  _zone_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone RECORD;
+  _request_id UUID;
+BEGIN
+  SELECT id, tenant_id, event_id INTO _zone FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _zone.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM restock_requests
+    WHERE menu_item_id = _menu_item_id
+      AND zone_id = _zone_id
+      AND status IN ('pending', 'acknowledged')
+  ) THEN
+    RAISE EXCEPTION 'A restock request for this item is already open';
+  END IF;
+
+  INSERT INTO restock_requests (tenant_id, event_id, zone_id, menu_item_id, quantity_requested, notes, requested_by)
+  VALUES (_zone.tenant_id, _zone.event_id, _zone_id, _menu_item_id, _quantity, NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id INTO _request_id;
+
+  RETURN _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_restock_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+BEGIN
+  SELECT * INTO _request FROM restock_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restock request not found';
+  END IF;
+
+  IF NOT can_manage_restock(auth.uid(), _request.tenant_id) THEN
+    RAISE EXCEPTION 'Only managers can handle restock requests';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Restock request is already %', _request.status;
+  END IF;
+
+  UPDATE restock_requests
+  SET status = 'acknowledged',
+      acknowledged_by = auth.uid(),
+      acknowledged_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+-- Fulfil a request by moving stock from another zone (logged as a zone
+-- transfer) or, with no source zone, topping up the zone's allocation from
+-- stock not yet allocated to any zone
+CREATE OR REPLACE FUNCTION public.fulfil_restock_request(
+  _request_id UUID,
+  _quantity INTEGER,
+  _source_zone_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+  _available INTEGER;
+  _transfer_id UUID;
+BEGIN
+  SELECT * INTO _request FROM restock_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restock request not found';
+  END IF;
+
+  IF NOT can_manage_restock(auth.uid(), _request.tenant_id) THEN
+    RAISE EXCEPTION 'Only managers can handle restock requests';
+  END IF;
+
+  IF _request.status NOT IN ('pending', 'acknowledged') THEN
+    RAISE EXCEPTION 'Restock request is already %', _request.status;
+  END IF;
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF _source_zone_id = _request.zone_id THEN
+    RAISE EXCEPTION 'Source zone must be different from the requesting zone';
+  END IF;
+
+  IF _source_zone_id IS NOT NULL THEN
+    SELECT allocated_quantity INTO _available
+    FROM inventory_zone_allocations
+    WHERE menu_item_id = _request.menu_item_id
+      AND zone_id = _source_zone_id
+    FOR UPDATE;
+
+    IF COALESCE(_available, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % available in the source zone', COALESCE(_available, 0);
+    END IF;
+
+    UPDATE inventory_zone_allocations
+    SET allocated_quantity = allocated_quantity - _quantity,
+        updated_at = now()
+    WHERE menu_item_id = _request.menu_item_id
+      AND zone_id = _source_zone_id;
+
+    INSERT INTO inventory_zone_transfers (
+      menu_item_id, from_zone_id, to_zone_id, quantity, transferred_by, reason, tenant_id, event_id
+    )
+    VALUES (
+      _request.menu_item_id, _source_zone_id, _request.zone_id, _quantity, auth.uid(),
+      'Restock request', _request.tenant_id, _request.event_id
+    )
+    RETURNING id INTO _transfer_id;
+  ELSE
+    SELECT m.current_inventory - COALESCE(SUM(a.allocated_quantity), 0)
+    INTO _available
+    FROM menu_items m
+    LEFT JOIN inventory_zone_allocations a ON a.menu_item_id = m.id
+    WHERE m.id = _request.menu_item_id
+    GROUP BY m.id;
+
+    IF COALESCE(_available, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % unallocated in stock', GREATEST(COALESCE(_available, 0), 0);
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_zone_allocations (menu_item_id, zone_id, allocated_quantity, tenant_id, event_id)
+  VALUES (_request.menu_item_id, _request.zone_id, _quantity, _request.tenant_id, _request.event_id)
+  ON CONFLICT (menu_item_id, zone_id)
+  DO UPDATE SET allocated_quantity = inventory_zone_allocations.allocated_quantity + EXCLUDED.allocated_quantity,
+                updated_at = now();
+
+  UPDATE restock_requests
+  SET status = 'fulfilled',
+      quantity_fulfilled = _quantity,
+      source_zone_id = _source_zone_id,
+      transfer_id = _transfer_id,
+      acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+      acknowledged_at = COALESCE(acknowledged_at, now()),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_restock_request(_request_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+BEGIN
+  SELECT * INTO _request FROM restock_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restock request not found';
+  END IF;
+
+  IF NOT can_manage_restock(auth.uid(), _request.tenant_id) THEN
+    RAISE EXCEPTION 'Only managers can handle restock requests';
+  END IF;
+
+  IF _request.status NOT IN ('pending', 'acknowledged') THEN
+    RAISE EXCEPTION 'Restock request is already %', _request.status;
+  END IF;
+
+  UPDATE restock_requests
+  SET status = 'declined',
+      decline_reason = NULLIF(TRIM(_reason), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_manage_restock(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_restock(UUID, UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_restock_request(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fulfil_restock_request(UUID, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_restock_request(UUID, TEXT) TO authenticated;
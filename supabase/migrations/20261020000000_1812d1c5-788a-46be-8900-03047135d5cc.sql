@@ -0,0 +1,399 @@
+-- Zone-level availability: an item can run out in one zone while other zones
+-- keep selling it. Zones without an allocation get a zero allocation row when
+-- marked unavailable.
+ALTER TABLE public.inventory_zone_allocations
+  ADD COLUMN is_available BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN unavailable_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN unavailable_by UUID REFERENCES public.profiles(id);
+
+-- Enable realtime so waiters in the zone see the item disappear
+ALTER PUBLICATION supabase_realtime ADD TABLE public.inventory_zone_allocations;
+
+-- Mark an item out of stock in one zone and reject its open order items from
+-- tables in that zone. Returns the number of order items rejected.
+CREATE OR REPLACE FUNCTION public.mark_zone_item_unavailable(_menu_item_id UUID, _zone_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone RECORD;
+  _rejected INTEGER;
+BEGIN
+  SELECT id, tenant_id, event_id INTO _zone FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _zone.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  INSERT INTO inventory_zone_allocations (
+    menu_item_id, zone_id, allocated_quantity, tenant_id, event_id, is_available, unavailable_at, unavailable_by
+  )
+  VALUES (_menu_item_id, _zone_id, 0, _zone.tenant_id, _zone.event_id, false, now(), auth.uid())
+  ON CONFLICT (menu_item_id, zone_id)
+  DO UPDATE SET is_available = false,
+                unavailable_at = now(),
+                unavailable_by = auth.uid(),
+                updated_at = now();
+
+  UPDATE order_items oi
+  SET status = 'rejected'
+  FROM orders o
+  JOIN tables t ON t.id = o.table_id
+  WHERE oi.order_id = o.id
+    AND t.zone_id = _zone_id
+    AND oi.menu_item_id = _menu_item_id
+    AND oi.status IN ('pending', 'dispatched');
+
+  GET DIAGNOSTICS _rejected = ROW_COUNT;
+
+  RETURN _rejected;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_zone_item_available(_menu_item_id UUID, _zone_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM zones WHERE id = _zone_id AND tenant_id = get_user_tenant(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  UPDATE inventory_zone_allocations
+  SET is_available = true,
+      unavailable_at = NULL,
+      unavailable_by = NULL,
+      updated_at = now()
+  WHERE menu_item_id = _menu_item_id
+    AND zone_id = _zone_id;
+
+  -- An empty allocation would cap the zone at zero; drop it so the zone sells
+  -- from unallocated stock again, as it did before running out
+  DELETE FROM inventory_zone_allocations
+  WHERE menu_item_id = _menu_item_id
+    AND zone_id = _zone_id
+    AND allocated_quantity = 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_zone_item_unavailable(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_zone_item_available(UUID, UUID) TO authenticated;
+
+-- Stock sent by a restock request puts the item back on sale in the zone
+CREATE OR REPLACE FUNCTION public.fulfil_restock_request(
+  _request_id UUID,
+  _quantity INTEGER,
+  _source_zone_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+  _available INTEGER;
+  _transfer_id UUID;
+BEGIN
+  SELECT * INTO _request FROM restock_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restock request not found';
+  END IF;
+
+  IF NOT can_manage_restock(auth.uid(), _request.tenant_id) THEN
+    RAISE EXCEPTION 'Only managers can handle restock requests';
+  END IF;
+
+  IF _request.status NOT IN ('pending', 'acknowledged') THEN
+    RAISE EXCEPTION 'Restock request is already %', _request.status;
+  END IF;
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF _source_zone_id = _request.zone_id THEN
+    RAISE EXCEPTION 'Source zone must be different from the requesting zone';
+  END IF;
+
+  IF _source_zone_id IS NOT NULL THEN
+    SELECT allocated_quantity INTO _available
+    FROM inventory_zone_allocations
+    WHERE menu_item_id = _request.menu_item_id
+      AND zone_id = _source_zone_id
+    FOR UPDATE;
+
+    IF COALESCE(_available, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % available in the source zone', COALESCE(_available, 0);
+    END IF;
+
+    UPDATE inventory_zone_allocations
+    SET allocated_quantity = allocated_quantity - _quantity,
+        updated_at = now()
+    WHERE menu_item_id = _request.menu_item_id
+      AND zone_id = _source_zone_id;
+
+    INSERT INTO inventory_zone_transfers (
+      menu_item_id, from_zone_id, to_zone_id, quantity, transferred_by, reason, tenant_id, event_id
+    )
+    VALUES (
+      _request.menu_item_id, _source_zone_id, _request.zone_id, _quantity, auth.uid(),
+      'Restock request', _request.tenant_id, _request.event_id
+    )
+    RETURNING id INTO _transfer_id;
+  ELSE
+    SELECT m.current_inventory - COALESCE(SUM(a.allocated_quantity), 0)
+    INTO _available
+    FROM menu_items m
+    LEFT JOIN inventory_zone_allocations a ON a.menu_item_id = m.id
+    WHERE m.id = _request.menu_item_id
+    GROUP BY m.id;
+
+    IF COALESCE(_available, 0) < _quantity THEN
+      RAISE EXCEPTION 'Only % unallocated in stock', GREATEST(COALESCE(_available, 0), 0);
+    END IF;
+  END IF;
+
+  INSERT INTO inventory_zone_allocations (menu_item_id, zone_id, allocated_quantity, tenant_id, event_id)
+  VALUES (_request.menu_item_id, _request.zone_id, _quantity, _request.tenant_id, _request.event_id)
+  ON CONFLICT (menu_item_id, zone_id)
+  DO UPDATE SET allocated_quantity = inventory_zone_allocations.allocated_quantity + EXCLUDED.allocated_quantity,
+                is_available = true,
+                unavailable_at = NULL,
+                unavailable_by = NULL,
+                updated_at = now();
+
+  UPDATE restock_requests
+  SET status = 'fulfilled',
+      quantity_fulfilled = _quantity,
+      source_zone_id = _source_zone_id,
+      transfer_id = _transfer_id,
+      acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+      acknowledged_at = COALESCE(acknowledged_at, now()),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id;
+END;
+$$;
+
+-- Order creation refuses items marked out of stock in the table's zone
+CREATE OR REPLACE FUNCTION public.create_order(
+  _event_id UUID,
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _table_number TEXT DEFAULT NULL,
+  _guest_name TEXT DEFAULT NULL,
+  _status public.order_status DEFAULT 'pending',
+  _guest_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _zone_id UUID;
+  _order_id UUID;
+  _order_number TEXT;
+  _total NUMERIC;
+  _item JSONB;
+  _menu_item RECORD;
+  _group RECORD;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _unit_price NUMERIC;
+  _order_item_id UUID;
+  _selected_count INTEGER;
+  _min_required INTEGER;
+  _allocated INTEGER;
+  _requested INTEGER;
+  _zone_available BOOLEAN;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Orders can only be created as pending or served';
+  END IF;
+
+  IF _guest_count IS NOT NULL AND _guest_count <= 0 THEN
+    RAISE EXCEPTION 'Guest count must be greater than zero';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order must contain at least one item';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id AND e.tenant_id = _tenant_id AND e.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Event not found or not active';
+  END IF;
+
+  -- Resolve the table and its zone
+  IF _table_id IS NOT NULL THEN
+    SELECT t.table_number, t.zone_id INTO _table_number, _zone_id
+    FROM tables t
+    WHERE t.id = _table_id AND t.event_id = _event_id AND t.tenant_id = _tenant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table not found for this event';
+    END IF;
+  END IF;
+
+  -- Serialise order creation per event so order numbers stay unique
+  PERFORM pg_advisory_xact_lock(hashtext(_event_id::text));
+
+  _order_number := generate_order_number(_event_id);
+
+  INSERT INTO orders (
+    order_number, event_id, waiter_id, tenant_id, table_id, table_number, guest_name,
+    guest_count, status, total_amount, served_at
+  )
+  VALUES (
+    _order_number, _event_id, _user_id, _tenant_id, _table_id, _table_number, NULLIF(_guest_name, ''),
+    _guest_count, _status, 0, CASE WHEN _status = 'served' THEN now() END
+  )
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT mi.id, mi.name, mi.price, mi.station_type, mi.is_available, mi.is_retired
+    INTO _menu_item
+    FROM menu_items mi
+    WHERE mi.id = (_item->>'menu_item_id')::UUID
+      AND mi.tenant_id = _tenant_id
+      AND (mi.event_id = _event_id OR mi.event_id IS NULL);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not on the menu for this event', _item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) OR _menu_item.is_retired THEN
+      RAISE EXCEPTION '% is no longer available', _menu_item.name;
+    END IF;
+
+    _option_ids := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb))::UUID
+    );
+
+    -- Every selected option must belong to this item and be available
+    IF EXISTS (
+      SELECT 1 FROM unnest(_option_ids) AS sel(id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options mo
+        JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = sel.id
+          AND mg.menu_item_id = _menu_item.id
+          AND mo.is_available = true
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid or unavailable option selected for %', _menu_item.name;
+    END IF;
+
+    -- Enforce min/max selections per modifier group
+    FOR _group IN
+      SELECT mg.id, mg.name, mg.is_required, mg.min_selections, mg.max_selections
+      FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = _menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO _selected_count
+      FROM menu_modifier_options mo
+      WHERE mo.group_id = _group.id AND mo.id = ANY(_option_ids);
+
+      _min_required := CASE WHEN _group.is_required THEN GREATEST(_group.min_selections, 1)
+                            ELSE _group.min_selections END;
+
+      IF _selected_count < _min_required OR _selected_count > _group.max_selections THEN
+        RAISE EXCEPTION 'Invalid selection for % on %', _group.name, _menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT _menu_item.price + COALESCE(SUM(mo.price_delta), 0) INTO _unit_price
+    FROM menu_modifier_options mo
+    WHERE mo.id = ANY(_option_ids);
+
+    INSERT INTO order_items (
+      order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes
+    )
+    VALUES (
+      _order_id, _menu_item.id, _quantity, _unit_price, _menu_item.station_type, _tenant_id,
+      _status, NULLIF(_item->>'notes', '')
+    )
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO order_item_modifiers (
+      order_item_id, modifier_option_id, group_name, option_name, price_delta, tenant_id
+    )
+    SELECT _order_item_id, mo.id, mg.name, mo.name, mo.price_delta, _tenant_id
+    FROM menu_modifier_options mo
+    JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(_option_ids);
+
+  END LOOP;
+
+  -- Check zone availability and allocations against the total requested per menu item
+  IF _zone_id IS NOT NULL THEN
+    FOR _menu_item IN
+      SELECT oi.menu_item_id AS id, mi.name, SUM(oi.quantity)::INTEGER AS requested
+      FROM order_items oi
+      JOIN menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = _order_id
+      GROUP BY oi.menu_item_id, mi.name
+    LOOP
+      _requested := _menu_item.requested;
+
+      SELECT a.allocated_quantity, a.is_available INTO _allocated, _zone_available
+      FROM inventory_zone_allocations a
+      WHERE a.menu_item_id = _menu_item.id
+        AND a.zone_id = _zone_id
+        AND a.event_id = _event_id;
+
+      IF FOUND AND NOT _zone_available THEN
+        RAISE EXCEPTION '% is out of stock in this zone', _menu_item.name;
+      END IF;
+
+      IF FOUND AND _allocated < _requested THEN
+        RAISE EXCEPTION 'Only % of % left in this zone', _allocated, _menu_item.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Apply tax and service charge rules and set the order total
+  _total := calculate_order_charges(_order_id);
+
+  RETURN QUERY SELECT _order_id, _order_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, UUID, TEXT, TEXT, public.order_status, INTEGER) TO authenticated;
@@ -0,0 +1,208 @@
+-- Create order_item_substitutions table
+-- A substitute suggested by a station when it rejects an item as out of stock,
+-- and the order item added when the waiter accepts it
+CREATE TABLE public.order_item_substitutions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL UNIQUE REFERENCES public.order_items(id) ON DELETE CASCADE,
+    menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    suggested_by UUID REFERENCES public.profiles(id),
+    substitute_order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+    accepted_by UUID REFERENCES public.profiles(id),
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_order_item_substitutions_tenant_id ON public.order_item_substitutions(tenant_id);
+
+-- Enable RLS
+ALTER TABLE public.order_item_substitutions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for order_item_substitutions
+-- Changes go through mark_zone_item_unavailable and accept_substitute
+CREATE POLICY "Users can view substitutions in their tenant"
+ON public.order_item_substitutions
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Add the optional substitute to the zone out-of-stock function
+DROP FUNCTION IF EXISTS public.mark_zone_item_unavailable(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.mark_zone_item_unavailable(
+  _menu_item_id UUID,
+  _zone_id UUID,
+  _substitute_menu_item_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone RECORD;
+  _rejected INTEGER;
+BEGIN
+  SELECT id, tenant_id, event_id INTO _zone FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _zone.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF _substitute_menu_item_id IS NOT NULL AND (
+    _substitute_menu_item_id = _menu_item_id
+    OR NOT EXISTS (
+      SELECT 1 FROM menu_items
+      WHERE id = _substitute_menu_item_id
+        AND tenant_id = _zone.tenant_id
+        AND is_available = true
+        AND is_retired = false
+    )
+  ) THEN
+    RAISE EXCEPTION 'Substitute is not available';
+  END IF;
+
+  INSERT INTO inventory_zone_allocations (
+    menu_item_id, zone_id, allocated_quantity, tenant_id, event_id, is_available, unavailable_at, unavailable_by
+  )
+  VALUES (_menu_item_id, _zone_id, 0, _zone.tenant_id, _zone.event_id, false, now(), auth.uid())
+  ON CONFLICT (menu_item_id, zone_id)
+  DO UPDATE SET is_available = false,
+                unavailable_at = now(),
+                unavailable_by = auth.uid(),
+                updated_at = now();
+
+  WITH rejected AS (
+    UPDATE order_items oi
+    SET status = 'rejected'
+    FROM orders o
+    JOIN tables t ON t.id = o.table_id
+    WHERE oi.order_id = o.id
+      AND t.zone_id = _zone_id
+      AND oi.menu_item_id = _menu_item_id
+      AND oi.status IN ('pending', 'dispatched')
+    RETURNING oi.id, oi.tenant_id
+  ),
+  suggested AS (
+    INSERT INTO order_item_substitutions (tenant_id, order_item_id, menu_item_id, suggested_by)
+    SELECT r.tenant_id, r.id, _substitute_menu_item_id, auth.uid()
+    FROM rejected r
+    WHERE _substitute_menu_item_id IS NOT NULL
+    ON CONFLICT (order_item_id) DO NOTHING
+  )
+  SELECT COUNT(*) INTO _rejected FROM rejected;
+
+  RETURN _rejected;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_zone_item_unavailable(UUID, UUID, UUID) TO authenticated;
+
+-- Accept the substitute suggested for a rejected item: adds it to the same
+-- order at the substitute's own price (modifiers are not carried over), sends
+-- it to the substitute's station and recalculates the order charges.
+-- Returns the new order item id.
+CREATE OR REPLACE FUNCTION public.accept_substitute(_order_item_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _item RECORD;
+  _substitute RECORD;
+  _zone_id UUID;
+  _allocation RECORD;
+  _new_item_id UUID;
+BEGIN
+  SELECT oi.id, oi.quantity, oi.status, oi.tenant_id, o.id AS order_id, o.waiter_id,
+         o.status AS order_status, o.table_id, mi.name,
+         s.id AS substitution_id, s.menu_item_id AS substitute_id, s.substitute_order_item_id
+  INTO _item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN order_item_substitutions s ON s.order_item_id = oi.id
+  WHERE oi.id = _order_item_id
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND OR _item.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF _item.waiter_id <> _user_id
+     AND NOT has_role(_user_id, _item.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _item.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'Only the waiter who took the order can accept a substitute';
+  END IF;
+
+  IF _item.status <> 'rejected' OR _item.substitution_id IS NULL THEN
+    RAISE EXCEPTION 'No substitute was suggested for this item';
+  END IF;
+
+  IF _item.substitute_order_item_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The substitute has already been added';
+  END IF;
+
+  IF _item.order_status = 'paid' THEN
+    RAISE EXCEPTION 'Order is already paid';
+  END IF;
+
+  SELECT id, name, price, station_type INTO _substitute
+  FROM menu_items
+  WHERE id = _item.substitute_id
+    AND is_available = true
+    AND is_retired = false;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The suggested substitute is no longer available';
+  END IF;
+
+  SELECT zone_id INTO _zone_id FROM tables WHERE id = _item.table_id;
+
+  IF _zone_id IS NOT NULL THEN
+    SELECT allocated_quantity, is_available INTO _allocation
+    FROM inventory_zone_allocations
+    WHERE menu_item_id = _substitute.id
+      AND zone_id = _zone_id;
+
+    IF FOUND AND NOT _allocation.is_available THEN
+      RAISE EXCEPTION '% is out of stock in this zone', _substitute.name;
+    END IF;
+
+    IF FOUND AND _allocation.allocated_quantity < _item.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in this zone', _allocation.allocated_quantity, _substitute.name;
+    END IF;
+  END IF;
+
+  INSERT INTO order_items (
+    order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes
+  )
+  VALUES (
+    _item.order_id, _substitute.id, _item.quantity, _substitute.price, _substitute.station_type,
+    _item.tenant_id, 'pending', 'Substitute for ' || _item.name
+  )
+  RETURNING id INTO _new_item_id;
+
+  UPDATE order_item_substitutions
+  SET substitute_order_item_id = _new_item_id,
+      accepted_by = _user_id,
+      accepted_at = now()
+  WHERE id = _item.substitution_id;
+
+  -- The order has something to prepare again
+  UPDATE orders
+  SET status = 'pending',
+      ready_at = NULL,
+      served_at = NULL
+  WHERE id = _item.order_id
+    AND status IN ('ready', 'served');
+
+  PERFORM calculate_order_charges(_item.order_id);
+
+  RETURN _new_item_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_substitute(UUID) TO authenticated;
@@ -0,0 +1,321 @@
+-- Number each round of items on an order so later rounds dispatch as a new course
+ALTER TABLE public.order_items
+ADD COLUMN course_number INTEGER NOT NULL DEFAULT 1;
+
+-- Insert a batch of items into an order as one course. Shared by create_order
+-- and add_order_items; callers check permissions and the order's state.
+CREATE OR REPLACE FUNCTION public.insert_order_items(
+  _order_id UUID,
+  _items JSONB,
+  _status public.order_status,
+  _course_number INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+  _event_id UUID;
+  _zone_id UUID;
+  _item JSONB;
+  _menu_item RECORD;
+  _group RECORD;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _unit_price NUMERIC;
+  _order_item_id UUID;
+  _selected_count INTEGER;
+  _min_required INTEGER;
+  _allocated INTEGER;
+  _requested INTEGER;
+  _zone_available BOOLEAN;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order must contain at least one item';
+  END IF;
+
+  SELECT o.tenant_id, o.event_id, t.zone_id INTO _tenant_id, _event_id, _zone_id
+  FROM orders o
+  LEFT JOIN tables t ON t.id = o.table_id
+  WHERE o.id = _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT mi.id, mi.name, mi.price, mi.station_type, mi.is_available, mi.is_retired
+    INTO _menu_item
+    FROM menu_items mi
+    WHERE mi.id = (_item->>'menu_item_id')::UUID
+      AND mi.tenant_id = _tenant_id
+      AND (mi.event_id = _event_id OR mi.event_id IS NULL);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not on the menu for this event', _item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) OR _menu_item.is_retired THEN
+      RAISE EXCEPTION '% is no longer available', _menu_item.name;
+    END IF;
+
+    _option_ids := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb))::UUID
+    );
+
+    -- Every selected option must belong to this item and be available
+    IF EXISTS (
+      SELECT 1 FROM unnest(_option_ids) AS sel(id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options mo
+        JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = sel.id
+          AND mg.menu_item_id = _menu_item.id
+          AND mo.is_available = true
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid or unavailable option selected for %', _menu_item.name;
+    END IF;
+
+    -- Enforce min/max selections per modifier group
+    FOR _group IN
+      SELECT mg.id, mg.name, mg.is_required, mg.min_selections, mg.max_selections
+      FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = _menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO _selected_count
+      FROM menu_modifier_options mo
+      WHERE mo.group_id = _group.id AND mo.id = ANY(_option_ids);
+
+      _min_required := CASE WHEN _group.is_required THEN GREATEST(_group.min_selections, 1)
+                            ELSE _group.min_selections END;
+
+      IF _selected_count < _min_required OR _selected_count > _group.max_selections THEN
+        RAISE EXCEPTION 'Invalid selection for % on %', _group.name, _menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT _menu_item.price + COALESCE(SUM(mo.price_delta), 0) INTO _unit_price
+    FROM menu_modifier_options mo
+    WHERE mo.id = ANY(_option_ids);
+
+    INSERT INTO order_items (
+      order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes, course_number
+    )
+    VALUES (
+      _order_id, _menu_item.id, _quantity, _unit_price, _menu_item.station_type, _tenant_id,
+      _status, NULLIF(_item->>'notes', ''), _course_number
+    )
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO order_item_modifiers (
+      order_item_id, modifier_option_id, group_name, option_name, price_delta, tenant_id
+    )
+    SELECT _order_item_id, mo.id, mg.name, mo.name, mo.price_delta, _tenant_id
+    FROM menu_modifier_options mo
+    JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(_option_ids);
+
+  END LOOP;
+
+  -- Check zone availability and allocations against the total requested per menu item in this course
+  IF _zone_id IS NOT NULL THEN
+    FOR _menu_item IN
+      SELECT oi.menu_item_id AS id, mi.name, SUM(oi.quantity)::INTEGER AS requested
+      FROM order_items oi
+      JOIN menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = _order_id
+        AND oi.course_number = _course_number
+      GROUP BY oi.menu_item_id, mi.name
+    LOOP
+      _requested := _menu_item.requested;
+
+      SELECT a.allocated_quantity, a.is_available INTO _allocated, _zone_available
+      FROM inventory_zone_allocations a
+      WHERE a.menu_item_id = _menu_item.id
+        AND a.zone_id = _zone_id
+        AND a.event_id = _event_id;
+
+      IF FOUND AND NOT _zone_available THEN
+        RAISE EXCEPTION '% is out of stock in this zone', _menu_item.name;
+      END IF;
+
+      IF FOUND AND _allocated < _requested THEN
+        RAISE EXCEPTION 'Only % of % left in this zone', _allocated, _menu_item.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_order_items(UUID, JSONB, public.order_status, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  _event_id UUID,
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _table_number TEXT DEFAULT NULL,
+  _guest_name TEXT DEFAULT NULL,
+  _status public.order_status DEFAULT 'pending',
+  _guest_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _order_id UUID;
+  _order_number TEXT;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Orders can only be created as pending or served';
+  END IF;
+
+  IF _guest_count IS NOT NULL AND _guest_count <= 0 THEN
+    RAISE EXCEPTION 'Guest count must be greater than zero';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id AND e.tenant_id = _tenant_id AND e.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Event not found or not active';
+  END IF;
+
+  -- Resolve the table number
+  IF _table_id IS NOT NULL THEN
+    SELECT t.table_number INTO _table_number
+    FROM tables t
+    WHERE t.id = _table_id AND t.event_id = _event_id AND t.tenant_id = _tenant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table not found for this event';
+    END IF;
+  END IF;
+
+  -- Serialise order creation per event so order numbers stay unique
+  PERFORM pg_advisory_xact_lock(hashtext(_event_id::text));
+
+  _order_number := generate_order_number(_event_id);
+
+  INSERT INTO orders (
+    order_number, event_id, waiter_id, tenant_id, table_id, table_number, guest_name,
+    guest_count, status, total_amount, served_at
+  )
+  VALUES (
+    _order_number, _event_id, _user_id, _tenant_id, _table_id, _table_number, NULLIF(_guest_name, ''),
+    _guest_count, _status, 0, CASE WHEN _status = 'served' THEN now() END
+  )
+  RETURNING id INTO _order_id;
+
+  -- Items on a new order make up its first course
+  PERFORM insert_order_items(_order_id, _items, _status, 1);
+
+  -- Apply tax and service charge rules and set the order total
+  _total := calculate_order_charges(_order_id);
+
+  RETURN QUERY SELECT _order_id, _order_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, UUID, TEXT, TEXT, public.order_status, INTEGER) TO authenticated;
+
+-- Append a round of items to an open order as its next course
+CREATE OR REPLACE FUNCTION public.add_order_items(
+  _order_id UUID,
+  _items JSONB,
+  _status public.order_status DEFAULT 'pending'
+)
+RETURNS TABLE (
+  course_number INTEGER,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _course_number INTEGER;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT o.id, o.tenant_id, o.waiter_id, o.status INTO _order
+  FROM orders o
+  WHERE o.id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.waiter_id <> _user_id
+     AND NOT has_role(_user_id, _order.tenant_id, 'bar_staff'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to add items to this order';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'dispatched', 'ready', 'served') THEN
+    RAISE EXCEPTION 'Items can only be added to an open, unpaid order';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Items can only be added as pending or served';
+  END IF;
+
+  SELECT COALESCE(MAX(oi.course_number), 0) + 1 INTO _course_number
+  FROM order_items oi
+  WHERE oi.order_id = _order_id;
+
+  PERFORM insert_order_items(_order_id, _items, _status, _course_number);
+
+  -- The new course has to be prepared before the order is ready again
+  IF _status = 'pending' THEN
+    UPDATE orders
+    SET status = 'pending',
+        ready_at = NULL,
+        served_at = NULL
+    WHERE id = _order_id
+      AND status IN ('ready', 'served');
+  END IF;
+
+  _total := calculate_order_charges(_order_id);
+
+  RETURN QUERY SELECT _course_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_order_items(UUID, JSONB, public.order_status) TO authenticated;
@@ -0,0 +1,198 @@
+-- Create table_tabs table
+-- One running check per table seating. It collects every order placed at the
+-- table by any waiter and is settled once, when the last order is paid.
+CREATE TABLE public.table_tabs (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    table_id UUID NOT NULL REFERENCES public.tables(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'settled', 'closed')),
+    opened_by UUID REFERENCES public.profiles(id),
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    settled_by UUID REFERENCES public.profiles(id),
+    settled_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.orders
+ADD COLUMN tab_id UUID REFERENCES public.table_tabs(id);
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX idx_table_tabs_one_open_per_table ON public.table_tabs(table_id) WHERE status = 'open';
+CREATE INDEX idx_table_tabs_event_status ON public.table_tabs(event_id, status);
+CREATE INDEX idx_orders_tab_id ON public.orders(tab_id);
+
+-- Enable RLS
+ALTER TABLE public.table_tabs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for table_tabs
+-- Tabs are opened and settled by the triggers below
+CREATE POLICY "Users can view table tabs in their tenant"
+ON public.table_tabs
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_table_tabs_updated_at
+BEFORE UPDATE ON public.table_tabs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Return the table's open tab, opening one and marking the table occupied if needed
+CREATE OR REPLACE FUNCTION public.open_table_tab(_table_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tab_id UUID;
+BEGIN
+  SELECT id INTO _tab_id
+  FROM table_tabs
+  WHERE table_id = _table_id AND status = 'open';
+
+  IF FOUND THEN
+    RETURN _tab_id;
+  END IF;
+
+  INSERT INTO table_tabs (tenant_id, event_id, table_id, opened_by)
+  SELECT t.tenant_id, t.event_id, t.id, auth.uid()
+  FROM tables t
+  WHERE t.id = _table_id
+  ON CONFLICT (table_id) WHERE status = 'open' DO NOTHING
+  RETURNING id INTO _tab_id;
+
+  -- Another order opened it first
+  IF _tab_id IS NULL THEN
+    SELECT id INTO _tab_id
+    FROM table_tabs
+    WHERE table_id = _table_id AND status = 'open';
+  END IF;
+
+  UPDATE tables
+  SET status = 'occupied',
+      occupied_at = now()
+  WHERE id = _table_id
+    AND status <> 'occupied';
+
+  RETURN _tab_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_table_tab(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Open a tab when a table is seated; close an unused one when it is cleared
+CREATE OR REPLACE FUNCTION public.sync_table_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'occupied' AND OLD.status <> 'occupied' THEN
+    PERFORM open_table_tab(NEW.id);
+  ELSIF NEW.status = 'available' AND OLD.status <> 'available' THEN
+    UPDATE table_tabs tt
+    SET status = 'closed',
+        closed_at = now()
+    WHERE tt.table_id = NEW.id
+      AND tt.status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.tab_id = tt.id
+          AND o.status IN ('pending', 'dispatched', 'ready', 'served')
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_table_tab
+AFTER UPDATE OF status ON public.tables
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_table_tab();
+
+-- Every order placed at a table joins the table's open tab
+CREATE OR REPLACE FUNCTION public.attach_order_to_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.table_id IS NOT NULL AND NEW.tab_id IS NULL THEN
+    NEW.tab_id := open_table_tab(NEW.table_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attach_order_to_tab
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.attach_order_to_tab();
+
+-- Once nothing on a tab is left to pay, settle it and send the table for cleaning
+CREATE OR REPLACE FUNCTION public.settle_table_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_id UUID;
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status <> 'paid' AND NEW.tab_id IS NOT NULL THEN
+    UPDATE table_tabs tt
+    SET status = 'settled',
+        settled_at = now(),
+        settled_by = auth.uid()
+    WHERE tt.id = NEW.tab_id
+      AND tt.status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.tab_id = tt.id
+          AND o.status IN ('pending', 'dispatched', 'ready', 'served')
+      )
+    RETURNING tt.table_id INTO _table_id;
+
+    IF _table_id IS NOT NULL THEN
+      UPDATE tables
+      SET status = 'needs_cleaning',
+          current_order_id = NULL,
+          cleared_at = now()
+      WHERE id = _table_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_table_tab
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_table_tab();
+
+-- Attach unpaid orders at tables that are already seated to a tab
+INSERT INTO public.table_tabs (tenant_id, event_id, table_id, opened_at)
+SELECT t.tenant_id, t.event_id, t.id, COALESCE(t.occupied_at, now())
+FROM public.tables t
+WHERE t.status = 'occupied'
+   OR EXISTS (
+     SELECT 1 FROM public.orders o
+     WHERE o.table_id = t.id
+       AND o.status IN ('pending', 'dispatched', 'ready', 'served')
+   );
+
+UPDATE public.orders o
+SET tab_id = tt.id
+FROM public.table_tabs tt
+WHERE tt.table_id = o.table_id
+  AND tt.status = 'open'
+  AND o.status IN ('pending', 'dispatched', 'ready', 'served');
@@ -0,0 +1,223 @@
+-- Hold later courses until the waiter fires them
+ALTER TABLE public.order_items
+ADD COLUMN is_held BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN fired_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes for performance
+CREATE INDEX idx_order_items_held ON public.order_items(order_id, course_number) WHERE is_held;
+
+-- Insert a batch of items into an order. Each item's course_number counts from
+-- 1 within the batch and is offset by _course_number; pending items after the
+-- batch's first course are held until that course is fired. Shared by
+-- create_order and add_order_items; callers check permissions and the order's state.
+CREATE OR REPLACE FUNCTION public.insert_order_items(
+  _order_id UUID,
+  _items JSONB,
+  _status public.order_status,
+  _course_number INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+  _event_id UUID;
+  _zone_id UUID;
+  _item JSONB;
+  _menu_item RECORD;
+  _group RECORD;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _unit_price NUMERIC;
+  _order_item_id UUID;
+  _selected_count INTEGER;
+  _min_required INTEGER;
+  _allocated INTEGER;
+  _requested INTEGER;
+  _zone_available BOOLEAN;
+  _item_course INTEGER;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order must contain at least one item';
+  END IF;
+
+  SELECT o.tenant_id, o.event_id, t.zone_id INTO _tenant_id, _event_id, _zone_id
+  FROM orders o
+  LEFT JOIN tables t ON t.id = o.table_id
+  WHERE o.id = _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    IF _quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT mi.id, mi.name, mi.price, mi.station_type, mi.is_available, mi.is_retired
+    INTO _menu_item
+    FROM menu_items mi
+    WHERE mi.id = (_item->>'menu_item_id')::UUID
+      AND mi.tenant_id = _tenant_id
+      AND (mi.event_id = _event_id OR mi.event_id IS NULL);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not on the menu for this event', _item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(_menu_item.is_available, false) OR _menu_item.is_retired THEN
+      RAISE EXCEPTION '% is no longer available', _menu_item.name;
+    END IF;
+
+    _option_ids := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(_item->'modifier_option_ids', '[]'::jsonb))::UUID
+    );
+
+    -- Every selected option must belong to this item and be available
+    IF EXISTS (
+      SELECT 1 FROM unnest(_option_ids) AS sel(id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options mo
+        JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = sel.id
+          AND mg.menu_item_id = _menu_item.id
+          AND mo.is_available = true
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid or unavailable option selected for %', _menu_item.name;
+    END IF;
+
+    -- Enforce min/max selections per modifier group
+    FOR _group IN
+      SELECT mg.id, mg.name, mg.is_required, mg.min_selections, mg.max_selections
+      FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = _menu_item.id
+    LOOP
+      SELECT COUNT(*) INTO _selected_count
+      FROM menu_modifier_options mo
+      WHERE mo.group_id = _group.id AND mo.id = ANY(_option_ids);
+
+      _min_required := CASE WHEN _group.is_required THEN GREATEST(_group.min_selections, 1)
+                            ELSE _group.min_selections END;
+
+      IF _selected_count < _min_required OR _selected_count > _group.max_selections THEN
+        RAISE EXCEPTION 'Invalid selection for % on %', _group.name, _menu_item.name;
+      END IF;
+    END LOOP;
+
+    _item_course := _course_number + GREATEST(COALESCE((_item->>'course_number')::INTEGER, 1), 1) - 1;
+
+    SELECT _menu_item.price + COALESCE(SUM(mo.price_delta), 0) INTO _unit_price
+    FROM menu_modifier_options mo
+    WHERE mo.id = ANY(_option_ids);
+
+    INSERT INTO order_items (
+      order_id, menu_item_id, quantity, price, station_type, tenant_id, status, notes,
+      course_number, is_held
+    )
+    VALUES (
+      _order_id, _menu_item.id, _quantity, _unit_price, _menu_item.station_type, _tenant_id,
+      _status, NULLIF(_item->>'notes', ''),
+      _item_course, _status = 'pending' AND _item_course > _course_number
+    )
+    RETURNING id INTO _order_item_id;
+
+    INSERT INTO order_item_modifiers (
+      order_item_id, modifier_option_id, group_name, option_name, price_delta, tenant_id
+    )
+    SELECT _order_item_id, mo.id, mg.name, mo.name, mo.price_delta, _tenant_id
+    FROM menu_modifier_options mo
+    JOIN menu_modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(_option_ids);
+
+  END LOOP;
+
+  -- Check zone availability and allocations against the total requested per menu item in this batch
+  IF _zone_id IS NOT NULL THEN
+    FOR _menu_item IN
+      SELECT oi.menu_item_id AS id, mi.name, SUM(oi.quantity)::INTEGER AS requested
+      FROM order_items oi
+      JOIN menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = _order_id
+        AND oi.course_number >= _course_number
+      GROUP BY oi.menu_item_id, mi.name
+    LOOP
+      _requested := _menu_item.requested;
+
+      SELECT a.allocated_quantity, a.is_available INTO _allocated, _zone_available
+      FROM inventory_zone_allocations a
+      WHERE a.menu_item_id = _menu_item.id
+        AND a.zone_id = _zone_id
+        AND a.event_id = _event_id;
+
+      IF FOUND AND NOT _zone_available THEN
+        RAISE EXCEPTION '% is out of stock in this zone', _menu_item.name;
+      END IF;
+
+      IF FOUND AND _allocated < _requested THEN
+        RAISE EXCEPTION 'Only % of % left in this zone', _allocated, _menu_item.name;
+      END IF;
+    END LOOP;
+  END IF;
+
+END;
+$$;
+
+-- Send a held course to the stations. Returns the number of items fired.
+CREATE OR REPLACE FUNCTION public.fire_course(_order_id UUID, _course_number INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _fired INTEGER;
+BEGIN
+  SELECT id, tenant_id, waiter_id, status INTO _order
+  FROM orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND OR _order.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.waiter_id <> _user_id
+     AND NOT has_role(_user_id, _order.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'Only the waiter who took the order or a manager can fire a course';
+  END IF;
+
+  IF _order.status = 'paid' THEN
+    RAISE EXCEPTION 'Order is already paid';
+  END IF;
+
+  UPDATE order_items
+  SET is_held = false,
+      fired_at = now()
+  WHERE order_id = _order_id
+    AND course_number = _course_number
+    AND is_held;
+
+  GET DIAGNOSTICS _fired = ROW_COUNT;
+
+  IF _fired = 0 THEN
+    RAISE EXCEPTION 'Course % has nothing held', _course_number;
+  END IF;
+
+  -- The fired course has to be prepared before the order is ready again
+  UPDATE orders
+  SET status = 'pending',
+      ready_at = NULL,
+      served_at = NULL
+  WHERE id = _order_id
+    AND status IN ('ready', 'served');
+
+  RETURN _fired;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.fire_course(UUID, INTEGER) TO authenticated;
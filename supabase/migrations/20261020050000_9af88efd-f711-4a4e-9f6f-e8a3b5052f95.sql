@@ -0,0 +1,232 @@
+-- Expo: checks every station's items for an order at the pass and bumps the
+-- whole order to the waiter once it is complete
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'expo';
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'bumped' AFTER 'ready';
+
+ALTER TABLE public.orders
+ADD COLUMN bumped_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN bumped_by UUID REFERENCES public.profiles(id);
+
+-- Bump a complete order from the pass to its waiter
+CREATE OR REPLACE FUNCTION public.bump_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+BEGIN
+  SELECT id, tenant_id, status INTO _order
+  FROM orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT has_role(_user_id, _order.tenant_id, 'expo'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to bump orders';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'dispatched', 'ready') THEN
+    RAISE EXCEPTION 'Order is not waiting at the pass';
+  END IF;
+
+  -- Held courses are bumped on their own once fired
+  IF EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = _order_id
+      AND status IN ('pending', 'dispatched')
+      AND NOT is_held
+  ) THEN
+    RAISE EXCEPTION 'Not every item on the order is ready';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = _order_id
+      AND status = 'ready'
+  ) THEN
+    RAISE EXCEPTION 'Order has no ready items to bump';
+  END IF;
+
+  UPDATE orders
+  SET status = 'bumped',
+      ready_at = COALESCE(ready_at, now()),
+      bumped_at = now(),
+      bumped_by = _user_id
+  WHERE id = _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bump_order(UUID) TO authenticated;
+
+-- A bumped order goes back to the pass when more items are sent to the stations
+CREATE OR REPLACE FUNCTION public.reopen_bumped_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND NOT NEW.is_held THEN
+    UPDATE orders
+    SET status = 'pending',
+        bumped_at = NULL
+    WHERE id = NEW.order_id
+      AND status = 'bumped';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reopen_bumped_order
+AFTER INSERT OR UPDATE OF is_held ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.reopen_bumped_order();
+
+-- Bumped orders are still open: they can take more items and keep their tab open
+
+-- Append a round of items to an open order as its next course
+CREATE OR REPLACE FUNCTION public.add_order_items(
+  _order_id UUID,
+  _items JSONB,
+  _status public.order_status DEFAULT 'pending'
+)
+RETURNS TABLE (
+  course_number INTEGER,
+  total_amount NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _course_number INTEGER;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT o.id, o.tenant_id, o.waiter_id, o.status INTO _order
+  FROM orders o
+  WHERE o.id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _order.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.waiter_id <> _user_id
+     AND NOT has_role(_user_id, _order.tenant_id, 'bar_staff'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _order.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to add items to this order';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'dispatched', 'ready', 'bumped', 'served') THEN
+    RAISE EXCEPTION 'Items can only be added to an open, unpaid order';
+  END IF;
+
+  IF _status NOT IN ('pending', 'served') THEN
+    RAISE EXCEPTION 'Items can only be added as pending or served';
+  END IF;
+
+  SELECT COALESCE(MAX(oi.course_number), 0) + 1 INTO _course_number
+  FROM order_items oi
+  WHERE oi.order_id = _order_id;
+
+  PERFORM insert_order_items(_order_id, _items, _status, _course_number);
+
+  -- The new course has to be prepared before the order is ready again
+  IF _status = 'pending' THEN
+    UPDATE orders
+    SET status = 'pending',
+        ready_at = NULL,
+        bumped_at = NULL,
+        served_at = NULL
+    WHERE id = _order_id
+      AND status IN ('ready', 'bumped', 'served');
+  END IF;
+
+  _total := calculate_order_charges(_order_id);
+
+  RETURN QUERY SELECT _course_number, _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_order_items(UUID, JSONB, public.order_status) TO authenticated;
+
+-- Open a tab when a table is seated; close an unused one when it is cleared
+CREATE OR REPLACE FUNCTION public.sync_table_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'occupied' AND OLD.status <> 'occupied' THEN
+    PERFORM open_table_tab(NEW.id);
+  ELSIF NEW.status = 'available' AND OLD.status <> 'available' THEN
+    UPDATE table_tabs tt
+    SET status = 'closed',
+        closed_at = now()
+    WHERE tt.table_id = NEW.id
+      AND tt.status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.tab_id = tt.id
+          AND o.status IN ('pending', 'dispatched', 'ready', 'bumped', 'served')
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Once nothing on a tab is left to pay, settle it and send the table for cleaning
+CREATE OR REPLACE FUNCTION public.settle_table_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_id UUID;
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status <> 'paid' AND NEW.tab_id IS NOT NULL THEN
+    UPDATE table_tabs tt
+    SET status = 'settled',
+        settled_at = now(),
+        settled_by = auth.uid()
+    WHERE tt.id = NEW.tab_id
+      AND tt.status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.tab_id = tt.id
+          AND o.status IN ('pending', 'dispatched', 'ready', 'bumped', 'served')
+      )
+    RETURNING tt.table_id INTO _table_id;
+
+    IF _table_id IS NOT NULL THEN
+      UPDATE tables
+      SET status = 'needs_cleaning',
+          current_order_id = NULL,
+          cleared_at = now()
+      WHERE id = _table_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,371 @@
+-- Short code typed on a kitchen screen to pair it without a staff login
+CREATE OR REPLACE FUNCTION public.generate_kds_pairing_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT upper(substr(md5(gen_random_uuid()::text), 1, 6));
+$$;
+
+-- Create kds_profiles table
+-- An item is shown on a profile if it matches any of its routing rules
+CREATE TABLE public.kds_profiles (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    station_type public.station_type,
+    categories TEXT[] NOT NULL DEFAULT '{}',
+    menu_item_ids UUID[] NOT NULL DEFAULT '{}',
+    -- Empty shows tables in every zone
+    zone_ids UUID[] NOT NULL DEFAULT '{}',
+    view_mode TEXT NOT NULL DEFAULT 'ticket' CHECK (view_mode IN ('ticket', 'summary')),
+    warning_minutes INTEGER NOT NULL DEFAULT 5,
+    critical_minutes INTEGER NOT NULL DEFAULT 10,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (event_id, name),
+
+    CONSTRAINT kds_profile_has_route CHECK (
+      station_type IS NOT NULL OR cardinality(categories) > 0 OR cardinality(menu_item_ids) > 0
+    ),
+    CONSTRAINT valid_timer_thresholds CHECK (warning_minutes > 0 AND critical_minutes > warning_minutes)
+);
+
+-- Create kds_screens table
+-- Paired screens of a profile split its tickets between them, order by order
+CREATE TABLE public.kds_screens (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    profile_id UUID NOT NULL REFERENCES public.kds_profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 1,
+    pairing_code TEXT UNIQUE DEFAULT public.generate_kds_pairing_code(),
+    device_token UUID UNIQUE,
+    paired_at TIMESTAMP WITH TIME ZONE,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_kds_profiles_event_id ON public.kds_profiles(event_id);
+CREATE INDEX idx_kds_screens_profile_id ON public.kds_screens(profile_id);
+
+-- Enable RLS
+ALTER TABLE public.kds_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.kds_screens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for kds_profiles
+CREATE POLICY "Users can view kds profiles in their tenant"
+ON public.kds_profiles
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage kds profiles"
+ON public.kds_profiles
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- RLS Policies for kds_screens
+-- Device tokens stay with admins; screens read their tickets through get_kds_screen
+CREATE POLICY "Admins can manage kds screens"
+ON public.kds_screens
+FOR ALL
+USING (tenant_id = get_user_tenant(auth.uid()) AND has_role(auth.uid(), tenant_id, 'tenant_admin'::app_role));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_kds_profiles_updated_at
+BEFORE UPDATE ON public.kds_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_kds_screens_updated_at
+BEFORE UPDATE ON public.kds_screens
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Items still to be prepared that a profile's routing rules send to it.
+-- Held courses are included so screens can count them.
+CREATE OR REPLACE FUNCTION public.kds_routed_items(_profile_id UUID)
+RETURNS TABLE (
+  order_item_id UUID,
+  order_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT oi.id, oi.order_id
+  FROM kds_profiles kp
+  JOIN orders o ON o.event_id = kp.event_id
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN tables t ON t.id = o.table_id
+  WHERE kp.id = _profile_id
+    AND oi.status IN ('pending', 'dispatched')
+    AND (cardinality(kp.zone_ids) = 0 OR t.zone_id = ANY(kp.zone_ids))
+    AND (
+      oi.station_type = kp.station_type
+      OR mi.category = ANY(kp.categories)
+      OR oi.menu_item_id = ANY(kp.menu_item_ids)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kds_routed_items(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A profile's items as screen tickets. Orders are split between _screen_count
+-- screens by a stable hash so a ticket never moves while it is being cooked.
+CREATE OR REPLACE FUNCTION public.kds_profile_items(
+  _profile_id UUID,
+  _screen_index INTEGER DEFAULT 0,
+  _screen_count INTEGER DEFAULT 1
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', oi.id,
+      'order_id', oi.order_id,
+      'quantity', oi.quantity,
+      'notes', oi.notes,
+      'status', oi.status,
+      'created_at', oi.created_at,
+      'dispatched_at', oi.dispatched_at,
+      'ready_at', oi.ready_at,
+      'course_number', oi.course_number,
+      'is_held', oi.is_held,
+      'station_type', oi.station_type,
+      'menu_item', jsonb_build_object('name', mi.name, 'category', mi.category),
+      'modifiers', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('group_name', m.group_name, 'option_name', m.option_name))
+        FROM order_item_modifiers m
+        WHERE m.order_item_id = oi.id
+      ), '[]'::jsonb),
+      'order', jsonb_build_object(
+        'order_number', o.order_number,
+        'table_number', o.table_number,
+        'guest_name', o.guest_name,
+        'waiter', jsonb_build_object('full_name', p.full_name)
+      )
+    )
+    ORDER BY oi.created_at
+  ), '[]'::jsonb)
+  FROM kds_routed_items(_profile_id) r
+  JOIN order_items oi ON oi.id = r.order_item_id
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN profiles p ON p.id = o.waiter_id
+  WHERE mod(abs(hashtext(r.order_id::text)), GREATEST(_screen_count, 1)) = _screen_index;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kds_profile_items(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Every ticket of a profile, for signed-in staff on the kitchen display
+CREATE OR REPLACE FUNCTION public.get_kds_items(_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM kds_profiles
+    WHERE id = _profile_id
+      AND tenant_id = get_user_tenant(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Kitchen display profile not found';
+  END IF;
+
+  RETURN kds_profile_items(_profile_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_kds_items(UUID) TO authenticated;
+
+-- Pair a kitchen screen by its code. The returned device token stands in for
+-- a login on that screen from then on; the code cannot be used again.
+CREATE OR REPLACE FUNCTION public.pair_kds_screen(_pairing_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _device_token UUID := gen_random_uuid();
+BEGIN
+  UPDATE kds_screens
+  SET device_token = _device_token,
+      pairing_code = NULL,
+      paired_at = now(),
+      last_seen_at = now()
+  WHERE pairing_code = upper(trim(_pairing_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid pairing code';
+  END IF;
+
+  RETURN _device_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pair_kds_screen(TEXT) TO anon, authenticated;
+
+-- Unpair a screen and give it a fresh pairing code
+CREATE OR REPLACE FUNCTION public.reset_kds_screen_pairing(_screen_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _code TEXT := generate_kds_pairing_code();
+BEGIN
+  SELECT tenant_id INTO _tenant_id
+  FROM kds_screens
+  WHERE id = _screen_id;
+
+  IF NOT FOUND OR _tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Screen not found';
+  END IF;
+
+  IF NOT has_role(_user_id, _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can pair kitchen screens';
+  END IF;
+
+  UPDATE kds_screens
+  SET pairing_code = _code,
+      device_token = NULL,
+      paired_at = NULL,
+      last_seen_at = NULL
+  WHERE id = _screen_id;
+
+  RETURN _code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reset_kds_screen_pairing(UUID) TO authenticated;
+
+-- Everything a paired screen shows: its profile and its share of the tickets.
+-- Only screens seen in the last minute share the load, so tickets move to the
+-- remaining screens when one goes dark.
+CREATE OR REPLACE FUNCTION public.get_kds_screen(_device_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _screen RECORD;
+  _profile RECORD;
+  _screen_index INTEGER;
+  _screen_count INTEGER;
+BEGIN
+  UPDATE kds_screens
+  SET last_seen_at = now()
+  WHERE device_token = _device_token
+  RETURNING id, profile_id, name INTO _screen;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Screen is not paired';
+  END IF;
+
+  SELECT id, name, view_mode, warning_minutes, critical_minutes, is_active INTO _profile
+  FROM kds_profiles
+  WHERE id = _screen.profile_id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE s.position < ks.position OR (s.position = ks.position AND s.created_at < ks.created_at))
+  INTO _screen_count, _screen_index
+  FROM kds_screens s
+  CROSS JOIN (SELECT position, created_at FROM kds_screens WHERE id = _screen.id) ks
+  WHERE s.profile_id = _screen.profile_id
+    AND s.device_token IS NOT NULL
+    AND s.last_seen_at > now() - interval '1 minute';
+
+  RETURN jsonb_build_object(
+    'screen_name', _screen.name,
+    'screen_number', _screen_index + 1,
+    'screen_count', _screen_count,
+    'profile', jsonb_build_object(
+      'id', _profile.id,
+      'name', _profile.name,
+      'view_mode', _profile.view_mode,
+      'warning_minutes', _profile.warning_minutes,
+      'critical_minutes', _profile.critical_minutes
+    ),
+    'items', CASE WHEN _profile.is_active
+      THEN kds_profile_items(_profile.id, _screen_index, _screen_count)
+      ELSE '[]'::jsonb
+    END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_kds_screen(UUID) TO anon, authenticated;
+
+-- Start or finish an item from a paired screen
+CREATE OR REPLACE FUNCTION public.set_kds_item_status(
+  _device_token UUID,
+  _order_item_id UUID,
+  _status public.order_status
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id UUID;
+  _item RECORD;
+BEGIN
+  SELECT profile_id INTO _profile_id
+  FROM kds_screens
+  WHERE device_token = _device_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Screen is not paired';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM kds_routed_items(_profile_id)
+    WHERE order_item_id = _order_item_id
+  ) THEN
+    RAISE EXCEPTION 'Item is not on this screen';
+  END IF;
+
+  SELECT status, is_held INTO _item
+  FROM order_items
+  WHERE id = _order_item_id
+  FOR UPDATE;
+
+  IF _item.is_held THEN
+    RAISE EXCEPTION 'This course has not been fired yet';
+  END IF;
+
+  IF _status = 'dispatched' AND _item.status = 'pending' THEN
+    UPDATE order_items
+    SET status = 'dispatched',
+        dispatched_at = now()
+    WHERE id = _order_item_id;
+  ELSIF _status = 'ready' AND _item.status IN ('pending', 'dispatched') THEN
+    UPDATE order_items
+    SET status = 'ready',
+        ready_at = now()
+    WHERE id = _order_item_id;
+  ELSE
+    RAISE EXCEPTION 'Item cannot be marked %', _status;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_kds_item_status(UUID, UUID, public.order_status) TO anon, authenticated;
@@ -0,0 +1,325 @@
+-- Target prep times. An item's own target wins over its category's, and
+-- anything without either keeps the old 10 minute cutoff.
+ALTER TABLE public.menu_categories
+ADD COLUMN prep_target_minutes INTEGER CHECK (prep_target_minutes > 0);
+
+ALTER TABLE public.menu_items
+ADD COLUMN prep_target_minutes INTEGER CHECK (prep_target_minutes > 0);
+
+-- Each order item keeps the target it was ordered with, so later menu
+-- changes do not rewrite past SLA results
+ALTER TABLE public.order_items
+ADD COLUMN prep_target_minutes INTEGER NOT NULL DEFAULT 10;
+
+CREATE OR REPLACE FUNCTION public.menu_item_prep_target(_menu_item_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(mi.prep_target_minutes, mc.prep_target_minutes, 10)
+  FROM menu_items mi
+  LEFT JOIN menu_categories mc ON mc.tenant_id = mi.tenant_id AND mc.name = mi.category
+  WHERE mi.id = _menu_item_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.menu_item_prep_target(UUID) FROM PUBLIC, anon, authenticated;
+
+UPDATE public.order_items
+SET prep_target_minutes = COALESCE(public.menu_item_prep_target(menu_item_id), 10);
+
+CREATE OR REPLACE FUNCTION public.set_order_item_prep_target()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.prep_target_minutes := COALESCE(menu_item_prep_target(NEW.menu_item_id), 10);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_item_prep_target
+BEFORE INSERT ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.set_order_item_prep_target();
+
+-- KDS timers are now a share of each item's own target
+ALTER TABLE public.kds_profiles DROP CONSTRAINT valid_timer_thresholds;
+
+ALTER TABLE public.kds_profiles RENAME COLUMN warning_minutes TO warning_percent;
+ALTER TABLE public.kds_profiles RENAME COLUMN critical_minutes TO critical_percent;
+
+UPDATE public.kds_profiles
+SET warning_percent = 75,
+    critical_percent = 100;
+
+ALTER TABLE public.kds_profiles
+ALTER COLUMN warning_percent SET DEFAULT 75,
+ALTER COLUMN critical_percent SET DEFAULT 100,
+ADD CONSTRAINT valid_timer_thresholds CHECK (warning_percent > 0 AND critical_percent > warning_percent);
+
+-- Create prep_time_breaches table
+-- One row per item that missed its target, with what caused it
+CREATE TABLE public.prep_time_breaches (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL UNIQUE REFERENCES public.order_items(id) ON DELETE CASCADE,
+    station_type public.station_type NOT NULL,
+    assigned_to UUID REFERENCES public.profiles(id),
+    cause TEXT NOT NULL CHECK (cause IN ('station_backlog', 'out_of_stock', 'return')),
+    target_minutes INTEGER NOT NULL,
+    actual_minutes NUMERIC NOT NULL,
+    breached_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prep_time_breaches_tenant ON public.prep_time_breaches(tenant_id, breached_at);
+
+-- Enable RLS
+ALTER TABLE public.prep_time_breaches ENABLE ROW LEVEL SECURITY;
+
+-- Breaches are only written by the order item trigger
+CREATE POLICY "Users can view prep time breaches in their tenant"
+ON public.prep_time_breaches
+FOR SELECT
+USING (tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid()));
+
+-- A late ready is put down to the station's backlog. An item rejected as out
+-- of stock or sent back never reached the guest in time, so it is a breach
+-- whatever the clock says. A later breach of the same item replaces the cause.
+CREATE OR REPLACE FUNCTION public.record_prep_time_breach()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actual_minutes NUMERIC;
+  _cause TEXT;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _actual_minutes := EXTRACT(EPOCH FROM (COALESCE(NEW.ready_at, now()) - COALESCE(NEW.fired_at, NEW.created_at))) / 60;
+
+  IF NEW.status = 'ready' AND _actual_minutes > NEW.prep_target_minutes THEN
+    _cause := 'station_backlog';
+  ELSIF NEW.status = 'rejected' THEN
+    _cause := 'out_of_stock';
+  ELSIF NEW.status = 'returned' THEN
+    _cause := 'return';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO prep_time_breaches (
+    tenant_id, order_item_id, station_type, assigned_to, cause, target_minutes, actual_minutes
+  )
+  VALUES (
+    NEW.tenant_id, NEW.id, NEW.station_type, NEW.assigned_to, _cause, NEW.prep_target_minutes, _actual_minutes
+  )
+  ON CONFLICT (order_item_id) DO UPDATE
+  SET cause = EXCLUDED.cause,
+      assigned_to = EXCLUDED.assigned_to,
+      actual_minutes = EXCLUDED.actual_minutes,
+      breached_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_prep_time_breach
+AFTER UPDATE OF status ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.record_prep_time_breach();
+
+-- Station efficiency now measures each item against its own target. Items
+-- with a breach count as delayed, and efficiency_percentage is the share of
+-- items that met their SLA. _group_by breaks the results down by 'station',
+-- 'staff' (who the item was assigned to) or 'hour' (when it was fired).
+DROP FUNCTION IF EXISTS public.get_station_efficiency(TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION public.get_station_efficiency(
+  _start_date TIMESTAMPTZ,
+  _end_date TIMESTAMPTZ,
+  _tenant_id UUID,
+  _event_id UUID DEFAULT NULL,
+  _group_by TEXT DEFAULT 'station'
+)
+RETURNS TABLE (
+  group_key TEXT,
+  group_label TEXT,
+  total_items BIGINT,
+  avg_prep_time_minutes NUMERIC,
+  avg_target_minutes NUMERIC,
+  items_on_time BIGINT,
+  items_delayed BIGINT,
+  backlog_breaches BIGINT,
+  out_of_stock_breaches BIGINT,
+  return_breaches BIGINT,
+  efficiency_percentage NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _group_by NOT IN ('station', 'staff', 'hour') THEN
+    RAISE EXCEPTION 'Unknown breakdown: %', _group_by;
+  END IF;
+
+  IF NOT (_tenant_id = get_user_tenant(auth.uid()) OR is_super_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to view this tenant';
+  END IF;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT
+      CASE _group_by
+        WHEN 'station' THEN oi.station_type::TEXT
+        WHEN 'staff' THEN oi.assigned_to::TEXT
+        ELSE to_char(date_trunc('hour', COALESCE(oi.fired_at, oi.created_at)) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+      END AS group_key,
+      CASE _group_by
+        WHEN 'station' THEN replace(oi.station_type::TEXT, '_', ' ')
+        WHEN 'staff' THEN COALESCE(p.full_name, 'Unassigned')
+        ELSE NULL
+      END AS group_label,
+      EXTRACT(EPOCH FROM (oi.ready_at - COALESCE(oi.fired_at, oi.created_at))) / 60 AS prep_minutes,
+      oi.prep_target_minutes,
+      b.cause
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN prep_time_breaches b ON b.order_item_id = oi.id
+    LEFT JOIN profiles p ON p.id = oi.assigned_to
+    WHERE oi.tenant_id = _tenant_id
+      AND o.created_at BETWEEN _start_date AND _end_date
+      AND (_event_id IS NULL OR o.event_id = _event_id)
+      AND (oi.ready_at IS NOT NULL OR b.id IS NOT NULL)
+  )
+  SELECT
+    i.group_key,
+    MIN(i.group_label),
+    COUNT(*)::BIGINT,
+    AVG(i.prep_minutes),
+    AVG(i.prep_target_minutes)::NUMERIC,
+    COUNT(*) FILTER (WHERE i.cause IS NULL)::BIGINT,
+    COUNT(*) FILTER (WHERE i.cause IS NOT NULL)::BIGINT,
+    COUNT(*) FILTER (WHERE i.cause = 'station_backlog')::BIGINT,
+    COUNT(*) FILTER (WHERE i.cause = 'out_of_stock')::BIGINT,
+    COUNT(*) FILTER (WHERE i.cause = 'return')::BIGINT,
+    COUNT(*) FILTER (WHERE i.cause IS NULL)::NUMERIC / NULLIF(COUNT(*), 0) * 100
+  FROM items i
+  GROUP BY i.group_key
+  ORDER BY CASE WHEN _group_by = 'hour' THEN i.group_key END, COUNT(*) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_station_efficiency(TIMESTAMPTZ, TIMESTAMPTZ, UUID, UUID, TEXT) TO authenticated;
+
+-- Items carry their target and fire time so screens can colour by target
+CREATE OR REPLACE FUNCTION public.kds_profile_items(
+  _profile_id UUID,
+  _screen_index INTEGER DEFAULT 0,
+  _screen_count INTEGER DEFAULT 1
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', oi.id,
+      'order_id', oi.order_id,
+      'quantity', oi.quantity,
+      'notes', oi.notes,
+      'status', oi.status,
+      'created_at', oi.created_at,
+      'fired_at', oi.fired_at,
+      'dispatched_at', oi.dispatched_at,
+      'ready_at', oi.ready_at,
+      'course_number', oi.course_number,
+      'is_held', oi.is_held,
+      'station_type', oi.station_type,
+      'prep_target_minutes', oi.prep_target_minutes,
+      'menu_item', jsonb_build_object('name', mi.name, 'category', mi.category),
+      'modifiers', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('group_name', m.group_name, 'option_name', m.option_name))
+        FROM order_item_modifiers m
+        WHERE m.order_item_id = oi.id
+      ), '[]'::jsonb),
+      'order', jsonb_build_object(
+        'order_number', o.order_number,
+        'table_number', o.table_number,
+        'guest_name', o.guest_name,
+        'waiter', jsonb_build_object('full_name', p.full_name)
+      )
+    )
+    ORDER BY oi.created_at
+  ), '[]'::jsonb)
+  FROM kds_routed_items(_profile_id) r
+  JOIN order_items oi ON oi.id = r.order_item_id
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN profiles p ON p.id = o.waiter_id
+  WHERE mod(abs(hashtext(r.order_id::text)), GREATEST(_screen_count, 1)) = _screen_index;
+$$;
+
+-- Screen timers are a share of target
+CREATE OR REPLACE FUNCTION public.get_kds_screen(_device_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _screen RECORD;
+  _profile RECORD;
+  _screen_index INTEGER;
+  _screen_count INTEGER;
+BEGIN
+  UPDATE kds_screens
+  SET last_seen_at = now()
+  WHERE device_token = _device_token
+  RETURNING id, profile_id, name INTO _screen;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Screen is not paired';
+  END IF;
+
+  SELECT id, name, view_mode, warning_percent, critical_percent, is_active INTO _profile
+  FROM kds_profiles
+  WHERE id = _screen.profile_id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE s.position < ks.position OR (s.position = ks.position AND s.created_at < ks.created_at))
+  INTO _screen_count, _screen_index
+  FROM kds_screens s
+  CROSS JOIN (SELECT position, created_at FROM kds_screens WHERE id = _screen.id) ks
+  WHERE s.profile_id = _screen.profile_id
+    AND s.device_token IS NOT NULL
+    AND s.last_seen_at > now() - interval '1 minute';
+
+  RETURN jsonb_build_object(
+    'screen_name', _screen.name,
+    'screen_number', _screen_index + 1,
+    'screen_count', _screen_count,
+    'profile', jsonb_build_object(
+      'id', _profile.id,
+      'name', _profile.name,
+      'view_mode', _profile.view_mode,
+      'warning_percent', _profile.warning_percent,
+      'critical_percent', _profile.critical_percent
+    ),
+    'items', CASE WHEN _profile.is_active
+      THEN kds_profile_items(_profile.id, _screen_index, _screen_count)
+      ELSE '[]'::jsonb
+    END
+  );
+END;
+$$;
@@ -0,0 +1,259 @@
+-- Station tickets are now claimed before they are cooked. assigned_to is the
+-- person a ticket is waiting for, or who claimed it once it is dispatched.
+ALTER TABLE public.order_items
+ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_order_items_assigned_to ON public.order_items(assigned_to, assigned_at);
+
+-- Next clocked-in staff member for a station in a zone, round-robin: whoever
+-- was handed a ticket longest ago goes first. Staff on a break are skipped.
+-- Left VOLATILE so items inserted earlier in the same statement are counted.
+CREATE OR REPLACE FUNCTION public.next_station_assignee(
+  _tenant_id UUID,
+  _station_type public.station_type,
+  _zone_id UUID
+)
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT te.user_id
+  FROM time_entries te
+  WHERE te.tenant_id = _tenant_id
+    AND te.clock_out IS NULL
+    AND _zone_id = ANY(te.zone_ids)
+    AND CASE COALESCE(te.role, (
+      SELECT ur.role FROM user_roles ur
+      WHERE ur.user_id = te.user_id AND ur.tenant_id = te.tenant_id
+      LIMIT 1
+    ))
+      WHEN 'drink_dispenser' THEN 'drink_dispenser'
+      WHEN 'meal_dispenser' THEN 'meal_dispenser'
+      WHEN 'mixologist' THEN 'mixologist'
+      WHEN 'bar_staff' THEN 'bar'
+    END = _station_type::TEXT
+    AND NOT EXISTS (
+      SELECT 1 FROM time_entry_breaks b
+      WHERE b.time_entry_id = te.id AND b.ended_at IS NULL
+    )
+  ORDER BY (
+    SELECT MAX(oi.assigned_at) FROM order_items oi
+    WHERE oi.assigned_to = te.user_id AND oi.assigned_at >= te.clock_in
+  ) NULLS FIRST, te.clock_in
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_station_assignee(UUID, public.station_type, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Hand new and newly fired items to the next station staff member. Items
+-- without a table, or with nobody clocked in, stay open for anyone to claim.
+CREATE OR REPLACE FUNCTION public.assign_order_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone_id UUID;
+BEGIN
+  IF NEW.status <> 'pending' OR NEW.is_held OR NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.zone_id INTO _zone_id
+  FROM orders o
+  JOIN tables t ON t.id = o.table_id
+  WHERE o.id = NEW.order_id;
+
+  IF _zone_id IS NOT NULL THEN
+    NEW.assigned_to := next_station_assignee(NEW.tenant_id, NEW.station_type, _zone_id);
+    IF NEW.assigned_to IS NOT NULL THEN
+      NEW.assigned_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_order_item
+BEFORE INSERT OR UPDATE OF is_held ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_order_item();
+
+-- Dispatching always names who claimed the item, whichever screen did it
+CREATE OR REPLACE FUNCTION public.stamp_order_item_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'dispatched' AND OLD.status <> 'dispatched'
+     AND NEW.assigned_to IS NULL AND auth.uid() IS NOT NULL THEN
+    NEW.assigned_to := auth.uid();
+    NEW.assigned_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_order_item_claim
+BEFORE UPDATE OF status ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_order_item_claim();
+
+-- When station staff clock in or out, unclaimed tickets of anyone who left
+-- are released and every open ticket of the event is dealt out again
+CREATE OR REPLACE FUNCTION public.rebalance_station_queue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _assignee UUID;
+BEGIN
+  IF NEW.clock_out IS NOT NULL THEN
+    UPDATE order_items
+    SET assigned_to = NULL,
+        assigned_at = NULL
+    WHERE assigned_to = NEW.user_id
+      AND status = 'pending';
+  END IF;
+
+  FOR _item IN
+    SELECT oi.id, oi.station_type, t.zone_id
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN tables t ON t.id = o.table_id
+    WHERE oi.tenant_id = NEW.tenant_id
+      AND (NEW.event_id IS NULL OR o.event_id = NEW.event_id)
+      AND oi.status = 'pending'
+      AND NOT oi.is_held
+      AND oi.assigned_to IS NULL
+    ORDER BY oi.created_at
+  LOOP
+    _assignee := next_station_assignee(NEW.tenant_id, _item.station_type, _item.zone_id);
+
+    IF _assignee IS NOT NULL THEN
+      UPDATE order_items
+      SET assigned_to = _assignee,
+          assigned_at = now()
+      WHERE id = _item.id;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rebalance_station_queue
+AFTER INSERT OR UPDATE OF clock_out ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.rebalance_station_queue();
+
+-- Claim a waiting item and start preparing it. An item handed to someone
+-- else can only be taken over by a manager.
+CREATE OR REPLACE FUNCTION public.claim_order_item(_order_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _item RECORD;
+  _assignee_name TEXT;
+BEGIN
+  SELECT id, tenant_id, status, is_held, assigned_to INTO _item
+  FROM order_items
+  WHERE id = _order_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _item.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT full_name INTO _assignee_name
+  FROM profiles
+  WHERE id = _item.assigned_to;
+
+  IF _item.status = 'dispatched' AND _item.assigned_to = _user_id THEN
+    RETURN;
+  END IF;
+
+  IF _item.status = 'dispatched' THEN
+    RAISE EXCEPTION 'Already claimed by %', COALESCE(_assignee_name, 'someone else');
+  END IF;
+
+  IF _item.status <> 'pending' OR _item.is_held THEN
+    RAISE EXCEPTION 'Item is not waiting to be prepared';
+  END IF;
+
+  IF _item.assigned_to IS NOT NULL AND _item.assigned_to <> _user_id THEN
+    RAISE EXCEPTION 'Item is assigned to %', COALESCE(_assignee_name, 'someone else');
+  END IF;
+
+  UPDATE order_items
+  SET status = 'dispatched',
+      dispatched_at = now(),
+      assigned_to = _user_id,
+      assigned_at = CASE WHEN assigned_to = _user_id THEN assigned_at ELSE now() END
+  WHERE id = _order_item_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_order_item(UUID) TO authenticated;
+
+-- Move a waiting or claimed item to another staff member, or back to the
+-- open queue when _user_id is NULL
+CREATE OR REPLACE FUNCTION public.reassign_order_item(_order_item_id UUID, _user_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+BEGIN
+  SELECT id, tenant_id, status INTO _item
+  FROM order_items
+  WHERE id = _order_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _item.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _item.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(auth.uid(), _item.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to reassign items';
+  END IF;
+
+  IF _item.status NOT IN ('pending', 'dispatched') THEN
+    RAISE EXCEPTION 'Item is no longer being prepared';
+  END IF;
+
+  IF _user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = _user_id AND tenant_id = _item.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  -- A claimed item cannot go back to nobody
+  IF _user_id IS NULL AND _item.status = 'dispatched' THEN
+    RAISE EXCEPTION 'A claimed item must be reassigned to someone';
+  END IF;
+
+  UPDATE order_items
+  SET assigned_to = _user_id,
+      assigned_at = CASE WHEN _user_id IS NULL THEN NULL ELSE now() END
+  WHERE id = _order_item_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reassign_order_item(UUID, UUID) TO authenticated;
@@ -0,0 +1,236 @@
+-- Purchase orders only touch the caller's own suppliers, menu items and
+-- ingredients. Numbers are taken under a per-tenant lock, and menu item stock
+-- is only received in whole units instead of being truncated.
+-- Raise a purchase order with its lines.
+-- _items: [{ "menu_item_id" | "ingredient_id", "units_per_purchase", "quantity", "unit_cost" }]
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  _event_id UUID,
+  _supplier_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+  _count INTEGER;
+  _po_id UUID;
+  _item JSONB;
+BEGIN
+  SELECT tenant_id INTO _tenant_id FROM events WHERE id = _event_id;
+
+  IF _tenant_id IS NULL OR _tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can raise purchase orders';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one line';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = _supplier_id AND tenant_id = _tenant_id) THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  -- Serialise numbering per tenant so concurrent orders never share a number
+  PERFORM pg_advisory_xact_lock(hashtext('purchase_orders:' || _tenant_id::TEXT));
+
+  SELECT COALESCE(MAX(substring(po_number FROM '^PO-(\d+)$')::INTEGER), 0) + 1 INTO _count
+  FROM purchase_orders
+  WHERE tenant_id = _tenant_id;
+
+  INSERT INTO purchase_orders (tenant_id, event_id, supplier_id, po_number, notes, created_by)
+  VALUES (_tenant_id, _event_id, _supplier_id, 'PO-' || TO_CHAR(_count, 'FM0000'), NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id INTO _po_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    IF NULLIF(_item->>'menu_item_id', '') IS NOT NULL THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM menu_items
+        WHERE id = (_item->>'menu_item_id')::UUID AND tenant_id = _tenant_id
+      ) THEN
+        RAISE EXCEPTION 'Menu item not found';
+      END IF;
+
+      -- Menu item stock is counted in whole units
+      IF COALESCE((_item->>'units_per_purchase')::NUMERIC, 1) * (_item->>'quantity')::NUMERIC
+         <> trunc(COALESCE((_item->>'units_per_purchase')::NUMERIC, 1) * (_item->>'quantity')::NUMERIC) THEN
+        RAISE EXCEPTION 'Menu items can only be ordered in whole units';
+      END IF;
+    END IF;
+
+    IF NULLIF(_item->>'ingredient_id', '') IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM ingredients
+      WHERE id = (_item->>'ingredient_id')::UUID AND tenant_id = _tenant_id
+    ) THEN
+      RAISE EXCEPTION 'Ingredient not found';
+    END IF;
+
+    INSERT INTO purchase_order_items (
+      tenant_id, purchase_order_id, menu_item_id, ingredient_id,
+      units_per_purchase, quantity_ordered, unit_cost
+    )
+    VALUES (
+      _tenant_id,
+      _po_id,
+      NULLIF(_item->>'menu_item_id', '')::UUID,
+      NULLIF(_item->>'ingredient_id', '')::UUID,
+      COALESCE((_item->>'units_per_purchase')::NUMERIC, 1),
+      (_item->>'quantity')::NUMERIC,
+      COALESCE((_item->>'unit_cost')::NUMERIC, 0)
+    );
+  END LOOP;
+
+  RETURN _po_id;
+END;
+$$;
+
+-- Receive a delivery against a purchase order, in full or in part.
+-- _lines: [{ "purchase_order_item_id", "quantity", "unit_cost" }]
+-- Stock goes onto both starting and current levels so sold = starting - current
+-- still holds, and every line is written to audit_logs.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(_purchase_order_id UUID, _lines JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _po RECORD;
+  _line JSONB;
+  _poi RECORD;
+  _quantity NUMERIC;
+  _unit_cost NUMERIC;
+  _stock_quantity NUMERIC;
+  _item_name TEXT;
+  _old_quantity NUMERIC;
+  _unit TEXT;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _po FROM purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND OR _po.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _po.tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only tenant admins can receive stock';
+  END IF;
+
+  IF _po.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order is already %', _po.status;
+  END IF;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb))
+  LOOP
+    _quantity := COALESCE((_line->>'quantity')::NUMERIC, 0);
+    CONTINUE WHEN _quantity <= 0;
+
+    SELECT * INTO _poi
+    FROM purchase_order_items
+    WHERE id = (_line->>'purchase_order_item_id')::UUID
+      AND purchase_order_id = _purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line does not belong to this purchase order';
+    END IF;
+
+    _unit_cost := COALESCE((_line->>'unit_cost')::NUMERIC, _poi.unit_cost);
+    _stock_quantity := _quantity * _poi.units_per_purchase;
+
+    IF _poi.menu_item_id IS NOT NULL THEN
+      SELECT name, current_inventory INTO _item_name, _old_quantity
+      FROM menu_items
+      WHERE id = _poi.menu_item_id AND tenant_id = _po.tenant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Menu item not found';
+      END IF;
+
+      -- Menu item stock is counted in whole units, so a fraction would be lost
+      IF _stock_quantity <> trunc(_stock_quantity) THEN
+        RAISE EXCEPTION 'Receive % in whole units', _item_name;
+      END IF;
+
+      _unit := NULL;
+
+      UPDATE menu_items
+      SET starting_inventory = starting_inventory + _stock_quantity::INTEGER,
+          current_inventory = current_inventory + _stock_quantity::INTEGER
+      WHERE id = _poi.menu_item_id;
+    ELSE
+      SELECT name, current_stock, unit INTO _item_name, _old_quantity, _unit
+      FROM ingredients
+      WHERE id = _poi.ingredient_id AND tenant_id = _po.tenant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ingredient not found';
+      END IF;
+
+      UPDATE ingredients
+      SET starting_stock = starting_stock + _stock_quantity,
+          current_stock = current_stock + _stock_quantity
+      WHERE id = _poi.ingredient_id;
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + _quantity
+    WHERE id = _poi.id;
+
+    INSERT INTO stock_receipts (
+      tenant_id, event_id, purchase_order_item_id, menu_item_id, ingredient_id,
+      quantity, stock_quantity, unit_cost, received_by
+    )
+    VALUES (
+      _po.tenant_id, _po.event_id, _poi.id, _poi.menu_item_id, _poi.ingredient_id,
+      _quantity, _stock_quantity, _unit_cost, auth.uid()
+    );
+
+    INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+    VALUES (
+      _po.tenant_id,
+      auth.uid(),
+      'stock_received',
+      CASE WHEN _poi.menu_item_id IS NOT NULL THEN 'menu_item' ELSE 'ingredient' END,
+      COALESCE(_poi.menu_item_id, _poi.ingredient_id),
+      jsonb_build_object(
+        'event_id', _po.event_id,
+        'purchase_order_id', _po.id,
+        'po_number', _po.po_number,
+        'item_name', _item_name,
+        'old_quantity', _old_quantity,
+        'new_quantity', _old_quantity + _stock_quantity,
+        'unit', _unit,
+        'unit_cost', _unit_cost,
+        'reason', 'Received on ' || _po.po_number
+      )
+    );
+  END LOOP;
+
+  SELECT CASE
+    WHEN bool_and(quantity_received >= quantity_ordered) THEN 'received'
+    WHEN bool_or(quantity_received > 0) THEN 'partially_received'
+    ELSE 'ordered'
+  END INTO _status
+  FROM purchase_order_items
+  WHERE purchase_order_id = _purchase_order_id;
+
+  UPDATE purchase_orders
+  SET status = _status,
+      received_at = CASE WHEN _status = 'received' THEN now() ELSE received_at END
+  WHERE id = _purchase_order_id;
+
+  RETURN _status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(UUID, UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) TO authenticated;
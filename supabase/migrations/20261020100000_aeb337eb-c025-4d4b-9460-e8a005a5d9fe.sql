@@ -0,0 +1,113 @@
+-- Kitchen screen pairing is started by an admin for one screen. The code only
+-- works for that screen, expires after 10 minutes, and is dropped after five
+-- wrong guesses.
+CREATE OR REPLACE FUNCTION public.generate_kds_pairing_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  -- 10 characters from 32 unambiguous ones, each from a fresh random UUID byte
+  SELECT string_agg(
+    substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', get_byte(uuid_send(gen_random_uuid()), 0) % 32 + 1, 1),
+    ''
+  )
+  FROM generate_series(1, 10);
+$$;
+
+ALTER TABLE public.kds_screens
+ALTER COLUMN pairing_code DROP DEFAULT,
+ADD COLUMN pairing_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN failed_pairing_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Codes handed out before now never expired; admins start pairing again
+UPDATE public.kds_screens
+SET pairing_code = NULL
+WHERE pairing_code IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.pair_kds_screen(TEXT);
+DROP FUNCTION IF EXISTS public.reset_kds_screen_pairing(UUID);
+
+-- Pair a device with the screen it was pointed at. Returns NULL rather than
+-- raising on a wrong code so the failed attempt is still counted.
+CREATE OR REPLACE FUNCTION public.pair_kds_screen(_screen_id UUID, _pairing_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _screen RECORD;
+  _device_token UUID := gen_random_uuid();
+BEGIN
+  SELECT id, pairing_code, pairing_expires_at INTO _screen
+  FROM kds_screens
+  WHERE id = _screen_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _screen.pairing_code IS NULL OR _screen.pairing_expires_at < now() THEN
+    RETURN NULL;
+  END IF;
+
+  IF _screen.pairing_code <> upper(trim(_pairing_code)) THEN
+    UPDATE kds_screens
+    SET failed_pairing_attempts = failed_pairing_attempts + 1,
+        pairing_code = CASE WHEN failed_pairing_attempts + 1 >= 5 THEN NULL ELSE pairing_code END,
+        pairing_expires_at = CASE WHEN failed_pairing_attempts + 1 >= 5 THEN NULL ELSE pairing_expires_at END
+    WHERE id = _screen_id;
+
+    RETURN NULL;
+  END IF;
+
+  UPDATE kds_screens
+  SET device_token = _device_token,
+      pairing_code = NULL,
+      pairing_expires_at = NULL,
+      failed_pairing_attempts = 0,
+      paired_at = now(),
+      last_seen_at = now()
+  WHERE id = _screen_id;
+
+  RETURN _device_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pair_kds_screen(UUID, TEXT) TO anon, authenticated;
+
+-- Unpair a screen and give it a new pairing code for the next 10 minutes
+CREATE OR REPLACE FUNCTION public.start_kds_screen_pairing(_screen_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _code TEXT := generate_kds_pairing_code();
+BEGIN
+  SELECT tenant_id INTO _tenant_id
+  FROM kds_screens
+  WHERE id = _screen_id;
+
+  IF NOT FOUND OR _tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Screen not found';
+  END IF;
+
+  IF NOT has_role(_user_id, _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can pair kitchen screens';
+  END IF;
+
+  UPDATE kds_screens
+  SET pairing_code = _code,
+      pairing_expires_at = now() + interval '10 minutes',
+      failed_pairing_attempts = 0,
+      device_token = NULL,
+      paired_at = NULL,
+      last_seen_at = NULL
+  WHERE id = _screen_id;
+
+  RETURN _code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_kds_screen_pairing(UUID) TO authenticated;
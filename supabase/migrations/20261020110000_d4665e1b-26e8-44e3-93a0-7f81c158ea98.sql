@@ -0,0 +1,44 @@
+-- Keep table_id and table_number consistent on orders. A table number changed
+-- on its own moves the order to that table, and an order that moves table
+-- joins the new table's open tab.
+CREATE OR REPLACE FUNCTION public.sync_order_table()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.table_id IS NOT DISTINCT FROM OLD.table_id
+     AND NEW.table_number IS DISTINCT FROM OLD.table_number THEN
+    NEW.table_id := NULL;
+
+    IF NEW.table_number IS NOT NULL THEN
+      SELECT t.id INTO NEW.table_id
+      FROM tables t
+      WHERE t.tenant_id = NEW.tenant_id
+        AND t.event_id = NEW.event_id
+        AND t.table_number = NEW.table_number;
+    END IF;
+  ELSIF NEW.table_id IS NOT NULL THEN
+    SELECT t.table_number INTO NEW.table_number
+    FROM tables t
+    WHERE t.id = NEW.table_id;
+  ELSIF NEW.table_number IS NOT NULL THEN
+    SELECT t.id INTO NEW.table_id
+    FROM tables t
+    WHERE t.tenant_id = NEW.tenant_id
+      AND t.event_id = NEW.event_id
+      AND t.table_number = NEW.table_number;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.table_id IS DISTINCT FROM OLD.table_id THEN
+    NEW.tab_id := CASE
+      WHEN NEW.table_id IS NULL THEN NULL
+      ELSE open_table_tab(NEW.table_id)
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Station staff run their zone out of an item; managers and admins can too
+CREATE OR REPLACE FUNCTION public.can_manage_zone_stock(_user_id UUID, _tenant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT can_manage_restock(_user_id, _tenant_id)
+      OR has_role(_user_id, _tenant_id, 'drink_dispenser'::app_role)
+      OR has_role(_user_id, _tenant_id, 'meal_dispenser'::app_role)
+      OR has_role(_user_id, _tenant_id, 'mixologist'::app_role)
+      OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_zone_item_unavailable(
+  _menu_item_id UUID,
+  _zone_id UUID,
+  _substitute_menu_item_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone RECORD;
+  _rejected INTEGER;
+BEGIN
+  SELECT id, tenant_id, event_id INTO _zone FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _zone.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF NOT can_manage_zone_stock(auth.uid(), _zone.tenant_id) THEN
+    RAISE EXCEPTION 'Only station staff and managers can mark items out of stock';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM menu_items
+    WHERE id = _menu_item_id
+      AND tenant_id = _zone.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  IF _substitute_menu_item_id IS NOT NULL AND (
+    _substitute_menu_item_id = _menu_item_id
+    OR NOT EXISTS (
+      SELECT 1 FROM menu_items
+      WHERE id = _substitute_menu_item_id
+        AND tenant_id = _zone.tenant_id
+        AND is_available = true
+        AND is_retired = false
+    )
+  ) THEN
+    RAISE EXCEPTION 'Substitute is not available';
+  END IF;
+
+  INSERT INTO inventory_zone_allocations (
+    menu_item_id, zone_id, allocated_quantity, tenant_id, event_id, is_available, unavailable_at, unavailable_by
+  )
+  VALUES (_menu_item_id, _zone_id, 0, _zone.tenant_id, _zone.event_id, false, now(), auth.uid())
+  ON CONFLICT (menu_item_id, zone_id)
+  DO UPDATE SET is_available = false,
+                unavailable_at = now(),
+                unavailable_by = auth.uid(),
+                updated_at = now();
+
+  WITH rejected AS (
+    UPDATE order_items oi
+    SET status = 'rejected'
+    FROM orders o
+    JOIN tables t ON t.id = o.table_id
+    WHERE oi.order_id = o.id
+      AND t.zone_id = _zone_id
+      AND oi.menu_item_id = _menu_item_id
+      AND oi.status IN ('pending', 'dispatched')
+    RETURNING oi.id, oi.tenant_id
+  ),
+  suggested AS (
+    INSERT INTO order_item_substitutions (tenant_id, order_item_id, menu_item_id, suggested_by)
+    SELECT r.tenant_id, r.id, _substitute_menu_item_id, auth.uid()
+    FROM rejected r
+    WHERE _substitute_menu_item_id IS NOT NULL
+    ON CONFLICT (order_item_id) DO NOTHING
+  )
+  SELECT COUNT(*) INTO _rejected FROM rejected;
+
+  RETURN _rejected;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_zone_item_available(_menu_item_id UUID, _zone_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+BEGIN
+  SELECT tenant_id INTO _tenant_id FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF NOT can_manage_zone_stock(auth.uid(), _tenant_id) THEN
+    RAISE EXCEPTION 'Only station staff and managers can mark items back in stock';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM menu_items
+    WHERE id = _menu_item_id
+      AND tenant_id = _tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  UPDATE inventory_zone_allocations
+  SET is_available = true,
+      unavailable_at = NULL,
+      unavailable_by = NULL,
+      updated_at = now()
+  WHERE menu_item_id = _menu_item_id
+    AND zone_id = _zone_id;
+
+  -- An empty allocation would cap the zone at zero; drop it so the zone sells
+  -- from unallocated stock again, as it did before running out
+  DELETE FROM inventory_zone_allocations
+  WHERE menu_item_id = _menu_item_id
+    AND zone_id = _zone_id
+    AND allocated_quantity = 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_manage_zone_stock(UUID, UUID) TO authenticated;
@@ -0,0 +1,144 @@
+-- The balance is what is still owed after money received and refunded. A
+-- return lowers the order total, so refunding it brings the balance back to
+-- zero instead of leaving the order overpaid.
+CREATE OR REPLACE FUNCTION public.get_order_remaining_balance(_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT total_amount FROM orders WHERE id = _order_id) - 
+    COALESCE((SELECT SUM(amount) FROM payments WHERE order_id = _order_id), 0),
+    0
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_order_payment_summary(_order_id UUID)
+RETURNS TABLE (
+  total_amount NUMERIC,
+  total_paid NUMERIC,
+  total_refunded NUMERIC,
+  remaining_balance NUMERIC,
+  payment_count INTEGER,
+  is_fully_paid BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    o.total_amount,
+    COALESCE(SUM(p.amount), 0) as total_paid,
+    COALESCE(-SUM(p.amount) FILTER (WHERE p.refund_of IS NOT NULL), 0) as total_refunded,
+    o.total_amount - COALESCE(SUM(p.amount), 0) as remaining_balance,
+    COUNT(p.id) FILTER (WHERE p.refund_of IS NULL)::INTEGER as payment_count,
+    (o.total_amount - COALESCE(SUM(p.amount), 0)) <= 0 as is_fully_paid
+  FROM orders o
+  LEFT JOIN payments p ON p.order_id = o.id
+  WHERE o.id = _order_id
+  GROUP BY o.id, o.total_amount;
+$$;
+
+-- Lock the refunded payment so concurrent refunds cannot both pass the
+-- refundable check
+CREATE OR REPLACE FUNCTION public.issue_refund(
+  _payment_id UUID,
+  _amount NUMERIC,
+  _reason TEXT,
+  _order_return_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment RECORD;
+  _order RECORD;
+  _refundable NUMERIC;
+  _refund_id UUID;
+BEGIN
+  SELECT * INTO _payment FROM payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _payment.refund_of IS NOT NULL THEN
+    RAISE EXCEPTION 'A refund cannot be refunded';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), _payment.tenant_id, 'cashier'::app_role)
+    OR has_role(auth.uid(), _payment.tenant_id, 'tenant_admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only cashiers and admins can issue refunds';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  -- What is left of the payment after earlier refunds
+  SELECT _payment.amount + COALESCE(SUM(amount), 0) INTO _refundable
+  FROM payments
+  WHERE refund_of = _payment_id;
+
+  IF _amount IS NULL OR _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Refund must be between 0 and %', _refundable;
+  END IF;
+
+  SELECT id, order_number, event_id INTO _order FROM orders WHERE id = _payment.order_id;
+
+  IF _order_return_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1
+      FROM order_returns r
+      JOIN order_items oi ON oi.id = r.order_item_id
+      WHERE r.id = _order_return_id AND oi.order_id = _payment.order_id
+    ) THEN
+      RAISE EXCEPTION 'Return does not belong to this order';
+    END IF;
+
+    UPDATE order_returns
+    SET refund_amount = COALESCE(refund_amount, 0) + _amount
+    WHERE id = _order_return_id;
+  END IF;
+
+  INSERT INTO payments (
+    tenant_id, order_id, amount, payment_method, confirmed_by, notes,
+    payment_status, refund_of, order_return_id
+  )
+  VALUES (
+    _payment.tenant_id, _payment.order_id, -_amount, _payment.payment_method, auth.uid(), TRIM(_reason),
+    'refund', _payment_id, _order_return_id
+  )
+  RETURNING id INTO _refund_id;
+
+  INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+  VALUES (
+    _payment.tenant_id,
+    auth.uid(),
+    'payment_refund',
+    'payment',
+    _refund_id,
+    jsonb_build_object(
+      'event_id', _order.event_id,
+      'order_id', _order.id,
+      'order_number', _order.order_number,
+      'payment_id', _payment_id,
+      'payment_method', _payment.payment_method,
+      'amount', _amount,
+      'reason', TRIM(_reason),
+      'order_return_id', _order_return_id
+    )
+  );
+
+  RETURN _refund_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_refund(UUID, NUMERIC, TEXT, UUID) TO authenticated;
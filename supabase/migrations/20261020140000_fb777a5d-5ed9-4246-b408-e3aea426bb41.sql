@@ -0,0 +1,90 @@
+-- Accept the substitute suggested for a rejected item: adds it to the same
+-- order as its next course through insert_order_items, so it is priced and
+-- checked like any other item (event menu, availability, required options,
+-- zone stock), and recalculates the order charges.
+-- Returns the new order item id.
+CREATE OR REPLACE FUNCTION public.accept_substitute(_order_item_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _item RECORD;
+  _course_number INTEGER;
+  _new_item_id UUID;
+BEGIN
+  SELECT oi.id, oi.quantity, oi.status, oi.tenant_id, o.id AS order_id, o.waiter_id,
+         o.status AS order_status, mi.name,
+         s.id AS substitution_id, s.menu_item_id AS substitute_id, s.substitute_order_item_id
+  INTO _item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN order_item_substitutions s ON s.order_item_id = oi.id
+  WHERE oi.id = _order_item_id
+  FOR UPDATE OF oi, o;
+
+  IF NOT FOUND OR _item.tenant_id <> get_user_tenant(_user_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF _item.waiter_id <> _user_id
+     AND NOT has_role(_user_id, _item.tenant_id, 'tenant_admin'::app_role)
+     AND NOT has_role(_user_id, _item.tenant_id, 'event_manager'::app_role) THEN
+    RAISE EXCEPTION 'Only the waiter who took the order can accept a substitute';
+  END IF;
+
+  IF _item.status <> 'rejected' OR _item.substitution_id IS NULL THEN
+    RAISE EXCEPTION 'No substitute was suggested for this item';
+  END IF;
+
+  IF _item.substitute_order_item_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The substitute has already been added';
+  END IF;
+
+  IF _item.order_status NOT IN ('pending', 'dispatched', 'ready', 'bumped', 'served') THEN
+    RAISE EXCEPTION 'Items can only be added to an open, unpaid order';
+  END IF;
+
+  SELECT COALESCE(MAX(oi.course_number), 0) + 1 INTO _course_number
+  FROM order_items oi
+  WHERE oi.order_id = _item.order_id;
+
+  PERFORM insert_order_items(
+    _item.order_id,
+    jsonb_build_array(jsonb_build_object(
+      'menu_item_id', _item.substitute_id,
+      'quantity', _item.quantity,
+      'notes', 'Substitute for ' || _item.name
+    )),
+    'pending',
+    _course_number
+  );
+
+  SELECT id INTO _new_item_id
+  FROM order_items
+  WHERE order_id = _item.order_id
+    AND course_number = _course_number;
+
+  UPDATE order_item_substitutions
+  SET substitute_order_item_id = _new_item_id,
+      accepted_by = _user_id,
+      accepted_at = now()
+  WHERE id = _item.substitution_id;
+
+  -- The order has something to prepare again
+  UPDATE orders
+  SET status = 'pending',
+      ready_at = NULL,
+      bumped_at = NULL,
+      served_at = NULL
+  WHERE id = _item.order_id
+    AND status IN ('ready', 'bumped', 'served');
+
+  PERFORM calculate_order_charges(_item.order_id);
+
+  RETURN _new_item_id;
+END;
+$$;
@@ -0,0 +1,510 @@
+-- Create approval_pin_attempts table
+-- Wrong manager PINs entered by each user. Five in 15 minutes locks the user
+-- out of PIN approvals until the oldest one ages out.
+-- No RLS policies: only resolve_manager_approval reads and writes it.
+CREATE TABLE public.approval_pin_attempts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for performance
+CREATE INDEX idx_approval_pin_attempts_user ON public.approval_pin_attempts(user_id, attempted_at);
+
+-- Enable RLS
+ALTER TABLE public.approval_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Set the approval PIN of a manager. Tenant admins can set any manager's PIN;
+-- managers can set their own. No two managers in a tenant share a PIN.
+CREATE OR REPLACE FUNCTION public.set_approval_pin(_user_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID := get_user_tenant(auth.uid());
+BEGIN
+  IF auth.uid() IS NULL OR _tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _user_id <> auth.uid() AND NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to set this PIN';
+  END IF;
+
+  IF NOT (has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)
+          OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)) THEN
+    RAISE EXCEPTION 'Approval PINs can only be set for managers';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  -- A PIN has to name one manager; serialise PIN changes in the tenant so two
+  -- managers cannot pick the same one at once
+  PERFORM pg_advisory_xact_lock(hashtext('approval_pins:' || _tenant_id::TEXT));
+
+  IF EXISTS (
+    SELECT 1 FROM approval_pins ap
+    WHERE ap.tenant_id = _tenant_id
+      AND ap.user_id <> _user_id
+      AND ap.pin_hash = extensions.crypt(_pin, ap.pin_hash)
+  ) THEN
+    RAISE EXCEPTION 'This PIN is already in use. Choose another';
+  END IF;
+
+  INSERT INTO approval_pins (user_id, tenant_id, pin_hash)
+  VALUES (_user_id, _tenant_id, extensions.crypt(_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, tenant_id = EXCLUDED.tenant_id;
+END;
+$$;
+
+-- Resolve who approves a discount, comp or void. Managers approve their own actions;
+-- everyone else needs the PIN of an active manager in the same tenant.
+-- A wrong PIN is recorded and returns NULL instead of raising, so the attempt
+-- is kept: callers return NULL to the client, which reports the wrong PIN.
+CREATE OR REPLACE FUNCTION public.resolve_manager_approval(_tenant_id UUID, _manager_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approvers UUID[];
+BEGIN
+  IF has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role)
+     OR has_role(auth.uid(), _tenant_id, 'event_manager'::app_role) THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF NULLIF(_manager_pin, '') IS NULL THEN
+    RAISE EXCEPTION 'Manager approval is required';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM approval_pin_attempts
+    WHERE user_id = auth.uid()
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Try again in 15 minutes';
+  END IF;
+
+  SELECT ARRAY_AGG(ap.user_id) INTO _approvers
+  FROM approval_pins ap
+  JOIN profiles p ON p.id = ap.user_id
+  WHERE ap.tenant_id = _tenant_id
+    AND COALESCE(p.is_active, true)
+    AND ap.pin_hash = extensions.crypt(_manager_pin, ap.pin_hash)
+    AND (has_role(ap.user_id, _tenant_id, 'tenant_admin'::app_role)
+         OR has_role(ap.user_id, _tenant_id, 'event_manager'::app_role));
+
+  IF _approvers IS NULL THEN
+    INSERT INTO approval_pin_attempts (tenant_id, user_id)
+    VALUES (_tenant_id, auth.uid());
+
+    RETURN NULL;
+  END IF;
+
+  -- Set before PINs had to be unique; the approver cannot be told apart
+  IF array_length(_approvers, 1) > 1 THEN
+    RAISE EXCEPTION 'This PIN belongs to more than one manager. Ask an admin to reset it';
+  END IF;
+
+  DELETE FROM approval_pin_attempts WHERE user_id = auth.uid();
+
+  RETURN _approvers[1];
+END;
+$$;
+
+-- Recalculate the discounts, tax and service charge lines of an order from its billable items
+-- (returned, rejected and voided items are excluded) and update orders.total_amount.
+-- Comps are applied first, then percentage and fixed discounts in the order they were given.
+-- An item discount only takes off what earlier ones left of the item, so it
+-- never stacks on a comp.
+-- Tax and service charge are calculated on the discounted amount. Returns the new order total.
+CREATE OR REPLACE FUNCTION public.calculate_order_charges(_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _settings RECORD;
+  _discount RECORD;
+  _subtotal NUMERIC;
+  _discounted NUMERIC;
+  _base NUMERIC;
+  _amount NUMERIC;
+  _ratio NUMERIC;
+  _added_charges NUMERIC;
+  _applied UUID[] := '{}';
+BEGIN
+  SELECT o.id, o.tenant_id, o.guest_count INTO _order
+  FROM orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND _order.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT t.tax_inclusive, t.service_charge_rate, t.service_charge_min_guests INTO _settings
+  FROM tenants t
+  WHERE t.id = _order.tenant_id;
+
+  DELETE FROM order_charges WHERE order_id = _order_id;
+
+  SELECT COALESCE(SUM(oi.price * oi.quantity), 0) INTO _subtotal
+  FROM order_items oi
+  WHERE oi.order_id = _order_id
+    AND oi.status NOT IN ('returned', 'rejected', 'voided');
+
+  -- Discounts never take the order below zero; an item discount is capped at the item price
+  _discounted := _subtotal;
+
+  FOR _discount IN
+    SELECT od.id, od.discount_type, od.value, od.order_item_id
+    FROM order_discounts od
+    WHERE od.order_id = _order_id
+    ORDER BY (od.discount_type = 'comp') DESC, od.created_at
+  LOOP
+    IF _discount.order_item_id IS NOT NULL THEN
+      -- Only what earlier discounts left of the item, so nothing stacks on a comp
+      SELECT COALESCE(SUM(oi.price * oi.quantity), 0) - COALESCE((
+        SELECT SUM(od.amount)
+        FROM order_discounts od
+        WHERE od.id = ANY(_applied)
+          AND od.order_item_id = _discount.order_item_id
+      ), 0) INTO _base
+      FROM order_items oi
+      WHERE oi.id = _discount.order_item_id
+        AND oi.status NOT IN ('returned', 'rejected', 'voided');
+    ELSE
+      _base := _discounted;
+    END IF;
+
+    _amount := CASE _discount.discount_type
+      WHEN 'comp' THEN _base
+      WHEN 'percentage' THEN ROUND(_base * _discount.value / 100, 2)
+      ELSE _discount.value
+    END;
+    _amount := GREATEST(LEAST(_amount, _base, _discounted), 0);
+    _discounted := _discounted - _amount;
+
+    UPDATE order_discounts SET amount = _amount WHERE id = _discount.id;
+    _applied := _applied || _discount.id;
+  END LOOP;
+
+  _ratio := CASE WHEN _subtotal > 0 THEN _discounted / _subtotal ELSE 0 END;
+
+  -- One tax line per rate, summed over the categories it applies to.
+  -- Inclusive tax is extracted from the price using the combined rate of the category.
+  WITH billable AS (
+    SELECT mi.category, SUM(oi.price * oi.quantity) * _ratio AS amount
+    FROM order_items oi
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    WHERE oi.order_id = _order_id
+      AND oi.status NOT IN ('returned', 'rejected', 'voided')
+    GROUP BY mi.category
+  ),
+  applicable AS (
+    SELECT b.category, b.amount, tr.name, tr.rate
+    FROM billable b
+    JOIN tax_rates tr
+      ON tr.tenant_id = _order.tenant_id
+     AND tr.is_active = true
+     AND (
+       tr.category = b.category
+       OR (
+         tr.category IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM tax_rates c
+           WHERE c.tenant_id = _order.tenant_id
+             AND c.is_active = true
+             AND c.category = b.category
+         )
+       )
+     )
+  ),
+  category_rates AS (
+    SELECT category, SUM(rate) AS total_rate
+    FROM applicable
+    GROUP BY category
+  )
+  INSERT INTO order_charges (order_id, tenant_id, charge_type, name, rate, amount, is_inclusive)
+  SELECT
+    _order_id,
+    _order.tenant_id,
+    'tax',
+    a.name,
+    a.rate,
+    ROUND(SUM(
+      CASE WHEN _settings.tax_inclusive
+        THEN a.amount * a.rate / (100 + cr.total_rate)
+        ELSE a.amount * a.rate / 100
+      END
+    ), 2),
+    _settings.tax_inclusive
+  FROM applicable a
+  JOIN category_rates cr ON cr.category = a.category
+  WHERE a.rate > 0
+  GROUP BY a.name, a.rate;
+
+  -- Automatic service charge for larger parties
+  IF _settings.service_charge_rate > 0
+     AND _discounted > 0
+     AND COALESCE(_order.guest_count, 1) >= _settings.service_charge_min_guests THEN
+    INSERT INTO order_charges (order_id, tenant_id, charge_type, name, rate, amount, is_inclusive)
+    VALUES (
+      _order_id,
+      _order.tenant_id,
+      'service_charge',
+      'Service charge',
+      _settings.service_charge_rate,
+      ROUND(_discounted * _settings.service_charge_rate / 100, 2),
+      false
+    );
+  END IF;
+
+  SELECT COALESCE(SUM(oc.amount), 0) INTO _added_charges
+  FROM order_charges oc
+  WHERE oc.order_id = _order_id
+    AND oc.is_inclusive = false;
+
+  UPDATE orders
+  SET total_amount = _discounted + _added_charges
+  WHERE id = _order_id;
+
+  RETURN _discounted + _added_charges;
+END;
+$$;
+
+-- Apply a discount or comp to an unpaid order and write it to the audit log.
+-- Cashiers and bar staff need a manager PIN; managers approve their own.
+-- Returns the new order total, or NULL when the manager PIN is wrong.
+CREATE OR REPLACE FUNCTION public.apply_order_discount(
+  _order_id UUID,
+  _discount_type public.discount_type,
+  _reason TEXT,
+  _value NUMERIC DEFAULT 0,
+  _order_item_id UUID DEFAULT NULL,
+  _manager_pin TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _order RECORD;
+  _item_name TEXT;
+  _approved_by UUID;
+  _discount_id UUID;
+  _amount NUMERIC;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'cashier'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)
+             OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)
+             OR has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to apply discounts';
+  END IF;
+
+  SELECT o.id, o.order_number, o.event_id, o.status INTO _order
+  FROM orders o
+  WHERE o.id = _order_id AND o.tenant_id = _tenant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'paid' THEN
+    RAISE EXCEPTION 'Discounts cannot be applied to paid orders';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF _order_item_id IS NOT NULL THEN
+    SELECT mi.name INTO _item_name
+    FROM order_items oi
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    WHERE oi.id = _order_item_id
+      AND oi.order_id = _order_id
+      AND oi.status NOT IN ('returned', 'rejected', 'voided');
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM order_discounts od
+      WHERE od.order_item_id = _order_item_id
+        AND od.discount_type = 'comp'
+    ) THEN
+      RAISE EXCEPTION '% is already comped', _item_name;
+    END IF;
+  ELSIF _discount_type = 'comp' THEN
+    RAISE EXCEPTION 'Choose the item to comp';
+  END IF;
+
+  IF _discount_type = 'percentage' AND (_value IS NULL OR _value <= 0 OR _value > 100) THEN
+    RAISE EXCEPTION 'Percentage must be between 0 and 100';
+  END IF;
+
+  IF _discount_type = 'fixed' AND (_value IS NULL OR _value <= 0) THEN
+    RAISE EXCEPTION 'Discount amount must be greater than zero';
+  END IF;
+
+  _approved_by := resolve_manager_approval(_tenant_id, _manager_pin);
+
+  IF _approved_by IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO order_discounts (
+    tenant_id, order_id, order_item_id, discount_type, value, reason, applied_by, approved_by
+  )
+  VALUES (
+    _tenant_id, _order_id, _order_item_id, _discount_type,
+    CASE WHEN _discount_type = 'comp' THEN 0 ELSE _value END,
+    trim(_reason), _user_id, _approved_by
+  )
+  RETURNING id INTO _discount_id;
+
+  _total := calculate_order_charges(_order_id);
+
+  SELECT od.amount INTO _amount FROM order_discounts od WHERE od.id = _discount_id;
+
+  INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+  VALUES (
+    _tenant_id,
+    _user_id,
+    CASE WHEN _discount_type = 'comp' THEN 'order_comp' ELSE 'order_discount' END,
+    'order',
+    _order_id,
+    jsonb_build_object(
+      'event_id', _order.event_id,
+      'order_number', _order.order_number,
+      'discount_id', _discount_id,
+      'discount_type', _discount_type,
+      'value', _value,
+      'amount', _amount,
+      'order_item_id', _order_item_id,
+      'item_name', _item_name,
+      'reason', trim(_reason),
+      'approved_by', _approved_by
+    )
+  );
+
+  RETURN _total;
+END;
+$$;
+
+-- Void a pending item (not yet started by the station) and write it to the audit log.
+-- Staff need a manager PIN; managers approve their own. Returns the new order
+-- total, or NULL when the manager PIN is wrong.
+CREATE OR REPLACE FUNCTION public.void_order_item(
+  _order_item_id UUID,
+  _reason TEXT,
+  _manager_pin TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _item RECORD;
+  _approved_by UUID;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'cashier'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)
+             OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)
+             OR has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to void items';
+  END IF;
+
+  SELECT oi.id, oi.order_id, oi.status, oi.quantity, oi.price, mi.name AS item_name,
+         o.order_number, o.event_id, o.status AS order_status
+  INTO _item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.id = _order_item_id AND oi.tenant_id = _tenant_id
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.status <> 'pending' OR _item.order_status = 'paid' THEN
+    RAISE EXCEPTION 'Only pending items can be voided';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  _approved_by := resolve_manager_approval(_tenant_id, _manager_pin);
+
+  IF _approved_by IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The item change trigger recalculates the order total
+  UPDATE order_items SET status = 'voided' WHERE id = _order_item_id;
+
+  INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+  VALUES (
+    _tenant_id,
+    _user_id,
+    'order_item_void',
+    'order_item',
+    _order_item_id,
+    jsonb_build_object(
+      'event_id', _item.event_id,
+      'order_id', _item.order_id,
+      'order_number', _item.order_number,
+      'item_name', _item.item_name,
+      'quantity', _item.quantity,
+      'amount', _item.price * _item.quantity,
+      'reason', trim(_reason),
+      'approved_by', _approved_by
+    )
+  );
+
+  SELECT o.total_amount INTO _total FROM orders o WHERE o.id = _item.order_id;
+
+  RETURN _total;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Items added straight as served (bar orders, served rounds) deplete stock too
+CREATE OR REPLACE FUNCTION public.decrement_inventory_on_served()
+RETURNS TRIGGER AS $$
+DECLARE
+  _zone_id uuid;
+  _event_id uuid;
+BEGIN
+  -- Only process items inserted as 'served' or whose status changed to 'served'
+  IF NEW.status = 'served' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'served') THEN
+    -- Get the zone_id and event_id from the order's table
+    SELECT t.zone_id, o.event_id INTO _zone_id, _event_id
+    FROM orders o
+    LEFT JOIN tables t ON t.id = o.table_id
+    WHERE o.id = NEW.order_id;
+
+    -- Decrement global inventory (menu_items.current_inventory)
+    UPDATE menu_items
+    SET current_inventory = GREATEST(0, current_inventory - NEW.quantity)
+    WHERE id = NEW.menu_item_id;
+
+    -- Decrement zone allocation if zone exists
+    IF _zone_id IS NOT NULL AND _event_id IS NOT NULL THEN
+      UPDATE inventory_zone_allocations
+      SET allocated_quantity = GREATEST(0, allocated_quantity - NEW.quantity),
+          updated_at = now()
+      WHERE menu_item_id = NEW.menu_item_id
+        AND zone_id = _zone_id
+        AND event_id = _event_id;
+    END IF;
+
+    -- Deplete the ingredients in the item's recipe
+    UPDATE ingredients i
+    SET current_stock = GREATEST(0, i.current_stock - r.quantity * NEW.quantity)
+    FROM recipe_items r
+    WHERE r.menu_item_id = NEW.menu_item_id
+      AND i.id = r.ingredient_id;
+
+    UPDATE menu_items m
+    SET is_available = false
+    WHERE m.is_available = true
+      AND EXISTS (
+        SELECT 1
+        FROM recipe_items r
+        JOIN ingredients i ON i.id = r.ingredient_id
+        WHERE r.menu_item_id = m.id
+          AND i.current_stock < r.quantity
+          AND r.ingredient_id IN (
+            SELECT ingredient_id FROM recipe_items WHERE menu_item_id = NEW.menu_item_id
+          )
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS decrement_inventory_on_served_trigger ON order_items;
+CREATE TRIGGER decrement_inventory_on_served_trigger
+  AFTER INSERT OR UPDATE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.decrement_inventory_on_served();
@@ -0,0 +1,34 @@
+-- Open a tab when a table is seated; close it when the table is cleared. A
+-- table whose tab still has unpaid orders cannot be cleared, so the next
+-- seating never joins the previous guests' tab.
+CREATE OR REPLACE FUNCTION public.sync_table_tab()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'occupied' AND OLD.status <> 'occupied' THEN
+    PERFORM open_table_tab(NEW.id);
+  ELSIF NEW.status = 'available' AND OLD.status <> 'available' THEN
+    IF EXISTS (
+      SELECT 1
+      FROM table_tabs tt
+      JOIN orders o ON o.tab_id = tt.id
+      WHERE tt.table_id = NEW.id
+        AND tt.status = 'open'
+        AND o.status IN ('pending', 'dispatched', 'ready', 'bumped', 'served')
+    ) THEN
+      RAISE EXCEPTION 'This table has an open tab. Settle it at the cashier first';
+    END IF;
+
+    UPDATE table_tabs
+    SET status = 'closed',
+        closed_at = now()
+    WHERE table_id = NEW.id
+      AND status = 'open';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
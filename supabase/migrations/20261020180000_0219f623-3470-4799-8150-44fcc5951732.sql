@@ -0,0 +1,113 @@
+-- Recalculate a 'received' cost: the weighted average paid per unit when the
+-- item itself is bought in, otherwise the cost of its recipe once every
+-- ingredient has been received at least once. Only called by the cost
+-- triggers and refresh_menu_item_cost.
+CREATE OR REPLACE FUNCTION public.recalculate_menu_item_cost(_menu_item_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _cost NUMERIC;
+BEGIN
+  SELECT id, cost_price, cost_source INTO _item FROM menu_items WHERE id = _menu_item_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _item.cost_source = 'manual' THEN
+    RETURN _item.cost_price;
+  END IF;
+
+  SELECT SUM(unit_cost * quantity) / NULLIF(SUM(stock_quantity), 0)
+  INTO _cost
+  FROM stock_receipts
+  WHERE menu_item_id = _menu_item_id;
+
+  IF _cost IS NULL THEN
+    SELECT CASE WHEN bool_and(ic.unit_cost IS NOT NULL) THEN SUM(ri.quantity * ic.unit_cost) END
+    INTO _cost
+    FROM recipe_items ri
+    LEFT JOIN (
+      SELECT ingredient_id, SUM(unit_cost * quantity) / NULLIF(SUM(stock_quantity), 0) AS unit_cost
+      FROM stock_receipts
+      WHERE ingredient_id IS NOT NULL
+      GROUP BY ingredient_id
+    ) ic ON ic.ingredient_id = ri.ingredient_id
+    WHERE ri.menu_item_id = _menu_item_id;
+  END IF;
+
+  UPDATE menu_items
+  SET cost_price = ROUND(_cost, 2)
+  WHERE id = _menu_item_id
+    AND cost_price IS DISTINCT FROM ROUND(_cost, 2);
+
+  RETURN ROUND(_cost, 2);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_menu_item_cost(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Recalculate a menu item's received cost on request from the menu admin
+CREATE OR REPLACE FUNCTION public.refresh_menu_item_cost(_menu_item_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID;
+BEGIN
+  SELECT tenant_id INTO _tenant_id FROM menu_items WHERE id = _menu_item_id;
+
+  IF NOT FOUND OR _tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can refresh menu item costs';
+  END IF;
+
+  RETURN recalculate_menu_item_cost(_menu_item_id);
+END;
+$$;
+
+-- Keep received costs current as deliveries come in
+CREATE OR REPLACE FUNCTION public.refresh_costs_on_stock_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _menu_item_id UUID;
+BEGIN
+  IF NEW.menu_item_id IS NOT NULL THEN
+    PERFORM recalculate_menu_item_cost(NEW.menu_item_id);
+  ELSE
+    FOR _menu_item_id IN
+      SELECT menu_item_id FROM recipe_items WHERE ingredient_id = NEW.ingredient_id
+    LOOP
+      PERFORM recalculate_menu_item_cost(_menu_item_id);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ...and when a recipe changes
+CREATE OR REPLACE FUNCTION public.refresh_costs_on_recipe_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM recalculate_menu_item_cost(COALESCE(NEW.menu_item_id, OLD.menu_item_id));
+  RETURN NULL;
+END;
+$$;
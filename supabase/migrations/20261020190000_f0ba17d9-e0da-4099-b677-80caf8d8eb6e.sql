@@ -0,0 +1,43 @@
+-- Refunds are only issued on paid orders, whose total is no longer
+-- recalculated, so the balance is based on money received and refunds are
+-- reported separately. A refunded order stays settled.
+CREATE OR REPLACE FUNCTION public.get_order_remaining_balance(_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT total_amount FROM orders WHERE id = _order_id) - 
+    COALESCE((SELECT SUM(amount) FROM payments WHERE order_id = _order_id AND refund_of IS NULL), 0),
+    0
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_order_payment_summary(_order_id UUID)
+RETURNS TABLE (
+  total_amount NUMERIC,
+  total_paid NUMERIC,
+  total_refunded NUMERIC,
+  remaining_balance NUMERIC,
+  payment_count INTEGER,
+  is_fully_paid BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    o.total_amount,
+    COALESCE(SUM(p.amount), 0) as total_paid,
+    COALESCE(-SUM(p.amount) FILTER (WHERE p.refund_of IS NOT NULL), 0) as total_refunded,
+    o.total_amount - COALESCE(SUM(p.amount) FILTER (WHERE p.refund_of IS NULL), 0) as remaining_balance,
+    COUNT(p.id) FILTER (WHERE p.refund_of IS NULL)::INTEGER as payment_count,
+    (o.total_amount - COALESCE(SUM(p.amount) FILTER (WHERE p.refund_of IS NULL), 0)) <= 0 as is_fully_paid
+  FROM orders o
+  LEFT JOIN payments p ON p.order_id = o.id
+  WHERE o.id = _order_id
+  GROUP BY o.id, o.total_amount;
+$$;
@@ -0,0 +1,346 @@
+-- Staff approvals name the approving manager and give that manager's PIN,
+-- so PINs no longer need to be unique and setting one reveals nothing about
+-- anyone else's.
+CREATE OR REPLACE FUNCTION public.set_approval_pin(_user_id UUID, _pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tenant_id UUID := get_user_tenant(auth.uid());
+BEGIN
+  IF auth.uid() IS NULL OR _tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _user_id <> auth.uid() AND NOT has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role) THEN
+    RAISE EXCEPTION 'You do not have permission to set this PIN';
+  END IF;
+
+  IF NOT (has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)
+          OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)) THEN
+    RAISE EXCEPTION 'Approval PINs can only be set for managers';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  INSERT INTO approval_pins (user_id, tenant_id, pin_hash)
+  VALUES (_user_id, _tenant_id, extensions.crypt(_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, tenant_id = EXCLUDED.tenant_id;
+END;
+$$;
+
+-- Managers in the caller's tenant who can approve with a PIN
+CREATE OR REPLACE FUNCTION public.get_approval_managers()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ap.user_id, p.full_name
+  FROM approval_pins ap
+  JOIN profiles p ON p.id = ap.user_id
+  WHERE ap.tenant_id = get_user_tenant(auth.uid())
+    AND COALESCE(p.is_active, true)
+    AND (has_role(ap.user_id, ap.tenant_id, 'tenant_admin'::app_role)
+         OR has_role(ap.user_id, ap.tenant_id, 'event_manager'::app_role))
+  ORDER BY p.full_name;
+$$;
+
+DROP FUNCTION IF EXISTS public.apply_order_discount(UUID, public.discount_type, TEXT, NUMERIC, UUID, TEXT);
+DROP FUNCTION IF EXISTS public.void_order_item(UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.resolve_manager_approval(UUID, TEXT);
+
+-- Resolve who approves a discount, comp or void. Managers approve their own actions;
+-- everyone else names an active manager in the same tenant and gives their PIN.
+-- A wrong PIN is recorded and returns NULL instead of raising, so the attempt
+-- is kept: callers return NULL to the client, which reports the wrong PIN.
+CREATE OR REPLACE FUNCTION public.resolve_manager_approval(
+  _tenant_id UUID,
+  _manager_id UUID,
+  _manager_pin TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pin_matches BOOLEAN;
+BEGIN
+  IF has_role(auth.uid(), _tenant_id, 'tenant_admin'::app_role)
+     OR has_role(auth.uid(), _tenant_id, 'event_manager'::app_role) THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF _manager_id IS NULL OR NULLIF(_manager_pin, '') IS NULL THEN
+    RAISE EXCEPTION 'Manager approval is required';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM approval_pin_attempts
+    WHERE user_id = auth.uid()
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Try again in 15 minutes';
+  END IF;
+
+  SELECT ap.pin_hash = extensions.crypt(_manager_pin, ap.pin_hash) INTO _pin_matches
+  FROM approval_pins ap
+  JOIN profiles p ON p.id = ap.user_id
+  WHERE ap.user_id = _manager_id
+    AND ap.tenant_id = _tenant_id
+    AND COALESCE(p.is_active, true)
+    AND (has_role(ap.user_id, _tenant_id, 'tenant_admin'::app_role)
+         OR has_role(ap.user_id, _tenant_id, 'event_manager'::app_role));
+
+  IF NOT COALESCE(_pin_matches, false) THEN
+    INSERT INTO approval_pin_attempts (tenant_id, user_id)
+    VALUES (_tenant_id, auth.uid());
+
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM approval_pin_attempts WHERE user_id = auth.uid();
+
+  RETURN _manager_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_manager_approval(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Apply a discount or comp to an unpaid order and write it to the audit log.
+-- Cashiers and bar staff need the approving manager and their PIN; managers
+-- approve their own. Returns the new order total, or NULL when the PIN is wrong.
+CREATE OR REPLACE FUNCTION public.apply_order_discount(
+  _order_id UUID,
+  _discount_type public.discount_type,
+  _reason TEXT,
+  _value NUMERIC DEFAULT 0,
+  _order_item_id UUID DEFAULT NULL,
+  _manager_pin TEXT DEFAULT NULL,
+  _manager_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _order RECORD;
+  _item_name TEXT;
+  _approved_by UUID;
+  _discount_id UUID;
+  _amount NUMERIC;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'cashier'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)
+             OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)
+             OR has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to apply discounts';
+  END IF;
+
+  SELECT o.id, o.order_number, o.event_id, o.status INTO _order
+  FROM orders o
+  WHERE o.id = _order_id AND o.tenant_id = _tenant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'paid' THEN
+    RAISE EXCEPTION 'Discounts cannot be applied to paid orders';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF _order_item_id IS NOT NULL THEN
+    SELECT mi.name INTO _item_name
+    FROM order_items oi
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    WHERE oi.id = _order_item_id
+      AND oi.order_id = _order_id
+      AND oi.status NOT IN ('returned', 'rejected', 'voided');
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM order_discounts od
+      WHERE od.order_item_id = _order_item_id
+        AND od.discount_type = 'comp'
+    ) THEN
+      RAISE EXCEPTION '% is already comped', _item_name;
+    END IF;
+  ELSIF _discount_type = 'comp' THEN
+    RAISE EXCEPTION 'Choose the item to comp';
+  END IF;
+
+  IF _discount_type = 'percentage' AND (_value IS NULL OR _value <= 0 OR _value > 100) THEN
+    RAISE EXCEPTION 'Percentage must be between 0 and 100';
+  END IF;
+
+  IF _discount_type = 'fixed' AND (_value IS NULL OR _value <= 0) THEN
+    RAISE EXCEPTION 'Discount amount must be greater than zero';
+  END IF;
+
+  _approved_by := resolve_manager_approval(_tenant_id, _manager_id, _manager_pin);
+
+  IF _approved_by IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO order_discounts (
+    tenant_id, order_id, order_item_id, discount_type, value, reason, applied_by, approved_by
+  )
+  VALUES (
+    _tenant_id, _order_id, _order_item_id, _discount_type,
+    CASE WHEN _discount_type = 'comp' THEN 0 ELSE _value END,
+    trim(_reason), _user_id, _approved_by
+  )
+  RETURNING id INTO _discount_id;
+
+  _total := calculate_order_charges(_order_id);
+
+  SELECT od.amount INTO _amount FROM order_discounts od WHERE od.id = _discount_id;
+
+  INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+  VALUES (
+    _tenant_id,
+    _user_id,
+    CASE WHEN _discount_type = 'comp' THEN 'order_comp' ELSE 'order_discount' END,
+    'order',
+    _order_id,
+    jsonb_build_object(
+      'event_id', _order.event_id,
+      'order_number', _order.order_number,
+      'discount_id', _discount_id,
+      'discount_type', _discount_type,
+      'value', _value,
+      'amount', _amount,
+      'order_item_id', _order_item_id,
+      'item_name', _item_name,
+      'reason', trim(_reason),
+      'approved_by', _approved_by
+    )
+  );
+
+  RETURN _total;
+END;
+$$;
+
+-- Void a pending item (not yet started by the station) and write it to the audit log.
+-- Staff need the approving manager and their PIN; managers approve their own.
+-- Returns the new order total, or NULL when the PIN is wrong.
+CREATE OR REPLACE FUNCTION public.void_order_item(
+  _order_item_id UUID,
+  _reason TEXT,
+  _manager_pin TEXT DEFAULT NULL,
+  _manager_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _tenant_id UUID;
+  _item RECORD;
+  _approved_by UUID;
+  _total NUMERIC;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _tenant_id := get_user_tenant(_user_id);
+
+  IF _tenant_id IS NULL
+     OR NOT (has_role(_user_id, _tenant_id, 'waiter'::app_role)
+             OR has_role(_user_id, _tenant_id, 'cashier'::app_role)
+             OR has_role(_user_id, _tenant_id, 'bar_staff'::app_role)
+             OR has_role(_user_id, _tenant_id, 'event_manager'::app_role)
+             OR has_role(_user_id, _tenant_id, 'tenant_admin'::app_role)) THEN
+    RAISE EXCEPTION 'You do not have permission to void items';
+  END IF;
+
+  SELECT oi.id, oi.order_id, oi.status, oi.quantity, oi.price, mi.name AS item_name,
+         o.order_number, o.event_id, o.status AS order_status
+  INTO _item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.id = _order_item_id AND oi.tenant_id = _tenant_id
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _item.status <> 'pending' OR _item.order_status = 'paid' THEN
+    RAISE EXCEPTION 'Only pending items can be voided';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  _approved_by := resolve_manager_approval(_tenant_id, _manager_id, _manager_pin);
+
+  IF _approved_by IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The item change trigger recalculates the order total
+  UPDATE order_items SET status = 'voided' WHERE id = _order_item_id;
+
+  INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+  VALUES (
+    _tenant_id,
+    _user_id,
+    'order_item_void',
+    'order_item',
+    _order_item_id,
+    jsonb_build_object(
+      'event_id', _item.event_id,
+      'order_id', _item.order_id,
+      'order_number', _item.order_number,
+      'item_name', _item.item_name,
+      'quantity', _item.quantity,
+      'amount', _item.price * _item.quantity,
+      'reason', trim(_reason),
+      'approved_by', _approved_by
+    )
+  );
+
+  SELECT o.total_amount INTO _total FROM orders o WHERE o.id = _item.order_id;
+
+  RETURN _total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_approval_managers() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_order_discount(UUID, public.discount_type, TEXT, NUMERIC, UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.void_order_item(UUID, TEXT, TEXT, UUID) TO authenticated;
@@ -0,0 +1,35 @@
+-- Dispatching always names who claimed the item, whichever screen did it.
+-- Only the person who claimed an item, or a manager, marks it ready; marking
+-- an unclaimed item ready claims it. The claim is never overwritten, so queues
+-- and prep time breaches stay with the right person. Paired kitchen screens
+-- have no user and are not checked.
+CREATE OR REPLACE FUNCTION public.stamp_order_item_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'dispatched' AND OLD.status <> 'dispatched'
+     AND NEW.assigned_to IS NULL AND auth.uid() IS NOT NULL THEN
+    NEW.assigned_to := auth.uid();
+    NEW.assigned_at := now();
+  END IF;
+
+  IF NEW.status = 'ready' AND OLD.status IN ('pending', 'dispatched') AND auth.uid() IS NOT NULL THEN
+    IF OLD.assigned_to IS NULL THEN
+      NEW.assigned_to := auth.uid();
+      NEW.assigned_at := now();
+    ELSIF OLD.assigned_to <> auth.uid()
+          AND NOT has_role(auth.uid(), NEW.tenant_id, 'tenant_admin'::app_role)
+          AND NOT has_role(auth.uid(), NEW.tenant_id, 'event_manager'::app_role) THEN
+      RAISE EXCEPTION 'Only the person who claimed this item can mark it ready';
+    ELSE
+      NEW.assigned_to := OLD.assigned_to;
+      NEW.assigned_at := OLD.assigned_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
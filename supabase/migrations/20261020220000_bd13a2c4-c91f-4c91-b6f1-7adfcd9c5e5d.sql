@@ -0,0 +1,78 @@
+-- Clock in against the roster shift currently running, falling back to the
+-- assigned event and zones when the staff member is not rostered. Without a
+-- shift, the chosen role has to be one of the user's roles.
+CREATE OR REPLACE FUNCTION public.clock_in(_role app_role DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile RECORD;
+  _shift RECORD;
+  _event_id UUID;
+  _zone_ids UUID[];
+  _entry_id UUID;
+BEGIN
+  SELECT * INTO _profile FROM profiles WHERE id = auth.uid();
+
+  IF NOT FOUND OR _profile.tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM time_entries WHERE user_id = auth.uid() AND clock_out IS NULL) THEN
+    RAISE EXCEPTION 'Already clocked in';
+  END IF;
+
+  SELECT * INTO _shift
+  FROM roster_shifts
+  WHERE user_id = auth.uid()
+    AND starts_at <= now()
+    AND ends_at > now()
+  LIMIT 1;
+
+  IF FOUND THEN
+    INSERT INTO time_entries (tenant_id, user_id, event_id, role, zone_ids)
+    VALUES (
+      _profile.tenant_id,
+      auth.uid(),
+      _shift.event_id,
+      _shift.role,
+      CASE WHEN _shift.zone_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[_shift.zone_id] END
+    )
+    RETURNING id INTO _entry_id;
+
+    RETURN _entry_id;
+  END IF;
+
+  -- Station tickets are dealt by the clocked-in role, so it must be one the user holds
+  IF _role IS NOT NULL AND NOT has_role(auth.uid(), _profile.tenant_id, _role) THEN
+    RAISE EXCEPTION 'You do not have the % role', _role;
+  END IF;
+
+  _event_id := _profile.event_id;
+
+  IF _event_id IS NULL THEN
+    SELECT id INTO _event_id
+    FROM events
+    WHERE tenant_id = _profile.tenant_id AND is_active = true
+    ORDER BY event_date DESC
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT zone_id), '{}') INTO _zone_ids
+  FROM zone_role_assignments
+  WHERE user_id = auth.uid()
+    AND (_role IS NULL OR role = _role);
+
+  IF cardinality(_zone_ids) = 0 AND _profile.zone_id IS NOT NULL THEN
+    _zone_ids := ARRAY[_profile.zone_id];
+  END IF;
+
+  INSERT INTO time_entries (tenant_id, user_id, event_id, role, zone_ids)
+  VALUES (_profile.tenant_id, auth.uid(), _event_id, _role, _zone_ids)
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Raise a restock request from a station, for a menu item on the zone's event
+CREATE OR REPLACE FUNCTION public.request_restock(
+  _menu_item_id UUID,
+  _zone_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone RECORD;
+  _request_id UUID;
+BEGIN
+  SELECT id, tenant_id, event_id INTO _zone FROM zones WHERE id = _zone_id;
+
+  IF NOT FOUND OR _zone.tenant_id <> get_user_tenant(auth.uid()) THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM menu_items
+    WHERE id = _menu_item_id
+      AND tenant_id = _zone.tenant_id
+      AND (event_id = _zone.event_id OR event_id IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM restock_requests
+    WHERE menu_item_id = _menu_item_id
+      AND zone_id = _zone_id
+      AND status IN ('pending', 'acknowledged')
+  ) THEN
+    RAISE EXCEPTION 'A restock request for this item is already open';
+  END IF;
+
+  INSERT INTO restock_requests (tenant_id, event_id, zone_id, menu_item_id, quantity_requested, notes, requested_by)
+  VALUES (_zone.tenant_id, _zone.event_id, _zone_id, _menu_item_id, _quantity, NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id INTO _request_id;
+
+  RETURN _request_id;
+END;
+$$;